@@ -0,0 +1,72 @@
+/**
+ * The Discord client that calls the webhook URLs it is given.
+ *
+ * The URLs come from the environment, so pointing them at a local server is enough to fake
+ * Discord.
+ */
+
+import DiscordClient, {DiscordError, DiscordMessage} from "../types/discord";
+
+/**
+ * Throw the error Discord responded with, unless the response was successful.
+ *
+ * @param {Response} response the response from Discord
+ */
+const throwIfRefused = async (response: Response): Promise<void> => {
+  if (!response.ok) {
+    throw new DiscordError(response.status, await response.text());
+  }
+};
+
+/**
+ * A {@link DiscordClient} that sends requests straight to Discord's webhook API.
+ */
+export default class WebhookDiscordClient implements DiscordClient {
+  /**
+   * @param {string} webhookUrl the URL of the webhook
+   * @param {DiscordMessage} message the message
+   * @returns {Promise<string>} the ID of the new message
+   */
+  async createMessage(webhookUrl: string, message: DiscordMessage): Promise<string> {
+    // Without waiting, Discord doesn't respond with the message, so its ID would be unknown.
+
+    const response: Response = await fetch(`${webhookUrl}?wait=true`, {
+      method: "POST",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify(message),
+    });
+
+    await throwIfRefused(response);
+
+    return (await response.json<Record<string, string>>())["id"];
+  }
+
+  /**
+   * @param {string} webhookUrl the URL of the webhook
+   * @param {string} messageId the ID of the message
+   * @param {DiscordMessage} message the new message
+   */
+  async editMessage(
+    webhookUrl: string, messageId: string, message: DiscordMessage,
+  ): Promise<void> {
+    await throwIfRefused(await fetch(`${webhookUrl}/messages/${messageId}`, {
+      method: "PATCH",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify(message),
+    }));
+  }
+
+  /**
+   * @param {string} webhookUrl the URL of the webhook
+   * @param {string} messageId the ID of the message
+   */
+  async deleteMessage(webhookUrl: string, messageId: string): Promise<void> {
+    const response: Response = await fetch(`${webhookUrl}/messages/${messageId}`, {
+      method: "DELETE",
+    });
+
+    if (response.status !== 404) {
+      await throwIfRefused(response);
+    }
+  }
+}
@@ -18,6 +18,13 @@ export const WORKS_WITH_ARTIST_INDEX = "works/by-artist";
  */
 export const WORKS_WITH_WEEK_INDEX = "works/by-year-week";
 
+/**
+ * A key for a map of works indexed by normalised tag.
+ *
+ * E.g., `works/by-tag/pixel-art` returns a map of work IDs to a single work each.
+ */
+export const WORKS_WITH_TAG_INDEX = "works/by-tag";
+
 /**
  * A key for a map of works indexed by ID.
  *
@@ -49,3 +56,80 @@ export const WEEKS = "weeks";
  * E.g., `artists/2022` returns the artists in 2022. `artists/123...890` is for a single artist.
  */
 export const ARTISTS = "artists";
+
+/**
+ * A key for the registry of artist names.
+ *
+ * Like weeks, this is always retrieved as an aggregate. It maps normalised names to the claims on
+ * them, including names that artists have renamed away from.
+ */
+export const ARTISTS_WITH_NAME_INDEX = "artists/by-name";
+
+/**
+ * A key for the seasons map.
+ *
+ * Like weeks, this is always retrieved as an aggregate. It maps years to seasons.
+ */
+export const SEASONS = "seasons";
+
+/**
+ * A key for the roles map.
+ *
+ * It maps user IDs to explicitly granted roles. Users not in the map have the default role.
+ */
+export const ROLES = "roles";
+
+/**
+ * A key for a shard of the search index, sharded by the first two characters of each token.
+ *
+ * E.g., `search/by-prefix/de` returns a map of tokens starting with "de" to a map of work IDs to
+ * the weight of that token in the work.
+ */
+export const SEARCH_WITH_PREFIX_INDEX = "search/by-prefix";
+
+/**
+ * A key for the tokens a single work is indexed under.
+ *
+ * E.g., `search/by-work/ABCDE` returns a map of tokens to weights. It is used to remove the old
+ * tokens of a work when it changes.
+ */
+export const SEARCH_WITH_WORK_INDEX = "search/by-work";
+
+/**
+ * A key for a single audit entry.
+ *
+ * E.g., `audit/<id>` returns one entry. Each key also has the actor, action and timestamp as
+ * metadata so the log can be listed and filtered without reading every entry.
+ */
+export const AUDIT = "audit";
+
+/**
+ * A key for a single revision of a work.
+ *
+ * E.g., `revisions/ABCDE/<id>` returns one revision. Like audit entries, each key has the header
+ * of the revision as metadata so the revisions of a work can be listed without reading them.
+ */
+export const REVISIONS = "revisions";
+
+/**
+ * A key for the comments on a single work.
+ *
+ * Like weeks, this is always retrieved as an aggregate. E.g., `comments/ABCDE` maps the IDs of
+ * the comments on the work, including replies, to the comments.
+ */
+export const COMMENTS = "comments";
+
+/**
+ * A key for the reactions of a single user.
+ *
+ * Like weeks, this is always retrieved as an aggregate. E.g., `reactions/123...890` maps the IDs
+ * of the works the user reacted to or favourited to their reactions.
+ */
+export const REACTIONS = "reactions";
+
+/**
+ * A key for the outbox of pending Discord deliveries.
+ *
+ * Like weeks, this is always retrieved as an aggregate. It maps idempotency keys to deliveries.
+ */
+export const DELIVERIES = "deliveries";
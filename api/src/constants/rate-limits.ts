@@ -0,0 +1,38 @@
+/**
+ * The rate limits of mutating endpoints that anyone can call.
+ *
+ * Endpoints only available to staff aren't rate limited. Each limit is counted separately per
+ * caller and per route.
+ */
+
+import {RateLimit} from "../storage/rate-limits";
+
+/**
+ * Editing a profile, which is the most aggressive rate limit as names are public.
+ */
+export const ARTIST_EDITS_RATE_LIMIT: RateLimit = {limit: 8, windowSeconds: 30 * 60};
+
+/**
+ * Creating or editing a work.
+ */
+export const WORK_EDITS_RATE_LIMIT: RateLimit = {limit: 2, windowSeconds: 60};
+
+/**
+ * Requesting an upload URL. A single work can upload several files plus its thumbnails.
+ */
+export const UPLOADS_RATE_LIMIT: RateLimit = {limit: 30, windowSeconds: 10 * 60};
+
+/**
+ * Reacting to or favouriting a work, which is generous as each click is a request.
+ */
+export const REACTIONS_RATE_LIMIT: RateLimit = {limit: 60, windowSeconds: 60};
+
+/**
+ * Writing, editing or deleting a comment.
+ */
+export const COMMENTS_RATE_LIMIT: RateLimit = {limit: 6, windowSeconds: 60};
+
+/**
+ * Inviting an artist to be credited on a work, taking one off, or answering an invitation.
+ */
+export const COLLABORATORS_RATE_LIMIT: RateLimit = {limit: 10, windowSeconds: 60};
@@ -1,65 +1,17 @@
 import {createRemoteJWKSet, FlattenedJWSInput, JWSHeaderParameters, jwtVerify} from "jose";
 import {GetKeyFunction} from "jose/dist/types/types";
-import {getArtists, putArtist} from "./services/artists";
-import {getWeeks, putWeeks} from "./services/weeks";
-import {deleteWork, getWork, getWorks, postApprove, postUpload, putWork} from "./services/works";
+import ROUTES from "./routes";
+import {scheduleDeliveries} from "./services/deliveries";
+import {scheduleReindex} from "./services/reindex";
+import {schedulePublishing} from "./services/weeks";
 import Environment from "./types/environment";
-import {createNotFoundResponse, generateCorsHeaders} from "./utils/http";
+import {generateCorsHeaders} from "./utils/http";
+import {routeRequest} from "./utils/router";
 
 /**
- * Handle an API request.
- *
- * @param {Environment} env the workers environment
- * @param {string} method the method name
- * @param {string} routine the routine name
- * @param {URLSearchParams} params the URL parameters
- * @param {Request} request the request
- * @param {string | undefined} identifier if provided, the recognised ID of the calling user
- * @returns {Promise<Response>} the response
+ * The schedule on which the indexes of works are checked and rebuilt, as set in the triggers.
  */
-const handleRequest = async (
-  env: Environment,
-  method: string,
-  routine: string,
-  params: URLSearchParams,
-  request: Request,
-  identifier?: string,
-): Promise<Response> => {
-  if (!env.REFRESH_KV) {
-    return new Response(JSON.stringify({
-      "message": "Server is undergoing maintenance. Please try again in 10 seconds.",
-      "details": null,
-      "_original": [],
-    }), {status: 503});
-  }
-
-  switch (`${method.toLowerCase()}/${routine.toLowerCase()}`) {
-    case ("get/weeks"):
-      return getWeeks(env, identifier);
-    case ("get/artists"):
-      return getArtists(env);
-    case ("get/works"):
-      return getWorks(env, params, identifier);
-    case ("get/work"):
-      // Note the slight spelling difference: "s".
-
-      return getWork(env, params);
-    case ("put/weeks"):
-      return putWeeks(env, request, identifier);
-    case ("put/artist"):
-      return putArtist(env, request, identifier);
-    case ("put/work"):
-      return putWork(env, request, identifier);
-    case ("post/upload"):
-      return postUpload(env, request, identifier);
-    case ("post/approve"):
-      return postApprove(env, request, identifier);
-    case ("delete/work"):
-      return deleteWork(env, request, identifier);
-  }
-
-  return createNotFoundResponse();
-};
+const REINDEX_CRON = "0 16 * * *";
 
 /**
  * Handle a JWT and return an auth identifier.
@@ -124,25 +76,19 @@ const worker = {
 
       const identifier: string | undefined = await handleJwt(jwt, env.AUDIENCE, env.JWKS_URL);
 
-      // If it's a normal request, check the URL and handle normally.
+      // Before doing any other work, check that the backend is available at all.
 
-      const url = new URL(request.url);
-      const pathParts: string[] = url.pathname.split("/").filter(
-        (part: string) => part && part !== "api"
-      );
-
-      if (pathParts.length === 0) {
-        return createNotFoundResponse();
+      if (!env.REFRESH_KV) {
+        return new Response(JSON.stringify({
+          "message": "Server is undergoing maintenance. Please try again in 10 seconds.",
+          "details": null,
+          "_original": [],
+        }), {status: 503});
       }
 
-      return handleRequest(
-        env,
-        method,
-        pathParts[0],
-        url.searchParams,
-        request,
-        identifier,
-      );
+      // If it's a normal request, find its route and handle normally.
+
+      return routeRequest(ROUTES, env, request, context, identifier);
     } catch (error: unknown) {
       return new Response(JSON.stringify(
         {
@@ -152,7 +98,24 @@ const worker = {
         },
       ), {status: 500});
     }
-  }
+  },
+
+  async scheduled(
+    controller: ScheduledController, env: Environment, context: ExecutionContext,
+  ) {
+    // The backend could be undergoing maintenance, in which case try again next time. Scheduled
+    // weeks are published and Discord deliveries are retried on every other schedule.
+
+    if (env.REFRESH_KV) {
+      if (controller.cron === REINDEX_CRON) {
+        context.waitUntil(scheduleReindex(env));
+      } else {
+        context.waitUntil(schedulePublishing(env).then(() => scheduleDeliveries(env)));
+      }
+    }
+  },
 };
 
+export {AggregateCoordinator, RateLimitCoordinator} from "./storage/durable";
+
 export default worker;
@@ -0,0 +1,1040 @@
+/**
+ * The repositories backed by KV.
+ *
+ * Reads go to KV directly. Writes go through the aggregate store, which mirrors them into KV.
+ */
+
+import Artist, {ArtistStats} from "../../../data/core/Artist";
+import AuditEntry from "../../../data/core/Audit";
+import Comment from "../../../data/core/Comment";
+import Delivery from "../../../data/core/Delivery";
+import UserReaction from "../../../data/core/Reaction";
+import Revision, {RevisionHeader} from "../../../data/core/Revision";
+import Season from "../../../data/core/Season";
+import UsernameClaim from "../../../data/core/Username";
+import Week from "../../../data/core/Week";
+import Work from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {isReactionEmpty, keepStoredCounts} from "../../../data/utils/reactions";
+import {normaliseUsername} from "../../../data/utils/usernames";
+import {
+  ARTISTS,
+  ARTISTS_WITH_NAME_INDEX,
+  AUDIT,
+  COMMENTS,
+  DELIVERIES,
+  REACTIONS,
+  REVISIONS,
+  SEASONS,
+  WEEKS,
+  WORKS_WITH_ARTIST_INDEX,
+  WORKS_WITH_ID_INDEX,
+  WORKS_WITH_TAG_INDEX,
+  WORKS_WITH_WEEK_INDEX,
+  WORKS_WITHOUT_INDEX
+} from "../constants/kv";
+import {AggregateStore, replaceAggregate, updateAggregate} from "../storage/aggregates";
+import {WorksIndexes} from "../types/reindex";
+import {
+  ArtistsRepository,
+  AuditHeader,
+  AuditRepository,
+  CommentsRepository,
+  DeliveriesRepository,
+  ReactionsRepository,
+  RevisionsRepository,
+  UsernamesRepository,
+  WeeksRepository,
+  WorksRepository
+} from "../types/repositories";
+import {indexWork, searchIndex} from "../utils/search";
+import {claimUsername} from "../utils/usernames";
+
+/**
+ * Read and parse a JSON value from KV.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string} key the key
+ * @param {T} fallback the value to return if the key doesn't exist
+ * @returns {Promise<T>} the value
+ */
+const readJson = async <T>(kv: KVNamespace, key: string, fallback: T): Promise<T> => {
+  const raw: string | null = await kv.get(key);
+
+  return raw ? JSON.parse(raw) : fallback;
+};
+
+/**
+ * List every key with a prefix, following the list cursor until the end.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string} prefix the prefix, including the trailing slash
+ * @returns {Promise<string[]>} the keys
+ */
+const listKeys = async (kv: KVNamespace, prefix: string): Promise<string[]> => {
+  const keys: string[] = [];
+
+  let cursor: string | undefined = undefined;
+  do {
+    const result: KVNamespaceListResult<unknown> = await kv.list({prefix: prefix, cursor: cursor});
+
+    keys.push(...result.keys.map((key: KVNamespaceListKey<unknown>) => key.name));
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  return keys;
+};
+
+/**
+ * List the metadata of every key with a prefix, following the list cursor until the end.
+ *
+ * Keys without metadata are skipped.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string} prefix the prefix, including the trailing slash
+ * @returns {Promise<M[]>} the metadata
+ */
+const listMetadata = async <M>(kv: KVNamespace, prefix: string): Promise<M[]> => {
+  const metadata: M[] = [];
+
+  let cursor: string | undefined = undefined;
+  do {
+    const result: KVNamespaceListResult<M> = await kv.list<M>({prefix: prefix, cursor: cursor});
+
+    result.keys.forEach((key: KVNamespaceListKey<M>) => {
+      if (key.metadata) {
+        metadata.push(key.metadata);
+      }
+    });
+
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  return metadata;
+};
+
+/**
+ * Group works into a map of keys to works keyed by ID, as the artist and week indexes are.
+ *
+ * @param {Work[]} works the works
+ * @param {Function} getKeys a function returning the keys a work belongs under
+ * @returns {Record<string, Record<string, Work>>} the grouped works
+ */
+const groupWorks = (
+  works: Work[], getKeys: (work: Work) => string[],
+): Record<string, Record<string, Work>> => {
+  const groups: Record<string, Record<string, Work>> = {};
+
+  works.forEach((work: Work) => {
+    getKeys(work).forEach((key: string) => {
+      groups[key] = {...groups[key], [work.id]: work};
+    });
+  });
+
+  return groups;
+};
+
+/**
+ * Create a function removing a work from an index of works keyed by ID.
+ *
+ * Indexes left empty are deleted rather than kept as empty objects.
+ *
+ * @param {string} id the ID of the work
+ * @returns {Function} the function, for {@link updateAggregate}
+ */
+const removeFromIndex = (id: string) => (
+  index: Record<string, Work>,
+): Record<string, Work> | null => {
+  delete index[id];
+
+  return Object.keys(index).length > 0 ? index : null;
+};
+
+export class KvWorksRepository implements WorksRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @param {string} id the ID of the work
+   * @returns {Promise<Work | undefined>} the work, if it exists
+   */
+  async get(id: string): Promise<Work | undefined> {
+    const work: Work | null = await readJson<Work | null>(
+      this.kv, `${WORKS_WITH_ID_INDEX}/${id}`, null,
+    );
+
+    // The backend should ignore erroneously placed works with the "noop" ID.
+
+    return work?.id && work.id !== "noop" ? work : undefined;
+  }
+
+  /**
+   * @param {string} artistId the ID of the artist
+   * @returns {Promise<Work[]>} every work the artist is credited on, in any order
+   */
+  async listByArtist(artistId: string): Promise<Work[]> {
+    return Object.values(await readJson<Record<string, Work>>(
+      this.kv, `${WORKS_WITH_ARTIST_INDEX}/${artistId}`, {},
+    ));
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @param {number} week the week number
+   * @returns {Promise<Work[]>} every work submitted to the week, in any order
+   */
+  async listByWeek(year: number, week: number): Promise<Work[]> {
+    return Object.values(await readJson<Record<string, Work>>(
+      this.kv, `${WORKS_WITH_WEEK_INDEX}/${year}/${week}`, {},
+    ));
+  }
+
+  /**
+   * @param {string} tag the normalised tag
+   * @returns {Promise<Work[]>} every work with the tag, in any order
+   */
+  async listByTag(tag: string): Promise<Work[]> {
+    return Object.values(await readJson<Record<string, Work>>(
+      this.kv, `${WORKS_WITH_TAG_INDEX}/${tag}`, {},
+    ));
+  }
+
+  /**
+   * @returns {Promise<Work[]>} every work, in any order
+   */
+  async listAll(): Promise<Work[]> {
+    return readJson<Work[]>(this.kv, WORKS_WITHOUT_INDEX, []);
+  }
+
+  /**
+   * @param {Work} work the work
+   * @param {Work | undefined} previous the work as it was before, if it was changed by ID first
+   */
+  async put(work: Work, previous?: Work): Promise<void> {
+    // The artists credited on, the weeks and the tags of the work as stored are read as it's
+    // replaced, so the work can be taken off the indexes of any it no longer has. The version
+    // it was changed from by ID is compared too, as the stored one already has the change. The
+    // stored counts are kept, so reactions and comments since the work was read aren't lost.
+
+    let replaced: Work[] = [];
+
+    const placed: Work = await updateAggregate<Work | null>(
+      this.store,
+      `${WORKS_WITH_ID_INDEX}/${work.id}`,
+      null,
+      (current: Work | null) => {
+        replaced = [...(current ? [current] : []), ...(previous ? [previous] : [])];
+
+        return keepStoredCounts(work, current);
+      },
+    ) as Work;
+
+    const previousArtistIds: string[] = replaced.flatMap(getCreditedArtistIds);
+    const previousWeekKeys: string[] = replaced.flatMap((replacedWork: Work) => (
+      replacedWork.weekNumbers.map(
+        (weekNumber: number) => `${WORKS_WITH_WEEK_INDEX}/${replacedWork.year}/${weekNumber}`
+      )
+    ));
+    const previousTags: string[] = replaced.flatMap(
+      (replacedWork: Work) => replacedWork.tags || []
+    );
+
+    const artistIds: string[] = getCreditedArtistIds(work);
+
+    for (const artistId of artistIds) {
+      await updateAggregate<Record<string, Work>>(
+        this.store,
+        `${WORKS_WITH_ARTIST_INDEX}/${artistId}`,
+        {},
+        (worksByArtist: Record<string, Work>) => ({...worksByArtist, [work.id]: placed}),
+      );
+    }
+
+    for (const artistId of previousArtistIds.filter((id: string) => !artistIds.includes(id))) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, `${WORKS_WITH_ARTIST_INDEX}/${artistId}`, {}, removeFromIndex(work.id),
+      );
+    }
+
+    const weekKeys: string[] = work.weekNumbers.map(
+      (weekNumber: number) => `${WORKS_WITH_WEEK_INDEX}/${work.year}/${weekNumber}`
+    );
+
+    for (const weekKey of weekKeys) {
+      await updateAggregate<Record<string, Work>>(
+        this.store,
+        weekKey,
+        {},
+        (weekIndex: Record<string, Work>) => ({...weekIndex, [work.id]: placed}),
+      );
+    }
+
+    for (const weekKey of previousWeekKeys.filter((key: string) => !weekKeys.includes(key))) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, weekKey, {}, removeFromIndex(work.id),
+      );
+    }
+
+    const tags: string[] = work.tags || [];
+
+    for (const tag of tags) {
+      await updateAggregate<Record<string, Work>>(
+        this.store,
+        `${WORKS_WITH_TAG_INDEX}/${tag}`,
+        {},
+        (tagIndex: Record<string, Work>) => ({...tagIndex, [work.id]: placed}),
+      );
+    }
+
+    for (const tag of previousTags.filter((previousTag: string) => !tags.includes(previousTag))) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, `${WORKS_WITH_TAG_INDEX}/${tag}`, {}, removeFromIndex(work.id),
+      );
+    }
+
+    // Replace the work in the simple list of works if it is already listed.
+
+    await updateAggregate<Work[]>(
+      this.store,
+      WORKS_WITHOUT_INDEX,
+      [],
+      (worksWithoutIndex: Work[]) => [
+        ...worksWithoutIndex.filter((listedWork: Work) => listedWork.id !== work.id), placed,
+      ],
+    );
+
+    // Keep the search index in step with the work, which also removes it if no longer visible.
+
+    await indexWork(this.kv, this.store, placed);
+  }
+
+  /**
+   * @param {string} id the ID of the work
+   * @param {Function} mutate a function returning the changed work
+   * @returns {Promise<Work | undefined>} the changed work, if it exists
+   */
+  async update(id: string, mutate: (work: Work) => Work): Promise<Work | undefined> {
+    const work: Work | null = await updateAggregate<Work | null>(
+      this.store,
+      `${WORKS_WITH_ID_INDEX}/${id}`,
+      null,
+      (current: Work | null) => current ? mutate(current) : null,
+    );
+
+    return work || undefined;
+  }
+
+  /**
+   * @param {Work} work the work as stored
+   */
+  async remove(work: Work): Promise<void> {
+    for (const artistId of getCreditedArtistIds(work)) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, `${WORKS_WITH_ARTIST_INDEX}/${artistId}`, {}, removeFromIndex(work.id),
+      );
+    }
+
+    for (const weekNumber of work.weekNumbers) {
+      await updateAggregate<Record<string, Work>>(
+        this.store,
+        `${WORKS_WITH_WEEK_INDEX}/${work.year}/${weekNumber}`,
+        {},
+        removeFromIndex(work.id),
+      );
+    }
+
+    for (const tag of work.tags || []) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, `${WORKS_WITH_TAG_INDEX}/${tag}`, {}, removeFromIndex(work.id),
+      );
+    }
+
+    await updateAggregate<Work[]>(
+      this.store,
+      WORKS_WITHOUT_INDEX,
+      [],
+      (worksWithoutIndex: Work[]) => worksWithoutIndex.filter(
+        (listedWork: Work) => listedWork.id !== work.id
+      ),
+    );
+
+    // A work that isn't searchable has no search entries, so this removes them.
+
+    await indexWork(this.kv, this.store, {...work, isSoftDeleted: true});
+
+    // The work itself goes last so a failure part way through can be retried from the trash.
+
+    await replaceAggregate<Work>(this.store, `${WORKS_WITH_ID_INDEX}/${work.id}`, null);
+  }
+
+  /**
+   * @param {Work} work the work as stored
+   */
+  async indexForSearch(work: Work): Promise<void> {
+    await indexWork(this.kv, this.store, work);
+  }
+
+  /**
+   * @param {Work} work the work as stored
+   */
+  async refreshListed(work: Work): Promise<void> {
+    const keys: string[] = [
+      ...getCreditedArtistIds(work).map((artistId: string) => (
+        `${WORKS_WITH_ARTIST_INDEX}/${artistId}`
+      )),
+      ...work.weekNumbers.map(
+        (weekNumber: number) => `${WORKS_WITH_WEEK_INDEX}/${work.year}/${weekNumber}`
+      ),
+      ...(work.tags || []).map((tag: string) => `${WORKS_WITH_TAG_INDEX}/${tag}`),
+    ];
+
+    // Indexes the work isn't listed in are left alone, including ones that don't exist.
+
+    for (const key of keys) {
+      await updateAggregate<Record<string, Work> | null>(
+        this.store, key, null, (index: Record<string, Work> | null) => (
+          index?.[work.id] ? {...index, [work.id]: work} : index
+        ),
+      );
+    }
+
+    await updateAggregate<Work[]>(this.store, WORKS_WITHOUT_INDEX, [], (allWorks: Work[]) => (
+      allWorks.map((listedWork: Work) => listedWork.id === work.id ? work : listedWork)
+    ));
+  }
+
+  /**
+   * @param {string} query the raw query
+   * @returns {Promise<Record<string, number>>} a map of matching work IDs to scores
+   */
+  async search(query: string): Promise<Record<string, number>> {
+    return searchIndex(this.kv, query);
+  }
+
+  /**
+   * @returns {Promise<Work[]>} every work, in any order
+   */
+  async listStored(): Promise<Work[]> {
+    const keys: string[] = await listKeys(this.kv, `${WORKS_WITH_ID_INDEX}/`);
+
+    const works: (Work | undefined)[] = await Promise.all(keys.map(
+      (key: string) => this.get(key.slice(WORKS_WITH_ID_INDEX.length + 1))
+    ));
+
+    return works.filter((work: Work | undefined): work is Work => !!work);
+  }
+
+  /**
+   * @returns {Promise<WorksIndexes>} the indexes
+   */
+  async readIndexes(): Promise<WorksIndexes> {
+    const indexes: WorksIndexes = {
+      byArtist: {}, byWeek: {}, byTag: {}, all: await this.listAll(),
+    };
+
+    for (const key of await listKeys(this.kv, `${WORKS_WITH_ARTIST_INDEX}/`)) {
+      indexes.byArtist[key.slice(WORKS_WITH_ARTIST_INDEX.length + 1)] = Object.values(
+        await readJson<Record<string, Work>>(this.kv, key, {})
+      );
+    }
+
+    for (const key of await listKeys(this.kv, `${WORKS_WITH_WEEK_INDEX}/`)) {
+      indexes.byWeek[key.slice(WORKS_WITH_WEEK_INDEX.length + 1)] = Object.values(
+        await readJson<Record<string, Work>>(this.kv, key, {})
+      );
+    }
+
+    for (const key of await listKeys(this.kv, `${WORKS_WITH_TAG_INDEX}/`)) {
+      indexes.byTag[key.slice(WORKS_WITH_TAG_INDEX.length + 1)] = Object.values(
+        await readJson<Record<string, Work>>(this.kv, key, {})
+      );
+    }
+
+    return indexes;
+  }
+
+  /**
+   * @param {Work[]} works every work, as listed by {@link listStored}
+   * @param {string[]} removedIds the IDs of works to remove from every index
+   */
+  async rebuildIndexes(works: Work[], removedIds: string[]): Promise<void> {
+    const knownIds: Set<string> = new Set([...works.map((work: Work) => work.id), ...removedIds]);
+
+    const isPlacedSince = (id: string): boolean => !knownIds.has(id);
+
+    // Every index that exists or should exist is rewritten, which deletes those left empty.
+
+    const expected: Record<string, Record<string, Work>> = {
+      ...groupWorks(works, (work: Work) => getCreditedArtistIds(work).map(
+        (artistId: string) => `${WORKS_WITH_ARTIST_INDEX}/${artistId}`
+      )),
+      ...groupWorks(works, (work: Work) => work.weekNumbers.map(
+        (weekNumber: number) => `${WORKS_WITH_WEEK_INDEX}/${work.year}/${weekNumber}`
+      )),
+      ...groupWorks(works, (work: Work) => (work.tags || []).map(
+        (tag: string) => `${WORKS_WITH_TAG_INDEX}/${tag}`
+      )),
+    };
+
+    const keys: Set<string> = new Set([
+      ...Object.keys(expected),
+      ...await listKeys(this.kv, `${WORKS_WITH_ARTIST_INDEX}/`),
+      ...await listKeys(this.kv, `${WORKS_WITH_WEEK_INDEX}/`),
+      ...await listKeys(this.kv, `${WORKS_WITH_TAG_INDEX}/`),
+    ]);
+
+    for (const key of Array.from(keys)) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, key, {}, (index: Record<string, Work>) => {
+          const rebuilt: Record<string, Work> = {
+            ...Object.fromEntries(Object.entries(index).filter(([id]) => isPlacedSince(id))),
+            ...expected[key],
+          };
+
+          return Object.keys(rebuilt).length > 0 ? rebuilt : null;
+        },
+      );
+    }
+
+    await updateAggregate<Work[]>(this.store, WORKS_WITHOUT_INDEX, [], (allWorks: Work[]) => [
+      ...allWorks.filter((work: Work) => isPlacedSince(work.id)), ...works,
+    ].sort((a: Work, b: Work) => {
+      return new Date(b.submittedTimestamp).valueOf() - new Date(a.submittedTimestamp).valueOf();
+    }));
+  }
+
+  /**
+   * @param {Work[]} works the works, as stored by ID
+   * @param {string[]} tags the tags whose indexes the works were added to or removed from
+   */
+  async reindexTags(works: Work[], tags: string[]): Promise<void> {
+    const worksById: Record<string, Work> = Object.fromEntries(
+      works.map((work: Work) => [work.id, work])
+    );
+
+    const worksByTag: Record<string, Record<string, Work>> = groupWorks(
+      works, (work: Work) => work.tags || [],
+    );
+
+    for (const tag of tags) {
+      await updateAggregate<Record<string, Work>>(
+        this.store, `${WORKS_WITH_TAG_INDEX}/${tag}`, {}, (tagIndex: Record<string, Work>) => {
+          const rebuilt: Record<string, Work> = {
+            ...Object.fromEntries(Object.entries(tagIndex).filter(([id]) => !worksById[id])),
+            ...worksByTag[tag],
+          };
+
+          return Object.keys(rebuilt).length > 0 ? rebuilt : null;
+        },
+      );
+    }
+
+    await updateAggregate<Work[]>(this.store, WORKS_WITHOUT_INDEX, [], (allWorks: Work[]) => (
+      allWorks.map((listedWork: Work) => worksById[listedWork.id] || listedWork)
+    ));
+  }
+}
+
+export class KvArtistsRepository implements ArtistsRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @param {string} id the Discord ID of the artist
+   * @returns {Promise<Artist | undefined>} the artist, if they exist
+   */
+  async get(id: string): Promise<Artist | undefined> {
+    return await readJson<Artist | null>(this.kv, `${ARTISTS}/${id}`, null) || undefined;
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @returns {Promise<Record<string, Artist>>} a map of IDs to artists of the season
+   */
+  async listBySeason(year: number): Promise<Record<string, Artist>> {
+    return readJson<Record<string, Artist>>(this.kv, `${ARTISTS}/${year}`, {});
+  }
+
+  /**
+   * Write the artist to the season's list after the artist itself, so the list gets the
+   * statistics the artist ends up with.
+   *
+   * @param {Artist} artist the artist
+   * @param {number} year the year of the season to list them in
+   * @returns {Promise<Artist>} the artist as written
+   */
+  async put(artist: Artist, year: number): Promise<Artist> {
+    const written: Artist = await updateAggregate<Artist | null>(
+      this.store,
+      `${ARTISTS}/${artist.discordId}`,
+      null,
+      (current: Artist | null) => ({...artist, stats: current?.stats}),
+    ) || artist;
+
+    await this.list(written, year);
+
+    return written;
+  }
+
+  /**
+   * @param {string} id the Discord ID of the artist
+   * @param {ArtistStats} stats the statistics
+   * @param {number} year the year of the season to list them in
+   * @param {Artist | undefined} fallback the details of the artist to use if they don't exist
+   * @returns {Promise<boolean>} whether the artist was created from their details
+   */
+  async updateStats(
+    id: string, stats: ArtistStats, year: number, fallback?: Artist,
+  ): Promise<boolean> {
+    let isCreated = false;
+
+    const artist: Artist | null = await updateAggregate<Artist | null>(
+      this.store,
+      `${ARTISTS}/${id}`,
+      null,
+      (current: Artist | null) => {
+        const existing: Artist | undefined = current || fallback;
+        isCreated = !current && !!fallback;
+
+        return existing ? {...existing, stats: stats} : null;
+      },
+    );
+
+    if (artist) {
+      await this.list(artist, year);
+    }
+
+    return isCreated;
+  }
+
+  /**
+   * Add or replace an artist in a season's list.
+   *
+   * @param {Artist} artist the artist
+   * @param {number} year the year of the season
+   */
+  private async list(artist: Artist, year: number): Promise<void> {
+    await updateAggregate<Record<string, Artist>>(
+      this.store,
+      `${ARTISTS}/${year}`,
+      {},
+      (aggregateArtists: Record<string, Artist>) => (
+        {...aggregateArtists, [artist.discordId]: artist}
+      ),
+    );
+  }
+}
+
+export class KvUsernamesRepository implements UsernamesRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @param {string} name the name, in any case
+   * @returns {Promise<UsernameClaim | undefined>} the claim on the name, if there is one
+   */
+  async get(name: string): Promise<UsernameClaim | undefined> {
+    const claims: Record<string, UsernameClaim> = await readJson<Record<string, UsernameClaim>>(
+      this.kv, ARTISTS_WITH_NAME_INDEX, {},
+    );
+
+    return claims[normaliseUsername(name)];
+  }
+
+  /**
+   * The registry is checked and changed in one step, so two artists can't claim the same name.
+   *
+   * @param {string} artistId the Discord ID of the artist
+   * @param {string} name the name they want
+   * @param {string | undefined} previousName the name they had before, if any
+   * @returns {Promise<boolean>} whether the name was claimed
+   */
+  async claim(artistId: string, name: string, previousName?: string): Promise<boolean> {
+    let isClaimed = false;
+
+    await updateAggregate<Record<string, UsernameClaim>>(
+      this.store,
+      ARTISTS_WITH_NAME_INDEX,
+      {},
+      (claims: Record<string, UsernameClaim>) => {
+        const changed: Record<string, UsernameClaim> | null = claimUsername(
+          claims, artistId, name, previousName, new Date(),
+        );
+
+        isClaimed = !!changed;
+
+        return changed || claims;
+      },
+    );
+
+    return isClaimed;
+  }
+}
+
+export class KvWeeksRepository implements WeeksRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @returns {Promise<Record<string, Week>>} a map of week numbers to weeks
+   */
+  async listBySeason(year: number): Promise<Record<string, Week>> {
+    return readJson<Record<string, Week>>(this.kv, `${WEEKS}/${year}`, {});
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @param {Record<string, Week>} weeks a map of week numbers to weeks
+   */
+  async putSeason(year: number, weeks: Record<string, Week>): Promise<void> {
+    await replaceAggregate<Record<string, Week>>(this.store, `${WEEKS}/${year}`, weeks);
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @param {number} week the number of the week
+   * @param {Function} mutate a function returning the changed week
+   * @returns {Promise<Week | undefined>} the changed week, if it exists
+   */
+  async update(
+    year: number, week: number, mutate: (week: Week) => Week,
+  ): Promise<Week | undefined> {
+    const weeks: Record<string, Week> | null = await updateAggregate<Record<string, Week>>(
+      this.store,
+      `${WEEKS}/${year}`,
+      {},
+      (current: Record<string, Week>) => current[week] ? (
+        {...current, [week]: mutate(current[week])}
+      ) : current,
+    );
+
+    return weeks?.[week];
+  }
+
+  /**
+   * @param {Function} mutate a function returning the changed map of years to seasons
+   * @returns {Promise<Record<string, Season>>} the changed map of years to seasons
+   */
+  async updateSeasons(
+    mutate: (seasons: Record<string, Season>) => Record<string, Season>,
+  ): Promise<Record<string, Season>> {
+    return await updateAggregate<Record<string, Season>>(this.store, SEASONS, {}, mutate) || {};
+  }
+}
+
+export class KvAuditRepository implements AuditRepository {
+  private readonly kv: KVNamespace;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   */
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * @param {string} id the ID of the entry
+   * @returns {Promise<AuditEntry | undefined>} the entry, if it exists
+   */
+  async get(id: string): Promise<AuditEntry | undefined> {
+    return await readJson<AuditEntry | null>(this.kv, `${AUDIT}/${id}`, null) || undefined;
+  }
+
+  /**
+   * @returns {Promise<AuditHeader[]>} the headers of every entry, in any order
+   */
+  async list(): Promise<AuditHeader[]> {
+    return listMetadata<AuditHeader>(this.kv, `${AUDIT}/`);
+  }
+
+  /**
+   * Every entry has its own key, so appending never conflicts with another write.
+   *
+   * @param {AuditEntry} entry the entry
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    const header: AuditHeader = {
+      id: entry.id, actorId: entry.actorId, action: entry.action, timestamp: entry.timestamp,
+    };
+
+    await this.kv.put(`${AUDIT}/${entry.id}`, JSON.stringify(entry), {metadata: header});
+  }
+}
+
+export class KvRevisionsRepository implements RevisionsRepository {
+  private readonly kv: KVNamespace;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   */
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   * @param {string} id the ID of the revision
+   * @returns {Promise<Revision | undefined>} the revision, if it exists
+   */
+  async get(workId: string, id: string): Promise<Revision | undefined> {
+    return await readJson<Revision | null>(
+      this.kv, `${REVISIONS}/${workId}/${id}`, null,
+    ) || undefined;
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   * @returns {Promise<RevisionHeader[]>} the headers of every revision of the work, in any order
+   */
+  async list(workId: string): Promise<RevisionHeader[]> {
+    return listMetadata<RevisionHeader>(this.kv, `${REVISIONS}/${workId}/`);
+  }
+
+  /**
+   * Every revision has its own key, so appending never conflicts with another write.
+   *
+   * @param {Revision} revision the revision
+   */
+  async append(revision: Revision): Promise<void> {
+    const header: RevisionHeader = {
+      id: revision.id,
+      workId: revision.workId,
+      editorId: revision.editorId,
+      timestamp: revision.timestamp,
+      revertedFrom: revision.revertedFrom,
+    };
+
+    await this.kv.put(
+      `${REVISIONS}/${revision.workId}/${revision.id}`,
+      JSON.stringify(revision),
+      {metadata: header},
+    );
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   */
+  async removeAll(workId: string): Promise<void> {
+    for (const key of await listKeys(this.kv, `${REVISIONS}/${workId}/`)) {
+      await this.kv.delete(key);
+    }
+  }
+}
+
+export class KvCommentsRepository implements CommentsRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   * @returns {Promise<Record<string, Comment>>} a map of IDs to every comment on the work
+   */
+  async list(workId: string): Promise<Record<string, Comment>> {
+    return readJson<Record<string, Comment>>(this.kv, `${COMMENTS}/${workId}`, {});
+  }
+
+  /**
+   * @returns {Promise<Record<string, Record<string, Comment>>>} a map of the IDs of works with
+   *   comments to maps of IDs to every comment on them
+   */
+  async listAll(): Promise<Record<string, Record<string, Comment>>> {
+    const keys: string[] = await listKeys(this.kv, `${COMMENTS}/`);
+
+    return Object.fromEntries(await Promise.all(keys.map(
+      async (key: string) => [
+        key.slice(COMMENTS.length + 1), await readJson<Record<string, Comment>>(this.kv, key, {}),
+      ]
+    )));
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   * @param {Function} mutate a function returning the changed map of IDs to comments
+   * @returns {Promise<Record<string, Comment>>} the changed comments
+   */
+  async update(
+    workId: string, mutate: (comments: Record<string, Comment>) => Record<string, Comment>,
+  ): Promise<Record<string, Comment>> {
+    const comments: Record<string, Comment> | null = await updateAggregate<
+      Record<string, Comment>
+    >(this.store, `${COMMENTS}/${workId}`, {}, mutate);
+
+    return comments || {};
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   */
+  async removeAll(workId: string): Promise<void> {
+    await replaceAggregate<Record<string, Comment>>(this.store, `${COMMENTS}/${workId}`, null);
+  }
+}
+
+export class KvReactionsRepository implements ReactionsRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @param {string} userId the Discord ID of the user
+   * @returns {Promise<Record<string, UserReaction>>} a map of work IDs to the user's reactions
+   */
+  async list(userId: string): Promise<Record<string, UserReaction>> {
+    return readJson<Record<string, UserReaction>>(this.kv, `${REACTIONS}/${userId}`, {});
+  }
+
+  /**
+   * @returns {Promise<Record<string, UserReaction>[]>} every user's map of work IDs to their
+   *   reactions, in any order
+   */
+  async listAll(): Promise<Record<string, UserReaction>[]> {
+    const keys: string[] = await listKeys(this.kv, `${REACTIONS}/`);
+
+    return Promise.all(keys.map(
+      (key: string) => readJson<Record<string, UserReaction>>(this.kv, key, {})
+    ));
+  }
+
+  /**
+   * @param {string} userId the Discord ID of the user
+   * @param {string} workId the ID of the work
+   * @param {Function} mutate a function returning the changed reaction
+   * @returns {Promise<UserReaction>} the changed reaction
+   */
+  async update(
+    userId: string, workId: string, mutate: (reaction: UserReaction) => UserReaction,
+  ): Promise<UserReaction> {
+    let changed: UserReaction = {emojis: []};
+
+    await updateAggregate<Record<string, UserReaction>>(
+      this.store,
+      `${REACTIONS}/${userId}`,
+      {},
+      (reactions: Record<string, UserReaction>) => {
+        changed = mutate(reactions[workId] || {emojis: []});
+
+        if (isReactionEmpty(changed)) {
+          delete reactions[workId];
+        } else {
+          reactions[workId] = changed;
+        }
+
+        return reactions;
+      },
+    );
+
+    return changed;
+  }
+}
+
+export class KvDeliveriesRepository implements DeliveriesRepository {
+  private readonly kv: KVNamespace;
+  private readonly store: AggregateStore;
+
+  /**
+   * @param {KVNamespace} kv the main key-value store
+   * @param {AggregateStore} store the aggregate store
+   */
+  constructor(kv: KVNamespace, store: AggregateStore) {
+    this.kv = kv;
+    this.store = store;
+  }
+
+  /**
+   * @returns {Promise<Delivery[]>} every pending delivery
+   */
+  async list(): Promise<Delivery[]> {
+    return Object.values(await readJson<Record<string, Delivery>>(this.kv, DELIVERIES, {}));
+  }
+
+  /**
+   * @param {Delivery} delivery the delivery
+   */
+  async put(delivery: Delivery): Promise<void> {
+    await updateAggregate<Record<string, Delivery>>(
+      this.store,
+      DELIVERIES,
+      {},
+      (current: Record<string, Delivery>) => ({...current, [delivery.key]: delivery}),
+    );
+  }
+
+  /**
+   * @param {string} key the key of the delivery
+   * @param {string} version the version of the delivery when it was read
+   * @param {Function} mutate a function returning the changed delivery, or `null` to remove it
+   */
+  async update(
+    key: string, version: string, mutate: (delivery: Delivery) => Delivery | null,
+  ): Promise<void> {
+    await updateAggregate<Record<string, Delivery>>(
+      this.store,
+      DELIVERIES,
+      {},
+      (current: Record<string, Delivery>) => {
+        if (current[key]?.version !== version) {
+          return current;
+        }
+
+        const {[key]: delivery, ...others} = current;
+        const changed: Delivery | null = mutate(delivery);
+
+        return changed ? {...others, [key]: changed} : others;
+      },
+    );
+  }
+}
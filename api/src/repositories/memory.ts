@@ -0,0 +1,584 @@
+/**
+ * The repositories backed by memory.
+ *
+ * They behave like the KV repositories but only last as long as the isolate. Every value is
+ * copied on the way in and out, as it would be when serialised, so callers can't mutate what
+ * is stored by accident.
+ */
+
+import Artist, {ArtistStats} from "../../../data/core/Artist";
+import AuditEntry from "../../../data/core/Audit";
+import Comment from "../../../data/core/Comment";
+import Delivery from "../../../data/core/Delivery";
+import UserReaction from "../../../data/core/Reaction";
+import Revision, {RevisionHeader} from "../../../data/core/Revision";
+import Season from "../../../data/core/Season";
+import UsernameClaim from "../../../data/core/Username";
+import Week from "../../../data/core/Week";
+import Work from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {isReactionEmpty, keepStoredCounts} from "../../../data/utils/reactions";
+import {normaliseUsername} from "../../../data/utils/usernames";
+import {WorksIndexes} from "../types/reindex";
+import Repositories, {
+  ArtistsRepository,
+  AuditHeader,
+  AuditRepository,
+  CommentsRepository,
+  DeliveriesRepository,
+  ReactionsRepository,
+  RevisionsRepository,
+  UsernamesRepository,
+  WeeksRepository,
+  WorksRepository
+} from "../types/repositories";
+import {isSearchable, scoreQuery, weighWork} from "../utils/search";
+import {claimUsername} from "../utils/usernames";
+
+export class MemoryWorksRepository implements WorksRepository {
+  private readonly works: Map<string, Work> = new Map();
+  private readonly artists: ArtistsRepository;
+
+  /**
+   * @param {ArtistsRepository} artists the artists, used to search by artist name
+   */
+  constructor(artists: ArtistsRepository) {
+    this.artists = artists;
+  }
+
+  /**
+   * @param {string} id the ID of the work
+   * @returns {Promise<Work | undefined>} the work, if it exists
+   */
+  async get(id: string): Promise<Work | undefined> {
+    const work: Work | undefined = this.works.get(id);
+
+    return work ? structuredClone(work) : undefined;
+  }
+
+  /**
+   * @param {string} artistId the ID of the artist
+   * @returns {Promise<Work[]>} every work the artist is credited on, in any order
+   */
+  async listByArtist(artistId: string): Promise<Work[]> {
+    return (await this.listAll()).filter(
+      (work: Work) => getCreditedArtistIds(work).includes(artistId)
+    );
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @param {number} week the week number
+   * @returns {Promise<Work[]>} every work submitted to the week, in any order
+   */
+  async listByWeek(year: number, week: number): Promise<Work[]> {
+    return (await this.listAll()).filter(
+      (work: Work) => work.year === year && work.weekNumbers.includes(week)
+    );
+  }
+
+  /**
+   * @param {string} tag the normalised tag
+   * @returns {Promise<Work[]>} every work with the tag, in any order
+   */
+  async listByTag(tag: string): Promise<Work[]> {
+    return (await this.listAll()).filter((work: Work) => !!work.tags?.includes(tag));
+  }
+
+  /**
+   * @returns {Promise<Work[]>} every work, in any order
+   */
+  async listAll(): Promise<Work[]> {
+    return structuredClone(Array.from(this.works.values()));
+  }
+
+  /**
+   * @param {Work} work the work
+   */
+  async put(work: Work): Promise<void> {
+    this.works.set(work.id, structuredClone(keepStoredCounts(work, this.works.get(work.id))));
+  }
+
+  /**
+   * @param {string} id the ID of the work
+   * @param {Function} mutate a function returning the changed work
+   * @returns {Promise<Work | undefined>} the changed work, if it exists
+   */
+  async update(id: string, mutate: (work: Work) => Work): Promise<Work | undefined> {
+    const work: Work | undefined = await this.get(id);
+    if (!work) {
+      return undefined;
+    }
+
+    const updated: Work = mutate(work);
+
+    this.works.set(id, structuredClone(updated));
+
+    return updated;
+  }
+
+  /**
+   * @param {Work} work the work as stored
+   */
+  async remove(work: Work): Promise<void> {
+    this.works.delete(work.id);
+  }
+
+  /**
+   * There is no stored index, so there is nothing to bring up to date.
+   */
+  async indexForSearch(): Promise<void> {
+    return;
+  }
+
+  /**
+   * There are no stored indexes, so there is nothing to bring up to date.
+   */
+  async refreshListed(): Promise<void> {
+    return;
+  }
+
+  /**
+   * There is no stored index, so every searchable work is weighed on each search.
+   *
+   * @param {string} query the raw query
+   * @returns {Promise<Record<string, number>>} a map of matching work IDs to scores
+   */
+  async search(query: string): Promise<Record<string, number>> {
+    const postingsByToken: Record<string, Record<string, number>> = {};
+
+    for (const work of Array.from(this.works.values()).filter(isSearchable)) {
+      const artist: Artist | undefined = (
+        await this.artists.get(work.artistId)
+      ) || work.firstSeenArtistInfo;
+
+      Object.entries(weighWork(work, artist?.name)).forEach(([token, weight]) => {
+        postingsByToken[token] = {...postingsByToken[token], [work.id]: weight};
+      });
+    }
+
+    return scoreQuery(query, async () => postingsByToken);
+  }
+
+  /**
+   * @returns {Promise<Work[]>} every work, in any order
+   */
+  async listStored(): Promise<Work[]> {
+    return this.listAll();
+  }
+
+  /**
+   * There are no stored indexes, so they are derived from the works and always consistent.
+   *
+   * @returns {Promise<WorksIndexes>} the indexes
+   */
+  async readIndexes(): Promise<WorksIndexes> {
+    const works: Work[] = await this.listAll();
+    const indexes: WorksIndexes = {byArtist: {}, byWeek: {}, byTag: {}, all: works};
+
+    works.forEach((work: Work) => {
+      getCreditedArtistIds(work).forEach((artistId: string) => {
+        indexes.byArtist[artistId] = [...(indexes.byArtist[artistId] || []), work];
+      });
+
+      work.weekNumbers.forEach((weekNumber: number) => {
+        const key = `${work.year}/${weekNumber}`;
+
+        indexes.byWeek[key] = [...(indexes.byWeek[key] || []), work];
+      });
+
+      (work.tags || []).forEach((tag: string) => {
+        indexes.byTag[tag] = [...(indexes.byTag[tag] || []), work];
+      });
+    });
+
+    return indexes;
+  }
+
+  /**
+   * There are no stored indexes, so there is nothing to rebuild.
+   */
+  async rebuildIndexes(): Promise<void> {
+    return;
+  }
+
+  /**
+   * There are no stored indexes, so there is nothing to bring up to date.
+   */
+  async reindexTags(): Promise<void> {
+    return;
+  }
+}
+
+export class MemoryArtistsRepository implements ArtistsRepository {
+  private readonly artists: Map<string, Artist> = new Map();
+  private readonly seasons: Map<number, Record<string, Artist>> = new Map();
+
+  /**
+   * @param {string} id the Discord ID of the artist
+   * @returns {Promise<Artist | undefined>} the artist, if they exist
+   */
+  async get(id: string): Promise<Artist | undefined> {
+    const artist: Artist | undefined = this.artists.get(id);
+
+    return artist ? structuredClone(artist) : undefined;
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @returns {Promise<Record<string, Artist>>} a map of IDs to artists of the season
+   */
+  async listBySeason(year: number): Promise<Record<string, Artist>> {
+    return structuredClone(this.seasons.get(year) || {});
+  }
+
+  /**
+   * @param {Artist} artist the artist
+   * @param {number} year the year of the season to list them in
+   * @returns {Promise<Artist>} the artist as written
+   */
+  async put(artist: Artist, year: number): Promise<Artist> {
+    const written: Artist = {...artist, stats: this.artists.get(artist.discordId)?.stats};
+
+    this.write(written, year);
+
+    return structuredClone(written);
+  }
+
+  /**
+   * @param {string} id the Discord ID of the artist
+   * @param {ArtistStats} stats the statistics
+   * @param {number} year the year of the season to list them in
+   * @param {Artist | undefined} fallback the details of the artist to use if they don't exist
+   * @returns {Promise<boolean>} whether the artist was created from their details
+   */
+  async updateStats(
+    id: string, stats: ArtistStats, year: number, fallback?: Artist,
+  ): Promise<boolean> {
+    const isCreated: boolean = !this.artists.has(id) && !!fallback;
+    const artist: Artist | undefined = this.artists.get(id) || fallback;
+
+    if (artist) {
+      this.write({...artist, stats: stats}, year);
+    }
+
+    return isCreated;
+  }
+
+  /**
+   * @param {Artist} artist the artist
+   * @param {number} year the year of the season to list them in
+   */
+  private write(artist: Artist, year: number) {
+    this.artists.set(artist.discordId, structuredClone(artist));
+    this.seasons.set(
+      year, {...this.seasons.get(year), [artist.discordId]: structuredClone(artist)},
+    );
+  }
+}
+
+export class MemoryWeeksRepository implements WeeksRepository {
+  private readonly seasons: Map<number, Record<string, Week>> = new Map();
+  private seasonDetails: Record<string, Season> = {};
+
+  /**
+   * @param {number} year the year of the season
+   * @returns {Promise<Record<string, Week>>} a map of week numbers to weeks
+   */
+  async listBySeason(year: number): Promise<Record<string, Week>> {
+    return structuredClone(this.seasons.get(year) || {});
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @param {Record<string, Week>} weeks a map of week numbers to weeks
+   */
+  async putSeason(year: number, weeks: Record<string, Week>): Promise<void> {
+    this.seasons.set(year, structuredClone(weeks));
+  }
+
+  /**
+   * @param {number} year the year of the season
+   * @param {number} week the number of the week
+   * @param {Function} mutate a function returning the changed week
+   * @returns {Promise<Week | undefined>} the changed week, if it exists
+   */
+  async update(
+    year: number, week: number, mutate: (week: Week) => Week,
+  ): Promise<Week | undefined> {
+    const weeks: Record<string, Week> | undefined = this.seasons.get(year);
+    if (!weeks?.[week]) {
+      return undefined;
+    }
+
+    weeks[week] = mutate(structuredClone(weeks[week]));
+
+    return structuredClone(weeks[week]);
+  }
+
+  /**
+   * @param {Function} mutate a function returning the changed map of years to seasons
+   * @returns {Promise<Record<string, Season>>} the changed map of years to seasons
+   */
+  async updateSeasons(
+    mutate: (seasons: Record<string, Season>) => Record<string, Season>,
+  ): Promise<Record<string, Season>> {
+    this.seasonDetails = mutate(structuredClone(this.seasonDetails));
+
+    return structuredClone(this.seasonDetails);
+  }
+}
+
+export class MemoryAuditRepository implements AuditRepository {
+  private readonly entries: Map<string, AuditEntry> = new Map();
+
+  /**
+   * @param {string} id the ID of the entry
+   * @returns {Promise<AuditEntry | undefined>} the entry, if it exists
+   */
+  async get(id: string): Promise<AuditEntry | undefined> {
+    const entry: AuditEntry | undefined = this.entries.get(id);
+
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  /**
+   * @returns {Promise<AuditHeader[]>} the headers of every entry, in any order
+   */
+  async list(): Promise<AuditHeader[]> {
+    return Array.from(this.entries.values()).map((entry: AuditEntry) => ({
+      id: entry.id, actorId: entry.actorId, action: entry.action, timestamp: entry.timestamp,
+    }));
+  }
+
+  /**
+   * @param {AuditEntry} entry the entry
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+  }
+}
+
+export class MemoryRevisionsRepository implements RevisionsRepository {
+  private readonly revisions: Map<string, Revision> = new Map();
+
+  /**
+   * @param {string} workId the ID of the work
+   * @param {string} id the ID of the revision
+   * @returns {Promise<Revision | undefined>} the revision, if it exists
+   */
+  async get(workId: string, id: string): Promise<Revision | undefined> {
+    const revision: Revision | undefined = this.revisions.get(`${workId}/${id}`);
+
+    return revision ? structuredClone(revision) : undefined;
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   * @returns {Promise<RevisionHeader[]>} the headers of every revision of the work, in any order
+   */
+  async list(workId: string): Promise<RevisionHeader[]> {
+    return Array.from(this.revisions.values()).filter(
+      (revision: Revision) => revision.workId === workId
+    ).map((revision: Revision) => ({
+      id: revision.id,
+      workId: revision.workId,
+      editorId: revision.editorId,
+      timestamp: revision.timestamp,
+      revertedFrom: revision.revertedFrom,
+    }));
+  }
+
+  /**
+   * @param {Revision} revision the revision
+   */
+  async append(revision: Revision): Promise<void> {
+    this.revisions.set(`${revision.workId}/${revision.id}`, structuredClone(revision));
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   */
+  async removeAll(workId: string): Promise<void> {
+    Array.from(this.revisions.keys()).filter(
+      (key: string) => key.startsWith(`${workId}/`)
+    ).forEach((key: string) => this.revisions.delete(key));
+  }
+}
+
+export class MemoryUsernamesRepository implements UsernamesRepository {
+  private claims: Record<string, UsernameClaim> = {};
+
+  /**
+   * @param {string} name the name, in any case
+   * @returns {Promise<UsernameClaim | undefined>} the claim on the name, if there is one
+   */
+  async get(name: string): Promise<UsernameClaim | undefined> {
+    const claim: UsernameClaim | undefined = this.claims[normaliseUsername(name)];
+
+    return claim ? structuredClone(claim) : undefined;
+  }
+
+  /**
+   * @param {string} artistId the Discord ID of the artist
+   * @param {string} name the name they want
+   * @param {string | undefined} previousName the name they had before, if any
+   * @returns {Promise<boolean>} whether the name was claimed
+   */
+  async claim(artistId: string, name: string, previousName?: string): Promise<boolean> {
+    const changed: Record<string, UsernameClaim> | null = claimUsername(
+      this.claims, artistId, name, previousName, new Date(),
+    );
+
+    if (changed) {
+      this.claims = changed;
+    }
+
+    return !!changed;
+  }
+}
+
+export class MemoryCommentsRepository implements CommentsRepository {
+  private readonly comments: Map<string, Record<string, Comment>> = new Map();
+
+  /**
+   * @param {string} workId the ID of the work
+   * @returns {Promise<Record<string, Comment>>} a map of IDs to every comment on the work
+   */
+  async list(workId: string): Promise<Record<string, Comment>> {
+    return structuredClone(this.comments.get(workId) || {});
+  }
+
+  /**
+   * @returns {Promise<Record<string, Record<string, Comment>>>} a map of the IDs of works with
+   *   comments to maps of IDs to every comment on them
+   */
+  async listAll(): Promise<Record<string, Record<string, Comment>>> {
+    return structuredClone(Object.fromEntries(this.comments));
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   * @param {Function} mutate a function returning the changed map of IDs to comments
+   * @returns {Promise<Record<string, Comment>>} the changed comments
+   */
+  async update(
+    workId: string, mutate: (comments: Record<string, Comment>) => Record<string, Comment>,
+  ): Promise<Record<string, Comment>> {
+    const changed: Record<string, Comment> = mutate(await this.list(workId));
+
+    this.comments.set(workId, changed);
+
+    return structuredClone(changed);
+  }
+
+  /**
+   * @param {string} workId the ID of the work
+   */
+  async removeAll(workId: string): Promise<void> {
+    this.comments.delete(workId);
+  }
+}
+
+export class MemoryReactionsRepository implements ReactionsRepository {
+  private readonly reactions: Map<string, Record<string, UserReaction>> = new Map();
+
+  /**
+   * @param {string} userId the Discord ID of the user
+   * @returns {Promise<Record<string, UserReaction>>} a map of work IDs to the user's reactions
+   */
+  async list(userId: string): Promise<Record<string, UserReaction>> {
+    return structuredClone(this.reactions.get(userId) || {});
+  }
+
+  /**
+   * @returns {Promise<Record<string, UserReaction>[]>} every user's map of work IDs to their
+   *   reactions, in any order
+   */
+  async listAll(): Promise<Record<string, UserReaction>[]> {
+    return structuredClone(Array.from(this.reactions.values()));
+  }
+
+  /**
+   * @param {string} userId the Discord ID of the user
+   * @param {string} workId the ID of the work
+   * @param {Function} mutate a function returning the changed reaction
+   * @returns {Promise<UserReaction>} the changed reaction
+   */
+  async update(
+    userId: string, workId: string, mutate: (reaction: UserReaction) => UserReaction,
+  ): Promise<UserReaction> {
+    const reactions: Record<string, UserReaction> = await this.list(userId);
+
+    const changed: UserReaction = mutate(reactions[workId] || {emojis: []});
+    if (isReactionEmpty(changed)) {
+      delete reactions[workId];
+    } else {
+      reactions[workId] = changed;
+    }
+
+    this.reactions.set(userId, reactions);
+
+    return structuredClone(changed);
+  }
+}
+
+export class MemoryDeliveriesRepository implements DeliveriesRepository {
+  private readonly deliveries: Map<string, Delivery> = new Map();
+
+  /**
+   * @returns {Promise<Delivery[]>} every pending delivery
+   */
+  async list(): Promise<Delivery[]> {
+    return structuredClone(Array.from(this.deliveries.values()));
+  }
+
+  /**
+   * @param {Delivery} delivery the delivery
+   */
+  async put(delivery: Delivery): Promise<void> {
+    this.deliveries.set(delivery.key, structuredClone(delivery));
+  }
+
+  /**
+   * @param {string} key the key of the delivery
+   * @param {string} version the version of the delivery when it was read
+   * @param {Function} mutate a function returning the changed delivery, or `null` to remove it
+   */
+  async update(
+    key: string, version: string, mutate: (delivery: Delivery) => Delivery | null,
+  ): Promise<void> {
+    const delivery: Delivery | undefined = this.deliveries.get(key);
+    if (delivery?.version !== version) {
+      return;
+    }
+
+    const changed: Delivery | null = mutate(structuredClone(delivery));
+    if (changed) {
+      this.deliveries.set(key, changed);
+    } else {
+      this.deliveries.delete(key);
+    }
+  }
+}
+
+/**
+ * Create a set of empty in-memory repositories that refer to each other.
+ *
+ * @returns {Repositories} the repositories
+ */
+export const createMemoryRepositories = (): Repositories => {
+  const artists: MemoryArtistsRepository = new MemoryArtistsRepository();
+
+  return {
+    works: new MemoryWorksRepository(artists),
+    artists: artists,
+    usernames: new MemoryUsernamesRepository(),
+    weeks: new MemoryWeeksRepository(),
+    audit: new MemoryAuditRepository(),
+    revisions: new MemoryRevisionsRepository(),
+    reactions: new MemoryReactionsRepository(),
+    comments: new MemoryCommentsRepository(),
+    deliveries: new MemoryDeliveriesRepository(),
+  };
+};
@@ -0,0 +1,521 @@
+/**
+ * The route table of the API.
+ *
+ * Routes are matched by path first, then by method. Paths are case-insensitive but path
+ * parameters are passed through as they are.
+ */
+
+import Joi from "joi";
+import {MAXIMUM_PAGE_SIZE, MAXIMUM_TAG_LENGTH} from "../../data/constants/setup";
+import {ARTIST_SCHEMA} from "../../data/core/Artist";
+import {AuditAction} from "../../data/core/Audit";
+import {
+  COMMENT_REQUEST_SCHEMA,
+  COMMENT_VISIBILITY_REQUEST_SCHEMA
+} from "../../data/core/Comment";
+import {MEDIUM_MIGRATION_SCHEMA} from "../../data/core/Medium";
+import {PageOrder} from "../../data/core/Page";
+import {FAVOURITE_REQUEST_SCHEMA, REACTION_REQUEST_SCHEMA} from "../../data/core/Reaction";
+import {REJECTION_REQUEST_SCHEMA} from "../../data/core/Rejection";
+import {Permission, ROLE_ASSIGNMENT_SCHEMA} from "../../data/core/Role";
+import {SEASON_SCHEMA} from "../../data/core/Season";
+import {TAG_RENAME_REQUEST_SCHEMA} from "../../data/core/Tag";
+import {UPLOAD_REQUEST_SCHEMA} from "../../data/core/Upload";
+import {WEEK_SCHEMA} from "../../data/core/Week";
+import {
+  COLLABORATOR_REQUEST_SCHEMA,
+  INVITATION_RESPONSE_SCHEMA,
+  WORK_SCHEMA,
+  WorksSort
+} from "../../data/core/Work";
+import {
+  ARTIST_EDITS_RATE_LIMIT,
+  COLLABORATORS_RATE_LIMIT,
+  COMMENTS_RATE_LIMIT,
+  REACTIONS_RATE_LIMIT,
+  UPLOADS_RATE_LIMIT,
+  WORK_EDITS_RATE_LIMIT
+} from "./constants/rate-limits";
+import {getArtist, getArtistByName, getArtists, putArtist} from "./services/artists";
+import {getAudit} from "./services/audit";
+import {
+  deleteCollaborator,
+  getInvitations,
+  postCollaborator,
+  postInvitation
+} from "./services/collaborators";
+import {
+  deleteComment,
+  getComments,
+  postComment,
+  postCommentVisibility,
+  putComment
+} from "./services/comments";
+import {getDeliveries, postRetryDeliveries} from "./services/deliveries";
+import {getDigest, postDigestToDiscord} from "./services/digests";
+import {postInteraction} from "./services/interactions";
+import {getMediumReview, getMediums, postMediumMigration} from "./services/mediums";
+import {getFavourites, getReactions, postFavourite, postReact} from "./services/reactions";
+import {postReindex} from "./services/reindex";
+import {getRevision, getRevisions} from "./services/revisions";
+import {deleteRole, getRole, getRoles, putRole} from "./services/roles";
+import {getSearch} from "./services/search";
+import {getSeasons, putSeason} from "./services/seasons";
+import {getTags, putTag} from "./services/tags";
+import {deleteTrash, getTrash} from "./services/trash";
+import {getWeeks, putWeeks} from "./services/weeks";
+import {
+  deleteWorks,
+  getWork,
+  getWorks,
+  postApprove,
+  postReject,
+  postRestore,
+  postRevert,
+  postUpload,
+  putWork
+} from "./services/works";
+import Route from "./types/route";
+
+const YEAR_QUERY_SCHEMA = Joi.string().pattern(/^\d{4}$/);
+
+const PAGE_QUERY_SCHEMA = {
+  limit: Joi.string().pattern(/^\d+$/).custom((value: string, helpers: Joi.CustomHelpers) => {
+    const limit: number = parseInt(value);
+
+    return limit >= 1 && limit <= MAXIMUM_PAGE_SIZE ? value : helpers.error("any.invalid");
+  }),
+  cursor: Joi.string().max(512),
+  order: Joi.string().valid(...Object.values(PageOrder)),
+};
+
+const ID_PARAMS_SCHEMA = Joi.object(
+  {
+    id: Joi.string().alphanum().max(64).required(),
+  },
+);
+
+const REVISION_PARAMS_SCHEMA = Joi.object(
+  {
+    id: ID_PARAMS_SCHEMA.extract("id"),
+    revisionId: Joi.string().guid().required(),
+  },
+);
+
+const COMMENT_PARAMS_SCHEMA = Joi.object(
+  {
+    id: ID_PARAMS_SCHEMA.extract("id"),
+    commentId: Joi.string().guid().required(),
+  },
+);
+
+const COLLABORATOR_PARAMS_SCHEMA = Joi.object(
+  {
+    id: ID_PARAMS_SCHEMA.extract("id"),
+    artistId: Joi.string().alphanum().max(64).required(),
+  },
+);
+
+const WEEK_PARAMS_SCHEMA = Joi.object(
+  {
+    year: YEAR_QUERY_SCHEMA.required(),
+    week: Joi.string().pattern(/^\d+$/).required(),
+  },
+);
+
+const WORK_IDS_SCHEMA = Joi.array().items(Joi.string().max(64)).min(1).required();
+
+const ROUTES: Route[] = [
+  {
+    method: "get",
+    path: "/api/role",
+    isAuthenticated: true,
+    handler: getRole,
+  },
+  {
+    method: "get",
+    path: "/api/roles",
+    permission: Permission.MANAGE_ROLES,
+    handler: getRoles,
+  },
+  {
+    method: "put",
+    path: "/api/roles/:id",
+    permission: Permission.MANAGE_ROLES,
+    params: ID_PARAMS_SCHEMA,
+    body: Joi.object({role: ROLE_ASSIGNMENT_SCHEMA.extract("role")}),
+    handler: putRole,
+  },
+  {
+    method: "delete",
+    path: "/api/roles/:id",
+    permission: Permission.MANAGE_ROLES,
+    params: ID_PARAMS_SCHEMA,
+    handler: deleteRole,
+  },
+  {
+    method: "get",
+    path: "/api/seasons",
+    handler: getSeasons,
+  },
+  {
+    method: "put",
+    path: "/api/seasons/:year",
+    permission: Permission.EDIT_SEASONS,
+    params: Joi.object({year: YEAR_QUERY_SCHEMA.required()}),
+    body: SEASON_SCHEMA,
+    handler: putSeason,
+  },
+  {
+    method: "get",
+    path: "/api/weeks",
+    query: Joi.object({year: YEAR_QUERY_SCHEMA}),
+    handler: getWeeks,
+  },
+  {
+    method: "put",
+    path: "/api/weeks",
+    permission: Permission.EDIT_WEEKS,
+    body: Joi.object().pattern(/^\d+$/, WEEK_SCHEMA),
+    handler: putWeeks,
+  },
+  {
+    method: "get",
+    path: "/api/digests/:year/:week",
+    permission: Permission.EDIT_WEEKS,
+    params: WEEK_PARAMS_SCHEMA,
+    handler: getDigest,
+  },
+  {
+    method: "post",
+    path: "/api/digests/:year/:week/discord",
+    permission: Permission.EDIT_WEEKS,
+    params: WEEK_PARAMS_SCHEMA,
+    handler: postDigestToDiscord,
+  },
+  {
+    method: "get",
+    path: "/api/artists",
+    query: Joi.object({year: YEAR_QUERY_SCHEMA}),
+    handler: getArtists,
+  },
+  {
+    method: "get",
+    path: "/api/artists/by-name/:name",
+    params: Joi.object({name: Joi.string().max(128).required()}),
+    handler: getArtistByName,
+  },
+  {
+    method: "get",
+    path: "/api/artists/:id",
+    params: ID_PARAMS_SCHEMA,
+    handler: getArtist,
+  },
+  {
+    method: "put",
+    path: "/api/artists/:id",
+    isAuthenticated: true,
+    rateLimit: ARTIST_EDITS_RATE_LIMIT,
+    params: ID_PARAMS_SCHEMA,
+    body: ARTIST_SCHEMA,
+    handler: putArtist,
+  },
+  {
+    method: "get",
+    path: "/api/works",
+    query: Joi.object(
+      {
+        year: YEAR_QUERY_SCHEMA,
+        week: Joi.string().pattern(/^\d+$/),
+        artistId: Joi.string().alphanum().max(64),
+        tag: Joi.string().max(MAXIMUM_TAG_LENGTH),
+        medium: Joi.string().pattern(/^[\w-]+(\/[\w-]+)?$/).max(64),
+        isUnapproved: Joi.string().max(5),
+        sort: Joi.string().valid(...Object.values(WorksSort)),
+        ...PAGE_QUERY_SCHEMA,
+      },
+    ),
+    handler: getWorks,
+  },
+  {
+    method: "put",
+    path: "/api/works",
+    isAuthenticated: true,
+    rateLimit: WORK_EDITS_RATE_LIMIT,
+    body: WORK_SCHEMA,
+    handler: putWork,
+  },
+  {
+    method: "delete",
+    path: "/api/works",
+    permission: Permission.MODERATE_WORKS,
+    body: WORK_IDS_SCHEMA,
+    handler: deleteWorks,
+  },
+  {
+    method: "post",
+    path: "/api/works/approve",
+    permission: Permission.MODERATE_WORKS,
+    body: WORK_IDS_SCHEMA,
+    handler: postApprove,
+  },
+  {
+    method: "post",
+    path: "/api/works/reject",
+    permission: Permission.MODERATE_WORKS,
+    body: REJECTION_REQUEST_SCHEMA,
+    handler: postReject,
+  },
+  {
+    method: "post",
+    path: "/api/works/restore",
+    permission: Permission.MODERATE_WORKS,
+    body: WORK_IDS_SCHEMA,
+    handler: postRestore,
+  },
+  {
+    method: "get",
+    path: "/api/works/:id",
+    handler: getWork,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/react",
+    permission: Permission.REACT,
+    rateLimit: REACTIONS_RATE_LIMIT,
+    params: ID_PARAMS_SCHEMA,
+    body: REACTION_REQUEST_SCHEMA,
+    handler: postReact,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/favourite",
+    permission: Permission.REACT,
+    rateLimit: REACTIONS_RATE_LIMIT,
+    params: ID_PARAMS_SCHEMA,
+    body: FAVOURITE_REQUEST_SCHEMA,
+    handler: postFavourite,
+  },
+  {
+    method: "get",
+    path: "/api/works/:id/comments",
+    params: ID_PARAMS_SCHEMA,
+    handler: getComments,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/comments",
+    permission: Permission.POST_COMMENTS,
+    rateLimit: COMMENTS_RATE_LIMIT,
+    params: ID_PARAMS_SCHEMA,
+    body: COMMENT_REQUEST_SCHEMA,
+    handler: postComment,
+  },
+  {
+    method: "put",
+    path: "/api/works/:id/comments/:commentId",
+    permission: Permission.POST_COMMENTS,
+    rateLimit: COMMENTS_RATE_LIMIT,
+    params: COMMENT_PARAMS_SCHEMA,
+    body: COMMENT_REQUEST_SCHEMA,
+    handler: putComment,
+  },
+  {
+    method: "delete",
+    path: "/api/works/:id/comments/:commentId",
+    isAuthenticated: true,
+    rateLimit: COMMENTS_RATE_LIMIT,
+    params: COMMENT_PARAMS_SCHEMA,
+    handler: deleteComment,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/comments/:commentId/visibility",
+    permission: Permission.MODERATE_COMMENTS,
+    params: COMMENT_PARAMS_SCHEMA,
+    body: COMMENT_VISIBILITY_REQUEST_SCHEMA,
+    handler: postCommentVisibility,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/collaborators",
+    isAuthenticated: true,
+    rateLimit: COLLABORATORS_RATE_LIMIT,
+    params: ID_PARAMS_SCHEMA,
+    body: COLLABORATOR_REQUEST_SCHEMA,
+    handler: postCollaborator,
+  },
+  {
+    method: "delete",
+    path: "/api/works/:id/collaborators/:artistId",
+    isAuthenticated: true,
+    rateLimit: COLLABORATORS_RATE_LIMIT,
+    params: COLLABORATOR_PARAMS_SCHEMA,
+    handler: deleteCollaborator,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/invitation",
+    isAuthenticated: true,
+    rateLimit: COLLABORATORS_RATE_LIMIT,
+    params: ID_PARAMS_SCHEMA,
+    body: INVITATION_RESPONSE_SCHEMA,
+    handler: postInvitation,
+  },
+  {
+    method: "get",
+    path: "/api/works/:id/revisions",
+    isAuthenticated: true,
+    params: ID_PARAMS_SCHEMA,
+    query: Joi.object(PAGE_QUERY_SCHEMA),
+    handler: getRevisions,
+  },
+  {
+    method: "get",
+    path: "/api/works/:id/revisions/:revisionId",
+    isAuthenticated: true,
+    params: REVISION_PARAMS_SCHEMA,
+    handler: getRevision,
+  },
+  {
+    method: "post",
+    path: "/api/works/:id/revisions/:revisionId/revert",
+    permission: Permission.EDIT_ANY_WORK,
+    params: REVISION_PARAMS_SCHEMA,
+    handler: postRevert,
+  },
+  {
+    method: "get",
+    path: "/api/reactions",
+    isAuthenticated: true,
+    handler: getReactions,
+  },
+  {
+    method: "get",
+    path: "/api/favourites",
+    isAuthenticated: true,
+    query: Joi.object(PAGE_QUERY_SCHEMA),
+    handler: getFavourites,
+  },
+  {
+    method: "get",
+    path: "/api/invitations",
+    isAuthenticated: true,
+    handler: getInvitations,
+  },
+  {
+    method: "get",
+    path: "/api/tags",
+    handler: getTags,
+  },
+  {
+    method: "put",
+    path: "/api/tags/:tag",
+    permission: Permission.MANAGE_TAGS,
+    params: Joi.object({tag: Joi.string().max(MAXIMUM_TAG_LENGTH).required()}),
+    body: TAG_RENAME_REQUEST_SCHEMA,
+    handler: putTag,
+  },
+  {
+    method: "get",
+    path: "/api/mediums",
+    query: Joi.object({year: YEAR_QUERY_SCHEMA}),
+    handler: getMediums,
+  },
+  {
+    method: "get",
+    path: "/api/mediums/review",
+    permission: Permission.EDIT_ANY_WORK,
+    handler: getMediumReview,
+  },
+  {
+    method: "post",
+    path: "/api/mediums/migrate",
+    permission: Permission.EDIT_ANY_WORK,
+    body: MEDIUM_MIGRATION_SCHEMA,
+    handler: postMediumMigration,
+  },
+  {
+    method: "get",
+    path: "/api/trash",
+    permission: Permission.MODERATE_WORKS,
+    query: Joi.object(PAGE_QUERY_SCHEMA),
+    handler: getTrash,
+  },
+  {
+    method: "delete",
+    path: "/api/trash",
+    permission: Permission.PURGE_WORKS,
+    body: WORK_IDS_SCHEMA,
+    handler: deleteTrash,
+  },
+  {
+    method: "get",
+    path: "/api/search",
+    query: Joi.object(
+      {
+        q: Joi.string().max(128).required(),
+        limit: PAGE_QUERY_SCHEMA.limit,
+        cursor: PAGE_QUERY_SCHEMA.cursor,
+      },
+    ),
+    handler: getSearch,
+  },
+  {
+    method: "get",
+    path: "/api/audit",
+    permission: Permission.VIEW_AUDIT_LOG,
+    query: Joi.object(
+      {
+        actorId: Joi.string().alphanum().max(64),
+        action: Joi.string().valid(...Object.values(AuditAction)),
+        ...PAGE_QUERY_SCHEMA,
+      },
+    ),
+    handler: getAudit,
+  },
+  {
+    method: "post",
+    path: "/api/reindex",
+    permission: Permission.MAINTAIN_STORAGE,
+    body: Joi.object({isDryRun: Joi.boolean()}),
+    handler: postReindex,
+  },
+  {
+    method: "get",
+    path: "/api/deliveries",
+    permission: Permission.MAINTAIN_STORAGE,
+    query: Joi.object(
+      {
+        isStuck: Joi.string().max(5),
+        ...PAGE_QUERY_SCHEMA,
+      },
+    ),
+    handler: getDeliveries,
+  },
+  {
+    method: "post",
+    path: "/api/deliveries/retry",
+    permission: Permission.MAINTAIN_STORAGE,
+    body: Joi.array().items(Joi.string().max(128)).min(1).required(),
+    handler: postRetryDeliveries,
+  },
+
+  // Discord signs its requests instead of sending a token, so the handler checks the caller.
+
+  {
+    method: "post",
+    path: "/api/discord/interactions",
+    handler: postInteraction,
+  },
+  {
+    method: "post",
+    path: "/api/uploads",
+    permission: Permission.SUBMIT_WORKS,
+    rateLimit: UPLOADS_RATE_LIMIT,
+    body: UPLOAD_REQUEST_SCHEMA,
+    handler: postUpload,
+  },
+];
+
+export default ROUTES;
@@ -1,95 +1,186 @@
-import {ValidationError, ValidationResult} from "joi";
-import {ACTIVE_YEAR, EDITORS} from "../../../data/constants/setup";
-import Artist, {ARTIST_SCHEMA} from "../../../data/core/Artist";
-import {ARTISTS} from "../constants/kv";
-import Environment from "../types/environment";
-import {createBadRequestResponse, createForbiddenResponse, createJsonResponse} from "../utils/http";
+import {ValidationError} from "joi";
+import Artist from "../../../data/core/Artist";
+import {AuditAction} from "../../../data/core/Audit";
+import {Permission} from "../../../data/core/Role";
+import UsernameClaim from "../../../data/core/Username";
+import Work from "../../../data/core/Work";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {hasPermission} from "../utils/auth";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createJsonResponse,
+  createNotFoundResponse
+} from "../utils/http";
+import {determineYear, retrieveActiveSeason} from "../utils/kv";
 
 /**
- * Return the artists.
+ * Return the artists of a season.
  *
  * Note that this is not deterministically sorted.
  *
- * @param {Environment} env the workers environment
+ * Params pattern: `?year=<year>`, defaulting to the active season.
+ *
+ * @param {RequestContext} context the context of the request
  * @returns {Promise<Response>} the response
  */
-export const getArtists = async (env: Environment): Promise<Response> => {
-  const artists: Record<string, Artist> = JSON.parse(
-    (await env.REFRESH_KV.get(`${ARTISTS}/${ACTIVE_YEAR}`)) || "{}"
-  );
+export const getArtists = async (
+  {env, repositories, query}: RequestContext,
+): Promise<Response> => {
+  const year: number = await determineYear(env.REFRESH_KV, query.year || null);
+
+  const artists: Record<string, Artist> = await repositories.artists.listBySeason(year);
 
   return createJsonResponse(JSON.stringify(artists), env.ALLOWED_ORIGIN);
 };
 
 /**
- * Edit the username and/or social media information for any given artist by (current) name.
+ * Return a single artist by ID as they currently are, regardless of season.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getArtist = async (
+  {env, repositories, params}: RequestContext,
+): Promise<Response> => {
+  const artist: Artist | undefined = await repositories.artists.get(params.id);
+  if (!artist) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  return createJsonResponse(JSON.stringify(artist), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Return a single artist by any name they hold in the registry, in any case.
  *
- * This is an idempotent call. We are not concerned about race conditions, though in this case
- * they can certainly happen. The rate limit is set to 8 changes per 30 minutes, which is the
- * most aggressive rate limit in the codebase.
+ * Names an artist has renamed away from still find them until someone else claims the name, so
+ * the caller should redirect if the artist's name differs from the one asked for.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
- * @param {string | undefined} identifier the identifier of the calling user
+ * @param {RequestContext} context the context of the request
  * @returns {Promise<Response>} the response
  */
-export const putArtist = async (
-  env: Environment, request: Request, identifier?: string,
+export const getArtistByName = async (
+  {env, repositories, params}: RequestContext,
 ): Promise<Response> => {
-  // Validate type and length and escape the correct request variables.
+  const claim: UsernameClaim | undefined = await repositories.usernames.get(params.name);
+  const artist: Artist | undefined = claim && await repositories.artists.get(claim.artistId);
+
+  if (!artist) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
 
-  const input: Artist = await request.json();
+  return createJsonResponse(JSON.stringify(artist), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * @param {Artist} artist an artist
+ * @returns {Record<string, unknown>} the fields of the artist that are audited
+ */
+const projectAuditedArtist = (artist: Artist): Record<string, unknown> => {
+  return {
+    name: artist.name,
+    thumbnailUrl: artist.thumbnailUrl,
+    socials: artist.socials,
+    isCommentingDisabled: artist.isCommentingDisabled,
+  };
+};
 
-  const validation: ValidationResult = ARTIST_SCHEMA.validate(input);
-  if (validation.error) {
-    return createBadRequestResponse(validation.error, env.ALLOWED_ORIGIN);
+/**
+ * Edit the username and/or social media information for any given artist by (current) name.
+ *
+ * A new username must not be held by anyone else, in any case. The old username stays reserved
+ * for the artist and redirects to them for a while, then anyone can claim it.
+ *
+ * This is an idempotent call. The statistics are kept as stored, so a concurrent submission
+ * can't lose its change to them. The route is rate limited to 8 changes per 30 minutes,
+ * which is the most aggressive rate limit in the codebase.
+ *
+ * @param {RequestContext<Artist>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const putArtist = async (
+  {env, repositories, params, identifier, body: input}: RequestContext<Artist>,
+): Promise<Response> => {
+  // The artist in the path must match the body.
+
+  if (params.id !== input.discordId) {
+    return createBadRequestResponse(new ValidationError(
+      "The artist doesn't match the path.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
   }
 
   // Only allow the owner of the artist object or a staff member perform mutations on the object.
 
-  const isStaff: boolean = identifier ? EDITORS.includes(identifier) : false;
-  if (!identifier || !isStaff && identifier !== input.discordId) {
+  const isStaff: boolean = await hasPermission(
+    env.REFRESH_KV, identifier, Permission.EDIT_ANY_ARTIST,
+  );
+
+  const isOwner: boolean = identifier === input.discordId && await hasPermission(
+    env.REFRESH_KV, identifier, Permission.EDIT_OWN_ARTIST,
+  );
+
+  if (!identifier || !isStaff && !isOwner) {
     return createForbiddenResponse(env.ALLOWED_ORIGIN);
   }
 
   // Retrieve the artist.
 
-  const rawBackendArtist: string | null = await env.REFRESH_KV.get(
-    `${ARTISTS}/${input.discordId}`,
-  );
+  const backendArtist: Artist | undefined = await repositories.artists.get(input.discordId);
 
-  const backendArtist: Artist | undefined = (
-    rawBackendArtist ? JSON.parse(rawBackendArtist) : undefined
-  );
+  // If the username has changed from last time, claim it in the registry. Artists that existed
+  // before the registry claim their name the first time they save.
 
-  // Determine if the username has been changed.
+  input.name = input.name.trim();
 
   const isUsernameChanged: boolean = (
     backendArtist ? input.name !== backendArtist.name : true
   );
 
-  // If the username has changed from last time and is unique, update it.
+  const isUsernameClaimed: boolean = await repositories.usernames.claim(
+    input.discordId, input.name, backendArtist?.name,
+  );
 
-  if (isUsernameChanged && backendArtist) {
+  if (isUsernameChanged && !isUsernameClaimed) {
     return createBadRequestResponse(
-      new ValidationError("New username is taken!", null, null),
+      new ValidationError("New username is taken!", [], []),
       env.ALLOWED_ORIGIN,
     );
   }
 
-  // Update the aggregate list. May result in race condition.
+  // Update the aggregate list of the active season too. Archived seasons keep the artist as
+  // they were at the time.
 
-  const aggregateArtists: Record<string, Artist> = JSON.parse(
-    await env.REFRESH_KV.get(`${ARTISTS}/${ACTIVE_YEAR}`) || "{}"
-  );
+  const year: number = (await retrieveActiveSeason(env.REFRESH_KV)).year;
 
-  aggregateArtists[input.discordId] = input;
+  await repositories.artists.put(input, year);
 
-  await env.REFRESH_KV.put(`${ARTISTS}/${ACTIVE_YEAR}`, JSON.stringify(aggregateArtists));
+  // The artist's name is searchable on their works, so they're found by their new name.
 
-  // Also put it in a guaranteed consistent call.
+  if (backendArtist && isUsernameChanged) {
+    const works: Work[] = (await repositories.works.listByArtist(input.discordId)).filter(
+      (work: Work) => work.artistId === input.discordId
+    );
+
+    for (const work of works) {
+      await repositories.works.indexForSearch(work);
+    }
+  }
 
-  await env.REFRESH_KV.put(`${ARTISTS}/${identifier}`, JSON.stringify(input));
+  // Staff editing another artist is audited.
+
+  if (input.discordId !== identifier) {
+    await recordAudit(repositories, identifier, AuditAction.EDIT_ARTIST, [
+      summariseChange(
+        input.discordId,
+        backendArtist && projectAuditedArtist(backendArtist),
+        projectAuditedArtist(input),
+      ),
+    ]);
+  }
 
   return createJsonResponse("{}", env.ALLOWED_ORIGIN);
 };
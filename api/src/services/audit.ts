@@ -0,0 +1,60 @@
+/**
+ * Internal and external handlers for audit log endpoints.
+ */
+
+import {ValidationError} from "joi";
+import {DEFAULT_PAGE_SIZE} from "../../../data/constants/setup";
+import AuditEntry from "../../../data/core/Audit";
+import Page, {PageOrder} from "../../../data/core/Page";
+import {AuditHeader} from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+
+/**
+ * Return a page of the audit log, newest first by default.
+ *
+ * Params pattern: `?actorId=<actor>&action=<action>&limit=<limit>&cursor=<cursor>
+ * &order=<ascending|descending>`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getAudit = async ({env, repositories, query}: RequestContext): Promise<Response> => {
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+  const order: PageOrder = query.order === PageOrder.ASCENDING ? (
+    PageOrder.ASCENDING
+  ) : PageOrder.DESCENDING;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  // Filter and page through the headers so only the entries of the page are read.
+
+  const headers: AuditHeader[] = (await repositories.audit.list()).filter(
+    (header: AuditHeader) => !query.actorId || header.actorId === query.actorId
+  ).filter(
+    (header: AuditHeader) => !query.action || header.action === query.action
+  );
+
+  const headerPage: Page<AuditHeader> = paginate(
+    headers, (header: AuditHeader) => [header.timestamp, header.id], limit, order, after,
+  );
+
+  const entries: (AuditEntry | undefined)[] = await Promise.all(headerPage.items.map(
+    (header: AuditHeader) => repositories.audit.get(header.id)
+  ));
+
+  const page: Page<AuditEntry> = {
+    items: entries.filter((entry: AuditEntry | undefined): entry is AuditEntry => !!entry),
+    nextCursor: headerPage.nextCursor,
+  };
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
+};
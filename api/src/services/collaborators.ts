@@ -0,0 +1,268 @@
+/**
+ * Internal and external handlers for the artists credited on works.
+ *
+ * A work's artist invites other artists to be credited on it. Each invited artist accepts or
+ * declines. Once accepted, the work is listed under them too and they can edit it.
+ */
+
+import {ValidationError} from "joi";
+import {MAXIMUM_COLLABORATORS_PER_WORK} from "../../../data/constants/setup";
+import Artist from "../../../data/core/Artist";
+import {AuditAction} from "../../../data/core/Audit";
+import {DeliveryKind} from "../../../data/core/Delivery";
+import {Permission} from "../../../data/core/Role";
+import Work, {CollaboratorRequest, InvitationResponse} from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {hasPermission} from "../utils/auth";
+import {deliverNow} from "../utils/deliveries";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createJsonResponse,
+  createNotFoundResponse
+} from "../utils/http";
+import {placeWork} from "../utils/kv";
+
+/**
+ * @param {string[] | undefined} ids a list of artist IDs, if any
+ * @param {string} id the ID to remove
+ * @returns {string[] | undefined} the list without the ID, or nothing if it's left empty
+ */
+const withoutId = (ids: string[] | undefined, id: string): string[] | undefined => {
+  const remaining: string[] = (ids || []).filter((candidate: string) => candidate !== id);
+
+  return remaining.length > 0 ? remaining : undefined;
+};
+
+/**
+ * @param {Work} work a work
+ * @returns {Record<string, unknown>} the fields of the work that are audited on staff changes
+ */
+const projectAuditedCredits = (work: Work): Record<string, unknown> => {
+  return {
+    collaboratorIds: work.collaboratorIds || [],
+    invitedCollaboratorIds: work.invitedCollaboratorIds || [],
+  };
+};
+
+/**
+ * Invite an artist to be credited on a work.
+ *
+ * Only the work's artist and staff can invite. The invited artist must already exist and can't
+ * already be credited or invited. The response is the work, in the same shape as `getWork`.
+ *
+ * @param {RequestContext<CollaboratorRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postCollaborator = async (
+  {env, repositories, identifier, params, body}: RequestContext<CollaboratorRequest>,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!work || work.isSoftDeleted) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const isOwner: boolean = work.artistId === identifier;
+  if (!isOwner && !await hasPermission(env.REFRESH_KV, identifier, Permission.EDIT_ANY_WORK)) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const artist: Artist | undefined = await repositories.artists.get(body.artistId);
+  if (!artist) {
+    return createBadRequestResponse(new ValidationError(
+      "That artist doesn't exist. They need to make a profile first.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  // The work is checked again as it's changed, as someone else could invite at the same time.
+
+  let rejection: string | undefined = undefined;
+
+  const changed: Work | undefined = await repositories.works.update(work.id, (current: Work) => {
+    const invitedIds: string[] = current.invitedCollaboratorIds || [];
+    const creditedIds: string[] = getCreditedArtistIds(current);
+
+    if (creditedIds.includes(body.artistId) || invitedIds.includes(body.artistId)) {
+      rejection = "That artist is already credited or invited.";
+    } else if (creditedIds.length - 1 + invitedIds.length >= MAXIMUM_COLLABORATORS_PER_WORK) {
+      rejection = `A work can't have more than ${MAXIMUM_COLLABORATORS_PER_WORK} collaborators.`;
+    }
+
+    return rejection ? current : {
+      ...current, invitedCollaboratorIds: [...invitedIds, artist.discordId],
+    };
+  });
+
+  if (!changed) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  if (rejection) {
+    return createBadRequestResponse(new ValidationError(rejection, [], []), env.ALLOWED_ORIGIN);
+  }
+
+  // Invitations don't credit anyone yet, so the work doesn't need to be placed.
+
+  await repositories.works.put(changed);
+
+  if (!isOwner) {
+    await recordAudit(repositories, identifier, AuditAction.EDIT_WORK, [
+      summariseChange(work.id, projectAuditedCredits(work), projectAuditedCredits(changed)),
+    ]);
+  }
+
+  return createJsonResponse(JSON.stringify({[changed.id]: changed}), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Take an artist off a work, whether they accepted their invitation or not.
+ *
+ * The work's artist and staff can take anyone off. Any other artist can only take themselves
+ * off, which is how collaborators leave. The response is the work.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const deleteCollaborator = async (
+  {env, repositories, discord, identifier, params}: RequestContext,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!work || work.isSoftDeleted) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const isOwnChoice: boolean = work.artistId === identifier || params.artistId === identifier;
+  if (
+    !isOwnChoice
+    && !await hasPermission(env.REFRESH_KV, identifier, Permission.EDIT_ANY_WORK)
+  ) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  let wasCredited = false;
+  let wasListed = false;
+  let previous: Work = work;
+
+  const changed: Work | undefined = await repositories.works.update(work.id, (current: Work) => {
+    previous = current;
+    wasCredited = !!current.collaboratorIds?.includes(params.artistId);
+    wasListed = wasCredited || !!current.invitedCollaboratorIds?.includes(params.artistId);
+
+    return {
+      ...current,
+      collaboratorIds: withoutId(current.collaboratorIds, params.artistId),
+      invitedCollaboratorIds: withoutId(current.invitedCollaboratorIds, params.artistId),
+    };
+  });
+
+  if (!changed || !wasListed) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  // Taking off a credited artist changes their statistics, their index and the credits on
+  // Discord. The work is placed from the version the artist was taken off, as stored.
+
+  if (wasCredited) {
+    await placeWork(repositories, changed, previous);
+    await deliverNow(env, repositories, discord, DeliveryKind.WORK, changed.id);
+  } else {
+    await repositories.works.put(changed);
+  }
+
+  if (!isOwnChoice) {
+    await recordAudit(repositories, identifier, AuditAction.EDIT_WORK, [
+      summariseChange(work.id, projectAuditedCredits(work), projectAuditedCredits(changed)),
+    ]);
+  }
+
+  return createJsonResponse(JSON.stringify({[changed.id]: changed}), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Accept or decline the caller's invitation to be credited on a work.
+ *
+ * Accepting lists the work under the caller and credits them everywhere, including on Discord.
+ * The response is the work.
+ *
+ * @param {RequestContext<InvitationResponse>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postInvitation = async (
+  {env, repositories, discord, identifier, params, body}: RequestContext<InvitationResponse>,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!work || work.isSoftDeleted) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  let wasInvited = false;
+
+  const changed: Work | undefined = await repositories.works.update(work.id, (current: Work) => {
+    wasInvited = !!current.invitedCollaboratorIds?.includes(identifier);
+    if (!wasInvited) {
+      return current;
+    }
+
+    return {
+      ...current,
+      collaboratorIds: body.isAccepting ? (
+        [...(current.collaboratorIds || []), identifier]
+      ) : current.collaboratorIds,
+      invitedCollaboratorIds: withoutId(current.invitedCollaboratorIds, identifier),
+    };
+  });
+
+  if (!changed || !wasInvited) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  if (body.isAccepting) {
+    await placeWork(repositories, changed, work);
+    await deliverNow(env, repositories, discord, DeliveryKind.WORK, changed.id);
+  } else {
+    await repositories.works.put(changed);
+  }
+
+  return createJsonResponse(JSON.stringify({[changed.id]: changed}), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Return every work the caller is invited to be credited on and hasn't answered yet.
+ *
+ * The response maps work IDs to works, in the same shape as `getWork`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getInvitations = async (
+  {env, repositories, identifier}: RequestContext,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const works: Work[] = (await repositories.works.listAll()).filter(
+    (work: Work) => !work.isSoftDeleted && !!work.invitedCollaboratorIds?.includes(identifier)
+  );
+
+  return createJsonResponse(
+    JSON.stringify(Object.fromEntries(works.map((work: Work) => [work.id, work]))),
+    env.ALLOWED_ORIGIN,
+  );
+};
@@ -0,0 +1,351 @@
+/**
+ * Internal and external handlers for comments on works.
+ */
+
+import {ValidationError} from "joi";
+import Artist from "../../../data/core/Artist";
+import {AuditAction} from "../../../data/core/Audit";
+import Comment, {CommentRequest, CommentVisibilityRequest} from "../../../data/core/Comment";
+import {Permission} from "../../../data/core/Role";
+import Work from "../../../data/core/Work";
+import Repositories from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {hasPermission} from "../utils/auth";
+import {countVisibleComments, isCommentVisible, removeComment} from "../utils/comments";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createJsonResponse,
+  createNotFoundResponse
+} from "../utils/http";
+
+/**
+ * @param {Work | undefined} work a work, if it exists
+ * @returns {boolean} whether the work can have comments, which only approved works can
+ */
+const isCommentable = (work: Work | undefined): work is Work => {
+  return !!work && work.isApproved && !work.isSoftDeleted;
+};
+
+/**
+ * Create the response listing the comments on a work, oldest first.
+ *
+ * Staff see every comment, including hidden ones. Everyone else only sees visible comments.
+ *
+ * @param {RequestContext} context the context of the request
+ * @param {Record<string, Comment>} comments a map of IDs to every comment on the work
+ * @returns {Promise<Response>} the response
+ */
+const createCommentsResponse = async (
+  {env, identifier}: RequestContext<unknown>,
+  comments: Record<string, Comment>,
+): Promise<Response> => {
+  const isStaff: boolean = await hasPermission(
+    env.REFRESH_KV, identifier, Permission.MODERATE_COMMENTS,
+  );
+
+  const listed: Comment[] = Object.values(comments).filter(
+    (comment: Comment) => isStaff || isCommentVisible(comment, comments)
+  ).sort(
+    (a: Comment, b: Comment) => a.timestamp.localeCompare(b.timestamp)
+  );
+
+  return createJsonResponse(JSON.stringify(listed), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Store the number of visible comments on a work, if it changed.
+ *
+ * The work as it's stored by ID is changed, then copied onto its listed copies.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {string} workId the ID of the work
+ * @param {Record<string, Comment>} comments a map of IDs to every comment on the work
+ */
+const refreshCommentsCount = async (
+  repositories: Repositories, workId: string, comments: Record<string, Comment>,
+): Promise<void> => {
+  const count: number = countVisibleComments(comments);
+
+  const changed: Work | undefined = await repositories.works.update(workId, (current: Work) => (
+    (current.commentsCount || 0) === count ? current : {...current, commentsCount: count}
+  ));
+
+  if (changed) {
+    await repositories.works.refreshListed(changed);
+  }
+};
+
+/**
+ * Check that a work can be commented on, which it can't be unless it's approved, or if its
+ * artist turned comments off.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response | undefined>} the response to refuse the request with, if it can't
+ */
+const checkCommentable = async (
+  {env, repositories, params}: RequestContext<unknown>,
+): Promise<Response | undefined> => {
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!isCommentable(work)) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const artist: Artist | undefined = await repositories.artists.get(work.artistId);
+  if (artist?.isCommentingDisabled) {
+    return createBadRequestResponse(new ValidationError(
+      "The artist has turned off comments on their works.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  return undefined;
+};
+
+/**
+ * Return the comments on a work, oldest first.
+ *
+ * Replies are listed alongside the comments they reply to, so the frontend builds the threads.
+ * There is no authentication check, but staff also see hidden comments.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getComments = async (context: RequestContext): Promise<Response> => {
+  const {env, repositories, params} = context;
+
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!isCommentable(work)) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  return createCommentsResponse(context, await repositories.comments.list(work.id));
+};
+
+/**
+ * Write a comment on a work or reply to a comment on it.
+ *
+ * Replies are only one level deep, so a reply can't be replied to. Nobody can comment on the
+ * works of an artist who turned comments off. The response lists every comment on the work.
+ *
+ * @param {RequestContext<CommentRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postComment = async (
+  context: RequestContext<CommentRequest>,
+): Promise<Response> => {
+  const {env, repositories, identifier, params, body} = context;
+
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const refusal: Response | undefined = await checkCommentable(context);
+  if (refusal) {
+    return refusal;
+  }
+
+  const comment: Comment = {
+    id: crypto.randomUUID(),
+    workId: params.id,
+    authorId: identifier,
+    parentId: body.parentId,
+    body: body.body.trim(),
+    timestamp: new Date().toISOString(),
+  };
+
+  // The comment being replied to is checked as the comments are changed, as it could be removed
+  // at the same time.
+
+  let isReplyable = true;
+
+  const comments: Record<string, Comment> = await repositories.comments.update(
+    params.id,
+    (current: Record<string, Comment>) => {
+      const parent: Comment | undefined = body.parentId ? current[body.parentId] : undefined;
+
+      isReplyable = !body.parentId || !!parent && !parent.parentId && !parent.isDeleted && (
+        isCommentVisible(parent, current)
+      );
+
+      return isReplyable ? {...current, [comment.id]: comment} : current;
+    },
+  );
+
+  if (!isReplyable) {
+    return createBadRequestResponse(new ValidationError(
+      "That comment can't be replied to.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  await refreshCommentsCount(repositories, params.id, comments);
+
+  return createCommentsResponse(context, comments);
+};
+
+/**
+ * Edit the body of a comment. Only its author can edit it, if they can still comment, and not
+ * once it's deleted or once the work can't be commented on.
+ *
+ * The response lists every comment on the work.
+ *
+ * @param {RequestContext<CommentRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const putComment = async (
+  context: RequestContext<CommentRequest>,
+): Promise<Response> => {
+  const {env, repositories, identifier, params, body} = context;
+
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const comment: Comment | undefined = (await repositories.comments.list(params.id))[
+    params.commentId
+  ];
+
+  if (!comment || comment.isDeleted) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  if (comment.authorId !== identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  // Like writing a comment, editing one isn't allowed once the work can't be commented on.
+
+  const refusal: Response | undefined = await checkCommentable(context);
+  if (refusal) {
+    return refusal;
+  }
+
+  const comments: Record<string, Comment> = await repositories.comments.update(
+    params.id,
+    (current: Record<string, Comment>) => {
+      const existing: Comment | undefined = current[params.commentId];
+      if (!existing || existing.isDeleted) {
+        return current;
+      }
+
+      return {
+        ...current,
+        [existing.id]: {
+          ...existing, body: body.body.trim(), editedTimestamp: new Date().toISOString(),
+        },
+      };
+    },
+  );
+
+  return createCommentsResponse(context, comments);
+};
+
+/**
+ * Delete a comment. Authors can delete their own comments, even if they can no longer comment,
+ * and staff can remove any comment, which is audited.
+ *
+ * A comment with replies is kept without its body so the replies still make sense. The response
+ * lists every comment on the work.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const deleteComment = async (context: RequestContext): Promise<Response> => {
+  const {env, repositories, identifier, params} = context;
+
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const comment: Comment | undefined = (await repositories.comments.list(params.id))[
+    params.commentId
+  ];
+
+  if (!comment || comment.isDeleted) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const isAuthor: boolean = comment.authorId === identifier;
+  if (
+    !isAuthor
+    && !await hasPermission(env.REFRESH_KV, identifier, Permission.MODERATE_COMMENTS)
+  ) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const comments: Record<string, Comment> = await repositories.comments.update(
+    params.id, (current: Record<string, Comment>) => removeComment(current, params.commentId),
+  );
+
+  await refreshCommentsCount(repositories, params.id, comments);
+
+  if (!isAuthor) {
+    await recordAudit(repositories, identifier, AuditAction.REMOVE_COMMENT, [
+      summariseChange(comment.id, {
+        workId: comment.workId, authorId: comment.authorId, body: comment.body,
+      }),
+    ]);
+  }
+
+  return createCommentsResponse(context, comments);
+};
+
+/**
+ * Hide a comment from everyone but staff, or show it again. Replies to a hidden comment are
+ * hidden with it.
+ *
+ * The response lists every comment on the work.
+ *
+ * @param {RequestContext<CommentVisibilityRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postCommentVisibility = async (
+  context: RequestContext<CommentVisibilityRequest>,
+): Promise<Response> => {
+  const {env, repositories, identifier, params, body} = context;
+
+  const comment: Comment | undefined = (await repositories.comments.list(params.id))[
+    params.commentId
+  ];
+
+  if (!comment) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const comments: Record<string, Comment> = await repositories.comments.update(
+    params.id,
+    (current: Record<string, Comment>) => {
+      const existing: Comment | undefined = current[params.commentId];
+      if (!existing) {
+        return current;
+      }
+
+      return {
+        ...current,
+        [existing.id]: {
+          ...existing,
+          isHidden: body.isHidden || undefined,
+          hiddenBy: body.isHidden ? identifier : undefined,
+        },
+      };
+    },
+  );
+
+  await refreshCommentsCount(repositories, params.id, comments);
+
+  if (identifier) {
+    await recordAudit(repositories, identifier, AuditAction.HIDE_COMMENT, [
+      summariseChange(
+        comment.id,
+        {workId: comment.workId, isHidden: !!comment.isHidden},
+        {workId: comment.workId, isHidden: body.isHidden},
+      ),
+    ]);
+  }
+
+  return createCommentsResponse(context, comments);
+};
@@ -0,0 +1,108 @@
+/**
+ * Internal and external handlers for the outbox of Discord deliveries.
+ */
+
+import {ValidationError} from "joi";
+import {DEFAULT_PAGE_SIZE} from "../../../data/constants/setup";
+import Delivery from "../../../data/core/Delivery";
+import Page, {PageOrder} from "../../../data/core/Page";
+import DiscordClient from "../types/discord";
+import Environment from "../types/environment";
+import Repositories from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {attemptDelivery, isDue, isStuck, queueDelivery} from "../utils/deliveries";
+import {createDiscordClient} from "../utils/discord";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+import {createRepositories} from "../utils/kv";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+
+/**
+ * Return a page of the pending Discord deliveries, oldest first by default.
+ *
+ * Params pattern: `?isStuck=<true|false>&limit=<limit>&cursor=<cursor>
+ * &order=<ascending|descending>`. Stuck deliveries are those that are no longer retried on a
+ * schedule.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getDeliveries = async (
+  {env, repositories, query}: RequestContext,
+): Promise<Response> => {
+  const isSeekingStuck: boolean = ["1", "true"].includes(query.isStuck?.toLowerCase() || "???");
+
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+  const order: PageOrder = query.order === PageOrder.DESCENDING ? (
+    PageOrder.DESCENDING
+  ) : PageOrder.ASCENDING;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  const page: Page<Delivery> = paginate(
+    (await repositories.deliveries.list()).filter(
+      (delivery: Delivery) => !isSeekingStuck || isStuck(delivery)
+    ),
+    (delivery: Delivery) => [delivery.queuedTimestamp, delivery.key],
+    limit,
+    order,
+    after,
+  );
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Attempt the given deliveries again straight away, including stuck ones.
+ *
+ * The body is expected to be a JSON array of delivery keys. Each delivery starts again from no
+ * attempts, so it is retried on a schedule if it fails again.
+ *
+ * The response lists the keys that were delivered.
+ *
+ * @param {RequestContext<string[]>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postRetryDeliveries = async (
+  {env, repositories, discord, body: keys}: RequestContext<string[]>,
+): Promise<Response> => {
+  const deliveries: Delivery[] = (await repositories.deliveries.list()).filter(
+    (delivery: Delivery) => keys.includes(delivery.key)
+  );
+
+  const deliveredKeys: string[] = [];
+  for (const delivery of deliveries) {
+    const requeued: Delivery = await queueDelivery(repositories, delivery.kind, delivery.targetId);
+
+    if (await attemptDelivery(env, repositories, discord, requeued)) {
+      deliveredKeys.push(delivery.key);
+    }
+  }
+
+  return createJsonResponse(JSON.stringify(deliveredKeys), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Attempt every delivery that is due on a schedule.
+ *
+ * @param {Environment} env the workers environment
+ */
+export const scheduleDeliveries = async (env: Environment): Promise<void> => {
+  const now: Date = new Date();
+
+  const repositories: Repositories = createRepositories(env);
+  const discord: DiscordClient = createDiscordClient();
+  const deliveries: Delivery[] = (await repositories.deliveries.list()).filter(
+    (delivery: Delivery) => isDue(delivery, now)
+  );
+
+  for (const delivery of deliveries) {
+    await attemptDelivery(env, repositories, discord, delivery);
+  }
+};
@@ -0,0 +1,130 @@
+/**
+ * Internal and external handlers for the weekly showcase digest.
+ */
+
+import {ValidationError} from "joi";
+import Artist from "../../../data/core/Artist";
+import {AuditAction} from "../../../data/core/Audit";
+import Digest, {DigestEntry} from "../../../data/core/Digest";
+import Week from "../../../data/core/Week";
+import Work from "../../../data/core/Work";
+import {DiscordError} from "../types/discord";
+import Environment from "../types/environment";
+import Repositories from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {recordAudit} from "../utils/audit";
+import {buildDiscordDigestMessages} from "../utils/discord";
+import {
+  createBadGatewayResponse,
+  createBadRequestResponse,
+  createJsonResponse
+} from "../utils/http";
+
+/**
+ * Compile the approved works of a week into a digest, in the order they were submitted.
+ *
+ * @param {Environment} env the workers environment
+ * @param {Repositories} repositories the repositories
+ * @param {number} year the year of the season
+ * @param {number} week the week number
+ * @returns {Promise<Digest>} the digest
+ */
+const compileDigest = async (
+  env: Environment, repositories: Repositories, year: number, week: number,
+): Promise<Digest> => {
+  const weeks: Record<string, Week> = await repositories.weeks.listBySeason(year);
+  const artists: Record<string, Artist> = await repositories.artists.listBySeason(year);
+
+  const works: Work[] = (await repositories.works.listByWeek(year, week)).filter(
+    (work: Work) => work.isApproved && !work.isSoftDeleted
+  ).sort(
+    (workA: Work, workB: Work) => workA.submittedTimestamp.localeCompare(workB.submittedTimestamp)
+  );
+
+  return {
+    year: year,
+    week: week,
+    theme: weeks[week]?.theme || "",
+    entries: works.map((work: Work): DigestEntry => ({
+      workId: work.id,
+      title: work.title,
+      artistId: work.artistId,
+      artistName: (
+        artists[work.artistId]?.name || work.firstSeenArtistInfo?.name || work.artistId
+      ),
+      medium: work.medium || undefined,
+      thumbnailUrl: work.thumbnailUrl,
+      url: `${env.ALLOWED_ORIGIN}/works/${work.id}`,
+    })),
+  };
+};
+
+/**
+ * Return the showcase digest of a week.
+ *
+ * Params pattern: `/api/digests/<year>/<week>`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getDigest = async (
+  {env, repositories, params}: RequestContext,
+): Promise<Response> => {
+  const digest: Digest = await compileDigest(
+    env, repositories, parseInt(params.year), parseInt(params.week),
+  );
+
+  return createJsonResponse(JSON.stringify(digest), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Post the showcase digest of a week to the weeks channel on Discord.
+ *
+ * This is not retried from the outbox, as posting the same digest twice would duplicate it. If
+ * Discord refuses a message partway through, the response says so and nothing else is posted.
+ *
+ * The response lists the Discord IDs of the messages that were posted.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postDigestToDiscord = async (
+  {env, repositories, discord, identifier, params}: RequestContext,
+): Promise<Response> => {
+  const digest: Digest = await compileDigest(
+    env, repositories, parseInt(params.year), parseInt(params.week),
+  );
+
+  if (digest.entries.length === 0) {
+    return createBadRequestResponse(new ValidationError(
+      "There are no approved works in this week to showcase.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  const messageIds: string[] = [];
+
+  try {
+    for (const message of buildDiscordDigestMessages(digest)) {
+      messageIds.push(await discord.createMessage(env.WEEKS_DISCORD_URL, message));
+    }
+  } catch (error: unknown) {
+    if (!(error instanceof DiscordError)) {
+      throw error;
+    }
+
+    return createBadGatewayResponse(
+      `Discord refused the digest after ${messageIds.length} messages: ${error.message}`,
+      env.ALLOWED_ORIGIN,
+    );
+  } finally {
+    if (identifier && messageIds.length > 0) {
+      await recordAudit(
+        repositories, identifier, AuditAction.POST_DIGEST, [], [`${digest.year}/${digest.week}`],
+      );
+    }
+  }
+
+  return createJsonResponse(JSON.stringify(messageIds), env.ALLOWED_ORIGIN);
+};
@@ -0,0 +1,204 @@
+/**
+ * Internal and external handlers for Discord interactions.
+ *
+ * Staff can moderate works from Discord with the `/approve <id>` and `/delete <id>` slash
+ * commands, or the Approve and Request Changes buttons on each submission post. The commands are
+ * registered with Discord separately.
+ */
+
+import {Permission} from "../../../data/core/Role";
+import Work from "../../../data/core/Work";
+import Interaction, {
+  ComponentType,
+  InteractionResponseType,
+  InteractionType,
+  ModerationAction
+} from "../types/interactions";
+import {RequestContext} from "../types/route";
+import {hasPermission} from "../utils/auth";
+import {createJsonResponse, createUnauthorizedResponse} from "../utils/http";
+import {
+  completeDeferredReply,
+  createDeferredReply,
+  createEphemeralReply,
+  findInputValue,
+  getInteractionUserId,
+  parseCustomId,
+  verifyInteraction
+} from "../utils/interactions";
+import {deleteWorks, postApprove, postReject} from "./works";
+
+/**
+ * The custom ID of the text input for the changes asked of the artist.
+ */
+const REASON_INPUT_ID = "reason";
+
+/**
+ * The reply to each action once it has been taken.
+ */
+const ACTION_REPLIES: Record<ModerationAction, string> = {
+  [ModerationAction.APPROVE]: "Approved",
+  [ModerationAction.DELETE]: "Deleted",
+  [ModerationAction.REJECT]: "Requested changes to",
+};
+
+/**
+ * Ask for the changes the artist needs to make before sending a work back to them.
+ *
+ * @param {string} id the ID of the work
+ * @returns {Promise<Response>} the response
+ */
+const createReasonModal = async (id: string): Promise<Response> => {
+  return createJsonResponse(JSON.stringify({
+    type: InteractionResponseType.MODAL,
+    data: {
+      custom_id: `${ModerationAction.REJECT}/${id}`,
+      title: "Request Changes",
+      components: [
+        {
+          type: ComponentType.ACTION_ROW,
+          components: [
+            {
+              type: ComponentType.TEXT_INPUT,
+              custom_id: REASON_INPUT_ID,
+              label: "What does the artist need to change?",
+              style: 2,
+              min_length: 3,
+              max_length: 1024,
+              required: true,
+            },
+          ],
+        },
+      ],
+    },
+  }));
+};
+
+/**
+ * Take an action on a work for a deferred interaction, then reply with how it went.
+ *
+ * @param {RequestContext} context the context of the request, as the user who interacted
+ * @param {Interaction} interaction the interaction
+ * @param {ModerationAction} action the action
+ * @param {Work} work the work
+ * @param {string} reason the changes asked of the artist, if the work is sent back
+ */
+const completeAction = async (
+  context: RequestContext,
+  interaction: Interaction,
+  action: ModerationAction,
+  work: Work,
+  reason: string,
+): Promise<void> => {
+  let isDone = false;
+  try {
+    switch (action) {
+      case ModerationAction.APPROVE:
+        isDone = (await postApprove({...context, body: [work.id]})).ok;
+
+        break;
+      case ModerationAction.DELETE:
+        isDone = (await deleteWorks({...context, body: [work.id]})).ok;
+
+        break;
+      case ModerationAction.REJECT:
+        isDone = (await postReject({...context, body: {ids: [work.id], reason: reason}})).ok;
+
+        break;
+    }
+  } catch {
+    isDone = false;
+  }
+
+  await completeDeferredReply(context.discord, interaction, isDone ? (
+    `${ACTION_REPLIES[action]} **${work.title}** (\`${work.id}\`).`
+  ) : "That didn't work. Please try again later.");
+};
+
+/**
+ * Handle an interaction from Discord.
+ *
+ * The request must be signed by Discord. The user who interacted must be allowed to moderate
+ * works, exactly as if they had called the moderation endpoints themselves, and the action is
+ * taken through those same endpoints so it is audited and reflected on Discord as usual. It is
+ * taken after the interaction is acknowledged, and the reply follows once it's done.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postInteraction = async (context: RequestContext): Promise<Response> => {
+  const {env, repositories, request, execution}: RequestContext = context;
+
+  const body: string = await request.text();
+
+  const isVerified: boolean = await verifyInteraction(
+    env.DISCORD_PUBLIC_KEY,
+    request.headers.get("X-Signature-Ed25519"),
+    request.headers.get("X-Signature-Timestamp"),
+    body,
+  );
+
+  if (!isVerified) {
+    return createUnauthorizedResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const interaction: Interaction = JSON.parse(body);
+
+  if (interaction.type === InteractionType.PING) {
+    return createJsonResponse(JSON.stringify({type: InteractionResponseType.PONG}));
+  }
+
+  const userId: string | undefined = getInteractionUserId(interaction);
+  if (!await hasPermission(env.REFRESH_KV, userId, Permission.MODERATE_WORKS)) {
+    return createEphemeralReply("You aren't allowed to moderate works.");
+  }
+
+  // Slash commands name the action and take the work's ID. Buttons and modals carry both in
+  // their custom ID.
+
+  let parsed: [ModerationAction, string] | undefined = undefined;
+  if (interaction.type === InteractionType.APPLICATION_COMMAND) {
+    const id: string | undefined = interaction.data?.options?.find(
+      (option: { name: string }) => option.name === "id"
+    )?.value;
+
+    parsed = id ? parseCustomId(`${interaction.data?.name}/${id.trim()}`) : undefined;
+  } else {
+    parsed = parseCustomId(interaction.data?.custom_id);
+  }
+
+  if (!parsed) {
+    return createEphemeralReply("That isn't something that can be done to a work.");
+  }
+
+  const [action, id] = parsed;
+
+  const work: Work | undefined = await repositories.works.get(id);
+  if (!work || work.isSoftDeleted) {
+    return createEphemeralReply(`There is no work with the ID \`${id}\`.`);
+  }
+
+  // Clicking the Request Changes button asks for the reason. Submitting the modal sends the work
+  // back.
+
+  let reason = "";
+  if (action === ModerationAction.REJECT) {
+    if (interaction.type !== InteractionType.MODAL_SUBMIT) {
+      return createReasonModal(id);
+    }
+
+    reason = findInputValue(interaction.data?.components || [], REASON_INPUT_ID)?.trim() || "";
+
+    if (reason.length < 3) {
+      return createEphemeralReply("Please explain what needs to change.");
+    }
+  }
+
+  // Discord only waits 3 seconds for a reply, so the action is taken after acknowledging it.
+
+  execution.waitUntil(completeAction(
+    {...context, identifier: userId}, interaction, action, work, reason,
+  ));
+
+  return createDeferredReply(interaction);
+};
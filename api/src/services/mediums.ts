@@ -0,0 +1,189 @@
+/**
+ * Internal and external handlers for the mediums of works.
+ *
+ * Mediums used to be free text. Works from before the taxonomy keep what their artist wrote until
+ * staff review the medium it's mapped to, or the artist chooses one when editing.
+ */
+
+import {ValidationError} from "joi";
+import {AuditAction, AuditChange} from "../../../data/core/Audit";
+import {DeliveryKind} from "../../../data/core/Delivery";
+import {MediumCategory, MediumChoice, MediumReviewItem} from "../../../data/core/Medium";
+import Work from "../../../data/core/Work";
+import {
+  describeMedium,
+  getMediumKey,
+  guessMedium,
+  isKnownMedium
+} from "../../../data/utils/mediums";
+import Repositories from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {deliverNow} from "../utils/deliveries";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+
+/**
+ * @param {Work} work a work
+ * @returns {Record<string, unknown>} the fields of the work that are audited on a migration
+ */
+const projectAuditedMedium = (work: Work): Record<string, unknown> => {
+  return {
+    medium: work.medium,
+    mediumCategory: work.mediumCategory,
+    mediumSubtype: work.mediumSubtype,
+  };
+};
+
+/**
+ * List the works with a written medium that isn't from the taxonomy, oldest first, with the
+ * medium each most likely maps to.
+ *
+ * @param {Repositories} repositories the repositories
+ * @returns {Promise<MediumReviewItem[]>} the works to review
+ */
+const listUnmappedWorks = async (repositories: Repositories): Promise<MediumReviewItem[]> => {
+  return (await repositories.works.listAll()).filter(
+    (work: Work) => !work.isSoftDeleted && !work.mediumCategory && !!work.medium?.trim()
+  ).sort(
+    (a: Work, b: Work) => a.submittedTimestamp.localeCompare(b.submittedTimestamp)
+  ).map((work: Work) => ({
+    workId: work.id,
+    title: work.title,
+    artistId: work.artistId,
+    medium: work.medium || "",
+    suggestion: guessMedium(work.medium || ""),
+  }));
+};
+
+/**
+ * Count the approved works in each category and subtype of medium.
+ *
+ * The response maps the key of each category and subtype to its count, e.g., `digital` and
+ * `digital/pixel-art`. Works from before the taxonomy aren't counted until they're mapped.
+ *
+ * Params pattern: `?year=<year>`. Works from all seasons are counted unless a year is given.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getMediums = async (
+  {env, repositories, query}: RequestContext,
+): Promise<Response> => {
+  const year: number | undefined = query.year ? parseInt(query.year) : undefined;
+
+  const counts: Record<string, number> = {};
+
+  (await repositories.works.listAll()).filter(
+    (work: Work) => work.isApproved && !work.isSoftDeleted && !!work.mediumCategory
+  ).filter(
+    (work: Work) => !year || work.year === year
+  ).forEach((work: Work) => {
+    const category: MediumCategory = work.mediumCategory as MediumCategory;
+
+    counts[category] = (counts[category] || 0) + 1;
+
+    if (work.mediumSubtype) {
+      const key: string = getMediumKey({category: category, subtype: work.mediumSubtype});
+
+      counts[key] = (counts[key] || 0) + 1;
+    }
+  });
+
+  return createJsonResponse(JSON.stringify(counts), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Return the works with a medium written before the taxonomy, with the medium each most likely
+ * maps to, for staff to review before migrating them.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getMediumReview = async (
+  {env, repositories}: RequestContext,
+): Promise<Response> => {
+  return createJsonResponse(
+    JSON.stringify(await listUnmappedWorks(repositories)), env.ALLOWED_ORIGIN,
+  );
+};
+
+/**
+ * Give works with a medium written before the taxonomy a medium from it.
+ *
+ * The body maps the IDs of works to their mediums. The written medium is replaced by the name of
+ * the chosen medium, except for "other", which keeps it. A work whose artist chose a medium in the
+ * meantime is left alone. The response is the works that are still to be reviewed.
+ *
+ * @param {RequestContext<Record<string, MediumChoice>>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postMediumMigration = async (
+  {env, repositories, discord, identifier, body}: RequestContext<Record<string, MediumChoice>>,
+): Promise<Response> => {
+  const isValid: boolean = Object.values(body).every(
+    (choice: MediumChoice) => isKnownMedium(choice.category, choice.subtype)
+  );
+
+  if (!isValid) {
+    return createBadRequestResponse(new ValidationError(
+      "A medium isn't one of the choices.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  const changes: AuditChange[] = [];
+
+  for (const [id, choice] of Object.entries(body)) {
+    const work: Work | undefined = await repositories.works.get(id);
+    if (!work || work.mediumCategory) {
+      continue;
+    }
+
+    // The work is checked again as it's changed, as its artist could choose a medium meanwhile.
+
+    let isMapped = false;
+
+    const changed: Work | undefined = await repositories.works.update(id, (current: Work) => {
+      isMapped = !current.mediumCategory;
+      if (!isMapped) {
+        return current;
+      }
+
+      return {
+        ...current,
+        medium: choice.category === MediumCategory.OTHER ? current.medium : describeMedium(choice),
+        mediumCategory: choice.category,
+        mediumSubtype: choice.subtype,
+      };
+    });
+
+    if (!changed || !isMapped) {
+      continue;
+    }
+
+    // The medium doesn't move the work between indexes, so only its listed copies and its
+    // search entries are brought up to date.
+
+    await repositories.works.refreshListed(changed);
+    await repositories.works.indexForSearch(changed);
+
+    changes.push(
+      summariseChange(id, projectAuditedMedium(work), projectAuditedMedium(changed)),
+    );
+
+    // The medium is shown on the work's Discord post, so the post is brought up to date.
+
+    if (changed.discordId && work.medium !== changed.medium) {
+      await deliverNow(env, repositories, discord, DeliveryKind.WORK, id);
+    }
+  }
+
+  if (identifier && changes.length > 0) {
+    await recordAudit(repositories, identifier, AuditAction.MIGRATE_MEDIUMS, changes);
+  }
+
+  return createJsonResponse(
+    JSON.stringify(await listUnmappedWorks(repositories)), env.ALLOWED_ORIGIN,
+  );
+};
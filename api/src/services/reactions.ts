@@ -0,0 +1,217 @@
+/**
+ * Internal and external handlers for reactions to works and favourites.
+ *
+ * Reacting changes the counts of a work as it's stored by ID, then copies the work onto its listed
+ * copies.
+ */
+
+import {ValidationError} from "joi";
+import {DEFAULT_PAGE_SIZE} from "../../../data/constants/setup";
+import Page, {PageOrder} from "../../../data/core/Page";
+import UserReaction, {
+  FavouriteRequest,
+  ReactionEmoji,
+  ReactionRequest
+} from "../../../data/core/Reaction";
+import Work from "../../../data/core/Work";
+import {RequestContext} from "../types/route";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createJsonResponse,
+  createNotFoundResponse
+} from "../utils/http";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+
+/**
+ * @param {Work | undefined} work a work, if it exists
+ * @returns {boolean} whether the work can be reacted to, which only approved works can be
+ */
+const isReactable = (work: Work | undefined): work is Work => {
+  return !!work && work.isApproved && !work.isSoftDeleted;
+};
+
+/**
+ * Add or remove the caller's reaction with an emoji to a work.
+ *
+ * The counts on the work only change if the caller's reaction did, so repeating a request does
+ * nothing. The response is the work with its new counts, in the same shape as `getWork`.
+ *
+ * @param {RequestContext<ReactionRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postReact = async (
+  {env, repositories, identifier, params, body}: RequestContext<ReactionRequest>,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!isReactable(work)) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  let wasReacting = false;
+
+  await repositories.reactions.update(identifier, work.id, (reaction: UserReaction) => {
+    wasReacting = reaction.emojis.includes(body.emoji);
+
+    const emojis: ReactionEmoji[] = reaction.emojis.filter(
+      (emoji: ReactionEmoji) => emoji !== body.emoji
+    );
+
+    return {...reaction, emojis: body.isReacting ? [...emojis, body.emoji] : emojis};
+  });
+
+  if (wasReacting === body.isReacting) {
+    return createJsonResponse(JSON.stringify({[work.id]: work}), env.ALLOWED_ORIGIN);
+  }
+
+  const changed: Work | undefined = await repositories.works.update(
+    work.id, (current: Work) => {
+      const count: number = (current.reactionCounts?.[body.emoji] || 0) + (
+        body.isReacting ? 1 : -1
+      );
+
+      return {
+        ...current, reactionCounts: {...current.reactionCounts, [body.emoji]: Math.max(count, 0)},
+      };
+    },
+  );
+
+  if (changed) {
+    await repositories.works.refreshListed(changed);
+  }
+
+  return createJsonResponse(JSON.stringify({[work.id]: changed || work}), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Add a work to or remove a work from the caller's favourites.
+ *
+ * Like reacting, repeating a request does nothing. The response is the work with its new counts.
+ *
+ * @param {RequestContext<FavouriteRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postFavourite = async (
+  {env, repositories, identifier, params, body}: RequestContext<FavouriteRequest>,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!isReactable(work)) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  let wasFavourite = false;
+
+  await repositories.reactions.update(identifier, work.id, (reaction: UserReaction) => {
+    wasFavourite = !!reaction.favouritedTimestamp;
+
+    if (wasFavourite === body.isFavourite) {
+      return reaction;
+    }
+
+    return {
+      ...reaction,
+      favouritedTimestamp: body.isFavourite ? new Date().toISOString() : undefined,
+    };
+  });
+
+  if (wasFavourite === body.isFavourite) {
+    return createJsonResponse(JSON.stringify({[work.id]: work}), env.ALLOWED_ORIGIN);
+  }
+
+  const changed: Work | undefined = await repositories.works.update(
+    work.id, (current: Work) => ({
+      ...current,
+      favouritesCount: Math.max((current.favouritesCount || 0) + (body.isFavourite ? 1 : -1), 0),
+    }),
+  );
+
+  if (changed) {
+    await repositories.works.refreshListed(changed);
+  }
+
+  return createJsonResponse(JSON.stringify({[work.id]: changed || work}), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Return how the caller has reacted to every work, so the frontend can highlight their reactions.
+ *
+ * The response maps work IDs to reactions.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getReactions = async (
+  {env, repositories, identifier}: RequestContext,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  return createJsonResponse(
+    JSON.stringify(await repositories.reactions.list(identifier)), env.ALLOWED_ORIGIN,
+  );
+};
+
+/**
+ * Return a page of the caller's favourite works, most recently favourited first by default.
+ *
+ * Favourites that were since deleted or unapproved are left out.
+ *
+ * Params pattern: `?limit=<limit>&cursor=<cursor>&order=<ascending|descending>`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getFavourites = async (
+  {env, repositories, identifier, query}: RequestContext,
+): Promise<Response> => {
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+  const order: PageOrder = query.order === PageOrder.ASCENDING ? (
+    PageOrder.ASCENDING
+  ) : PageOrder.DESCENDING;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  const reactions: Record<string, UserReaction> = await repositories.reactions.list(identifier);
+
+  const favourites: Record<string, string> = Object.fromEntries(
+    Object.entries(reactions).filter(
+      ([, reaction]) => !!reaction.favouritedTimestamp
+    ).map(
+      ([workId, reaction]) => [workId, reaction.favouritedTimestamp || ""]
+    ),
+  );
+
+  const works: Work[] = (await repositories.works.listAll()).filter(
+    (work: Work) => favourites[work.id] && isReactable(work)
+  );
+
+  const page: Page<Work> = paginate(
+    works,
+    (work: Work) => [favourites[work.id], work.id],
+    limit,
+    order,
+    after,
+  );
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
+};
@@ -0,0 +1,51 @@
+/**
+ * Internal and external handlers for maintaining the stored indexes.
+ */
+
+import {AuditAction} from "../../../data/core/Audit";
+import Environment from "../types/environment";
+import ReindexReport, {Discrepancy, ReindexRequest} from "../types/reindex";
+import {RequestContext} from "../types/route";
+import {recordAudit} from "../utils/audit";
+import {createJsonResponse} from "../utils/http";
+import {createRepositories} from "../utils/kv";
+import {reindexWorks} from "../utils/reindex";
+
+/**
+ * Check the derived indexes of works against the works stored by ID, rebuilding them unless
+ * it's a dry run.
+ *
+ * The body is expected to be a JSON object of the form `{"isDryRun": false}`. It is a dry run
+ * unless explicitly stated otherwise.
+ *
+ * @param {RequestContext<ReindexRequest>} context the context of the request
+ * @returns {Promise<Response>} the response with the report
+ */
+export const postReindex = async (
+  {env, repositories, identifier, body}: RequestContext<ReindexRequest>,
+): Promise<Response> => {
+  const report: ReindexReport = await reindexWorks(repositories, body.isDryRun !== false);
+
+  // Only a rebuild that changed something is a privileged mutation.
+
+  if (identifier && !report.isDryRun && report.discrepancies.length > 0) {
+    await recordAudit(
+      repositories,
+      identifier,
+      AuditAction.REBUILD_INDEXES,
+      [],
+      Array.from(new Set(report.discrepancies.map((discrepancy: Discrepancy) => discrepancy.id))),
+    );
+  }
+
+  return createJsonResponse(JSON.stringify(report), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Check and rebuild the derived indexes of works on a schedule.
+ *
+ * @param {Environment} env the workers environment
+ */
+export const scheduleReindex = async (env: Environment): Promise<void> => {
+  await reindexWorks(createRepositories(env), false);
+};
@@ -0,0 +1,114 @@
+/**
+ * Internal and external handlers for the revisions of works.
+ */
+
+import {ValidationError} from "joi";
+import {DEFAULT_PAGE_SIZE} from "../../../data/constants/setup";
+import Page, {PageOrder} from "../../../data/core/Page";
+import Revision, {RevisionHeader} from "../../../data/core/Revision";
+import {Permission} from "../../../data/core/Role";
+import Work from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {RequestContext} from "../types/route";
+import {hasPermission} from "../utils/auth";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createJsonResponse,
+  createNotFoundResponse
+} from "../utils/http";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+
+/**
+ * Check that the caller can see the revisions of a work, returning a response if they can't.
+ *
+ * Only the artists credited on the work and staff can see its revisions.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response | undefined>} a response if the revisions can't be seen
+ */
+const verifyRevisionAccess = async (
+  {env, repositories, identifier, params}: RequestContext,
+): Promise<Response | undefined> => {
+  const work: Work | undefined = await repositories.works.get(params.id);
+  if (!work) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  if (
+    !(identifier && getCreditedArtistIds(work).includes(identifier))
+    && !await hasPermission(env.REFRESH_KV, identifier, Permission.MODERATE_WORKS)
+  ) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  return undefined;
+};
+
+/**
+ * Return a page of the revisions of a work, newest first by default.
+ *
+ * Only the headers of the revisions are returned. Each revision is retrieved on its own.
+ *
+ * Params pattern: `?limit=<limit>&cursor=<cursor>&order=<ascending|descending>`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getRevisions = async (context: RequestContext): Promise<Response> => {
+  const {env, repositories, params, query} = context;
+
+  const rejection: Response | undefined = await verifyRevisionAccess(context);
+  if (rejection) {
+    return rejection;
+  }
+
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+  const order: PageOrder = query.order === PageOrder.ASCENDING ? (
+    PageOrder.ASCENDING
+  ) : PageOrder.DESCENDING;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  const page: Page<RevisionHeader> = paginate(
+    await repositories.revisions.list(params.id),
+    (header: RevisionHeader) => [header.timestamp, header.id],
+    limit,
+    order,
+    after,
+  );
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Return a single revision of a work.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getRevision = async (context: RequestContext): Promise<Response> => {
+  const {env, repositories, params} = context;
+
+  const rejection: Response | undefined = await verifyRevisionAccess(context);
+  if (rejection) {
+    return rejection;
+  }
+
+  const revision: Revision | undefined = await repositories.revisions.get(
+    params.id, params.revisionId,
+  );
+
+  if (!revision) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  return createJsonResponse(JSON.stringify(revision), env.ALLOWED_ORIGIN);
+};
@@ -0,0 +1,137 @@
+/**
+ * Internal and external handlers for role endpoints.
+ */
+
+import {ValidationError} from "joi";
+import {OWNERS} from "../../../data/constants/setup";
+import {AuditAction} from "../../../data/core/Audit";
+import RoleAssignment, {Role, RoleDetails} from "../../../data/core/Role";
+import {ROLES} from "../constants/kv";
+import Environment from "../types/environment";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {retrieveRole, retrieveRoles} from "../utils/auth";
+import {createBadRequestResponse, createForbiddenResponse, createJsonResponse} from "../utils/http";
+
+/**
+ * Return the role and permissions of the calling user.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getRole = async ({env, identifier}: RequestContext): Promise<Response> => {
+  const role: RoleDetails | undefined = await retrieveRole(env.REFRESH_KV, identifier);
+  if (!role) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  return createJsonResponse(JSON.stringify(role), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Return every explicitly granted role.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getRoles = async ({env}: RequestContext): Promise<Response> => {
+  return createJsonResponse(
+    JSON.stringify(await retrieveRoles(env.REFRESH_KV)), env.ALLOWED_ORIGIN,
+  );
+};
+
+/**
+ * Check that a role change is allowed, returning a response if it isn't.
+ *
+ * The owners listed in the setup can't be changed and nobody can change their own role.
+ *
+ * @param {Environment} env the workers environment
+ * @param {string} discordId the ID of the user whose role is changing
+ * @param {string | undefined} identifier the identifier of the calling user
+ * @returns {Response | undefined} a response if the change is not allowed
+ */
+const verifyRoleChange = (
+  env: Environment, discordId: string, identifier?: string,
+): Promise<Response> | undefined => {
+  if (OWNERS.includes(discordId) || discordId === identifier) {
+    return createBadRequestResponse(new ValidationError(
+      "This user's role can't be changed.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  return undefined;
+};
+
+/**
+ * Grant a role to a user, replacing any role they had.
+ *
+ * The body is expected to be a JSON object of the form `{"role": "..."}`.
+ *
+ * This is an idempotent call and is not rate limited as it is authenticated to staff users
+ * only. We are not concerned about race conditions.
+ *
+ * @param {RequestContext<{role: Role}>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const putRole = async (
+  {env, repositories, params, identifier, body}: RequestContext<{ role: Role }>,
+): Promise<Response> => {
+  const rejection: Promise<Response> | undefined = verifyRoleChange(env, params.id, identifier);
+  if (rejection) {
+    return rejection;
+  }
+
+  const roles: Record<string, RoleAssignment> = await retrieveRoles(env.REFRESH_KV);
+  const previousRole: Role = roles[params.id]?.role || Role.ARTIST;
+
+  roles[params.id] = {
+    discordId: params.id,
+    role: body.role,
+    grantedBy: identifier,
+    grantedTimestamp: new Date().toISOString(),
+  };
+
+  await env.REFRESH_KV.put(ROLES, JSON.stringify(roles));
+
+  if (identifier) {
+    await recordAudit(repositories, identifier, AuditAction.GRANT_ROLE, [
+      summariseChange(params.id, {role: previousRole}, {role: body.role}),
+    ]);
+  }
+
+  return createJsonResponse(JSON.stringify(roles[params.id]), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Revoke a user's granted role, returning them to the default role.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const deleteRole = async (
+  {env, repositories, params, identifier}: RequestContext,
+): Promise<Response> => {
+  const rejection: Promise<Response> | undefined = verifyRoleChange(env, params.id, identifier);
+  if (rejection) {
+    return rejection;
+  }
+
+  const roles: Record<string, RoleAssignment> = await retrieveRoles(env.REFRESH_KV);
+  const previousRole: Role = roles[params.id]?.role || Role.ARTIST;
+
+  delete roles[params.id];
+
+  await env.REFRESH_KV.put(ROLES, JSON.stringify(roles));
+
+  // Owners can't be changed, so the role they are left with is the default role.
+
+  if (identifier) {
+    await recordAudit(repositories, identifier, AuditAction.REVOKE_ROLE, [
+      summariseChange(params.id, {role: previousRole}, {role: Role.ARTIST}),
+    ]);
+  }
+
+  return createJsonResponse("{}", env.ALLOWED_ORIGIN);
+};
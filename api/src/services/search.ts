@@ -0,0 +1,71 @@
+/**
+ * Internal and external handlers for search endpoints.
+ */
+
+import {ValidationError} from "joi";
+import {DEFAULT_PAGE_SIZE} from "../../../data/constants/setup";
+import Page, {PageOrder} from "../../../data/core/Page";
+import Work from "../../../data/core/Work";
+import {RequestContext} from "../types/route";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+import {isSearchable} from "../utils/search";
+
+/**
+ * The width that scores are padded to so they sort correctly as strings.
+ */
+const SCORE_WIDTH = 8;
+
+/**
+ * Search approved works by their title, medium, description and artist name.
+ *
+ * Every word in the query must match the start of a word in the work. Results are ranked by
+ * relevance, with title matches ranked above artist names, then mediums, then descriptions.
+ * The response is a page in the same shape as listing works.
+ *
+ * Params pattern: `?q=<query>&limit=<limit>&cursor=<cursor>`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getSearch = async (
+  {env, repositories, query}: RequestContext,
+): Promise<Response> => {
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  const scores: Record<string, number> = await repositories.works.search(query.q || "");
+
+  // Only the IDs are ranked so that only the works of the requested page are retrieved.
+
+  const idPage: Page<string> = paginate(
+    Object.keys(scores),
+    (id: string) => [scores[id].toString().padStart(SCORE_WIDTH, "0"), id],
+    limit,
+    PageOrder.DESCENDING,
+    after,
+  );
+
+  const works: (Work | undefined)[] = await Promise.all(idPage.items.map(
+    (id: string) => repositories.works.get(id)
+  ));
+
+  // The index could be briefly stale, so check again that every work is still searchable.
+
+  const page: Page<Work> = {
+    items: works.filter(
+      (work: Work | undefined): work is Work => !!work && isSearchable(work)
+    ),
+    nextCursor: idPage.nextCursor,
+  };
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
+};
@@ -0,0 +1,105 @@
+/**
+ * Internal and external handlers for season endpoints.
+ */
+
+import {ValidationError} from "joi";
+import {AuditAction} from "../../../data/core/Audit";
+import Season, {SeasonStatus} from "../../../data/core/Season";
+import {RequestContext} from "../types/route";
+import {isChanged, recordAudit, summariseChange} from "../utils/audit";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+import {retrieveSeasons} from "../utils/kv";
+
+/**
+ * @param {Record<string, Season>} seasons a map of years to seasons
+ * @returns {boolean} whether any of the seasons is active
+ */
+const isAnyActive = (seasons: Record<string, Season>): boolean => {
+  return Object.values(seasons).some((season: Season) => season.status === SeasonStatus.ACTIVE);
+};
+
+/**
+ * Return all seasons, active and archived.
+ *
+ * Note that this may not be sorted.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getSeasons = async ({env}: RequestContext): Promise<Response> => {
+  return createJsonResponse(
+    JSON.stringify(await retrieveSeasons(env.REFRESH_KV)), env.ALLOWED_ORIGIN,
+  );
+};
+
+/**
+ * Create or edit a single season.
+ *
+ * Only one season may be active at a time, so activating a season archives all others. The
+ * active season can't be archived until another is activated, as the fallback season would
+ * silently become active again otherwise.
+ *
+ * This is an idempotent call and is not rate limited as it is authenticated to staff users
+ * only.
+ *
+ * @param {RequestContext<Season>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const putSeason = async (
+  {env, repositories, params, identifier, body: input}: RequestContext<Season>,
+): Promise<Response> => {
+  // The year in the path must match the season.
+
+  if (params.year !== input.year.toString()) {
+    return createBadRequestResponse(new ValidationError(
+      "The year of the season doesn't match the path.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  let previousSeasons: Record<string, Season> = {};
+  let isLastActiveArchived = false;
+
+  const seasons: Record<string, Season> = await repositories.weeks.updateSeasons(
+    (current: Record<string, Season>) => {
+      previousSeasons = structuredClone(current);
+
+      const changed: Record<string, Season> = {...current};
+
+      if (input.status === SeasonStatus.ACTIVE) {
+        Object.values(changed).forEach((season: Season) => {
+          changed[season.year] = {...season, status: SeasonStatus.ARCHIVED};
+        });
+      }
+
+      changed[input.year] = input;
+
+      isLastActiveArchived = isAnyActive(current) && !isAnyActive(changed);
+
+      return isLastActiveArchived ? current : changed;
+    },
+  );
+
+  if (isLastActiveArchived) {
+    return createBadRequestResponse(new ValidationError(
+      "Activate another season before archiving the active one.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  // Record every season that changed, which includes any that were archived.
+
+  if (identifier) {
+    await recordAudit(repositories, identifier, AuditAction.EDIT_SEASON, Object.keys(seasons).map(
+      (year: string) => summariseChange(
+        year,
+        previousSeasons[year] && {...previousSeasons[year]},
+        {...seasons[year]},
+      )
+    ).filter(isChanged));
+  }
+
+  return createJsonResponse(JSON.stringify(seasons), env.ALLOWED_ORIGIN);
+};
@@ -0,0 +1,117 @@
+/**
+ * Internal and external handlers for the tags on works.
+ */
+
+import {ValidationError} from "joi";
+import {AuditAction} from "../../../data/core/Audit";
+import {Permission} from "../../../data/core/Role";
+import {TagRenameRequest} from "../../../data/core/Tag";
+import Work from "../../../data/core/Work";
+import {normaliseTag, normaliseTags} from "../../../data/utils/tags";
+import Repositories from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {hasPermission} from "../utils/auth";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+
+/**
+ * Count the works with each tag.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {boolean} isStaff whether to also count works that aren't approved yet
+ * @returns {Promise<Record<string, number>>} a map of tags to the number of works with each
+ */
+const countTags = async (
+  repositories: Repositories, isStaff: boolean,
+): Promise<Record<string, number>> => {
+  const counts: Record<string, number> = {};
+
+  (await repositories.works.listAll()).filter(
+    (work: Work) => !work.isSoftDeleted && (isStaff || work.isApproved)
+  ).forEach((work: Work) => {
+    (work.tags || []).forEach((tag: string) => counts[tag] = (counts[tag] || 0) + 1);
+  });
+
+  return counts;
+};
+
+/**
+ * Return every tag in use with the number of works that have it, for suggestions and browsing.
+ *
+ * Only approved works are counted, except for staff who can manage tags and see every tag.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getTags = async (
+  {env, repositories, identifier}: RequestContext,
+): Promise<Response> => {
+  const isStaff: boolean = await hasPermission(
+    env.REFRESH_KV, identifier, Permission.MANAGE_TAGS,
+  );
+
+  return createJsonResponse(
+    JSON.stringify(await countTags(repositories, isStaff)), env.ALLOWED_ORIGIN,
+  );
+};
+
+/**
+ * Rename a tag on every work that has it. Renaming it to a tag that already exists merges them.
+ *
+ * Each work is changed without overwriting concurrent writes. The response is every tag, as
+ * listed to staff.
+ *
+ * @param {RequestContext<TagRenameRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const putTag = async (
+  {env, repositories, identifier, params, body}: RequestContext<TagRenameRequest>,
+): Promise<Response> => {
+  const tag: string = normaliseTag(params.tag);
+  const name: string = normaliseTag(body.name);
+
+  if (!name || name === tag) {
+    return createBadRequestResponse(new ValidationError(
+      "The new name must be a different tag.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  // Only each work as stored by ID is changed as it's renamed, then the indexes of both tags
+  // are rewritten once. If that fails part way through, renaming again picks up where it left
+  // off, as the works are still listed under the old tag.
+
+  const changed: Work[] = [];
+
+  try {
+    for (const work of await repositories.works.listByTag(tag)) {
+      const renamed: Work | undefined = await repositories.works.update(
+        work.id, (current: Work) => ({
+          ...current,
+          tags: normaliseTags((current.tags || []).map(
+            (candidate: string) => candidate === tag ? name : candidate
+          )),
+        }),
+      );
+
+      if (renamed) {
+        changed.push(renamed);
+      }
+    }
+
+    await repositories.works.reindexTags(changed, [tag, name]);
+  } finally {
+    // The works renamed so far are audited even if the rest weren't.
+
+    if (identifier) {
+      await recordAudit(repositories, identifier, AuditAction.EDIT_TAG, [
+        summariseChange(tag, {name: tag}, {name: name}),
+      ], changed.map((work: Work) => work.id));
+    }
+  }
+
+  return createJsonResponse(
+    JSON.stringify(await countTags(repositories, true)), env.ALLOWED_ORIGIN,
+  );
+};
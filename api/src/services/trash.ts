@@ -0,0 +1,116 @@
+/**
+ * Internal and external handlers for the trash of deleted works.
+ */
+
+import {ValidationError} from "joi";
+import {DEFAULT_PAGE_SIZE} from "../../../data/constants/setup";
+import {AuditAction, AuditChange} from "../../../data/core/Audit";
+import Page, {PageOrder} from "../../../data/core/Page";
+import Revision, {RevisionHeader} from "../../../data/core/Revision";
+import Work from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {RequestContext} from "../types/route";
+import {recordAudit, summariseChange} from "../utils/audit";
+import {deleteUploadedObjects} from "../utils/connectors";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+import {refreshArtistStats} from "../utils/stats";
+
+/**
+ * Return a page of the works in the trash, most recently deleted first by default.
+ *
+ * Params pattern: `?limit=<limit>&cursor=<cursor>&order=<ascending|descending>`.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const getTrash = async ({env, repositories, query}: RequestContext): Promise<Response> => {
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+  const order: PageOrder = query.order === PageOrder.ASCENDING ? (
+    PageOrder.ASCENDING
+  ) : PageOrder.DESCENDING;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
+  // Works deleted before the trash existed have no deletion time, so use when they were sent.
+
+  const page: Page<Work> = paginate(
+    (await repositories.works.listAll()).filter((work: Work) => work.isSoftDeleted),
+    (work: Work) => [work.deletedTimestamp || work.submittedTimestamp, work.id],
+    limit,
+    order,
+    after,
+  );
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
+};
+
+/**
+ * Permanently delete the given works from the trash.
+ *
+ * The body is expected to be a JSON array of work IDs. Works that aren't in the trash are
+ * skipped. Each work is removed from every index along with its revisions and comments, its
+ * uploaded files are removed from the bucket and its artist's statistics are recomputed.
+ *
+ * The response lists the IDs that were deleted.
+ *
+ * @param {RequestContext<string[]>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const deleteTrash = async (
+  {env, repositories, identifier, body: ids}: RequestContext<string[]>,
+): Promise<Response> => {
+  const changes: AuditChange[] = [];
+  const purgedIds: string[] = [];
+
+  for (const id of ids) {
+    const work: Work | undefined = await repositories.works.get(id);
+    if (!work?.isSoftDeleted) {
+      continue;
+    }
+
+    // Files are removed first so a work is never forgotten while its files remain. Earlier
+    // revisions can refer to files the work no longer does.
+
+    const revisions: (Revision | undefined)[] = await Promise.all(
+      (await repositories.revisions.list(id)).map(
+        (header: RevisionHeader) => repositories.revisions.get(id, header.id)
+      ),
+    );
+
+    const versions: Revision[] = revisions.filter(
+      (revision: Revision | undefined): revision is Revision => !!revision
+    );
+
+    if (await deleteUploadedObjects(env, [work, ...versions]) > 0) {
+      continue;
+    }
+
+    await repositories.works.remove(work);
+    await repositories.revisions.removeAll(id);
+    await repositories.comments.removeAll(id);
+
+    for (const artistId of getCreditedArtistIds(work)) {
+      await refreshArtistStats(repositories, artistId, work.year);
+    }
+
+    changes.push(summariseChange(id, {
+      artistId: work.artistId, title: work.title, deletedBy: work.deletedBy,
+    }));
+
+    purgedIds.push(id);
+  }
+
+  if (identifier && purgedIds.length > 0) {
+    await recordAudit(repositories, identifier, AuditAction.PURGE_WORKS, changes, purgedIds);
+  }
+
+  return createJsonResponse(JSON.stringify(purgedIds), env.ALLOWED_ORIGIN);
+};
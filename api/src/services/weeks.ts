@@ -2,33 +2,44 @@
  * Internal and external handlers for week endpoints.
  */
 
-import Joi, {ValidationResult} from "joi";
-import {ACTIVE_YEAR, EDITORS} from "../../../data/constants/setup";
-import Week, {WEEK_SCHEMA} from "../../../data/core/Week";
-import {WEEKS} from "../constants/kv";
+import {ValidationError} from "joi";
+import {AuditAction} from "../../../data/core/Audit";
+import {DeliveryKind} from "../../../data/core/Delivery";
+import {Permission} from "../../../data/core/Role";
+import Season from "../../../data/core/Season";
+import Week from "../../../data/core/Week";
+import {findSeason, getActiveSeason, getSortedSeasons} from "../../../data/utils/seasons";
+import DiscordClient from "../types/discord";
 import Environment from "../types/environment";
-import {postOrEditDiscordWeek} from "../utils/discord";
-import {createBadRequestResponse, createForbiddenResponse, createJsonResponse} from "../utils/http";
+import Repositories from "../types/repositories";
+import {RequestContext} from "../types/route";
+import {isChanged, recordAudit, summariseChange} from "../utils/audit";
+import {hasPermission} from "../utils/auth";
+import {deliverNow} from "../utils/deliveries";
+import {createDiscordClient} from "../utils/discord";
+import {createBadRequestResponse, createJsonResponse} from "../utils/http";
+import {createRepositories, determineYear, retrieveSeasons} from "../utils/kv";
 
 /**
  * Return the weeks information, redacting if the user signed in is not an authenticated user.
  *
  * Note that this may not be sorted.
  *
- * @param {Environment} env the workers environment
- * @param {string | undefined} identifier the identifier of the calling user
+ * Params pattern: `?year=<year>`, defaulting to the active season.
+ *
+ * @param {RequestContext} context the context of the request
  * @returns {Promise<Response>} the response
  */
 export const getWeeks = async (
-  env: Environment, identifier?: string,
+  {env, repositories, query, identifier}: RequestContext,
 ): Promise<Response> => {
-  const weeks: Record<string, Week> = JSON.parse(
-    (await env.REFRESH_KV.get(`${WEEKS}/${ACTIVE_YEAR}`)) || "{}"
-  );
+  const year: number = await determineYear(env.REFRESH_KV, query.year || null);
+
+  const weeks: Record<string, Week> = await repositories.weeks.listBySeason(year);
 
   let responseWeeks: Record<string, Week> = {};
 
-  const isStaff: boolean = identifier ? EDITORS.includes(identifier) : false;
+  const isStaff: boolean = await hasPermission(env.REFRESH_KV, identifier, Permission.EDIT_WEEKS);
   if (!isStaff) {
     Object.keys(weeks).forEach((key: string) => {
       const week: Week = weeks[key];
@@ -45,63 +56,151 @@ export const getWeeks = async (
 };
 
 /**
- * Edit information for all weeks at the same time.
+ * @param {Week} week a week
+ * @returns {Record<string, unknown>} the fields of the week that are audited
+ */
+const projectAuditedWeek = (week: Week): Record<string, unknown> => {
+  return {theme: week.theme, information: week.information, isPublished: week.isPublished};
+};
+
+/**
+ * Edit information for all weeks of a single season at the same time.
  *
- * The body is expected to receive a JSON object of the form `{"weeks": []}`.
+ * The body is expected to be a JSON object of week numbers to weeks. All weeks must belong to
+ * the same season and fit within its week count.
  *
  * This is an idempotent call and is not rate limited as it is authenticated to staff users
  * only. We are not concerned about race conditions.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
- * @param {string | undefined} identifier the identifier of the calling user
+ * @param {RequestContext<Record<number, Week>>} context the context of the request
  * @returns {Promise<Response>} the response
  */
 export const putWeeks = async (
-  env: Environment, request: Request, identifier?: string,
+  {env, repositories, discord, identifier, body: input}: RequestContext<Record<number, Week>>,
 ): Promise<Response> => {
-  // Don't let anybody but a staff member call this endpoint.
+  // Find the season the weeks belong to. If there are no weeks, assume the active season.
 
-  const isStaff: boolean = identifier ? EDITORS.includes(identifier) : false;
-  if (!isStaff) {
-    return createForbiddenResponse(env.ALLOWED_ORIGIN);
-  }
+  const seasons: Record<string, Season> = await retrieveSeasons(env.REFRESH_KV);
+  const years: number[] = Array.from(new Set(Object.values(input).map((week: Week) => week.year)));
 
-  // Validate type and length and then escape the correct request variables. This is such that a
-  // hijacked account can't be used to perform more disastrous effects on the backend.
+  if (years.length > 1) {
+    return createBadRequestResponse(new ValidationError(
+      "Weeks from more than one season can't be edited at the same time.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
 
-  const input: Record<number, Week> = await request.json();
+  const year: number = years.length > 0 ? years[0] : getActiveSeason(seasons).year;
+  const season: Season | undefined = findSeason(seasons, year);
 
-  const validation: ValidationResult = Joi.array().items(WEEK_SCHEMA).validate(
-    Object.values(input),
-  );
+  if (!season) {
+    return createBadRequestResponse(new ValidationError(
+      "There is no season for the given year.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
 
-  if (validation.error) {
-    return createBadRequestResponse(validation.error, env.ALLOWED_ORIGIN);
+  if (Object.values(input).some((week: Week) => week.week > season.weekCount)) {
+    return createBadRequestResponse(new ValidationError(
+      "A week is outside of the season's week count.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
   }
 
-  // Make the post first to save a write. Capture Discord IDs for debugging purposes.
+  // Update the weeks directly, keeping what they were for the audit log. The backend knows the
+  // Discord IDs of posts the editor might not have seen yet, so they're kept.
 
-  const updatedDiscordIds: string[] = [];
-  for (const week of Object.values(input).filter((_week: Week) => {
-    return _week.isPublished && _week.isUpdating;
-  })) {
-    const discordMessageId: string | null = await postOrEditDiscordWeek(
-      week, env.WEEKS_DISCORD_URL,
-    );
+  const previousWeeks: Record<string, Week> = await repositories.weeks.listBySeason(year);
 
-    updatedDiscordIds.push(discordMessageId || "");
-    if (discordMessageId) {
-      week.discordId = discordMessageId;
-    }
+  Object.values(input).forEach((week: Week) => {
+    week.discordId = previousWeeks[week.week]?.discordId || week.discordId;
+  });
+
+  await repositories.weeks.putSeason(year, input);
 
-    input[week.week] = week;
+  // Post/Edit the Discord posts of the weeks being updated. If Discord fails, it is retried from
+  // the outbox rather than failing the edit.
+
+  const updatingWeeks: Week[] = Object.values(input).filter((week: Week) => {
+    return week.isPublished && week.isUpdating;
+  });
+
+  for (const week of updatingWeeks) {
+    await deliverNow(env, repositories, discord, DeliveryKind.WEEK, `${year}/${week.week}`);
   }
 
-  // Update the weeks directly.
+  // Capture Discord IDs for debugging purposes. Weeks still in the outbox have no ID.
+
+  const storedWeeks: Record<string, Week> = await repositories.weeks.listBySeason(year);
+  const updatedDiscordIds: string[] = updatingWeeks.map(
+    (week: Week) => storedWeeks[week.week]?.discordId || ""
+  );
+
+  if (identifier) {
+    const weekNumbers: string[] = Array.from(new Set(
+      [...Object.keys(previousWeeks), ...Object.keys(input)]
+    ));
+
+    await recordAudit(repositories, identifier, AuditAction.EDIT_WEEKS, weekNumbers.map(
+      (weekNumber: string) => summariseChange(
+        `${year}/${weekNumber}`,
+        previousWeeks[weekNumber] && projectAuditedWeek(previousWeeks[weekNumber]),
+        input[parseInt(weekNumber)] && projectAuditedWeek(input[parseInt(weekNumber)]),
+      )
+    ).filter(isChanged));
+  }
 
-  await env.REFRESH_KV.put(`${WEEKS}/${ACTIVE_YEAR}`, JSON.stringify(input));
   return createJsonResponse(JSON.stringify({
     "updatedDiscordIds": updatedDiscordIds,
   }), env.ALLOWED_ORIGIN);
 };
+
+/**
+ * @param {Week} week a week
+ * @param {Date} now the current time
+ * @returns {boolean} whether the week is unpublished and scheduled to be published by now
+ */
+const isDueToPublish = (week: Week, now: Date): boolean => {
+  return !week.isPublished && !!week.publishAt && new Date(week.publishAt) <= now;
+};
+
+/**
+ * Publish every week that is scheduled to be published by now and announce it on Discord.
+ *
+ * Weeks of the fallback season are published too, as it's in use until a season is stored.
+ *
+ * @param {Environment} env the workers environment
+ */
+export const schedulePublishing = async (env: Environment): Promise<void> => {
+  const now: Date = new Date();
+
+  const repositories: Repositories = createRepositories(env);
+  const discord: DiscordClient = createDiscordClient();
+  const seasons: Record<string, Season> = await retrieveSeasons(env.REFRESH_KV);
+
+  for (const season of getSortedSeasons(seasons)) {
+    const weeks: Week[] = Object.values(await repositories.weeks.listBySeason(season.year)).filter(
+      (week: Week) => isDueToPublish(week, now)
+    );
+
+    for (const week of weeks) {
+      // The week is checked again in case an editor changed it since it was listed.
+
+      let isPublishing = false;
+      await repositories.weeks.update(season.year, week.week, (current: Week) => {
+        isPublishing = isDueToPublish(current, now);
+
+        return isPublishing ? {...current, isPublished: true, publishAt: undefined} : current;
+      });
+
+      if (isPublishing) {
+        await deliverNow(
+          env, repositories, discord, DeliveryKind.WEEK, `${season.year}/${week.week}`,
+        );
+      }
+    }
+  }
+};
@@ -1,29 +1,44 @@
 import {AwsClient} from "aws4fetch";
-import {ValidationError, ValidationResult} from "joi";
+import {ValidationError} from "joi";
 import {
-  ACTIVE_YEAR,
-  EDITORS,
+  DEFAULT_PAGE_SIZE,
   MAXIMUM_CONTENT_LENGTH,
   UPLOAD_EXPIRY
 } from "../../../data/constants/setup";
-import Work, {UrlItem, WORK_SCHEMA} from "../../../data/core/Work";
-import {
-  WORKS_WITH_ARTIST_INDEX,
-  WORKS_WITH_ID_INDEX,
-  WORKS_WITH_WEEK_INDEX,
-  WORKS_WITHOUT_INDEX
-} from "../constants/kv";
-import Environment from "../types/environment";
+import {AuditAction, AuditChange} from "../../../data/core/Audit";
+import {DeliveryKind} from "../../../data/core/Delivery";
+import {MediumCategory} from "../../../data/core/Medium";
+import Page, {PageOrder} from "../../../data/core/Page";
+import RejectionRequest from "../../../data/core/Rejection";
+import Revision from "../../../data/core/Revision";
+import {Permission} from "../../../data/core/Role";
+import Season, {SeasonStatus} from "../../../data/core/Season";
+import UploadRequest from "../../../data/core/Upload";
+import Work, {UrlItem, WorksSort} from "../../../data/core/Work";
+import {getLoveCount} from "../../../data/utils/reactions";
+import {describeMedium, isKnownMedium, isWorkInMedium} from "../../../data/utils/mediums";
+import {findSeason} from "../../../data/utils/seasons";
+import {normaliseTag, normaliseTags} from "../../../data/utils/tags";
+import {RequestContext} from "../types/route";
+import {isChanged, recordAudit, summariseChange} from "../utils/audit";
+import {hasPermission} from "../utils/auth";
 import {scrapeThumbnail, uploadScrapedThumbnail, uploadThumbnails} from "../utils/connectors";
-import {postOrEditDiscordWork} from "../utils/discord";
+import {deliverNow} from "../utils/deliveries";
 import {
   createBadRequestResponse,
   createForbiddenResponse,
   createJsonResponse,
   createNotFoundResponse
 } from "../utils/http";
-import {determineShortId, sanitize} from "../utils/io";
-import {placeWork} from "../utils/kv";
+import {determineShortId} from "../utils/io";
+import {determineYear, placeWork, retrieveSeasons} from "../utils/kv";
+import {decodeCursor, PageKey, paginate} from "../utils/pagination";
+import {applyRevision, createRevision} from "../utils/revisions";
+
+/**
+ * The number of digits love counts are padded to when sorting by them.
+ */
+const LOVE_COUNT_DIGITS = 12;
 
 /**
  * @param {boolean} isStaff if the caller of the GET is a staff member
@@ -38,6 +53,12 @@ const workRetrievalPredicate = (isStaff: boolean, isSeekingUnapproved: boolean,
     // want unapproved) then the work must be approved, so the third condition can't be met.
 
     if (!isStaff || !isSeekingUnapproved || !work.isApproved) {
+      // Works sent back to their artists leave the queue until they are edited.
+
+      if (isSeekingUnapproved && work.changeRequest) {
+        return false;
+      }
+
       // If undefined, this will coerce to true anyway.
 
       return !work.isSoftDeleted;
@@ -50,69 +71,113 @@ const workRetrievalPredicate = (isStaff: boolean, isSeekingUnapproved: boolean,
 /**
  * Using search terms, retrieve the works.
  *
- * Full index retrieval is possible and acceptable as egress is not billed. It is just slow for
- * the user so the web client does not use it.
+ * Results are paginated and ordered by submission time by default, or by how loved each work is,
+ * with the ID as a tiebreaker either way. The response contains the works of the page and a
+ * `nextCursor` that is passed back as `cursor` to retrieve the next page. It is `null` when there
+ * are no more works.
  *
  * Unpublished works are not included in the output.
  *
- * Sorting and direct member searching is not possible through this endpoint. It is expected to
- * be done on the frontend as repeated changes of the sort and search would waste backend calls.
+ * Direct member searching is not possible through this endpoint.
  *
- * Params pattern: `?year=<year>&week=<week>&artistId=<artist>`
+ * Params pattern: `?year=<year>&week=<week>&artistId=<artist>&tag=<tag>&medium=<medium>
+ * &limit=<limit>&cursor=<cursor>&order=<ascending|descending>&sort=<submitted|loved>`. The tag is
+ * normalised before it's matched. The medium is a category, or a category and subtype separated
+ * by a slash, e.g., `digital/pixel-art`. The year defaults to the active season when narrowing
+ * down weeks. Otherwise, works from all seasons are included unless a year is given.
  *
- * @param {Environment} env the workers environment
- * @param {URLSearchParams} params the search parameters
- * @param {string | undefined} identifier the identifier of the calling user
+ * @param {RequestContext} context the context of the request
  * @returns {Promise<Response>} the response
  */
 export const getWorks = async (
-  env: Environment, params: URLSearchParams, identifier?: string,
+  {env, repositories, query, identifier}: RequestContext,
 ): Promise<Response> => {
-  const isStaff: boolean = identifier ? EDITORS.includes(identifier) : false;
-
-  // Escape search terms (remove slashes).
+  const isStaff: boolean = await hasPermission(
+    env.REFRESH_KV, identifier, Permission.MODERATE_WORKS,
+  );
 
-  const year: string | null = sanitize(params.get("year")) || ACTIVE_YEAR.toString();
-  const week: string | null = sanitize(params.get("week"));
-  const artistId: string | null = sanitize(params.get("artistId"));
+  const year: number = await determineYear(env.REFRESH_KV, query.year || null);
+  const week: string | undefined = query.week;
+  const artistId: string | undefined = query.artistId;
+  const tag: string | undefined = query.tag ? normaliseTag(query.tag) || undefined : undefined;
+  const medium: string | undefined = query.medium;
 
   // Note the variable name doesn't match the GET name.
 
-  const isSeekingUnapproved: boolean = (
-    ["1", "true"].includes(sanitize(params.get("isUnapproved"))?.toLowerCase() || "???")
+  const isSeekingUnapproved: boolean = ["1", "true"].includes(
+    query.isUnapproved?.toLowerCase() || "???"
   );
 
+  const limit: number = query.limit ? parseInt(query.limit) : DEFAULT_PAGE_SIZE;
+  const order: PageOrder = query.order === PageOrder.ASCENDING ? (
+    PageOrder.ASCENDING
+  ) : PageOrder.DESCENDING;
+
+  const after: PageKey | undefined = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (query.cursor && !after) {
+    return createBadRequestResponse(new ValidationError(
+      "The cursor is invalid. Try again from the first page.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
+
   // If the artist is present, that cancels the most results, so use that as search. Otherwise,
-  // use the week. If neither are present, use all posts in the list.
+  // use the tag, then the week. If none are present, use all posts in the list.
 
   const results: Record<string, Work> = {};
   if (artistId) {
-    const works_with_artist_index: Record<string, Work> = JSON.parse(
-      (await env.REFRESH_KV.get(`${WORKS_WITH_ARTIST_INDEX}/${artistId}`)) || "[]",
-    );
-
-    Object.values(works_with_artist_index).filter(
+    (await repositories.works.listByArtist(artistId)).filter(
       (work: Work) => workRetrievalPredicate(isStaff, isSeekingUnapproved, work)
+    ).filter(
+      (work: Work) => !query.year && !week || work.year === year
+    ).filter(
+      (work: Work) => !week || work.weekNumbers.includes(parseInt(week))
+    ).filter(
+      (work: Work) => !tag || !!work.tags?.includes(tag)
+    ).forEach((work: Work) => results[work.id] = work);
+  } else if (tag) {
+    (await repositories.works.listByTag(tag)).filter(
+      (work: Work) => workRetrievalPredicate(isStaff, isSeekingUnapproved, work)
+    ).filter(
+      (work: Work) => !query.year && !week || work.year === year
+    ).filter(
+      (work: Work) => !week || work.weekNumbers.includes(parseInt(week))
     ).forEach((work: Work) => results[work.id] = work);
   } else if (week) {
-    const works_with_week_index: Record<string, Work> = JSON.parse(
-      (await env.REFRESH_KV.get(`${WORKS_WITH_WEEK_INDEX}/${year}/${week}`)) || "[]",
-    );
-
-    Object.values(works_with_week_index).filter(
+    (await repositories.works.listByWeek(year, parseInt(week))).filter(
       (work: Work) => workRetrievalPredicate(isStaff, isSeekingUnapproved, work)
     ).forEach((work: Work) => results[work.id] = work);
   } else {
-    const works_without_index: Work[] = JSON.parse(
-      (await env.REFRESH_KV.get(`${WORKS_WITHOUT_INDEX}`)) || "[]"
-    );
-
-    works_without_index.filter(
+    (await repositories.works.listAll()).filter(
       (work: Work) => workRetrievalPredicate(isStaff, isSeekingUnapproved, work)
+    ).filter(
+      (work: Work) => !query.year || work.year === year
     ).forEach((work: Work) => results[work.id] = work);
   }
 
-  return createJsonResponse(JSON.stringify(results), env.ALLOWED_ORIGIN);
+  // Mediums aren't indexed, so the works are narrowed down by medium after they're listed.
+
+  const works: Work[] = Object.values(results).filter(
+    (work: Work) => !medium || isWorkInMedium(work, medium)
+  );
+
+  // Keys are compared as strings, so love counts are padded to sort numerically.
+
+  const page: Page<Work> = paginate(
+    works,
+    (work: Work) => [
+      query.sort === WorksSort.LOVED ? (
+        getLoveCount(work).toString().padStart(LOVE_COUNT_DIGITS, "0")
+      ) : work.submittedTimestamp,
+      work.id,
+    ],
+    limit,
+    order,
+    after,
+  );
+
+  return createJsonResponse(JSON.stringify(page), env.ALLOWED_ORIGIN);
 };
 
 /**
@@ -120,23 +185,19 @@ export const getWorks = async (
  *
  * There is no authentication check.
  *
- * @param {Environment} env the workers environment
- * @param {URLSearchParams} params the search parameters
+ * @param {RequestContext} context the context of the request
  * @returns {Promise<Response>} the response
  */
 export const getWork = async (
-  env: Environment, params: URLSearchParams,
+  {env, repositories, params}: RequestContext,
 ): Promise<Response> => {
-  const id: string | null = sanitize(params.get("id"));
-  if (!id || id === "undefined") {
+  if (params.id === "undefined") {
     return createNotFoundResponse(env.ALLOWED_ORIGIN);
   }
 
-  const work: Work = JSON.parse(
-    (await env.REFRESH_KV.get(`${WORKS_WITH_ID_INDEX}/${id}`)) || "{}"
-  );
+  const work: Work | undefined = await repositories.works.get(params.id);
 
-  if (!work?.id || work.isSoftDeleted) {
+  if (!work || work.isSoftDeleted) {
     return createNotFoundResponse(env.ALLOWED_ORIGIN);
   }
 
@@ -149,16 +210,15 @@ export const getWork = async (
  * The ID provided by the user is used to find an existing post. If it doesn't exist, the ID is
  * ignored and generated by the backend.
  *
- * This is an idempotent endpoint whether a post already exists. It uses a rate limit of 2 edits
- * per minute. We are not concerned about race conditions.
+ * This is an idempotent endpoint whether a post already exists. The route is rate limited to 2
+ * edits per minute. Aggregates are written through the aggregate store so concurrent submissions
+ * don't overwrite each other.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
- * @param {string | undefined} identifier the identifier of the calling user
+ * @param {RequestContext<Work>} context the context of the request
  * @returns {Promise<Response>} the response
  */
 export const putWork = async (
-  env: Environment, request: Request, identifier?: string,
+  {env, repositories, discord, identifier, body: input}: RequestContext<Work>,
 ): Promise<Response> => {
   // Ensure user is authenticated at all before doing any other CPU computation.
 
@@ -166,25 +226,81 @@ export const putWork = async (
     return createForbiddenResponse(env.ALLOWED_ORIGIN);
   }
 
-  // Validate all data and ensure it is escaped for HTML.
-
-  const input: Work = await request.json();
-
-  const validation: ValidationResult = WORK_SCHEMA.validate(input);
-  if (validation.error) {
-    return createBadRequestResponse(validation.error, env.ALLOWED_ORIGIN);
-  }
-
   // Stop malicious users from self-verifying or editing another person's Discord post on PUT.
+  // Any edit also answers a request for changes, which returns the work to the queue. Counts of
+  // reactions, favourites and comments are only changed by reacting and commenting, and the
+  // credited artists are only changed by inviting them.
 
   input.isApproved = false;
+  input.changeRequest = undefined;
   input.discordId = undefined;
   input.isSoftDeleted = false;
+  input.deletedBy = undefined;
+  input.deletedTimestamp = undefined;
+  input.reactionCounts = undefined;
+  input.favouritesCount = undefined;
+  input.commentsCount = undefined;
+  input.collaboratorIds = undefined;
+  input.invitedCollaboratorIds = undefined;
+
+  // Tags are normalised so differently written tags match and can be browsed together.
+
+  const tags: string[] = normaliseTags(input.tags || []);
+  input.tags = tags.length > 0 ? tags : undefined;
+
+  // A medium from the taxonomy is shown by its name. Only "other" keeps what the artist wrote.
+
+  if (input.mediumCategory) {
+    if (!isKnownMedium(input.mediumCategory, input.mediumSubtype)) {
+      return createBadRequestResponse(new ValidationError(
+        "That medium isn't one of the choices.",
+        [],
+        [],
+      ), env.ALLOWED_ORIGIN);
+    }
+
+    if (input.mediumCategory !== MediumCategory.OTHER) {
+      input.medium = describeMedium({
+        category: input.mediumCategory, subtype: input.mediumSubtype,
+      });
+    }
+  } else {
+    input.mediumSubtype = undefined;
+  }
 
-  // Verify poster is either the same as the one in the work or is a staff member.
+  // Verify poster is either the same as the one in the work, one of its accepted collaborators or
+  // a staff member.
+
+  const isStaff: boolean = await hasPermission(
+    env.REFRESH_KV, identifier, Permission.EDIT_ANY_WORK,
+  );
+
+  if (!isStaff && !await hasPermission(env.REFRESH_KV, identifier, Permission.SUBMIT_WORKS)) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  // Try to retrieve an existing work. Erroneously placed works with the "noop" ID are ignored.
+
+  const backendWork: Work | undefined = await repositories.works.get(input.id);
+
+  // Only the work's artist and its accepted collaborators can edit an existing work, whatever
+  // artist it claims. Collaborators edit on behalf of the work's artist, who stays its owner.
+
+  const isCollaborator: boolean = !!backendWork?.collaboratorIds?.includes(identifier);
+
+  if (backendWork && !isStaff) {
+    if (backendWork.artistId !== identifier && !isCollaborator) {
+      return createForbiddenResponse(env.ALLOWED_ORIGIN);
+    }
+
+    input.artistId = backendWork.artistId;
+
+    if (isCollaborator) {
+      input.firstSeenArtistInfo = backendWork.firstSeenArtistInfo;
+    }
+  }
 
-  const isStaff: boolean = identifier ? EDITORS.includes(identifier) : false;
-  if (!isStaff && input.artistId !== identifier) {
+  if (!isStaff && input.artistId !== identifier && !isCollaborator) {
     return createBadRequestResponse(new ValidationError(
       "Posting artist is not the same as the work artist.",
       null,
@@ -192,18 +308,27 @@ export const putWork = async (
     ), env.ALLOWED_ORIGIN);
   }
 
-  // Try to retrieve an existing work.
+  // The work must belong to an existing season and fit within its weeks. Only staff can post to
+  // archived seasons.
 
-  const rawBackendWork: string | null = await env.REFRESH_KV.get(
-    `${WORKS_WITH_ID_INDEX}/${input.id}`
+  const season: Season | undefined = findSeason(
+    await retrieveSeasons(env.REFRESH_KV), input.year,
   );
 
-  let backendWork: Work | null = rawBackendWork ? JSON.parse(rawBackendWork) : null;
-
-  // The backend should ignore erroneously placed works with the "noop" ID.
+  if (!season || (!isStaff && season.status === SeasonStatus.ARCHIVED)) {
+    return createBadRequestResponse(new ValidationError(
+      "This season is not accepting submissions.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
+  }
 
-  if (backendWork?.id === "noop") {
-    backendWork = null;
+  if (input.weekNumbers.some((weekNumber: number) => weekNumber > season.weekCount)) {
+    return createBadRequestResponse(new ValidationError(
+      "A week is outside of the season's week count.",
+      [],
+      [],
+    ), env.ALLOWED_ORIGIN);
   }
 
   // If editing, verify that the ID of the work presented matches the one in the backend.
@@ -217,7 +342,7 @@ export const putWork = async (
 
     // This isn't very robust, but we don't ever expect anything to ever collide.
 
-    if (await env.REFRESH_KV.get(`${WORKS_WITH_ID_INDEX}/${newId}`)) {
+    if (await repositories.works.get(newId)) {
       return createBadRequestResponse(new ValidationError(
         "A post already exists with the exact same info! Did you mean to edit a work?",
         null,
@@ -229,7 +354,7 @@ export const putWork = async (
   } else {
     // There is a backend work. Keep some old data.
 
-    if (EDITORS.includes(input.artistId)) {
+    if (await hasPermission(env.REFRESH_KV, input.artistId, Permission.EDIT_ANY_WORK)) {
       // Don't let an admin overwrite state with their own user ID.
 
       input.artistId = backendWork.artistId;
@@ -237,6 +362,14 @@ export const putWork = async (
 
     input.discordId = backendWork.discordId;
     input.submittedTimestamp = backendWork.submittedTimestamp;
+    input.collaboratorIds = backendWork.collaboratorIds;
+    input.invitedCollaboratorIds = backendWork.invitedCollaboratorIds;
+
+    // A deleted work stays in the trash when edited. Only staff can restore it.
+
+    input.isSoftDeleted = backendWork.isSoftDeleted;
+    input.deletedBy = backendWork.deletedBy;
+    input.deletedTimestamp = backendWork.deletedTimestamp;
   }
 
   // Generate the thumbnails for all items if they're new or have changed.
@@ -306,16 +439,33 @@ export const putWork = async (
     }
   }
 
-  // Post/Edit the Discord ID for this work (can fail without 500).
+  await placeWork(repositories, input);
+
+  // Post/Edit the Discord post for this work. If Discord fails, it is retried from the outbox.
 
-  const hadDiscordIdAlready = !!input.discordId;
+  await deliverNow(env, repositories, discord, DeliveryKind.WORK, input.id);
 
-  const discordId: string | null = await postOrEditDiscordWork(env, input);
-  if (discordId) {
-    input.discordId = discordId;
+  // Keep the version being replaced if it was saved before revisions were kept, then this one.
+
+  if (backendWork && (await repositories.revisions.list(input.id)).length === 0) {
+    await repositories.revisions.append(
+      createRevision(backendWork, backendWork.artistId, backendWork.submittedTimestamp),
+    );
   }
 
-  await placeWork(env.REFRESH_KV, input, !hadDiscordIdAlready);
+  await repositories.revisions.append(createRevision(input, identifier));
+
+  // Staff creating or editing a work on behalf of another artist is audited.
+
+  if (isStaff && input.artistId !== identifier) {
+    await recordAudit(repositories, identifier, AuditAction.EDIT_WORK, [
+      summariseChange(
+        input.id,
+        backendWork ? projectAuditedWork(backendWork) : undefined,
+        projectAuditedWork(input),
+      ),
+    ]);
+  }
 
   return createJsonResponse(JSON.stringify(input), env.ALLOWED_ORIGIN);
 };
@@ -330,19 +480,12 @@ export const putWork = async (
  * The content length is also explicitly required and must exactly match what is sent to this
  * endpoint or the request will fail.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
- * @param {string | undefined} identifier the identifier of the calling user
+ * @param {RequestContext<UploadRequest>} context the context of the request
  * @returns {Promise<Response>} a response with a pre-signed upload URL
  */
 export const postUpload = async (
-  env: Environment, request: Request, identifier: string | undefined,
+  {env, identifier, body: requestData}: RequestContext<UploadRequest>,
 ): Promise<Response> => {
-  if (!identifier) {
-    return createForbiddenResponse(env.ALLOWED_ORIGIN);
-  }
-
-  const requestData: { filename: string; contentLength: number } = await request.json();
 
   const _filename = requestData.filename;
   const _filenameParts = _filename.split(".");
@@ -404,119 +547,240 @@ export const postUpload = async (
 enum PrivilegedStateChange {
   APPROVE,
   UN_APPROVE,
+  REJECT,
   DELETE,
+  RESTORE,
 }
 
+/**
+ * The action recorded in the audit log for each privileged state change.
+ */
+const PRIVILEGED_STATE_CHANGE_ACTIONS: Record<PrivilegedStateChange, AuditAction> = {
+  [PrivilegedStateChange.APPROVE]: AuditAction.APPROVE_WORKS,
+  [PrivilegedStateChange.UN_APPROVE]: AuditAction.UNAPPROVE_WORKS,
+  [PrivilegedStateChange.REJECT]: AuditAction.REJECT_WORKS,
+  [PrivilegedStateChange.DELETE]: AuditAction.DELETE_WORKS,
+  [PrivilegedStateChange.RESTORE]: AuditAction.RESTORE_WORKS,
+};
+
+/**
+ * @param {Work} work a work
+ * @returns {Record<string, unknown>} the fields of the work that are audited on staff edits
+ */
+const projectAuditedWork = (work: Work): Record<string, unknown> => {
+  return {
+    artistId: work.artistId,
+    year: work.year,
+    weekNumbers: work.weekNumbers,
+    title: work.title,
+    medium: work.medium,
+    mediumCategory: work.mediumCategory,
+    mediumSubtype: work.mediumSubtype,
+    description: work.description,
+    urls: work.items.map((item: UrlItem) => item.url),
+    isApproved: work.isApproved,
+    changesRequested: work.changeRequest?.reason,
+    isSoftDeleted: !!work.isSoftDeleted,
+  };
+};
+
 /**
  * Make one of the generic privileged state changes to a work.
  *
- * The request body contains all the work IDs to be changed. In order to avoid race conditions,
- * the mutations happens one by one and then is updated with whatever the backend states on
- * request for the aggregated writes.
+ * The request body contains all the work IDs to be changed. Each work is changed without
+ * overwriting concurrent writes, so an approval is never lost to an edit or submission.
+ *
+ * The Discord post of each work is then deleted, posted again or edited to match its new state
+ * through the outbox.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
+ * @param {RequestContext<string[]>} context the context of the request
  * @param {PrivilegedStateChange} state the state change options enum
- * @param {string | undefined} identifier the identifier of the calling user
- * @returns {Promise<Response>} a response with a pre-signed upload URL
+ * @param {string} reason the reason given to the artists, only used when rejecting
+ * @returns {Promise<Response>} the response
  */
 const makePrivilegedStateChange = async (
-  env: Environment, request: Request, state: PrivilegedStateChange, identifier: string | undefined,
+  {env, repositories, discord, identifier, body: ids}: RequestContext<string[]>,
+  state: PrivilegedStateChange,
+  reason = "",
 ): Promise<Response> => {
-  // User must be staff to make any state change to a work
-
-  const isStaff: boolean = identifier ? EDITORS.includes(identifier) : false;
-  if (!isStaff) {
-    return createForbiddenResponse(env.ALLOWED_ORIGIN);
-  }
+  const changes: AuditChange[] = [];
+  const changedIds: string[] = [];
 
-  // State change is always applied to multiple IDs found in the request body.
-
-  const ids: string[] = await request.json();
-
-  // Perform the actual state change.
-
-  const works: Work[] = [];
   for (const id of ids) {
-    // Allow explosion if work can't be found.
-
-    const work: Work = JSON.parse(
-      (await env.REFRESH_KV.get(`${WORKS_WITH_ID_INDEX}/${id}`)) || "{}"
-    );
-
-    switch (state) {
-      case PrivilegedStateChange.APPROVE:
-        work.isApproved = true;
+    // Works that can't be found are skipped.
+
+    let before: Record<string, unknown> | undefined = undefined;
+
+    const work: Work | undefined = await repositories.works.update(id, (work: Work) => {
+      before = projectAuditedWork(work);
+
+      switch (state) {
+        case PrivilegedStateChange.APPROVE:
+          work.isApproved = true;
+          work.changeRequest = undefined;
+
+          break;
+        case PrivilegedStateChange.REJECT:
+          work.isApproved = false;
+          work.changeRequest = {
+            reason: reason.trim(),
+            requestedBy: identifier || "",
+            timestamp: new Date().toISOString(),
+          };
+
+          break;
+        case PrivilegedStateChange.DELETE:
+          // Deleting again would otherwise lose who deleted it first.
+
+          if (!work.isSoftDeleted) {
+            work.isSoftDeleted = true;
+            work.deletedBy = identifier;
+            work.deletedTimestamp = new Date().toISOString();
+          }
+
+          break;
+        case PrivilegedStateChange.RESTORE:
+          work.isSoftDeleted = false;
+          work.deletedBy = undefined;
+          work.deletedTimestamp = undefined;
+
+          break;
+        case PrivilegedStateChange.UN_APPROVE:
+          // Doubtful this will be used, but it is here for completeness.
+
+          work.isApproved = false;
+
+          break;
+      }
 
-        break;
-      case PrivilegedStateChange.DELETE:
-        work.isSoftDeleted = true;
+      return work;
+    });
 
-        break;
-      case PrivilegedStateChange.UN_APPROVE:
-        // Doubtful this will be used, but it is here for completeness.
+    // Now write the changed work to every index.
 
-        work.isApproved = false;
+    if (work) {
+      await placeWork(repositories, work);
+      await deliverNow(env, repositories, discord, DeliveryKind.WORK, id);
 
-        break;
+      changes.push(summariseChange(id, before, projectAuditedWork(work)));
+      changedIds.push(id);
     }
+  }
 
-    // Edit the post, write to ID, and to weeks and artist aggregates, but not the main list.
-
-    await placeWork(
-      env.REFRESH_KV, work, false, false, false, true
+  if (identifier && changedIds.length > 0) {
+    await recordAudit(
+      repositories,
+      identifier,
+      PRIVILEGED_STATE_CHANGE_ACTIONS[state],
+      changes.filter(isChanged),
+      changedIds,
     );
-
-    works.push(work);
   }
 
-  // Read from the list of everything (the only thing left), merge with the new values, then write.
-
-  const worksWithoutIndex: Work[] = JSON.parse(
-    await env.REFRESH_KV.get(`${WORKS_WITHOUT_INDEX}`) || "[]"
-  );
-
-  const idToAllWorks: Record<string, Work> = Object.fromEntries(worksWithoutIndex.map(
-    (work: Work) => [work.id, work]
-  ));
-
-  works.forEach((work: Work) => {
-    idToAllWorks[work.id] = work;
-  });
-
-  await env.REFRESH_KV.put(WORKS_WITHOUT_INDEX, JSON.stringify(
-    Object.values(idToAllWorks).sort((a: Work, b: Work) => {
-      return new Date(b.submittedTimestamp).valueOf() - new Date(a.submittedTimestamp).valueOf();
-    })
-  ));
-
   return createJsonResponse("{}", env.ALLOWED_ORIGIN);
 };
 
 /**
  * Approve the given works.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
- * @param {string | undefined} identifier the identifier of the calling user
- * @returns {Promise<Response>} a response with a pre-signed upload URL
+ * The body is expected to be a JSON array of work IDs.
+ *
+ * @param {RequestContext<string[]>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postApprove = async (context: RequestContext<string[]>): Promise<Response> => {
+  return makePrivilegedStateChange(context, PrivilegedStateChange.APPROVE);
+};
+
+/**
+ * Send the given works back to their artists with the changes they need to make.
+ *
+ * The works are unapproved and leave the moderation queue until their artists edit them.
+ *
+ * @param {RequestContext<RejectionRequest>} context the context of the request
+ * @returns {Promise<Response>} the response
  */
-export const postApprove = async (
-  env: Environment, request: Request, identifier: string | undefined,
+export const postReject = async (
+  context: RequestContext<RejectionRequest>,
 ): Promise<Response> => {
-  return makePrivilegedStateChange(env, request, PrivilegedStateChange.APPROVE, identifier);
+  return makePrivilegedStateChange(
+    {...context, body: context.body.ids}, PrivilegedStateChange.REJECT, context.body.reason,
+  );
 };
 
 /**
  * Soft-delete the given works.
  *
- * @param {Environment} env the workers environment
- * @param {Request} request the request
- * @param {string | undefined} identifier the identifier of the calling user
- * @returns {Promise<Response>} a response with a pre-signed upload URL
+ * The body is expected to be a JSON array of work IDs.
+ *
+ * @param {RequestContext<string[]>} context the context of the request
+ * @returns {Promise<Response>} the response
  */
-export const deleteWork = async (
-  env: Environment, request: Request, identifier: string | undefined,
+export const deleteWorks = async (context: RequestContext<string[]>): Promise<Response> => {
+  return makePrivilegedStateChange(context, PrivilegedStateChange.DELETE);
+};
+
+/**
+ * Restore the given works from the trash.
+ *
+ * The body is expected to be a JSON array of work IDs. Restored works keep their approval, so
+ * an approved work is visible again straight away.
+ *
+ * @param {RequestContext<string[]>} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postRestore = async (context: RequestContext<string[]>): Promise<Response> => {
+  return makePrivilegedStateChange(context, PrivilegedStateChange.RESTORE);
+};
+
+/**
+ * Revert a work to one of its revisions.
+ *
+ * Only the content of the work is reverted. Whether it is approved or deleted is kept. The
+ * revert is saved as a new revision, so it can itself be reverted.
+ *
+ * @param {RequestContext} context the context of the request
+ * @returns {Promise<Response>} the response
+ */
+export const postRevert = async (
+  {env, repositories, discord, identifier, params}: RequestContext,
 ): Promise<Response> => {
-  return makePrivilegedStateChange(env, request, PrivilegedStateChange.DELETE, identifier);
+  if (!identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const revision: Revision | undefined = await repositories.revisions.get(
+    params.id, params.revisionId,
+  );
+
+  if (!revision) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  let previous = undefined as Work | undefined;
+
+  const work: Work | undefined = await repositories.works.update(params.id, (work: Work) => {
+    previous = work;
+
+    return applyRevision(work, revision);
+  });
+
+  if (!work || !previous) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  // The revision may be for other weeks, so the work is placed from the version it replaced.
+
+  await placeWork(repositories, work, previous);
+
+  // Edit the Discord post to match. If Discord fails, it is retried from the outbox.
+
+  await deliverNow(env, repositories, discord, DeliveryKind.WORK, work.id);
+  await repositories.revisions.append(createRevision(work, identifier, undefined, revision.id));
+
+  await recordAudit(repositories, identifier, AuditAction.REVERT_WORK, [
+    summariseChange(work.id, projectAuditedWork(previous), projectAuditedWork(work)),
+  ]);
+
+  return createJsonResponse(JSON.stringify(work), env.ALLOWED_ORIGIN);
 };
@@ -0,0 +1,117 @@
+/**
+ * Utils related to writing shared aggregates consistently.
+ *
+ * Aggregates such as `works/all` are read-modify-written by many requests at once. Writing them
+ * through an {@link AggregateStore} means each write is checked against the version it was based
+ * on, so a write that lost a race is retried against the newer value rather than overwriting it.
+ */
+
+/**
+ * The value of an aggregate with the version it was read at.
+ */
+export interface Versioned {
+  /**
+   * The raw value, or `null` if the aggregate doesn't exist.
+   */
+  value: string | null;
+
+  /**
+   * The version, which increases by one on every successful write. It is zero if the aggregate
+   * has never been written through the store.
+   */
+  version: number;
+}
+
+/**
+ * A store that serialises writes to each key using versioned compare-and-swap.
+ */
+export interface AggregateStore {
+  /**
+   * Read an aggregate with its version.
+   *
+   * @param {string} key the key of the aggregate
+   * @returns {Promise<Versioned>} the value and version
+   */
+  read(key: string): Promise<Versioned>;
+
+  /**
+   * Write an aggregate only if it is still at the expected version.
+   *
+   * @param {string} key the key of the aggregate
+   * @param {number} expectedVersion the version the new value was based on
+   * @param {string | null} value the new raw value, or `null` to delete the aggregate
+   * @returns {Promise<number | null>} the new version, or `null` if another write came first
+   */
+  compareAndSwap(
+    key: string, expectedVersion: number, value: string | null,
+  ): Promise<number | null>;
+}
+
+/**
+ * The number of times a write is attempted before giving up.
+ */
+const MAXIMUM_ATTEMPTS = 8;
+
+/**
+ * The base delay in milliseconds before retrying a write. It doubles on each attempt.
+ */
+const BASE_RETRY_DELAY = 10;
+
+/**
+ * Read, modify, then write a JSON aggregate, retrying if another write came first.
+ *
+ * The mutation may be called more than once, so it must only depend on the value passed to it.
+ * It can return `null` to delete the aggregate. Nothing is written if the value is unchanged.
+ *
+ * @param {AggregateStore} store the aggregate store
+ * @param {string} key the key of the aggregate
+ * @param {T} fallback the value to mutate if the aggregate doesn't exist
+ * @param {Function} mutate a function returning the new value from the current value
+ * @returns {Promise<T | null>} the value that was written
+ */
+export const updateAggregate = async <T>(
+  store: AggregateStore,
+  key: string,
+  fallback: T,
+  mutate: (current: T) => T | null,
+): Promise<T | null> => {
+  for (let attempt = 0; attempt < MAXIMUM_ATTEMPTS; attempt++) {
+    const {value, version}: Versioned = await store.read(key);
+
+    const current: T = value !== null ? JSON.parse(value) : structuredClone(fallback);
+    const updated: T | null = mutate(current);
+    const rawUpdated: string | null = updated !== null ? JSON.stringify(updated) : null;
+
+    if (rawUpdated === value) {
+      return updated;
+    }
+
+    const newVersion: number | null = await store.compareAndSwap(key, version, rawUpdated);
+
+    if (newVersion !== null) {
+      return updated;
+    }
+
+    // Someone else wrote first. Back off with jitter so competing writers spread out.
+
+    const delay: number = BASE_RETRY_DELAY * 2 ** attempt * (1 + Math.random());
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  throw new Error(`Could not write "${key}" after ${MAXIMUM_ATTEMPTS} attempts.`);
+};
+
+/**
+ * Write a JSON aggregate regardless of its current value, while still respecting the order of
+ * other writes to it.
+ *
+ * @param {AggregateStore} store the aggregate store
+ * @param {string} key the key of the aggregate
+ * @param {T | null} value the new value, or `null` to delete the aggregate
+ */
+export const replaceAggregate = async <T>(
+  store: AggregateStore, key: string, value: T | null,
+): Promise<void> => {
+  await updateAggregate<T | null>(store, key, null, () => value);
+};
@@ -0,0 +1,235 @@
+/**
+ * Durable Object implementations of an {@link AggregateStore} and a {@link RateLimitStore}.
+ *
+ * Each aggregate key is owned by its own {@link AggregateCoordinator}, which is the single writer
+ * of that key. The coordinator checks versions, then mirrors every accepted write into KV so
+ * that readers can keep reading KV directly.
+ *
+ * Each rate limit key is likewise owned by its own {@link RateLimitCoordinator}. Nothing reads
+ * rate limits from KV, so they are never mirrored.
+ */
+
+import Environment from "../types/environment";
+import {AggregateStore, Versioned} from "./aggregates";
+import {consumeWindow, RateLimit, RateLimitStore, WindowResult} from "./rate-limits";
+
+/**
+ * A request sent from the store to a coordinator.
+ */
+type CoordinatorRequest = {
+  operation: "read";
+  key: string;
+} | {
+  operation: "swap";
+  key: string;
+  expectedVersion: number;
+  value: string | null;
+};
+
+/**
+ * The single writer of one aggregate key.
+ */
+export class AggregateCoordinator implements DurableObject {
+  private readonly state: DurableObjectState;
+  private readonly env: Environment;
+
+  /**
+   * @param {DurableObjectState} state the state of this object
+   * @param {Environment} env the workers environment
+   */
+  constructor(state: DurableObjectState, env: Environment) {
+    this.state = state;
+    this.env = env;
+  }
+
+  /**
+   * Read the aggregate, seeding it from KV the first time it is used.
+   *
+   * The seed may be up to a minute stale as KV is eventually consistent, but this only happens
+   * once per key when migrating from writing KV directly.
+   *
+   * @param {string} key the key of the aggregate
+   * @returns {Promise<Versioned>} the value and version
+   */
+  private async read(key: string): Promise<Versioned> {
+    const stored: Versioned | undefined = await this.state.storage.get<Versioned>("aggregate");
+    if (stored) {
+      return stored;
+    }
+
+    return {value: await this.env.REFRESH_KV.get(key), version: 0};
+  }
+
+  /**
+   * Handle a read or compare-and-swap from the store.
+   *
+   * @param {Request} request the request
+   * @returns {Promise<Response>} the response
+   */
+  async fetch(request: Request): Promise<Response> {
+    const body: CoordinatorRequest = await request.json();
+
+    // Block other requests entirely, as they could otherwise interleave at the KV calls.
+
+    const result: Versioned | number | null = await this.state.blockConcurrencyWhile(async () => {
+      const current: Versioned = await this.read(body.key);
+
+      if (body.operation === "read") {
+        return current;
+      }
+
+      if (current.version !== body.expectedVersion) {
+        return null;
+      }
+
+      const updated: Versioned = {value: body.value, version: current.version + 1};
+
+      await this.state.storage.put("aggregate", updated);
+
+      if (updated.value !== null) {
+        await this.env.REFRESH_KV.put(body.key, updated.value);
+      } else {
+        await this.env.REFRESH_KV.delete(body.key);
+      }
+
+      return updated.version;
+    });
+
+    return new Response(JSON.stringify(result));
+  }
+}
+
+export default class DurableAggregateStore implements AggregateStore {
+  private readonly namespace: DurableObjectNamespace;
+
+  /**
+   * @param {DurableObjectNamespace} namespace the namespace of {@link AggregateCoordinator}
+   */
+  constructor(namespace: DurableObjectNamespace) {
+    this.namespace = namespace;
+  }
+
+  /**
+   * Send a request to the coordinator of a key.
+   *
+   * @param {CoordinatorRequest} body the request
+   * @returns {Promise<R>} the parsed response
+   */
+  private async send<R>(body: CoordinatorRequest): Promise<R> {
+    const stub: DurableObjectStub = this.namespace.get(this.namespace.idFromName(body.key));
+
+    const response: Response = await stub.fetch("https://aggregates/", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`The coordinator of "${body.key}" failed with ${response.status}.`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * @param {string} key the key of the aggregate
+   * @returns {Promise<Versioned>} the value and version
+   */
+  async read(key: string): Promise<Versioned> {
+    return this.send<Versioned>({operation: "read", key: key});
+  }
+
+  /**
+   * @param {string} key the key of the aggregate
+   * @param {number} expectedVersion the version the new value was based on
+   * @param {string | null} value the new raw value, or `null` to delete the aggregate
+   * @returns {Promise<number | null>} the new version, or `null` if another write came first
+   */
+  async compareAndSwap(
+    key: string, expectedVersion: number, value: string | null,
+  ): Promise<number | null> {
+    return this.send<number | null>(
+      {operation: "swap", key: key, expectedVersion: expectedVersion, value: value}
+    );
+  }
+}
+
+/**
+ * The single counter of one rate limit key.
+ */
+export class RateLimitCoordinator implements DurableObject {
+  private readonly state: DurableObjectState;
+
+  /**
+   * @param {DurableObjectState} state the state of this object
+   */
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  /**
+   * Handle a request to consume from the rate limit.
+   *
+   * @param {Request} request the request, with the {@link RateLimit} as its body
+   * @returns {Promise<Response>} the seconds until the key can try again, or `null` if allowed
+   */
+  async fetch(request: Request): Promise<Response> {
+    const rateLimit: RateLimit = await request.json();
+
+    const retryAfter: number | null = await this.state.blockConcurrencyWhile(async () => {
+      const now: number = Date.now();
+      const result: WindowResult = consumeWindow(
+        await this.state.storage.get<number[]>("hits") || [], rateLimit, now,
+      );
+
+      await this.state.storage.put("hits", result.hits);
+
+      // Forget the key once every request has left the window so idle keys cost nothing.
+
+      await this.state.storage.setAlarm(
+        result.hits[result.hits.length - 1] + rateLimit.windowSeconds * 1000,
+      );
+
+      return result.retryAfter;
+    });
+
+    return new Response(JSON.stringify(retryAfter));
+  }
+
+  /**
+   * Forget every request once the window has passed.
+   */
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+export class DurableRateLimitStore implements RateLimitStore {
+  private readonly namespace: DurableObjectNamespace;
+
+  /**
+   * @param {DurableObjectNamespace} namespace the namespace of {@link RateLimitCoordinator}
+   */
+  constructor(namespace: DurableObjectNamespace) {
+    this.namespace = namespace;
+  }
+
+  /**
+   * @param {string} key the key, which should identify both the caller and what is being called
+   * @param {RateLimit} rateLimit the rate limit
+   * @returns {Promise<number | null>} the seconds until the key can try again, or `null` if allowed
+   */
+  async consume(key: string, rateLimit: RateLimit): Promise<number | null> {
+    const stub: DurableObjectStub = this.namespace.get(this.namespace.idFromName(key));
+
+    const response: Response = await stub.fetch("https://rate-limits/", {
+      method: "POST",
+      body: JSON.stringify(rateLimit),
+    });
+
+    if (!response.ok) {
+      throw new Error(`The rate limit of "${key}" failed with ${response.status}.`);
+    }
+
+    return response.json();
+  }
+}
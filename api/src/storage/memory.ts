@@ -0,0 +1,75 @@
+/**
+ * In-memory implementations of an {@link AggregateStore} and a {@link RateLimitStore}.
+ *
+ * They have the same semantics as the durable implementations but are local to a single
+ * isolate. They are useful for development and for reproducing races, since every read and
+ * write yields to other pending work first.
+ */
+
+import {AggregateStore, Versioned} from "./aggregates";
+import {consumeWindow, RateLimit, RateLimitStore, WindowResult} from "./rate-limits";
+
+export default class MemoryAggregateStore implements AggregateStore {
+  private readonly entries: Map<string, Versioned>;
+
+  /**
+   * @param {Record<string, string>} initial the initial raw values of any aggregates
+   */
+  constructor(initial: Record<string, string> = {}) {
+    this.entries = new Map(Object.entries(initial).map(
+      ([key, value]) => [key, {value: value, version: 0}]
+    ));
+  }
+
+  /**
+   * @param {string} key the key of the aggregate
+   * @returns {Promise<Versioned>} the value and version
+   */
+  async read(key: string): Promise<Versioned> {
+    await Promise.resolve();
+
+    return {...(this.entries.get(key) || {value: null, version: 0})};
+  }
+
+  /**
+   * @param {string} key the key of the aggregate
+   * @param {number} expectedVersion the version the new value was based on
+   * @param {string | null} value the new raw value, or `null` to delete the aggregate
+   * @returns {Promise<number | null>} the new version, or `null` if another write came first
+   */
+  async compareAndSwap(
+    key: string, expectedVersion: number, value: string | null,
+  ): Promise<number | null> {
+    await Promise.resolve();
+
+    // Nothing can interleave from here as there is no await until the end.
+
+    const version: number = this.entries.get(key)?.version || 0;
+    if (version !== expectedVersion) {
+      return null;
+    }
+
+    this.entries.set(key, {value: value, version: version + 1});
+
+    return version + 1;
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits: Map<string, number[]> = new Map();
+
+  /**
+   * @param {string} key the key, which should identify both the caller and what is being called
+   * @param {RateLimit} rateLimit the rate limit
+   * @returns {Promise<number | null>} the seconds until the key can try again, or `null` if allowed
+   */
+  async consume(key: string, rateLimit: RateLimit): Promise<number | null> {
+    await Promise.resolve();
+
+    const result: WindowResult = consumeWindow(this.hits.get(key) || [], rateLimit, Date.now());
+
+    this.hits.set(key, result.hits);
+
+    return result.retryAfter;
+  }
+}
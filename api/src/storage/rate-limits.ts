@@ -0,0 +1,73 @@
+/**
+ * The interface of a store that enforces rate limits, and the sliding window it uses.
+ *
+ * Like aggregates, a rate limit must be checked and counted in one step, which KV can't do. Each
+ * key keeps the times of its recent requests and a request is only counted if it is allowed.
+ */
+
+/**
+ * How many requests can be made within a window of time.
+ */
+export interface RateLimit {
+  /**
+   * The maximum number of requests within any window.
+   */
+  limit: number;
+
+  /**
+   * The length of the window in seconds.
+   */
+  windowSeconds: number;
+}
+
+/**
+ * The outcome of consuming a request from a sliding window.
+ */
+export interface WindowResult {
+  /**
+   * The times of the requests still within the window, including this one if it was allowed.
+   */
+  hits: number[];
+
+  /**
+   * The number of seconds until another request will be allowed, or `null` if this one was.
+   */
+  retryAfter: number | null;
+}
+
+/**
+ * A store that counts requests against rate limits by key.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a request against a key if it is within the rate limit.
+   *
+   * @param {string} key the key, which should identify both the caller and what is being called
+   * @param {RateLimit} rateLimit the rate limit
+   * @returns {Promise<number | null>} the seconds until the key can try again, or `null` if allowed
+   */
+  consume(key: string, rateLimit: RateLimit): Promise<number | null>;
+}
+
+/**
+ * Consume a request from a sliding window of previous requests.
+ *
+ * @param {number[]} hits the times of previous requests in milliseconds, oldest first
+ * @param {RateLimit} rateLimit the rate limit
+ * @param {number} now the time of this request in milliseconds
+ * @returns {WindowResult} the requests to keep and whether this one was allowed
+ */
+export const consumeWindow = (hits: number[], rateLimit: RateLimit, now: number): WindowResult => {
+  const windowStart: number = now - rateLimit.windowSeconds * 1000;
+  const recentHits: number[] = hits.filter((hit: number) => hit > windowStart);
+
+  if (recentHits.length >= rateLimit.limit) {
+    // The oldest request within the window is the next one to leave it.
+
+    const retryAfter: number = Math.ceil((recentHits[0] - windowStart) / 1000);
+
+    return {hits: recentHits, retryAfter: Math.max(retryAfter, 1)};
+  }
+
+  return {hits: [...recentHits, now], retryAfter: null};
+};
@@ -0,0 +1,60 @@
+/**
+ * The client that messages are sent to Discord with.
+ *
+ * Services never call Discord themselves, so a local fake webhook server can stand in for it.
+ */
+
+/**
+ * The JSON body of a webhook message, e.g., its content, username and embeds.
+ */
+export type DiscordMessage = Record<string, unknown>;
+
+/**
+ * An error returned by Discord.
+ */
+export class DiscordError extends Error {
+  /**
+   * The HTTP status of the response.
+   */
+  status: number;
+
+  /**
+   * @param {number} status the HTTP status of the response
+   * @param {string} message the body of the response
+   */
+  constructor(status: number, message: string) {
+    super(message);
+
+    this.name = "DiscordError";
+    this.status = status;
+  }
+}
+
+/**
+ * Sends, edits and deletes the messages of a Discord webhook.
+ *
+ * Every method throws a {@link DiscordError} if Discord refuses the request.
+ */
+export default interface DiscordClient {
+  /**
+   * @param {string} webhookUrl the URL of the webhook
+   * @param {DiscordMessage} message the message
+   * @returns {Promise<string>} the ID of the new message
+   */
+  createMessage(webhookUrl: string, message: DiscordMessage): Promise<string>;
+
+  /**
+   * @param {string} webhookUrl the URL of the webhook
+   * @param {string} messageId the ID of the message
+   * @param {DiscordMessage} message the new message
+   */
+  editMessage(webhookUrl: string, messageId: string, message: DiscordMessage): Promise<void>;
+
+  /**
+   * Delete a message. Messages that are already gone are ignored.
+   *
+   * @param {string} webhookUrl the URL of the webhook
+   * @param {string} messageId the ID of the message
+   */
+  deleteMessage(webhookUrl: string, messageId: string): Promise<void>;
+}
@@ -3,11 +3,14 @@
  */
 export default interface Environment {
   REFRESH_KV: KVNamespace;
+  AGGREGATES: DurableObjectNamespace;
+  RATE_LIMITS: DurableObjectNamespace;
   ALLOWED_ORIGIN: string;
   JWKS_URL: string;
   AUDIENCE: string;
   WEEKS_DISCORD_URL: string;
   WORKS_DISCORD_URL: string;
+  DISCORD_PUBLIC_KEY: string;
   AWS_ACCESS_KEY_ID: string;
   AWS_SECRET_ACCESS_KEY: string;
   AWS_DEFAULT_REGION: string;
@@ -0,0 +1,201 @@
+/**
+ * The parts of Discord's interactions API that this Worker uses.
+ *
+ * See: https://discord.com/developers/docs/interactions/receiving-and-responding.
+ */
+
+/**
+ * The kind of an interaction sent by Discord.
+ */
+export enum InteractionType {
+  /**
+   * Discord checking that the endpoint is up.
+   */
+  PING = 1,
+
+  /**
+   * A slash command.
+   */
+  APPLICATION_COMMAND = 2,
+
+  /**
+   * A button clicked on a message.
+   */
+  MESSAGE_COMPONENT = 3,
+
+  /**
+   * A modal that was filled in.
+   */
+  MODAL_SUBMIT = 5,
+}
+
+/**
+ * The kind of a response to an interaction.
+ */
+export enum InteractionResponseType {
+  /**
+   * Acknowledge a ping.
+   */
+  PONG = 1,
+
+  /**
+   * Reply with a message.
+   */
+  CHANNEL_MESSAGE_WITH_SOURCE = 4,
+
+  /**
+   * Acknowledge an interaction, showing that the app is thinking until the reply is edited in.
+   */
+  DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE = 5,
+
+  /**
+   * Acknowledge an interaction on a message without replying, to update the message later.
+   */
+  DEFERRED_UPDATE_MESSAGE = 6,
+
+  /**
+   * Reply by asking the user to fill in a modal.
+   */
+  MODAL = 9,
+}
+
+/**
+ * The kind of a message or modal component.
+ */
+export enum ComponentType {
+  /**
+   * A row holding other components.
+   */
+  ACTION_ROW = 1,
+
+  /**
+   * A button.
+   */
+  BUTTON = 2,
+
+  /**
+   * A text input in a modal.
+   */
+  TEXT_INPUT = 4,
+}
+
+/**
+ * What staff can do to a work from Discord, which is also the name of each slash command and
+ * the prefix of the custom ID of each button.
+ */
+export enum ModerationAction {
+  /**
+   * Approve a work.
+   */
+  APPROVE = "approve",
+
+  /**
+   * Soft-delete a work.
+   */
+  DELETE = "delete",
+
+  /**
+   * Send a work back to its artist with the changes they need to make.
+   */
+  REJECT = "reject",
+}
+
+/**
+ * A Discord user.
+ */
+export interface InteractionUser {
+  /**
+   * The snowflake of the user, which is also their ID in this app.
+   */
+  id: string;
+}
+
+/**
+ * A component in a message or modal, including the value typed into a text input.
+ */
+export interface InteractionComponent {
+  /**
+   * The kind of the component.
+   */
+  type: ComponentType;
+
+  /**
+   * The developer-defined ID of the component.
+   */
+  custom_id?: string;
+
+  /**
+   * The value typed into a text input.
+   */
+  value?: string;
+
+  /**
+   * The components within an action row.
+   */
+  components?: InteractionComponent[];
+}
+
+/**
+ * The data of an interaction, depending on its type.
+ */
+export interface InteractionData {
+  /**
+   * The name of the slash command.
+   */
+  name?: string;
+
+  /**
+   * The options given to the slash command.
+   */
+  options?: { name: string; value: string }[];
+
+  /**
+   * The custom ID of the button clicked or the modal submitted.
+   */
+  custom_id?: string;
+
+  /**
+   * The components of the modal submitted.
+   */
+  components?: InteractionComponent[];
+}
+
+/**
+ * An interaction sent by Discord.
+ */
+export default interface Interaction {
+  /**
+   * The kind of the interaction.
+   */
+  type: InteractionType;
+
+  /**
+   * The ID of the application the interaction is for.
+   */
+  application_id: string;
+
+  /**
+   * The token to follow up on the interaction with, which is valid for 15 minutes.
+   */
+  token: string;
+
+  /**
+   * The data of the interaction. Pings have none.
+   */
+  data?: InteractionData;
+
+  /**
+   * The member who interacted, if it was in a server.
+   */
+  member?: { user: InteractionUser };
+
+  /**
+   * The user who interacted, if it was in a direct message.
+   */
+  user?: InteractionUser;
+
+  /**
+   * The message the component was on, if the interaction came from one.
+   */
+  message?: { id: string };
+}
@@ -0,0 +1,125 @@
+/**
+ * The types used to report on the consistency of the stored indexes of works.
+ */
+
+import Work from "../../../data/core/Work";
+
+/**
+ * The way an index differs from what the works stored by ID say it should be.
+ */
+export enum DiscrepancyKind {
+  /**
+   * A work is missing from an index it belongs in.
+   */
+  MISSING = "missing",
+
+  /**
+   * A work is in the right index but its copy there is out of date.
+   */
+  STALE = "stale",
+
+  /**
+   * A work is in an index it doesn't belong in, e.g., a week it was moved out of.
+   */
+  MISPLACED = "misplaced",
+
+  /**
+   * An index refers to a work that isn't stored by ID at all.
+   */
+  ORPHANED = "orphaned",
+
+  /**
+   * An artist's statistics don't match the works stored for them.
+   */
+  STATS = "stats",
+
+  /**
+   * An artist doesn't hold their name in the registry of names.
+   */
+  USERNAME = "username",
+
+  /**
+   * A work's counts don't match the reactions or comments stored for it.
+   */
+  COUNTS = "counts",
+}
+
+/**
+ * A single difference between an index and the source of truth.
+ */
+export interface Discrepancy {
+  /**
+   * The kind of difference.
+   */
+  kind: DiscrepancyKind;
+
+  /**
+   * A description of the index, e.g., `week 2023/4`, `artist 123` or `tag pixel-art`.
+   */
+  index: string;
+
+  /**
+   * The ID of the work or artist the difference is about.
+   */
+  id: string;
+}
+
+/**
+ * The derived indexes of works, as they are stored.
+ */
+export interface WorksIndexes {
+  /**
+   * A map of artist IDs to the works in their index.
+   */
+  byArtist: Record<string, Work[]>;
+
+  /**
+   * A map of `<year>/<week>` to the works in the index of that week.
+   */
+  byWeek: Record<string, Work[]>;
+
+  /**
+   * A map of tags to the works in the index of that tag.
+   */
+  byTag: Record<string, Work[]>;
+
+  /**
+   * The list of every work.
+   */
+  all: Work[];
+}
+
+/**
+ * The body of a request to check the indexes.
+ */
+export interface ReindexRequest {
+  /**
+   * Whether to only report the discrepancies. It is a dry run unless explicitly `false`.
+   */
+  isDryRun?: boolean;
+}
+
+/**
+ * The outcome of checking, and possibly rebuilding, the indexes of works.
+ */
+export default interface ReindexReport {
+  /**
+   * When the check started.
+   */
+  checkedTimestamp: string;
+
+  /**
+   * Whether nothing was changed.
+   */
+  isDryRun: boolean;
+
+  /**
+   * The number of works stored by ID.
+   */
+  worksCount: number;
+
+  /**
+   * Every difference found before any rebuild.
+   */
+  discrepancies: Discrepancy[];
+}
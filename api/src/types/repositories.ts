@@ -0,0 +1,418 @@
+/**
+ * The repositories that services use to read and write stored data.
+ *
+ * Services never build keys or parse stored JSON themselves, so the key layout can change
+ * without touching them.
+ */
+
+import Artist, {ArtistStats} from "../../../data/core/Artist";
+import AuditEntry from "../../../data/core/Audit";
+import Comment from "../../../data/core/Comment";
+import Delivery from "../../../data/core/Delivery";
+import UserReaction from "../../../data/core/Reaction";
+import Revision, {RevisionHeader} from "../../../data/core/Revision";
+import Season from "../../../data/core/Season";
+import UsernameClaim from "../../../data/core/Username";
+import Week from "../../../data/core/Week";
+import Work from "../../../data/core/Work";
+import {WorksIndexes} from "./reindex";
+
+/**
+ * Stores works and keeps every index of them up to date.
+ */
+export interface WorksRepository {
+  /**
+   * @param {string} id the ID of the work
+   * @returns {Promise<Work | undefined>} the work, if it exists
+   */
+  get(id: string): Promise<Work | undefined>;
+
+  /**
+   * @param {string} artistId the ID of the artist
+   * @returns {Promise<Work[]>} every work the artist is credited on, in any order
+   */
+  listByArtist(artistId: string): Promise<Work[]>;
+
+  /**
+   * @param {number} year the year of the season
+   * @param {number} week the week number
+   * @returns {Promise<Work[]>} every work submitted to the week, in any order
+   */
+  listByWeek(year: number, week: number): Promise<Work[]>;
+
+  /**
+   * @param {string} tag the normalised tag
+   * @returns {Promise<Work[]>} every work with the tag, in any order
+   */
+  listByTag(tag: string): Promise<Work[]>;
+
+  /**
+   * @returns {Promise<Work[]>} every work, in any order
+   */
+  listAll(): Promise<Work[]>;
+
+  /**
+   * Write a work and update every index it appears in, including the search index.
+   *
+   * The counts of the work as stored are kept, as they're only changed with {@link update} and
+   * then copied with {@link refreshListed}.
+   *
+   * @param {Work} work the work
+   * @param {Work | undefined} previous the work as it was before, if it was changed by ID first,
+   *   so it's also taken off the indexes of that version
+   */
+  put(work: Work, previous?: Work): Promise<void>;
+
+  /**
+   * Change a stored work without losing a concurrent change to it.
+   *
+   * Only the work itself is written. Call {@link put} with the result to update the indexes.
+   *
+   * @param {string} id the ID of the work
+   * @param {Function} mutate a function returning the changed work, which may be called more
+   *   than once
+   * @returns {Promise<Work | undefined>} the changed work, if it exists
+   */
+  update(id: string, mutate: (work: Work) => Work): Promise<Work | undefined>;
+
+  /**
+   * Permanently remove a work and every index entry of it, including in the search index.
+   *
+   * @param {Work} work the work as stored
+   */
+  remove(work: Work): Promise<void>;
+
+  /**
+   * Bring the search entries of a work up to date, e.g., after its artist is renamed.
+   *
+   * @param {Work} work the work as stored
+   */
+  indexForSearch(work: Work): Promise<void>;
+
+  /**
+   * Copy a work changed with {@link update} onto its copies in the indexes it's already listed
+   * in. It isn't added to or taken off any index, so this is only for changes that don't move
+   * it, e.g., to its counts or medium.
+   *
+   * @param {Work} work the work as stored
+   */
+  refreshListed(work: Work): Promise<void>;
+
+  /**
+   * Find the searchable works matching every token in a query.
+   *
+   * @param {string} query the raw query
+   * @returns {Promise<Record<string, number>>} a map of matching work IDs to scores
+   */
+  search(query: string): Promise<Record<string, number>>;
+
+  /**
+   * List every work stored by ID, which is the source of truth for every index.
+   *
+   * This reads every work individually, so it is only meant for maintenance.
+   *
+   * @returns {Promise<Work[]>} every work, in any order
+   */
+  listStored(): Promise<Work[]>;
+
+  /**
+   * Read every derived index as it is stored.
+   *
+   * @returns {Promise<WorksIndexes>} the indexes
+   */
+  readIndexes(): Promise<WorksIndexes>;
+
+  /**
+   * Rewrite every derived index from the given works.
+   *
+   * Entries for works that aren't given and aren't being removed are kept, as they were placed
+   * after the works were listed.
+   *
+   * @param {Work[]} works every work, as listed by {@link listStored}
+   * @param {string[]} removedIds the IDs of works to remove from every index
+   */
+  rebuildIndexes(works: Work[], removedIds: string[]): Promise<void>;
+
+  /**
+   * Bring the indexes of some tags and the list of every work up to date with works whose tags
+   * were changed by ID, writing each index once. Their other indexes catch up when they're next
+   * rebuilt.
+   *
+   * @param {Work[]} works the works, as stored by ID
+   * @param {string[]} tags the tags whose indexes the works were added to or removed from
+   */
+  reindexTags(works: Work[], tags: string[]): Promise<void>;
+}
+
+/**
+ * Stores artists and the per-season list of them.
+ */
+export interface ArtistsRepository {
+  /**
+   * @param {string} id the Discord ID of the artist
+   * @returns {Promise<Artist | undefined>} the artist, if they exist
+   */
+  get(id: string): Promise<Artist | undefined>;
+
+  /**
+   * @param {number} year the year of the season
+   * @returns {Promise<Record<string, Artist>>} a map of IDs to artists of the season
+   */
+  listBySeason(year: number): Promise<Record<string, Artist>>;
+
+  /**
+   * Write an artist and add them to a season's list.
+   *
+   * The statistics are kept as stored as only changes to works change them.
+   *
+   * @param {Artist} artist the artist
+   * @param {number} year the year of the season to list them in
+   * @returns {Promise<Artist>} the artist as written
+   */
+  put(artist: Artist, year: number): Promise<Artist>;
+
+  /**
+   * Set an artist's statistics, creating them from their details if they don't exist.
+   *
+   * @param {string} id the Discord ID of the artist
+   * @param {ArtistStats} stats the statistics
+   * @param {number} year the year of the season to list them in
+   * @param {Artist | undefined} fallback the details of the artist to use if they don't exist
+   * @returns {Promise<boolean>} whether the artist was created from their details
+   */
+  updateStats(id: string, stats: ArtistStats, year: number, fallback?: Artist): Promise<boolean>;
+}
+
+/**
+ * Stores the weeks of each season.
+ */
+export interface WeeksRepository {
+  /**
+   * @param {number} year the year of the season
+   * @returns {Promise<Record<string, Week>>} a map of week numbers to weeks
+   */
+  listBySeason(year: number): Promise<Record<string, Week>>;
+
+  /**
+   * Replace every week of a season.
+   *
+   * @param {number} year the year of the season
+   * @param {Record<string, Week>} weeks a map of week numbers to weeks
+   */
+  putSeason(year: number, weeks: Record<string, Week>): Promise<void>;
+
+  /**
+   * Change a single week without overwriting concurrent writes to its season.
+   *
+   * @param {number} year the year of the season
+   * @param {number} week the number of the week
+   * @param {Function} mutate a function returning the changed week, which may be called again
+   * @returns {Promise<Week | undefined>} the changed week, if it exists
+   */
+  update(year: number, week: number, mutate: (week: Week) => Week): Promise<Week | undefined>;
+
+  /**
+   * Change the seasons without overwriting a concurrent change to them.
+   *
+   * @param {Function} mutate a function returning the changed map of years to seasons, which may
+   *   be called again
+   * @returns {Promise<Record<string, Season>>} the changed map of years to seasons
+   */
+  updateSeasons(
+    mutate: (seasons: Record<string, Season>) => Record<string, Season>,
+  ): Promise<Record<string, Season>>;
+}
+
+/**
+ * The fields of an audit entry that can be listed without reading the entry.
+ */
+export type AuditHeader = Pick<AuditEntry, "id" | "actorId" | "action" | "timestamp">;
+
+/**
+ * Stores the append-only audit log.
+ */
+export interface AuditRepository {
+  /**
+   * @param {string} id the ID of the entry
+   * @returns {Promise<AuditEntry | undefined>} the entry, if it exists
+   */
+  get(id: string): Promise<AuditEntry | undefined>;
+
+  /**
+   * @returns {Promise<AuditHeader[]>} the headers of every entry, in any order
+   */
+  list(): Promise<AuditHeader[]>;
+
+  /**
+   * Record a new entry. Entries can't be changed or removed.
+   *
+   * @param {AuditEntry} entry the entry
+   */
+  append(entry: AuditEntry): Promise<void>;
+}
+
+/**
+ * Stores the revisions of each work.
+ */
+export interface RevisionsRepository {
+  /**
+   * @param {string} workId the ID of the work
+   * @param {string} id the ID of the revision
+   * @returns {Promise<Revision | undefined>} the revision, if it exists
+   */
+  get(workId: string, id: string): Promise<Revision | undefined>;
+
+  /**
+   * @param {string} workId the ID of the work
+   * @returns {Promise<RevisionHeader[]>} the headers of every revision of the work, in any order
+   */
+  list(workId: string): Promise<RevisionHeader[]>;
+
+  /**
+   * Save a new revision. Revisions can't be changed.
+   *
+   * @param {Revision} revision the revision
+   */
+  append(revision: Revision): Promise<void>;
+
+  /**
+   * Remove every revision of a work, which is only done when the work itself is removed.
+   *
+   * @param {string} workId the ID of the work
+   */
+  removeAll(workId: string): Promise<void>;
+}
+
+/**
+ * Stores the registry of artist names, where each name belongs to at most one artist.
+ *
+ * Names are compared after normalisation, so names that differ only in case are the same.
+ */
+export interface UsernamesRepository {
+  /**
+   * @param {string} name the name, in any case
+   * @returns {Promise<UsernameClaim | undefined>} the claim on the name, if there is one
+   */
+  get(name: string): Promise<UsernameClaim | undefined>;
+
+  /**
+   * Claim a name for an artist and release the name they had before.
+   *
+   * @param {string} artistId the Discord ID of the artist
+   * @param {string} name the name they want
+   * @param {string | undefined} previousName the name they had before, if any
+   * @returns {Promise<boolean>} whether the name was claimed, which it isn't if it's taken
+   */
+  claim(artistId: string, name: string, previousName?: string): Promise<boolean>;
+}
+
+/**
+ * Stores the comments on each work.
+ */
+export interface CommentsRepository {
+  /**
+   * @param {string} workId the ID of the work
+   * @returns {Promise<Record<string, Comment>>} a map of IDs to every comment on the work
+   */
+  list(workId: string): Promise<Record<string, Comment>>;
+
+  /**
+   * @returns {Promise<Record<string, Record<string, Comment>>>} a map of the IDs of works with
+   *   comments to maps of IDs to every comment on them
+   */
+  listAll(): Promise<Record<string, Record<string, Comment>>>;
+
+  /**
+   * Change the comments on a work without losing a concurrent change to them.
+   *
+   * @param {string} workId the ID of the work
+   * @param {Function} mutate a function returning the changed map of IDs to comments, which may
+   *   be called more than once
+   * @returns {Promise<Record<string, Comment>>} the changed comments
+   */
+  update(
+    workId: string, mutate: (comments: Record<string, Comment>) => Record<string, Comment>,
+  ): Promise<Record<string, Comment>>;
+
+  /**
+   * Remove every comment on a work, which is only done when the work itself is removed.
+   *
+   * @param {string} workId the ID of the work
+   */
+  removeAll(workId: string): Promise<void>;
+}
+
+/**
+ * Stores how each user has reacted to works, including which works are their favourites.
+ */
+export interface ReactionsRepository {
+  /**
+   * @param {string} userId the Discord ID of the user
+   * @returns {Promise<Record<string, UserReaction>>} a map of work IDs to the user's reactions
+   */
+  list(userId: string): Promise<Record<string, UserReaction>>;
+
+  /**
+   * @returns {Promise<Record<string, UserReaction>[]>} every user's map of work IDs to their
+   *   reactions, in any order
+   */
+  listAll(): Promise<Record<string, UserReaction>[]>;
+
+  /**
+   * Change how a user has reacted to a work without losing their concurrent changes.
+   *
+   * Reactions left without emoji or a favourite are removed.
+   *
+   * @param {string} userId the Discord ID of the user
+   * @param {string} workId the ID of the work
+   * @param {Function} mutate a function returning the changed reaction, which may be called
+   *   more than once
+   * @returns {Promise<UserReaction>} the changed reaction
+   */
+  update(
+    userId: string, workId: string, mutate: (reaction: UserReaction) => UserReaction,
+  ): Promise<UserReaction>;
+}
+
+/**
+ * Stores the outbox of pending Discord deliveries.
+ */
+export interface DeliveriesRepository {
+  /**
+   * @returns {Promise<Delivery[]>} every pending delivery, in any order
+   */
+  list(): Promise<Delivery[]>;
+
+  /**
+   * Queue a delivery, replacing any pending delivery with the same key.
+   *
+   * @param {Delivery} delivery the delivery
+   */
+  put(delivery: Delivery): Promise<void>;
+
+  /**
+   * Change or remove a delivery, but only if it hasn't been queued again since it was read.
+   *
+   * @param {string} key the key of the delivery
+   * @param {string} version the version of the delivery when it was read
+   * @param {Function} mutate a function returning the changed delivery, or `null` to remove it
+   */
+  update(
+    key: string, version: string, mutate: (delivery: Delivery) => Delivery | null,
+  ): Promise<void>;
+}
+
+/**
+ * Every repository, as passed to handlers.
+ */
+export default interface Repositories {
+  works: WorksRepository;
+  artists: ArtistsRepository;
+  usernames: UsernamesRepository;
+  weeks: WeeksRepository;
+  audit: AuditRepository;
+  revisions: RevisionsRepository;
+  reactions: ReactionsRepository;
+  comments: CommentsRepository;
+  deliveries: DeliveriesRepository;
+}
@@ -0,0 +1,126 @@
+/**
+ * The types used to declare the routes of this Worker.
+ */
+
+import Joi from "joi";
+import {Permission} from "../../../data/core/Role";
+import {RateLimit} from "../storage/rate-limits";
+import DiscordClient from "./discord";
+import Environment from "./environment";
+import Repositories from "./repositories";
+
+/**
+ * The HTTP methods a route can handle, in lowercase.
+ */
+export type Method = "get" | "put" | "post" | "delete";
+
+/**
+ * Everything a handler needs to know about a request once it has been routed.
+ *
+ * By the time a handler is called, the path parameters, query and body have already been
+ * sanitised and validated against the schemas of the route.
+ */
+export interface RequestContext<B = unknown> {
+  /**
+   * The workers environment.
+   */
+  env: Environment;
+
+  /**
+   * The repositories to read and write stored data with.
+   */
+  repositories: Repositories;
+
+  /**
+   * The client to send Discord messages with.
+   */
+  discord: DiscordClient;
+
+  /**
+   * The original request.
+   */
+  request: Request;
+
+  /**
+   * The context the request is executed in, to finish work after responding with `waitUntil`.
+   */
+  execution: ExecutionContext;
+
+  /**
+   * The recognised ID of the calling user, if authenticated.
+   */
+  identifier?: string;
+
+  /**
+   * The named path parameters, e.g., `id` in `/api/works/:id`.
+   */
+  params: Record<string, string>;
+
+  /**
+   * The query string parameters.
+   */
+  query: Partial<Record<string, string>>;
+
+  /**
+   * The parsed JSON body, if the route declares a body schema.
+   */
+  body: B;
+}
+
+/**
+ * A single endpoint of the API.
+ */
+export default interface Route<B = unknown> {
+  /**
+   * The method that the route handles.
+   */
+  method: Method;
+
+  /**
+   * The path of the route, including the `/api` prefix, with `:name` for a path parameter.
+   */
+  path: string;
+
+  /**
+   * Whether the caller must be authenticated.
+   *
+   * This is implied if a permission is required.
+   */
+  isAuthenticated?: boolean;
+
+  /**
+   * The permission the caller must have.
+   */
+  permission?: Permission;
+
+  /**
+   * How often each caller can call the route.
+   *
+   * Requests are counted by the identifier of the caller, so this only applies to callers that
+   * are authenticated.
+   */
+  rateLimit?: RateLimit;
+
+  /**
+   * The schema of the path parameters, if any need validating beyond being sanitised.
+   */
+  params?: Joi.ObjectSchema;
+
+  /**
+   * The schema of the query string. If not provided, the query string is ignored.
+   */
+  query?: Joi.ObjectSchema;
+
+  /**
+   * The schema of the JSON body. If not provided, the body is not read.
+   */
+  body?: Joi.Schema;
+
+  /**
+   * Handle the request once it has been routed and validated.
+   *
+   * @param {RequestContext} context the context of the request
+   * @returns {Promise<Response>} the response
+   */
+  handler(context: RequestContext<B>): Promise<Response>;
+}
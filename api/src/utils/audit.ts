@@ -0,0 +1,71 @@
+/**
+ * Utils related to recording privileged actions in the audit log.
+ */
+
+import AuditEntry, {AuditAction, AuditChange} from "../../../data/core/Audit";
+import Repositories from "../types/repositories";
+
+/**
+ * Summarise the change to a single target, keeping only the fields that differ.
+ *
+ * Pass a projection of the target rather than the whole target to keep entries small.
+ *
+ * @param {string} targetId the ID of the target
+ * @param {Record<string, unknown> | undefined} before the fields before, if the target existed
+ * @param {Record<string, unknown> | undefined} after the fields after, if the target still exists
+ * @returns {AuditChange} the change
+ */
+export const summariseChange = (
+  targetId: string, before?: Record<string, unknown>, after?: Record<string, unknown>,
+): AuditChange => {
+  if (!before || !after) {
+    return {targetId: targetId, before: before, after: after};
+  }
+
+  const fields: string[] = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const changedFields: string[] = fields.filter(
+    (field: string) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+
+  return {
+    targetId: targetId,
+    before: Object.fromEntries(changedFields.map((field: string) => [field, before[field]])),
+    after: Object.fromEntries(changedFields.map((field: string) => [field, after[field]])),
+  };
+};
+
+/**
+ * @param {AuditChange} change a change
+ * @returns {boolean} whether the change actually changed anything
+ */
+export const isChanged = (change: AuditChange): boolean => {
+  return !change.before || !change.after || Object.keys(change.after).length > 0;
+};
+
+/**
+ * Record a privileged action in the audit log.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {string} actorId the Discord ID of the user that took the action
+ * @param {AuditAction} action the action
+ * @param {AuditChange[]} changes the changes to each target
+ * @param {string[] | undefined} targetIds the IDs of the targets, if not every changed target
+ */
+export const recordAudit = async (
+  repositories: Repositories,
+  actorId: string,
+  action: AuditAction,
+  changes: AuditChange[],
+  targetIds?: string[],
+): Promise<void> => {
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    actorId: actorId,
+    action: action,
+    targetIds: targetIds || changes.map((change: AuditChange) => change.targetId),
+    changes: changes,
+    timestamp: new Date().toISOString(),
+  };
+
+  await repositories.audit.append(entry);
+};
@@ -0,0 +1,67 @@
+/**
+ * Utils related to authorisation.
+ */
+
+import {OWNERS} from "../../../data/constants/setup";
+import RoleAssignment, {
+  Permission,
+  Role,
+  ROLE_PERMISSIONS,
+  RoleDetails
+} from "../../../data/core/Role";
+import {ROLES} from "../constants/kv";
+
+/**
+ * Retrieve all explicitly granted roles.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @returns {Promise<Record<string, RoleAssignment>>} a map of user IDs to role assignments
+ */
+export const retrieveRoles = async (kv: KVNamespace): Promise<Record<string, RoleAssignment>> => {
+  return JSON.parse(await kv.get(ROLES) || "{}");
+};
+
+/**
+ * Determine the role of a user.
+ *
+ * Owners listed in the setup always keep their role. Authenticated users without a granted role
+ * are artists.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string | undefined} identifier the identifier of the user, if authenticated
+ * @returns {Promise<RoleDetails | undefined>} the role, if the user is authenticated
+ */
+export const retrieveRole = async (
+  kv: KVNamespace, identifier?: string,
+): Promise<RoleDetails | undefined> => {
+  if (!identifier) {
+    return undefined;
+  }
+
+  let assignment: RoleAssignment = {discordId: identifier, role: Role.ARTIST};
+  if (OWNERS.includes(identifier)) {
+    assignment = {discordId: identifier, role: Role.OWNER};
+  } else {
+    assignment = (await retrieveRoles(kv))[identifier] || assignment;
+  }
+
+  return {...assignment, permissions: ROLE_PERMISSIONS[assignment.role] || []};
+};
+
+/**
+ * Check whether a user has a permission.
+ *
+ * Anonymous users never have any permissions.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string | undefined} identifier the identifier of the user, if authenticated
+ * @param {Permission} permission the permission to check
+ * @returns {Promise<boolean>} whether the user has the permission
+ */
+export const hasPermission = async (
+  kv: KVNamespace, identifier: string | undefined, permission: Permission,
+): Promise<boolean> => {
+  const role: RoleDetails | undefined = await retrieveRole(kv, identifier);
+
+  return role ? role.permissions.includes(permission) : false;
+};
@@ -0,0 +1,67 @@
+/**
+ * Utils related to comments on works.
+ */
+
+import Comment from "../../../data/core/Comment";
+
+/**
+ * @param {Comment} comment a comment
+ * @param {Record<string, Comment>} comments a map of IDs to every comment on the work
+ * @returns {boolean} whether the comment can be seen by everyone, which it can't if it or the
+ *   comment it replies to is hidden
+ */
+export const isCommentVisible = (comment: Comment, comments: Record<string, Comment>): boolean => {
+  return !comment.isHidden && !(comment.parentId && comments[comment.parentId]?.isHidden);
+};
+
+/**
+ * @param {Record<string, Comment>} comments a map of IDs to every comment on a work
+ * @returns {number} the number of comments everyone can see, not counting deleted ones
+ */
+export const countVisibleComments = (comments: Record<string, Comment>): number => {
+  return Object.values(comments).filter(
+    (comment: Comment) => !comment.isDeleted && isCommentVisible(comment, comments)
+  ).length;
+};
+
+/**
+ * Remove a comment from the comments on a work.
+ *
+ * A comment with replies is kept without its body so the replies still make sense. Once the last
+ * reply to such a comment is removed, the comment is removed too.
+ *
+ * @param {Record<string, Comment>} comments a map of IDs to every comment on the work
+ * @param {string} id the ID of the comment to remove
+ * @returns {Record<string, Comment>} the changed comments
+ */
+export const removeComment = (
+  comments: Record<string, Comment>, id: string,
+): Record<string, Comment> => {
+  const comment: Comment | undefined = comments[id];
+  if (!comment) {
+    return comments;
+  }
+
+  /**
+   * @param {string} parentId the ID of a comment
+   * @returns {boolean} whether any comment replies to it
+   */
+  const hasReplies = (parentId: string): boolean => Object.values(comments).some(
+    (candidate: Comment) => candidate.parentId === parentId
+  );
+
+  if (hasReplies(id)) {
+    comments[id] = {...comment, body: "", isDeleted: true, editedTimestamp: undefined};
+
+    return comments;
+  }
+
+  delete comments[id];
+
+  const parent: Comment | undefined = comment.parentId ? comments[comment.parentId] : undefined;
+  if (parent?.isDeleted && !hasReplies(parent.id)) {
+    delete comments[parent.id];
+  }
+
+  return comments;
+};
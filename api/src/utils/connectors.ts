@@ -1,6 +1,7 @@
 import {AwsClient} from "aws4fetch";
 import {load} from "cheerio";
 import {ValidationError} from "joi";
+import Work, {UrlItem} from "../../../data/core/Work";
 import {getUuid5String} from "../../../data/utils/uuid";
 import Environment from "../types/environment";
 
@@ -163,3 +164,76 @@ export const uploadScrapedThumbnail = async (
 
   return await uploadThumbnails(env, stagingUrl, identifier);
 };
+
+/**
+ * The parts of a version of a work that can refer to uploaded objects.
+ */
+type UploadedVersion = Pick<Work, "items" | "thumbnailUrl" | "smallThumbnailUrl">;
+
+/**
+ * Delete every object that versions of a work uploaded to the bucket, including thumbnails.
+ *
+ * Only URLs served from our CDN are deleted. Objects that are already gone are ignored, so this
+ * can safely be retried.
+ *
+ * @param {Environment} env the environment
+ * @param {UploadedVersion[]} versions the work and any of its revisions
+ * @returns {Promise<number>} the number of objects that couldn't be deleted
+ */
+export const deleteUploadedObjects = async (
+  env: Environment, versions: UploadedVersion[],
+): Promise<number> => {
+  const bucket: string = env.AWS_S3_BUCKET.split(".")[0];
+  const keys: Set<string> = new Set();
+
+  const addUrl = (rawUrl?: string) => {
+    // Placeholders are relative, so they resolve to paths that are never in the bucket.
+
+    const url: URL | undefined = rawUrl ? (
+      new URL(rawUrl, `https://${env.CDN_HOSTNAME}`)
+    ) : undefined;
+
+    const prefix = `/file/${bucket}/`;
+    if (url && url.hostname.includes(env.CDN_HOSTNAME) && url.pathname.startsWith(prefix)) {
+      keys.add(url.pathname.slice(prefix.length));
+    }
+  };
+
+  versions.forEach((version: UploadedVersion) => {
+    version.items.forEach((item: UrlItem) => {
+      addUrl(item.url);
+      addUrl(item.smallThumbnail);
+      addUrl(item.hiDpiThumbnail);
+
+      // Scraped meta images are staged under a name derived from the item before being cropped.
+
+      if (item.meta) {
+        const metaParts: string[] = item.meta.split(".");
+
+        keys.add(`ugc/${getUuid5String(item.url)}.${metaParts[metaParts.length - 1]}`);
+      }
+    });
+
+    addUrl(version.thumbnailUrl);
+    addUrl(version.smallThumbnailUrl);
+  });
+
+  const aws: AwsClient = new AwsClient({
+    "accessKeyId": env.AWS_ACCESS_KEY_ID,
+    "secretAccessKey": env.AWS_SECRET_ACCESS_KEY,
+    "region": env.AWS_DEFAULT_REGION,
+  });
+
+  let failures = 0;
+  for (const key of Array.from(keys)) {
+    const response: Response = await aws.fetch(
+      `https://${env.AWS_S3_BUCKET}/${key}`, {method: "DELETE", aws: {service: "s3"}},
+    );
+
+    if (!response.ok && response.status !== 404) {
+      failures++;
+    }
+  }
+
+  return failures;
+};
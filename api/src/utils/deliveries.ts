@@ -0,0 +1,201 @@
+/**
+ * Utils related to the outbox of Discord deliveries.
+ *
+ * Every change that needs to reach Discord is queued in the outbox before it is attempted, so a
+ * failed post is retried on a schedule instead of being dropped or failing the request.
+ */
+
+import {MAXIMUM_DELIVERY_ATTEMPTS} from "../../../data/constants/setup";
+import Delivery, {DeliveryKind} from "../../../data/core/Delivery";
+import Week from "../../../data/core/Week";
+import Work from "../../../data/core/Work";
+import DiscordClient from "../types/discord";
+import Environment from "../types/environment";
+import Repositories from "../types/repositories";
+import {postOrEditDiscordWeek, syncDiscordWork} from "./discord";
+import {placeWork} from "./kv";
+
+/**
+ * The delay in seconds before a failed delivery is attempted again. It doubles on each attempt.
+ */
+const BASE_DELIVERY_DELAY = 60;
+
+/**
+ * The longest delay in seconds between two attempts of a delivery.
+ */
+const MAXIMUM_DELIVERY_DELAY = 6 * 60 * 60;
+
+/**
+ * The longest error message kept on a delivery.
+ */
+const MAXIMUM_ERROR_LENGTH = 512;
+
+/**
+ * @param {Delivery} delivery a delivery
+ * @returns {boolean} whether the delivery has failed too often to be attempted on a schedule
+ */
+export const isStuck = (delivery: Delivery): boolean => {
+  return delivery.attempts >= MAXIMUM_DELIVERY_ATTEMPTS;
+};
+
+/**
+ * @param {Delivery} delivery a delivery
+ * @param {Date} now the current time
+ * @returns {boolean} whether the delivery should be attempted on a schedule now
+ */
+export const isDue = (delivery: Delivery, now: Date): boolean => {
+  return !isStuck(delivery) && new Date(delivery.nextAttemptTimestamp) <= now;
+};
+
+/**
+ * Queue a delivery, replacing any pending delivery with the same key.
+ *
+ * The caller is expected to attempt it straight away, so it isn't due on a schedule until a
+ * failed attempt would have been retried anyway.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {DeliveryKind} kind what the delivery posts
+ * @param {string} targetId the ID of the work, or the year and number of the week
+ * @returns {Promise<Delivery>} the delivery
+ */
+export const queueDelivery = async (
+  repositories: Repositories, kind: DeliveryKind, targetId: string,
+): Promise<Delivery> => {
+  const now: number = Date.now();
+
+  const delivery: Delivery = {
+    key: `${kind}/${targetId}`,
+    kind: kind,
+    targetId: targetId,
+    version: crypto.randomUUID(),
+    attempts: 0,
+    queuedTimestamp: new Date(now).toISOString(),
+    nextAttemptTimestamp: new Date(now + BASE_DELIVERY_DELAY * 1000).toISOString(),
+  };
+
+  await repositories.deliveries.put(delivery);
+
+  return delivery;
+};
+
+/**
+ * Bring the Discord post of a work or week in line with what is stored, saving its new ID.
+ *
+ * Works and weeks that no longer exist have nothing to post. Any failure is thrown.
+ *
+ * @param {Environment} env the workers environment
+ * @param {Repositories} repositories the repositories
+ * @param {DiscordClient} discord the Discord client
+ * @param {Delivery} delivery the delivery
+ */
+const deliver = async (
+  env: Environment, repositories: Repositories, discord: DiscordClient, delivery: Delivery,
+): Promise<void> => {
+  switch (delivery.kind) {
+    case DeliveryKind.WORK: {
+      const work: Work | undefined = await repositories.works.get(delivery.targetId);
+      if (!work) {
+        return;
+      }
+
+      const discordId: string | undefined = await syncDiscordWork(env, discord, work);
+
+      // The ID is saved as soon as it's known, as a post without it would be made again.
+
+      if (discordId !== work.discordId) {
+        const saved: Work | undefined = await repositories.works.update(
+          work.id, (current: Work) => ({...current, discordId: discordId}),
+        );
+
+        if (saved) {
+          await placeWork(repositories, saved);
+        }
+      }
+
+      return;
+    }
+    case DeliveryKind.WEEK: {
+      const [year, weekNumber] = delivery.targetId.split("/").map(
+        (part: string) => parseInt(part)
+      );
+
+      const week: Week | undefined = (await repositories.weeks.listBySeason(year))[weekNumber];
+      if (!week?.isPublished) {
+        return;
+      }
+
+      const discordId: string = await postOrEditDiscordWeek(discord, week, env.WEEKS_DISCORD_URL);
+
+      if (discordId !== week.discordId) {
+        await repositories.weeks.update(
+          year, weekNumber, (current: Week) => ({...current, discordId: discordId}),
+        );
+      }
+
+      return;
+    }
+  }
+};
+
+/**
+ * Attempt a delivery, removing it from the outbox if it succeeds or rescheduling it if not.
+ *
+ * The delay before the next attempt doubles with each failure. Nothing is thrown.
+ *
+ * @param {Environment} env the workers environment
+ * @param {Repositories} repositories the repositories
+ * @param {DiscordClient} discord the Discord client
+ * @param {Delivery} delivery the delivery
+ * @returns {Promise<boolean>} whether the delivery succeeded
+ */
+export const attemptDelivery = async (
+  env: Environment, repositories: Repositories, discord: DiscordClient, delivery: Delivery,
+): Promise<boolean> => {
+  try {
+    await deliver(env, repositories, discord, delivery);
+  } catch (error) {
+    console.error("Discord delivery %s failed: %s", delivery.key, error);
+
+    const attempts: number = delivery.attempts + 1;
+    const delay: number = Math.min(
+      BASE_DELIVERY_DELAY * 2 ** (attempts - 1), MAXIMUM_DELIVERY_DELAY,
+    );
+
+    const nextAttemptTimestamp: string = new Date(Date.now() + delay * 1000).toISOString();
+
+    await repositories.deliveries.update(delivery.key, delivery.version, (current: Delivery) => ({
+      ...current,
+      attempts: attempts,
+      nextAttemptTimestamp: nextAttemptTimestamp,
+      lastError: String(error).slice(0, MAXIMUM_ERROR_LENGTH),
+    }));
+
+    return false;
+  }
+
+  await repositories.deliveries.update(delivery.key, delivery.version, () => null);
+
+  return true;
+};
+
+/**
+ * Queue a delivery and attempt it straight away.
+ *
+ * @param {Environment} env the workers environment
+ * @param {Repositories} repositories the repositories
+ * @param {DiscordClient} discord the Discord client
+ * @param {DeliveryKind} kind what the delivery posts
+ * @param {string} targetId the ID of the work, or the year and number of the week
+ * @returns {Promise<boolean>} whether the delivery succeeded
+ */
+export const deliverNow = async (
+  env: Environment,
+  repositories: Repositories,
+  discord: DiscordClient,
+  kind: DeliveryKind,
+  targetId: string,
+): Promise<boolean> => {
+  return attemptDelivery(
+    env, repositories, discord, await queueDelivery(repositories, kind, targetId),
+  );
+};
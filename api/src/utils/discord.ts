@@ -1,80 +1,171 @@
-import {ACTIVE_YEAR, EDITORS} from "../../../data/constants/setup";
+import {OWNERS} from "../../../data/constants/setup";
 import Artist from "../../../data/core/Artist";
+import Digest, {DigestEntry} from "../../../data/core/Digest";
 import Week from "../../../data/core/Week";
 import Work from "../../../data/core/Work";
+import {getCreditedArtistIds, joinNames} from "../../../data/utils/credits";
+import {getDigestTitle} from "../../../data/utils/digest";
+import WebhookDiscordClient from "../clients/webhook";
 import {ARTISTS} from "../constants/kv";
+import DiscordClient, {DiscordMessage} from "../types/discord";
 import Environment from "../types/environment";
+import {ComponentType, ModerationAction} from "../types/interactions";
 
 /**
  * Utils about Discord API requests.
  */
 
+/**
+ * The colours of the embed of a work's Discord post, by the state of the work.
+ */
+enum WorkEmbedColour {
+  /**
+   * Green, for approved works.
+   */
+  APPROVED = 0x2F9E44,
+
+  /**
+   * Yellow, for works waiting in the moderation queue.
+   */
+  PENDING = 0xF0B429,
+
+  /**
+   * Red, for works sent back to their artists.
+   */
+  CHANGES_REQUESTED = 0xC92A2A,
+}
+
+/**
+ * The styles of the buttons on a work's Discord post.
+ */
+enum ButtonStyle {
+  /**
+   * A green button.
+   */
+  SUCCESS = 3,
+
+  /**
+   * A red button.
+   */
+  DANGER = 4,
+}
+
+/**
+ * The most embeds Discord allows on a single message.
+ */
+const MAXIMUM_EMBEDS_PER_MESSAGE = 10;
+
+/**
+ * Create the client that Discord messages are sent with.
+ *
+ * @returns {DiscordClient} the client
+ */
+export const createDiscordClient = (): DiscordClient => {
+  return new WebhookDiscordClient();
+};
+
 /**
  * Post or edit a Discord message related to the week's theme.
  *
+ * @param {DiscordClient} discord the Discord client
  * @param {Week} week the week
  * @param {string} webhookUrl the webhook URL
- * @returns {Promise<string | null>} if present, the Discord ID when creating a post
+ * @returns {Promise<string>} the Discord ID of the post
  */
 export const postOrEditDiscordWeek = async (
-  week: Week, webhookUrl: string,
-): Promise<string | null> => {
-  const content: Record<string, unknown> = {
+  discord: DiscordClient, week: Week, webhookUrl: string,
+): Promise<string> => {
+  const content: DiscordMessage = {
     "content": (
       `**Week ${week.week}: ${week.theme}**\n\n${week.information}\n\n`
       + "View the weeks: [here](https://refresh.fiveclawd.com/weeks)."
     ),
     "username": "cindry via Design Refresh",
     "allowed_mentions": {
-      "users": EDITORS,
+      "users": OWNERS,
     }
   };
 
-  // noinspection DuplicatedCode
-  let url: string;
-  let method: string;
+  // Send a message if the discord ID is not provided. Failures are thrown so they're retried.
 
   if (week.discordId) {
-    url = `${webhookUrl}/messages/${week.discordId}`;
-    method = "PATCH";
-  } else {
-    url = `${webhookUrl}?wait=true`;
-    method = "POST";
+    await discord.editMessage(webhookUrl, week.discordId, content);
+
+    return week.discordId;
   }
 
-  const response: Response = await fetch(url, {
-    method: method, headers: {"Content-Type": "application/json"}, body: JSON.stringify(content),
-  });
+  return discord.createMessage(webhookUrl, content);
+};
 
-  // Send a message if the discord ID is not provided. First post write will run twice. This
-  // call is not allowed to fail and will 500 otherwise.
+/**
+ * @param {DigestEntry} entry an entry of a digest
+ * @returns {Record<string, unknown>} the embed crediting the entry's work
+ */
+const buildDigestEmbed = (entry: DigestEntry): Record<string, unknown> => {
+  return {
+    "type": "rich",
+    "title": entry.title,
+    "url": entry.url,
+    "description": (
+      `By <@${entry.artistId}>${entry.medium ? ", medium: _" + entry.medium + "_." : "."}`
+    ),
+    "thumbnail": entry.thumbnailUrl ? {"url": entry.thumbnailUrl} : undefined,
+  };
+};
 
-  if (response.ok) {
-    return (await response.json<Record<string, string>>())["id"];
+/**
+ * Build the sequence of Discord messages that present a week's showcase digest.
+ *
+ * The first message introduces the week. Each work is credited in its own embed, split across
+ * as many messages as Discord needs.
+ *
+ * @param {Digest} digest the digest
+ * @returns {DiscordMessage[]} the messages, in the order they should be posted
+ */
+export const buildDiscordDigestMessages = (digest: Digest): DiscordMessage[] => {
+  const messages: DiscordMessage[] = [
+    {
+      "content": (
+        `**${getDigestTitle(digest)} Showcase**\n\n`
+        + `Here are the ${digest.entries.length} approved works from this week!`
+      ),
+      "username": "cindry via Design Refresh",
+    },
+  ];
+
+  for (let i = 0; i < digest.entries.length; i += MAXIMUM_EMBEDS_PER_MESSAGE) {
+    messages.push({
+      "username": "cindry via Design Refresh",
+      "embeds": digest.entries.slice(i, i + MAXIMUM_EMBEDS_PER_MESSAGE).map(buildDigestEmbed),
+    });
   }
 
-  throw new Error(await response.text());
+  // The credits mention each artist, but the showcase shouldn't ping every one of them.
+
+  return messages.map(
+    (message: DiscordMessage) => ({...message, "allowed_mentions": {"parse": []}})
+  );
 };
 
 /**
- * Post or edit a Discord's submission post.
+ * Build the Discord message of a work's submission post.
  *
- * Note that if works are deleted, they need to be manually removed from the Discord.
+ * The colour and footer of the embed show whether the work is approved. Until it is, the post
+ * has buttons for staff to approve it or request changes. The buttons only work if the webhook
+ * belongs to the same application that receives interactions.
  *
  * @param {Environment} env the environment
  * @param {Work} work the work itself
- * @returns {Promise<string | null>} the ID for the work, if successful
+ * @returns {Promise<DiscordMessage>} the message
  */
-export const postOrEditDiscordWork = async (
-  env: Environment, work: Work
-): Promise<string | null> => {
+const buildDiscordWorkMessage = async (env: Environment, work: Work): Promise<DiscordMessage> => {
   // Retrieve artist name and icon. Default to backend-retrieved but otherwise use the
   // information on the Work. The information on the Work will usually make up the Discord post
   // as well, and if the user changes their name, that information won't propagate unless they
   // deliberately edit their post first.
 
   const artists: Record<string, Artist> = JSON.parse(
-    (await env.REFRESH_KV.get(`${ARTISTS}/${ACTIVE_YEAR}`)) || "{}"
+    (await env.REFRESH_KV.get(`${ARTISTS}/${work.year}`)) || "{}"
   );
 
   const postingArtist: Artist | undefined | null = artists[work.artistId];
@@ -87,9 +178,12 @@ export const postOrEditDiscordWork = async (
     postingArtist?.thumbnailUrl || work.firstSeenArtistInfo?.thumbnailUrl
   );
 
-  // Determine content.
+  // Determine content. Every artist credited on the work is mentioned.
+
+  const artistIds: string[] = getCreditedArtistIds(work);
+  const mentions: string = joinNames(artistIds.map((id: string) => `<@${id}>`));
 
-  let contentText = `New work by <@${work.artistId}>!\n\n**Title:** ${work.title}`;
+  let contentText = `New work by ${mentions}!\n\n**Title:** ${work.title}`;
 
   if (work.medium) {
     contentText += `\n**Medium:** ${work.medium}`;
@@ -99,19 +193,52 @@ export const postOrEditDiscordWork = async (
     contentText += `\n**Description:**\n\n${work.description}`;
   }
 
-  const content: Record<string, unknown> = {
+  // Show whether the work is approved in the embed, which is edited as the work changes.
+
+  let status = "Pending approval";
+  let colour: WorkEmbedColour = WorkEmbedColour.PENDING;
+
+  if (work.isApproved) {
+    status = "Approved";
+    colour = WorkEmbedColour.APPROVED;
+  } else if (work.changeRequest) {
+    status = "Changes requested";
+    colour = WorkEmbedColour.CHANGES_REQUESTED;
+  }
+
+  const weeks: string = work.weekNumbers.map(weekNumber => `Week ${weekNumber}`).join(", ");
+
+  // Editing with no components removes the buttons once they're no longer needed.
+
+  const buttons: Record<string, unknown>[] = work.isApproved ? [] : [
+    {
+      "type": ComponentType.BUTTON,
+      "style": ButtonStyle.SUCCESS,
+      "label": "Approve",
+      "custom_id": `${ModerationAction.APPROVE}/${work.id}`,
+    },
+    {
+      "type": ComponentType.BUTTON,
+      "style": ButtonStyle.DANGER,
+      "label": "Request Changes",
+      "custom_id": `${ModerationAction.REJECT}/${work.id}`,
+    },
+  ];
+
+  return {
     "content": contentText,
     "username": `${artistName} via Design Refresh`,
     "allowed_mentions": {
-      "users": [work.artistId],
+      "users": artistIds,
     },
     "embeds": [
       {
         "type": "rich",
         "title": work.title,
+        "color": colour,
         "url": `${env.ALLOWED_ORIGIN}/works/${work.id}`,
         "description": (
-          `A piece by <@${work.artistId}>` +
+          `A piece by ${mentions}` +
           `${work.medium ? ", medium: _" + work.medium + "_." : "."}`
         ),
         "image": {
@@ -124,41 +251,61 @@ export const postOrEditDiscordWork = async (
           "url": `https://refresh.fiveclawd.com/artists/${encodeURIComponent(artistName)}`,
         },
         "footer": {
-          "text": work.weekNumbers.map(weekNumber => `Week ${weekNumber}`).join(", "),
+          "text": `${weeks} | ${status}`,
         },
       }
-    ]
+    ],
+    "components": buttons.length > 0 ? [
+      {"type": ComponentType.ACTION_ROW, "components": buttons},
+    ] : [],
   };
+};
 
-  // Determine URL and send to webhook.
+/**
+ * Post or edit a Discord's submission post.
+ *
+ * @param {Environment} env the environment
+ * @param {DiscordClient} discord the Discord client
+ * @param {Work} work the work itself
+ * @returns {Promise<string>} the Discord ID of the post
+ */
+export const postOrEditDiscordWork = async (
+  env: Environment, discord: DiscordClient, work: Work,
+): Promise<string> => {
+  const message: DiscordMessage = await buildDiscordWorkMessage(env, work);
 
-  let url: string;
-  let method: string;
+  // Send a message if the discord ID is not provided. Failures are thrown so they're retried.
 
   if (work.discordId) {
-    url = `${env.WORKS_DISCORD_URL}/messages/${work.discordId}`;
-    method = "PATCH";
-  } else {
-    url = `${env.WORKS_DISCORD_URL}?wait=true`;
-    method = "POST";
+    await discord.editMessage(env.WORKS_DISCORD_URL, work.discordId, message);
+
+    return work.discordId;
   }
 
-  const response: Response = await fetch(url, {
-    method: method,
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(content),
-  });
+  return discord.createMessage(env.WORKS_DISCORD_URL, message);
+};
 
-  // Send a message if the discord ID is not provided. Can fail. First post write will run twice.
+/**
+ * Bring a work's Discord post in line with the state of the work.
+ *
+ * A deleted work has its post deleted. A work without a post, e.g., one that was restored, is
+ * posted again. Any other post is edited to show whether the work is approved.
+ *
+ * @param {Environment} env the environment
+ * @param {DiscordClient} discord the Discord client
+ * @param {Work} work the work
+ * @returns {Promise<string | undefined>} the ID of the post the work should now have, if any
+ */
+export const syncDiscordWork = async (
+  env: Environment, discord: DiscordClient, work: Work,
+): Promise<string | undefined> => {
+  if (!work.isSoftDeleted) {
+    return postOrEditDiscordWork(env, discord, work);
+  }
 
-  let discordId: string | null = null;
-  try {
-    discordId = (await response.json<Record<string, string>>())["id"];
-  } catch {
-    console.error("Discord ID was not saved for work ID: %s", work.id);
+  if (work.discordId) {
+    await discord.deleteMessage(env.WORKS_DISCORD_URL, work.discordId);
   }
 
-  return discordId;
+  return undefined;
 };
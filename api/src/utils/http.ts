@@ -13,6 +13,7 @@ export const generateCorsHeaders = (origin?: string) => {
     "Access-Control-Allow-Origin": origin || "https://refresh.fiveclawd.com",
     "Access-Control-Allow-Methods": "GET, PUT, POST, DELETE, OPTIONS",
     "Access-Control-Allow-Headers": "*",
+    "Access-Control-Expose-Headers": "Retry-After",
   });
 };
 
@@ -64,6 +65,22 @@ export const createBadRequestResponse = async (
   ), origin, 400);
 };
 
+/**
+ * Create a 401 response.
+ *
+ * @param {string} origin the allowed origin for the CORS headers
+ * @returns {Promise<Response>} a 401 response
+ */
+export const createUnauthorizedResponse = async (
+  origin?: string
+): Promise<Response> => {
+  return createGenericResponse(JSON.stringify({
+    "message": "Unauthorized",
+    "details": null,
+    "_original": [],
+  }), origin, 401);
+};
+
 /**
  * Create a 403 response.
  *
@@ -79,3 +96,62 @@ export const createForbiddenResponse = async (
     "_original": [],
   }), origin, 403);
 };
+
+/**
+ * Create a 405 response.
+ *
+ * @param {string[]} methods the methods that are allowed on the path
+ * @param {string} origin the allowed origin for the CORS headers
+ * @returns {Promise<Response>} a 405 response with the allowed methods
+ */
+export const createMethodNotAllowedResponse = async (
+  methods: string[], origin?: string
+): Promise<Response> => {
+  const response: Response = createGenericResponse(JSON.stringify({
+    "message": "Method Not Allowed",
+    "details": null,
+    "_original": [],
+  }), origin, 405);
+
+  response.headers.set("Allow", methods.join(", "));
+
+  return response;
+};
+
+/**
+ * Create a 502 response, for when a service the backend relies on refuses a request.
+ *
+ * @param {string} message what couldn't be done
+ * @param {string} origin the allowed origin for the CORS headers
+ * @returns {Promise<Response>} a 502 response
+ */
+export const createBadGatewayResponse = async (
+  message: string, origin?: string
+): Promise<Response> => {
+  return createGenericResponse(JSON.stringify({
+    "message": message,
+    "details": null,
+    "_original": [],
+  }), origin, 502);
+};
+
+/**
+ * Create a 429 response.
+ *
+ * @param {number} retryAfter the number of seconds until the caller can try again
+ * @param {string} origin the allowed origin for the CORS headers
+ * @returns {Promise<Response>} a 429 response with when to try again
+ */
+export const createTooManyRequestsResponse = async (
+  retryAfter: number, origin?: string
+): Promise<Response> => {
+  const response: Response = createGenericResponse(JSON.stringify({
+    "message": "Too Many Requests",
+    "details": null,
+    "_original": [],
+  }), origin, 429);
+
+  response.headers.set("Retry-After", retryAfter.toString());
+
+  return response;
+};
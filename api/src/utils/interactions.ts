@@ -0,0 +1,171 @@
+/**
+ * Utils related to Discord interactions.
+ */
+
+import DiscordClient from "../types/discord";
+import Interaction, {
+  InteractionComponent,
+  InteractionResponseType,
+  ModerationAction
+} from "../types/interactions";
+import {createJsonResponse} from "./http";
+
+/**
+ * The flag on a message that makes it visible only to the user who interacted.
+ */
+const EPHEMERAL_FLAG = 64;
+
+/**
+ * The base URL of Discord's API, which interactions are followed up through.
+ */
+const DISCORD_API_URL = "https://discord.com/api/v10";
+
+/**
+ * @param {string} hex a string of hexadecimal digits
+ * @returns {Uint8Array} the bytes
+ */
+const decodeHex = (hex: string): Uint8Array => {
+  return new Uint8Array((hex.match(/.{1,2}/g) || []).map((byte: string) => parseInt(byte, 16)));
+};
+
+/**
+ * Verify that an interaction was signed by Discord.
+ *
+ * Discord signs the timestamp followed by the raw body with the application's Ed25519 key.
+ *
+ * @param {string} publicKey the public key of the application in hexadecimal
+ * @param {string | null} signature the `X-Signature-Ed25519` header
+ * @param {string | null} timestamp the `X-Signature-Timestamp` header
+ * @param {string} body the raw body of the request
+ * @returns {Promise<boolean>} whether the signature is valid
+ */
+export const verifyInteraction = async (
+  publicKey: string, signature: string | null, timestamp: string | null, body: string,
+): Promise<boolean> => {
+  if (!signature || !timestamp || !/^[0-9a-f]+$/i.test(signature)) {
+    return false;
+  }
+
+  // Workers name the algorithm after Node's implementation.
+
+  const algorithm = {name: "NODE-ED25519", namedCurve: "NODE-ED25519"};
+
+  try {
+    const key: CryptoKey = await crypto.subtle.importKey(
+      "raw", decodeHex(publicKey), algorithm, false, ["verify"],
+    );
+
+    return await crypto.subtle.verify(
+      algorithm.name, key, decodeHex(signature), new TextEncoder().encode(timestamp + body),
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * @param {Interaction} interaction an interaction
+ * @returns {string | undefined} the Discord ID of the user who interacted
+ */
+export const getInteractionUserId = (interaction: Interaction): string | undefined => {
+  return interaction.member?.user.id || interaction.user?.id;
+};
+
+/**
+ * Read the action and work ID of a custom ID of the form `<action>/<id>`.
+ *
+ * @param {string | undefined} customId the custom ID
+ * @returns {[ModerationAction, string] | undefined} the action and work ID, if well-formed
+ */
+export const parseCustomId = (customId?: string): [ModerationAction, string] | undefined => {
+  const [action, id] = (customId || "").split("/");
+
+  if (!id || !Object.values(ModerationAction).includes(action as ModerationAction)) {
+    return undefined;
+  }
+
+  return [action as ModerationAction, id];
+};
+
+/**
+ * Find the value typed into a text input of a submitted modal.
+ *
+ * @param {InteractionComponent[]} components the components of the modal
+ * @param {string} customId the custom ID of the text input
+ * @returns {string | undefined} the value, if the text input was found
+ */
+export const findInputValue = (
+  components: InteractionComponent[], customId: string,
+): string | undefined => {
+  for (const component of components) {
+    if (component.custom_id === customId) {
+      return component.value;
+    }
+
+    const value: string | undefined = findInputValue(component.components || [], customId);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Reply to an interaction with a message only the user who interacted can see.
+ *
+ * @param {string} content the content of the message
+ * @returns {Promise<Response>} the response
+ */
+export const createEphemeralReply = async (content: string): Promise<Response> => {
+  return createJsonResponse(JSON.stringify({
+    type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+    data: {content: content, flags: EPHEMERAL_FLAG},
+  }));
+};
+
+/**
+ * Acknowledge an interaction before handling it, as Discord only waits 3 seconds for a reply.
+ *
+ * Interactions from a component on a message update that message later, so nothing is shown
+ * meanwhile. Other interactions show that the app is thinking until the reply is edited in.
+ *
+ * @param {Interaction} interaction the interaction
+ * @returns {Promise<Response>} the response
+ */
+export const createDeferredReply = async (interaction: Interaction): Promise<Response> => {
+  if (interaction.message) {
+    return createJsonResponse(JSON.stringify({
+      type: InteractionResponseType.DEFERRED_UPDATE_MESSAGE,
+    }));
+  }
+
+  return createJsonResponse(JSON.stringify({
+    type: InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE,
+    data: {flags: EPHEMERAL_FLAG},
+  }));
+};
+
+/**
+ * Reply to a deferred interaction with a message only the user who interacted can see.
+ *
+ * The reply the app was thinking about is edited in. Interactions from a component on a message
+ * are followed up instead, as editing their reply would edit the message itself.
+ *
+ * @param {DiscordClient} discord the client to send Discord messages with
+ * @param {Interaction} interaction the interaction
+ * @param {string} content the content of the message
+ */
+export const completeDeferredReply = async (
+  discord: DiscordClient, interaction: Interaction, content: string,
+): Promise<void> => {
+  const webhookUrl: string = (
+    `${DISCORD_API_URL}/webhooks/${interaction.application_id}/${interaction.token}`
+  );
+
+  if (interaction.message) {
+    await discord.createMessage(webhookUrl, {content: content, flags: EPHEMERAL_FLAG});
+  } else {
+    await discord.editMessage(webhookUrl, "@original", {content: content});
+  }
+};
@@ -2,123 +2,130 @@
  * Utils related to key-value store operations.
  */
 
-import {ACTIVE_YEAR} from "../../../data/constants/setup";
-import Artist from "../../../data/core/Artist";
+import Season from "../../../data/core/Season";
 import Work from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {getActiveSeason} from "../../../data/utils/seasons";
+import {SEASONS} from "../constants/kv";
 import {
-  ARTISTS,
-  WORKS_WITH_ARTIST_INDEX,
-  WORKS_WITH_ID_INDEX,
-  WORKS_WITH_WEEK_INDEX,
-  WORKS_WITHOUT_INDEX
-} from "../constants/kv";
+  KvArtistsRepository,
+  KvAuditRepository,
+  KvCommentsRepository,
+  KvDeliveriesRepository,
+  KvReactionsRepository,
+  KvRevisionsRepository,
+  KvUsernamesRepository,
+  KvWeeksRepository,
+  KvWorksRepository
+} from "../repositories/kv";
+import {AggregateStore} from "../storage/aggregates";
+import DurableAggregateStore, {DurableRateLimitStore} from "../storage/durable";
+import {RateLimitStore} from "../storage/rate-limits";
+import Environment from "../types/environment";
+import Repositories from "../types/repositories";
+import {refreshArtistStats} from "./stats";
 
 /**
- * Increment an artist's work count.
+ * Retrieve all stored seasons.
  *
  * @param {KVNamespace} kv the main key-value store
- * @param {Work} work the work with the artist and first artist details, if required
+ * @returns {Promise<Record<string, Season>>} a map of years to seasons
  */
-const incrementArtistWorkCount = async (kv: KVNamespace, work: Work) => {
-  const rawArtist: string | null = await kv.get(`${ARTISTS}/${work.artistId}`);
-  const artist: Artist | undefined = (
-    rawArtist ? JSON.parse(rawArtist) : undefined
-  ) || work.firstSeenArtistInfo;
-
-  if (artist) {
-    if (artist.worksCount) {
-      artist.worksCount++;
-    } else {
-      artist.worksCount = 1;
-    }
+export const retrieveSeasons = async (kv: KVNamespace): Promise<Record<string, Season>> => {
+  return JSON.parse(await kv.get(SEASONS) || "{}");
+};
 
-    // As usual, this might have race conditions.
+/**
+ * Retrieve the active season, falling back to the default season if none is stored.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @returns {Promise<Season>} the active season
+ */
+export const retrieveActiveSeason = async (kv: KVNamespace): Promise<Season> => {
+  return getActiveSeason(await retrieveSeasons(kv));
+};
 
-    const aggregateArtists: Record<string, Artist> = JSON.parse(
-      await kv.get(`${ARTISTS}/${ACTIVE_YEAR}`) || "{}"
-    );
+/**
+ * Determine the year requested by the caller, defaulting to the active season's year.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string | null} rawYear the sanitised year parameter, if provided
+ * @returns {Promise<number>} the year
+ */
+export const determineYear = async (kv: KVNamespace, rawYear: string | null): Promise<number> => {
+  const year: number = rawYear ? parseInt(rawYear) : NaN;
 
-    aggregateArtists[work.artistId] = artist;
+  return isNaN(year) ? (await retrieveActiveSeason(kv)).year : year;
+};
 
-    await kv.put(`${ARTISTS}/${ACTIVE_YEAR}`, JSON.stringify(aggregateArtists));
+/**
+ * Create the store that every shared aggregate is written through.
+ *
+ * @param {Environment} env the workers environment
+ * @returns {AggregateStore} the store
+ */
+export const createAggregateStore = (env: Environment): AggregateStore => {
+  return new DurableAggregateStore(env.AGGREGATES);
+};
 
-    // Also put it in a guaranteed consistent call.
+/**
+ * Create the store that rate limits are counted in.
+ *
+ * @param {Environment} env the workers environment
+ * @returns {RateLimitStore} the store
+ */
+export const createRateLimitStore = (env: Environment): RateLimitStore => {
+  return new DurableRateLimitStore(env.RATE_LIMITS);
+};
 
-    await kv.put(`${ARTISTS}/${work.artistId}`, JSON.stringify(artist));
-  }
+/**
+ * Create the repositories backed by KV.
+ *
+ * @param {Environment} env the workers environment
+ * @returns {Repositories} the repositories
+ */
+export const createRepositories = (env: Environment): Repositories => {
+  const store: AggregateStore = createAggregateStore(env);
+
+  return {
+    works: new KvWorksRepository(env.REFRESH_KV, store),
+    artists: new KvArtistsRepository(env.REFRESH_KV, store),
+    usernames: new KvUsernamesRepository(env.REFRESH_KV, store),
+    weeks: new KvWeeksRepository(env.REFRESH_KV, store),
+    audit: new KvAuditRepository(env.REFRESH_KV),
+    revisions: new KvRevisionsRepository(env.REFRESH_KV),
+    reactions: new KvReactionsRepository(env.REFRESH_KV, store),
+    comments: new KvCommentsRepository(env.REFRESH_KV, store),
+    deliveries: new KvDeliveriesRepository(env.REFRESH_KV, store),
+  };
 };
 
 /**
  * Place a {@link Work} at the correct places.
  *
- * It's likely the aggregates booleans won't be used, but they're there for the time being.
+ * The work and every index of it are written, including the index of each of its tags, then the
+ * statistics of every artist credited on it are recomputed, which creates its own artist from
+ * the work if they don't exist yet. The work is taken off the indexes of the previous version of
+ * it, and artists who were credited on that version are recomputed too.
  *
- * @param {KVNamespace} kv the main key-value store
+ * @param {Repositories} repositories the repositories
  * @param {Work} work the {@link Work} to place
- * @param {boolean} isNew whether this is a new work (read: not an update)
- * @param {boolean} isSkipArtist whether to skip writing to artist aggregates
- * @param {boolean} isSkipWeek whether to skip writing to week aggregates
- * @param {boolean} isSkipList whether to skip writing the overarching list of all works
+ * @param {Work | undefined} previous the work as it was stored before, if it's being replaced
  */
 export const placeWork = async (
-  kv: KVNamespace,
-  work: Work,
-  isNew: boolean,
-  isSkipArtist?: boolean,
-  isSkipWeek?: boolean,
-  isSkipList?: boolean,
+  repositories: Repositories, work: Work, previous?: Work,
 ): Promise<void> => {
-  // Update the ID-based map. This is agnostic to the setter above.
+  await repositories.works.put(work, previous);
 
-  await kv.put(`${WORKS_WITH_ID_INDEX}/${work.id}`, JSON.stringify(work));
-
-  // Set the artist-based map.
-
-  if (!isSkipArtist) {
-    const worksByArtist: Record<string, Work> = JSON.parse(
-      await kv.get(`${WORKS_WITH_ARTIST_INDEX}/${work.artistId}`) || "{}"
-    );
-
-    worksByArtist[work.id] = work;
-
-    await kv.put(
-      `${WORKS_WITH_ARTIST_INDEX}/${work.artistId}`, JSON.stringify(worksByArtist)
-    );
-  }
+  await refreshArtistStats(repositories, work.artistId, work.year, work.firstSeenArtistInfo);
 
-  // Set the week-based map.
-
-  if (!isSkipWeek) {
-    for (const weekNumber of work.weekNumbers) {
-      const weekIndex: Record<string, Work> = JSON.parse(
-        await kv.get(
-          `${WORKS_WITH_WEEK_INDEX}/${work.year}/${weekNumber}`
-        ) || "{}"
-      );
-
-      weekIndex[work.id] = work;
-
-      await kv.put(
-        `${WORKS_WITH_WEEK_INDEX}/${work.year}/${weekNumber}`, JSON.stringify(weekIndex),
-      );
-    }
-  }
-
-  // Set the simple list of works.
-
-  if (!isSkipList) {
-    const worksWithoutIndex: Work[] = JSON.parse(
-      await kv.get(`${WORKS_WITHOUT_INDEX}`) || "[]"
-    );
-
-    worksWithoutIndex.push(work);
-
-    await kv.put(WORKS_WITHOUT_INDEX, JSON.stringify(worksWithoutIndex));
-  }
+  const artistIds: Set<string> = new Set([
+    ...getCreditedArtistIds(work), ...(previous ? getCreditedArtistIds(previous) : []),
+  ]);
 
-  // Now that the work is placed, increment the artist.
+  artistIds.delete(work.artistId);
 
-  if (isNew) {
-    await incrementArtistWorkCount(kv, work);
+  for (const artistId of Array.from(artistIds)) {
+    await refreshArtistStats(repositories, artistId, work.year);
   }
 };
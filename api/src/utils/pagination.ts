@@ -0,0 +1,104 @@
+/**
+ * Utils related to cursor-based pagination.
+ */
+
+import Page, {PageOrder} from "../../../data/core/Page";
+
+/**
+ * The position of an item in a listing: its sort value then a unique tiebreaker.
+ */
+export type PageKey = [string, string];
+
+/**
+ * Encode the position of an item in a listing into an opaque, URL-safe cursor.
+ *
+ * @param {PageKey} key the key of the last item in a page
+ * @returns {string} the cursor
+ */
+export const encodeCursor = (key: PageKey): string => {
+  return btoa(JSON.stringify(key)).replaceAll("+", "-").replaceAll("/", "_").replaceAll("=", "");
+};
+
+/**
+ * Decode a cursor created with {@link encodeCursor}.
+ *
+ * @param {string} cursor the cursor
+ * @returns {PageKey | undefined} the key, if the cursor is valid
+ */
+export const decodeCursor = (cursor: string): PageKey | undefined => {
+  try {
+    const key: unknown = JSON.parse(atob(cursor.replaceAll("-", "+").replaceAll("_", "/")));
+
+    if (
+      Array.isArray(key)
+      && key.length === 2
+      && key.every((part: unknown) => typeof part === "string")
+    ) {
+      return [key[0], key[1]];
+    }
+  } catch {
+    // Fall through as the cursor has been tampered with.
+  }
+
+  return undefined;
+};
+
+/**
+ * Compare two keys such that sorting by the result gives ascending order.
+ *
+ * @param {PageKey} a the first key
+ * @param {PageKey} b the second key
+ * @returns {number} the comparison
+ */
+const compareKeys = (a: PageKey, b: PageKey): number => {
+  if (a[0] !== b[0]) {
+    return a[0] < b[0] ? -1 : 1;
+  }
+
+  if (a[1] !== b[1]) {
+    return a[1] < b[1] ? -1 : 1;
+  }
+
+  return 0;
+};
+
+/**
+ * Sort items and return the page that comes after the cursor.
+ *
+ * The order is stable as the key always has a unique tiebreaker, so items added between page
+ * requests never cause an item to be skipped or repeated unless they sort before the cursor.
+ *
+ * @param {T[]} items every item in the listing, in any order
+ * @param {Function} getKey a function returning the key of an item
+ * @param {number} limit the maximum number of items in the page
+ * @param {PageOrder} order the order of the listing
+ * @param {PageKey | undefined} after the key from the cursor, if not the first page
+ * @returns {Page<T>} the page
+ */
+export const paginate = <T>(
+  items: T[],
+  getKey: (item: T) => PageKey,
+  limit: number,
+  order: PageOrder,
+  after?: PageKey,
+): Page<T> => {
+  const direction: number = order === PageOrder.ASCENDING ? 1 : -1;
+
+  const sorted: T[] = [...items].sort(
+    (a: T, b: T) => direction * compareKeys(getKey(a), getKey(b))
+  );
+
+  const remaining: T[] = after ? sorted.filter(
+    (item: T) => direction * compareKeys(getKey(item), after) > 0
+  ) : sorted;
+
+  const pageItems: T[] = remaining.slice(0, limit);
+  const isLastPage: boolean = remaining.length <= limit;
+
+  return {
+    items: pageItems,
+    nextCursor: isLastPage || pageItems.length === 0 ? null : encodeCursor(
+      getKey(pageItems[pageItems.length - 1])
+    ),
+  };
+};
@@ -0,0 +1,270 @@
+/**
+ * Utils related to checking and rebuilding the derived indexes of works.
+ *
+ * Works stored by ID are the source of truth. Every other index is derived from them, so any
+ * difference is a discrepancy in the derived index.
+ */
+
+import Artist, {ArtistStats} from "../../../data/core/Artist";
+import {ReactionCounts} from "../../../data/core/Reaction";
+import UsernameClaim from "../../../data/core/Username";
+import Work from "../../../data/core/Work";
+import {getCreditedArtistIds} from "../../../data/utils/credits";
+import {countReactions, hasReactionCounts} from "../../../data/utils/reactions";
+import ReindexReport, {Discrepancy, DiscrepancyKind, WorksIndexes} from "../types/reindex";
+import Repositories from "../types/repositories";
+import {countVisibleComments} from "./comments";
+import {computeArtistStats, refreshArtistStats} from "./stats";
+
+/**
+ * The counts of a work nobody has reacted to.
+ */
+const EMPTY_REACTION_COUNTS: ReactionCounts = {reactionCounts: {}, favouritesCount: 0};
+
+/**
+ * Compare the works in one index against the source of truth.
+ *
+ * @param {string} index a description of the index
+ * @param {Work[]} entries the works in the index
+ * @param {Record<string, Work>} sources a map of IDs to every work stored by ID
+ * @param {Function} isMember a function returning whether a stored work belongs in the index
+ * @returns {Discrepancy[]} the discrepancies
+ */
+const checkIndex = (
+  index: string,
+  entries: Work[],
+  sources: Record<string, Work>,
+  isMember: (work: Work) => boolean,
+): Discrepancy[] => {
+  const discrepancies: Discrepancy[] = [];
+
+  entries.forEach((entry: Work) => {
+    const source: Work | undefined = sources[entry.id];
+
+    if (!source) {
+      discrepancies.push({kind: DiscrepancyKind.ORPHANED, index: index, id: entry.id});
+    } else if (!isMember(source)) {
+      discrepancies.push({kind: DiscrepancyKind.MISPLACED, index: index, id: entry.id});
+    } else if (JSON.stringify(entry) !== JSON.stringify(source)) {
+      discrepancies.push({kind: DiscrepancyKind.STALE, index: index, id: entry.id});
+    }
+  });
+
+  const entryIds: Set<string> = new Set(entries.map((entry: Work) => entry.id));
+
+  Object.values(sources).filter(
+    (source: Work) => isMember(source) && !entryIds.has(source.id)
+  ).forEach((source: Work) => {
+    discrepancies.push({kind: DiscrepancyKind.MISSING, index: index, id: source.id});
+  });
+
+  return discrepancies;
+};
+
+/**
+ * Find every difference between the derived indexes and the works stored by ID.
+ *
+ * @param {Work[]} works every work stored by ID
+ * @param {WorksIndexes} indexes the derived indexes as stored
+ * @param {Record<string, Artist>} artists a map of IDs to the artists to check the stats of
+ * @param {Record<string, ArtistStats>} stats a map of artist IDs to the stats derived for them
+ * @returns {Discrepancy[]} the discrepancies
+ */
+export const checkIndexes = (
+  works: Work[],
+  indexes: WorksIndexes,
+  artists: Record<string, Artist>,
+  stats: Record<string, ArtistStats>,
+): Discrepancy[] => {
+  const sources: Record<string, Work> = Object.fromEntries(
+    works.map((work: Work) => [work.id, work])
+  );
+
+  // Indexes that don't exist at all are checked as if they were empty.
+
+  const artistIds: Set<string> = new Set([
+    ...Object.keys(indexes.byArtist), ...works.flatMap(getCreditedArtistIds),
+  ]);
+
+  const weekKeys: Set<string> = new Set([
+    ...Object.keys(indexes.byWeek),
+    ...works.flatMap((work: Work) => work.weekNumbers.map(
+      (weekNumber: number) => `${work.year}/${weekNumber}`
+    )),
+  ]);
+
+  const tags: Set<string> = new Set([
+    ...Object.keys(indexes.byTag), ...works.flatMap((work: Work) => work.tags || []),
+  ]);
+
+  const discrepancies: Discrepancy[] = [
+    ...checkIndex("all", indexes.all, sources, () => true),
+  ];
+
+  artistIds.forEach((artistId: string) => {
+    discrepancies.push(...checkIndex(
+      `artist ${artistId}`,
+      indexes.byArtist[artistId] || [],
+      sources,
+      (work: Work) => getCreditedArtistIds(work).includes(artistId),
+    ));
+  });
+
+  weekKeys.forEach((weekKey: string) => {
+    const [year, week] = weekKey.split("/").map((part: string) => parseInt(part));
+
+    discrepancies.push(...checkIndex(
+      `week ${weekKey}`,
+      indexes.byWeek[weekKey] || [],
+      sources,
+      (work: Work) => work.year === year && work.weekNumbers.includes(week),
+    ));
+  });
+
+  tags.forEach((tag: string) => {
+    discrepancies.push(...checkIndex(
+      `tag ${tag}`,
+      indexes.byTag[tag] || [],
+      sources,
+      (work: Work) => !!work.tags?.includes(tag),
+    ));
+  });
+
+  Object.values(artists).forEach((artist: Artist) => {
+    if (JSON.stringify(artist.stats) !== JSON.stringify(stats[artist.discordId])) {
+      discrepancies.push({
+        kind: DiscrepancyKind.STATS, index: `artist ${artist.discordId}`, id: artist.discordId,
+      });
+    }
+  });
+
+  return discrepancies;
+};
+
+/**
+ * Find every work whose counts differ from what the reactions and comments stored for it say.
+ *
+ * @param {Work[]} works every work stored by ID
+ * @param {Record<string, ReactionCounts>} counts a map of work IDs to their counted reactions
+ * @param {Record<string, number>} commentsCounts a map of work IDs to their visible comments
+ * @returns {Discrepancy[]} the discrepancies
+ */
+export const checkCounts = (
+  works: Work[], counts: Record<string, ReactionCounts>, commentsCounts: Record<string, number>,
+): Discrepancy[] => {
+  return works.filter(
+    (work: Work) => !hasReactionCounts(work, counts[work.id] || EMPTY_REACTION_COUNTS) || (
+      (work.commentsCount || 0) !== (commentsCounts[work.id] || 0)
+    )
+  ).map((work: Work) => ({kind: DiscrepancyKind.COUNTS, index: "counts", id: work.id}));
+};
+
+/**
+ * Check every derived index of works and, unless it's a dry run, rebuild them.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {boolean} isDryRun whether to only report the discrepancies
+ * @returns {Promise<ReindexReport>} the report of what was found before any rebuild
+ */
+export const reindexWorks = async (
+  repositories: Repositories, isDryRun: boolean,
+): Promise<ReindexReport> => {
+  const checkedTimestamp: string = new Date().toISOString();
+
+  let works: Work[] = await repositories.works.listStored();
+  const indexes: WorksIndexes = await repositories.works.readIndexes();
+
+  const artists: Record<string, Artist> = {};
+  const stats: Record<string, ArtistStats> = {};
+
+  for (const artistId of Array.from(new Set(works.flatMap(getCreditedArtistIds)))) {
+    const artist: Artist | undefined = await repositories.artists.get(artistId);
+
+    if (artist) {
+      artists[artistId] = artist;
+      stats[artistId] = await computeArtistStats(
+        repositories, works.filter((work: Work) => getCreditedArtistIds(work).includes(artistId)),
+      );
+    }
+  }
+
+  // Reacting to or commenting on a work only changes it as stored by ID, so the counts are
+  // checked here and the other indexes catch up with them when they're rebuilt.
+
+  const counts: Record<string, ReactionCounts> = countReactions(
+    await repositories.reactions.listAll()
+  );
+
+  const commentsCounts: Record<string, number> = Object.fromEntries(
+    Object.entries(await repositories.comments.listAll()).map(
+      ([workId, comments]) => [workId, countVisibleComments(comments)]
+    )
+  );
+
+  const discrepancies: Discrepancy[] = [
+    ...checkIndexes(works, indexes, artists, stats),
+    ...checkCounts(works, counts, commentsCounts),
+  ];
+
+  // Artists from before the registry of names may not hold their name in it yet.
+
+  for (const artist of Object.values(artists)) {
+    const claim: UsernameClaim | undefined = await repositories.usernames.get(artist.name);
+
+    if (claim?.artistId !== artist.discordId) {
+      discrepancies.push({
+        kind: DiscrepancyKind.USERNAME, index: "usernames", id: artist.discordId,
+      });
+    }
+  }
+
+  if (!isDryRun && discrepancies.length > 0) {
+    const orphanedIds: string[] = discrepancies.filter(
+      (discrepancy: Discrepancy) => discrepancy.kind === DiscrepancyKind.ORPHANED
+    ).map((discrepancy: Discrepancy) => discrepancy.id);
+
+    // Counts are fixed on the works stored by ID first, so the rebuilt indexes have them too.
+
+    for (const discrepancy of discrepancies) {
+      if (discrepancy.kind === DiscrepancyKind.COUNTS) {
+        const fixed: Work | undefined = await repositories.works.update(
+          discrepancy.id, (work: Work) => ({
+            ...work,
+            ...counts[work.id] || EMPTY_REACTION_COUNTS,
+            commentsCount: commentsCounts[work.id] || 0,
+          }),
+        );
+
+        works = works.map((work: Work) => fixed && work.id === fixed.id ? fixed : work);
+      }
+    }
+
+    await repositories.works.rebuildIndexes(works, Array.from(new Set(orphanedIds)));
+
+    // The stats are recomputed after the rebuild, so the artist indexes they are read from are
+    // correct. Artists are listed in the season of their latest work.
+
+    for (const discrepancy of discrepancies) {
+      if (discrepancy.kind === DiscrepancyKind.STATS) {
+        const years: number[] = works.filter(
+          (work: Work) => getCreditedArtistIds(work).includes(discrepancy.id)
+        ).map((work: Work) => work.year);
+
+        await refreshArtistStats(repositories, discrepancy.id, Math.max(...years));
+      }
+
+      // A name someone else holds stays theirs, so only a free name is claimed.
+
+      if (discrepancy.kind === DiscrepancyKind.USERNAME) {
+        await repositories.usernames.claim(discrepancy.id, artists[discrepancy.id].name);
+      }
+    }
+  }
+
+  return {
+    checkedTimestamp: checkedTimestamp,
+    isDryRun: isDryRun,
+    worksCount: works.length,
+    discrepancies: discrepancies,
+  };
+};
@@ -0,0 +1,58 @@
+/**
+ * Utils related to the revisions of works.
+ */
+
+import Revision from "../../../data/core/Revision";
+import Work from "../../../data/core/Work";
+
+/**
+ * Create a revision of a work as it is now.
+ *
+ * @param {Work} work the work
+ * @param {string} editorId the Discord ID of the user who saved the work
+ * @param {string | undefined} timestamp when the work was saved, defaulting to now
+ * @param {string | undefined} revertedFrom the ID of the revision the work was reverted to
+ * @returns {Revision} the revision
+ */
+export const createRevision = (
+  work: Work, editorId: string, timestamp?: string, revertedFrom?: string,
+): Revision => {
+  return {
+    id: crypto.randomUUID(),
+    workId: work.id,
+    editorId: editorId,
+    timestamp: timestamp || new Date().toISOString(),
+    revertedFrom: revertedFrom,
+    title: work.title,
+    medium: work.medium,
+    mediumCategory: work.mediumCategory,
+    mediumSubtype: work.mediumSubtype,
+    description: work.description,
+    weekNumbers: work.weekNumbers,
+    items: work.items,
+    smallThumbnailUrl: work.smallThumbnailUrl,
+    thumbnailUrl: work.thumbnailUrl,
+  };
+};
+
+/**
+ * Return a work with the content of a revision, keeping its state, e.g., whether it's approved.
+ *
+ * @param {Work} work the work
+ * @param {Revision} revision the revision
+ * @returns {Work} the work as of the revision
+ */
+export const applyRevision = (work: Work, revision: Revision): Work => {
+  return {
+    ...work,
+    title: revision.title,
+    medium: revision.medium,
+    mediumCategory: revision.mediumCategory,
+    mediumSubtype: revision.mediumSubtype,
+    description: revision.description,
+    weekNumbers: revision.weekNumbers,
+    items: revision.items,
+    smallThumbnailUrl: revision.smallThumbnailUrl,
+    thumbnailUrl: revision.thumbnailUrl,
+  };
+};
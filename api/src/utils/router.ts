@@ -0,0 +1,204 @@
+/**
+ * Utils related to routing requests to their handlers.
+ */
+
+import {ValidationError, ValidationResult} from "joi";
+import Environment from "../types/environment";
+import Route, {Method, RequestContext} from "../types/route";
+import {hasPermission} from "./auth";
+import {createDiscordClient} from "./discord";
+import {
+  createBadRequestResponse,
+  createForbiddenResponse,
+  createMethodNotAllowedResponse,
+  createNotFoundResponse,
+  createTooManyRequestsResponse
+} from "./http";
+import {sanitize} from "./io";
+import {createRateLimitStore, createRepositories} from "./kv";
+
+/**
+ * Match a path against a route path, returning the path parameters if it matches.
+ *
+ * Path parameters are decoded and sanitised so they can be safely used in KV keys.
+ *
+ * @param {string} routePath the route path, e.g., `/api/works/:id`
+ * @param {string} path the path of the request
+ * @returns {Record<string, string> | undefined} the path parameters, if the path matches
+ */
+export const matchPath = (
+  routePath: string, path: string,
+): Record<string, string> | undefined => {
+  const routeParts: string[] = routePath.split("/").filter((part: string) => part);
+  const pathParts: string[] = path.split("/").filter((part: string) => part);
+
+  if (routeParts.length !== pathParts.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < routeParts.length; i++) {
+    const routePart: string = routeParts[i];
+    const pathPart: string = pathParts[i];
+
+    if (routePart.startsWith(":")) {
+      let value: string | null;
+      try {
+        value = sanitize(decodeURIComponent(pathPart));
+      } catch {
+        return undefined;
+      }
+
+      if (!value) {
+        return undefined;
+      }
+
+      params[routePart.slice(1)] = value;
+    } else if (routePart.toLowerCase() !== pathPart.toLowerCase()) {
+      return undefined;
+    }
+  }
+
+  return params;
+};
+
+/**
+ * Read the JSON body of a request, treating a malformed body as a validation error.
+ *
+ * @param {Request} request the request
+ * @returns {Promise<ValidationResult>} the parsed body or an error
+ */
+const readBody = async (request: Request): Promise<ValidationResult> => {
+  try {
+    return {value: await request.json(), error: undefined};
+  } catch {
+    return {
+      value: undefined,
+      error: new ValidationError("The body is not valid JSON.", [], []),
+    };
+  }
+};
+
+/**
+ * Find the route for a request, check its auth requirements and schemas, then handle it.
+ *
+ * If no route has a matching path, a 404 is returned. If a route has a matching path but not a
+ * matching method, a 405 is returned. If the caller has called the route too often, a 429 is
+ * returned with a `Retry-After` header.
+ *
+ * @param {Route[]} routes the route table
+ * @param {Environment} env the workers environment
+ * @param {Request} request the request
+ * @param {ExecutionContext} execution the context the request is executed in
+ * @param {string | undefined} identifier if provided, the recognised ID of the calling user
+ * @returns {Promise<Response>} the response
+ */
+export const routeRequest = async (
+  routes: Route[],
+  env: Environment,
+  request: Request,
+  execution: ExecutionContext,
+  identifier?: string,
+): Promise<Response> => {
+  const url = new URL(request.url);
+  const method: Method = request.method.toLowerCase() as Method;
+
+  // Find every route with a matching path so we know which methods are allowed.
+
+  const matches: [Route, Record<string, string>][] = [];
+  routes.forEach((route: Route) => {
+    const params: Record<string, string> | undefined = matchPath(route.path, url.pathname);
+
+    if (params) {
+      matches.push([route, params]);
+    }
+  });
+
+  if (matches.length === 0) {
+    return createNotFoundResponse(env.ALLOWED_ORIGIN);
+  }
+
+  const match: [Route, Record<string, string>] | undefined = matches.find(
+    ([route]) => route.method === method
+  );
+
+  if (!match) {
+    return createMethodNotAllowedResponse(
+      matches.map(([route]) => route.method.toUpperCase()), env.ALLOWED_ORIGIN,
+    );
+  }
+
+  const [route, params] = match;
+
+  // Check the caller is allowed to call this route at all.
+
+  if ((route.isAuthenticated || route.permission) && !identifier) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  if (route.permission && !await hasPermission(env.REFRESH_KV, identifier, route.permission)) {
+    return createForbiddenResponse(env.ALLOWED_ORIGIN);
+  }
+
+  // Validate the path parameters, query string and body.
+
+  if (route.params) {
+    const validation: ValidationResult = route.params.validate(params);
+    if (validation.error) {
+      return createBadRequestResponse(validation.error, env.ALLOWED_ORIGIN);
+    }
+  }
+
+  const query: Partial<Record<string, string>> = {};
+  if (route.query) {
+    url.searchParams.forEach((value: string, key: string) => {
+      query[key] = sanitize(value) || undefined;
+    });
+
+    const validation: ValidationResult = route.query.validate(query, {convert: false});
+    if (validation.error) {
+      return createBadRequestResponse(validation.error, env.ALLOWED_ORIGIN);
+    }
+  }
+
+  let body: unknown = undefined;
+  if (route.body) {
+    const parsed: ValidationResult = await readBody(request);
+    if (parsed.error) {
+      return createBadRequestResponse(parsed.error, env.ALLOWED_ORIGIN);
+    }
+
+    const validation: ValidationResult = route.body.validate(parsed.value);
+    if (validation.error) {
+      return createBadRequestResponse(validation.error, env.ALLOWED_ORIGIN);
+    }
+
+    body = validation.value;
+  }
+
+  // Only count valid requests, so a caller's mistakes don't use up their limit.
+
+  if (route.rateLimit && identifier) {
+    const retryAfter: number | null = await createRateLimitStore(env).consume(
+      `${identifier}/${route.method}${route.path}`, route.rateLimit,
+    );
+
+    if (retryAfter !== null) {
+      return createTooManyRequestsResponse(retryAfter, env.ALLOWED_ORIGIN);
+    }
+  }
+
+  const context: RequestContext = {
+    env: env,
+    repositories: createRepositories(env),
+    discord: createDiscordClient(),
+    request: request,
+    execution: execution,
+    identifier: identifier,
+    params: params,
+    query: query,
+    body: body,
+  };
+
+  return route.handler(context);
+};
@@ -0,0 +1,237 @@
+/**
+ * Utils related to the search index.
+ *
+ * The index is inverted: each token maps to the works it appears in and how strongly. It is
+ * sharded by the first two characters of each token so that a prefix query only needs to read a
+ * single shard.
+ */
+
+import Artist from "../../../data/core/Artist";
+import Work from "../../../data/core/Work";
+import {ARTISTS, SEARCH_WITH_PREFIX_INDEX, SEARCH_WITH_WORK_INDEX} from "../constants/kv";
+import {AggregateStore, replaceAggregate, updateAggregate} from "../storage/aggregates";
+
+/**
+ * The shortest token that is indexed or searched for. This is also the length of a shard prefix.
+ */
+const MINIMUM_TOKEN_LENGTH = 2;
+
+/**
+ * The longest token that is indexed. Longer words are truncated.
+ */
+const MAXIMUM_TOKEN_LENGTH = 32;
+
+/**
+ * The weight of a token depending on the field it appears in.
+ */
+const FIELD_WEIGHTS = {
+  title: 8,
+  artist: 6,
+  medium: 4,
+  description: 1,
+};
+
+/**
+ * Split text into normalised tokens.
+ *
+ * Tokens are lowercase, have diacritics removed and are made up of letters and numbers only.
+ *
+ * @param {string} text the text
+ * @returns {string[]} the unique tokens
+ */
+export const tokenise = (text: string): string[] => {
+  const tokens: string[] = text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase().split(
+    /[^\p{L}\p{N}]+/u
+  ).filter(
+    (token: string) => token.length >= MINIMUM_TOKEN_LENGTH
+  ).map(
+    (token: string) => token.slice(0, MAXIMUM_TOKEN_LENGTH)
+  );
+
+  return Array.from(new Set(tokens));
+};
+
+/**
+ * Determine the tokens and weights to index a work under.
+ *
+ * A token appearing in multiple fields has the weights of each field added together.
+ *
+ * @param {Work} work the work
+ * @param {string | undefined} artistName the current name of the artist, if known
+ * @returns {Record<string, number>} a map of tokens to weights
+ */
+export const weighWork = (work: Work, artistName?: string): Record<string, number> => {
+  const weights: Record<string, number> = {};
+
+  const fields: [string, number][] = [
+    [work.title, FIELD_WEIGHTS.title],
+    [artistName || "", FIELD_WEIGHTS.artist],
+    [work.medium || "", FIELD_WEIGHTS.medium],
+    [work.description, FIELD_WEIGHTS.description],
+  ];
+
+  fields.forEach(([text, weight]: [string, number]) => {
+    tokenise(text).forEach((token: string) => {
+      weights[token] = (weights[token] || 0) + weight;
+    });
+  });
+
+  return weights;
+};
+
+/**
+ * @param {Work} work the work
+ * @returns {boolean} whether the work should appear in search results
+ */
+export const isSearchable = (work: Work): boolean => {
+  return work.isApproved && !work.isSoftDeleted;
+};
+
+/**
+ * @param {string} token a token
+ * @returns {string} the key of the shard the token belongs to
+ */
+const getShardKey = (token: string): string => {
+  return `${SEARCH_WITH_PREFIX_INDEX}/${token.slice(0, MINIMUM_TOKEN_LENGTH)}`;
+};
+
+/**
+ * Add, update or remove a work in the search index.
+ *
+ * Only approved works that are not deleted are searchable. Any other work is removed.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {AggregateStore} store the aggregate store
+ * @param {Work} work the work
+ */
+export const indexWork = async (
+  kv: KVNamespace, store: AggregateStore, work: Work,
+): Promise<void> => {
+  // Read the previous tokens from the store rather than KV as KV could be stale.
+
+  const previousWeights: Record<string, number> = JSON.parse(
+    (await store.read(`${SEARCH_WITH_WORK_INDEX}/${work.id}`)).value || "{}"
+  );
+
+  let weights: Record<string, number> = {};
+  if (isSearchable(work)) {
+    const rawArtist: string | null = await kv.get(`${ARTISTS}/${work.artistId}`);
+    const artist: Artist | undefined = (
+      rawArtist ? JSON.parse(rawArtist) : undefined
+    ) || work.firstSeenArtistInfo;
+
+    weights = weighWork(work, artist?.name);
+  }
+
+  // Group every changed token by shard so each shard is only written once.
+
+  const changedTokens: string[] = Array.from(new Set(
+    [...Object.keys(previousWeights), ...Object.keys(weights)]
+  )).filter((token: string) => previousWeights[token] !== weights[token]);
+
+  const shards: Record<string, string[]> = {};
+  changedTokens.forEach((token: string) => {
+    const shardKey: string = getShardKey(token);
+
+    shards[shardKey] = [...(shards[shardKey] || []), token];
+  });
+
+  for (const [shardKey, tokens] of Object.entries(shards)) {
+    await updateAggregate<Record<string, Record<string, number>>>(store, shardKey, {}, (shard) => {
+      tokens.forEach((token: string) => {
+        const postings: Record<string, number> = shard[token] || {};
+
+        if (weights[token]) {
+          postings[work.id] = weights[token];
+        } else {
+          delete postings[work.id];
+        }
+
+        if (Object.keys(postings).length > 0) {
+          shard[token] = postings;
+        } else {
+          delete shard[token];
+        }
+      });
+
+      return shard;
+    });
+  }
+
+  if (Object.keys(weights).length > 0 || Object.keys(previousWeights).length > 0) {
+    await replaceAggregate<Record<string, number>>(
+      store,
+      `${SEARCH_WITH_WORK_INDEX}/${work.id}`,
+      Object.keys(weights).length > 0 ? weights : null,
+    );
+  }
+};
+
+/**
+ * Score the works matching every token in a query.
+ *
+ * Each query token matches index tokens that start with it. An exact match scores double the
+ * weight of the token in the work and a prefix match scores the weight. A work's score is the
+ * sum of the best match for each query token.
+ *
+ * @param {string} query the raw query
+ * @param {Function} findPostings a function returning at least every indexed token starting
+ *   with a query token, each mapped to the work IDs and weights it appears with
+ * @returns {Promise<Record<string, number>>} a map of matching work IDs to scores
+ */
+export const scoreQuery = async (
+  query: string,
+  findPostings: (queryToken: string) => Promise<Record<string, Record<string, number>>>,
+): Promise<Record<string, number>> => {
+  const queryTokens: string[] = tokenise(query);
+  if (queryTokens.length === 0) {
+    return {};
+  }
+
+  const tokenScores: Record<string, number>[] = [];
+  for (const queryToken of queryTokens) {
+    const postingsByToken: Record<string, Record<string, number>> = await findPostings(
+      queryToken
+    );
+
+    // Find the best match of this query token in every work.
+
+    const scores: Record<string, number> = {};
+    Object.entries(postingsByToken).filter(
+      ([token]) => token.startsWith(queryToken)
+    ).forEach(([token, postings]) => {
+      const multiplier: number = token === queryToken ? 2 : 1;
+
+      Object.entries(postings).forEach(([id, weight]) => {
+        scores[id] = Math.max(scores[id] || 0, weight * multiplier);
+      });
+    });
+
+    tokenScores.push(scores);
+  }
+
+  // Only keep works that matched every query token.
+
+  return tokenScores.reduce(
+    (total: Record<string, number>, scores: Record<string, number>) => Object.fromEntries(
+      Object.keys(total).filter((id: string) => scores[id]).map(
+        (id: string) => [id, total[id] + scores[id]]
+      )
+    )
+  );
+};
+
+/**
+ * Find the works matching every token in a query using the stored index.
+ *
+ * @param {KVNamespace} kv the main key-value store
+ * @param {string} query the raw query
+ * @returns {Promise<Record<string, number>>} a map of matching work IDs to scores
+ */
+export const searchIndex = async (
+  kv: KVNamespace, query: string,
+): Promise<Record<string, number>> => {
+  return scoreQuery(query, async (queryToken: string) => JSON.parse(
+    await kv.get(getShardKey(queryToken)) || "{}"
+  ));
+};
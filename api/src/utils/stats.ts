@@ -0,0 +1,138 @@
+/**
+ * Utils related to the statistics derived from an artist's works.
+ */
+
+import Artist, {ArtistStats} from "../../../data/core/Artist";
+import Week from "../../../data/core/Week";
+import Work from "../../../data/core/Work";
+import Repositories from "../types/repositories";
+
+/**
+ * Count the consecutive weeks in a set that end at a given week.
+ *
+ * @param {Set<number>} weekNumbers the week numbers with an approved work
+ * @param {number} lastWeek the week the run ends at
+ * @returns {number} the length of the run
+ */
+const countRunTo = (weekNumbers: Set<number>, lastWeek: number): number => {
+  let length = 0;
+  while (weekNumbers.has(lastWeek - length)) {
+    length++;
+  }
+
+  return length;
+};
+
+/**
+ * Derive an artist's statistics from their works.
+ *
+ * @param {Work[]} works every work by the artist, including deleted ones which are ignored
+ * @param {number | undefined} latestWeek the latest published week of the most recent season the
+ *   artist has an approved work in, if it's known
+ * @returns {ArtistStats} the statistics
+ */
+export const deriveArtistStats = (works: Work[], latestWeek?: number): ArtistStats => {
+  const counted: Work[] = works.filter((work: Work) => !work.isSoftDeleted);
+  const approved: Work[] = counted.filter((work: Work) => work.isApproved);
+
+  // Streaks only run within a season, so the weeks are grouped by year.
+
+  const weeksByYear: Map<number, Set<number>> = new Map();
+  approved.forEach((work: Work) => {
+    const weekNumbers: Set<number> = weeksByYear.get(work.year) || new Set();
+    work.weekNumbers.forEach((weekNumber: number) => weekNumbers.add(weekNumber));
+
+    weeksByYear.set(work.year, weekNumbers);
+  });
+
+  let weeksParticipated = 0;
+  let longestStreak = 0;
+
+  weeksByYear.forEach((weekNumbers: Set<number>) => {
+    weeksParticipated += weekNumbers.size;
+
+    weekNumbers.forEach((weekNumber: number) => {
+      longestStreak = Math.max(longestStreak, countRunTo(weekNumbers, weekNumber));
+    });
+  });
+
+  let currentStreak = 0;
+
+  const latestYear: number = Math.max(...Array.from(weeksByYear.keys()));
+  const latestWeekNumbers: Set<number> | undefined = weeksByYear.get(latestYear);
+
+  if (latestWeekNumbers) {
+    const lastWeek: number = Math.max(latestWeek || 0, ...Array.from(latestWeekNumbers));
+
+    currentStreak = countRunTo(latestWeekNumbers, lastWeek) || countRunTo(
+      latestWeekNumbers, lastWeek - 1,
+    );
+  }
+
+  const timestamps: string[] = counted.map((work: Work) => work.submittedTimestamp).sort();
+
+  return {
+    approvedCount: approved.length,
+    pendingCount: counted.length - approved.length,
+    weeksParticipated: weeksParticipated,
+    currentStreak: currentStreak,
+    longestStreak: longestStreak,
+    firstSubmittedTimestamp: timestamps[0],
+    lastSubmittedTimestamp: timestamps[timestamps.length - 1],
+  };
+};
+
+/**
+ * Derive an artist's statistics from their works, finding the latest published week they need.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {Work[]} works every work by the artist
+ * @returns {Promise<ArtistStats>} the statistics
+ */
+export const computeArtistStats = async (
+  repositories: Repositories, works: Work[],
+): Promise<ArtistStats> => {
+  const years: number[] = works.filter(
+    (work: Work) => work.isApproved && !work.isSoftDeleted
+  ).map((work: Work) => work.year);
+
+  let latestWeek: number | undefined = undefined;
+  if (years.length > 0) {
+    const weeks: Week[] = Object.values(
+      await repositories.weeks.listBySeason(Math.max(...years))
+    );
+
+    const publishedWeekNumbers: number[] = weeks.filter(
+      (week: Week) => week.isPublished
+    ).map((week: Week) => week.week);
+
+    latestWeek = publishedWeekNumbers.length > 0 ? Math.max(...publishedWeekNumbers) : undefined;
+  }
+
+  return deriveArtistStats(works, latestWeek);
+};
+
+/**
+ * Recompute an artist's statistics from their stored works and save them.
+ *
+ * An artist created from their details claims their name, as if they had saved it themselves.
+ * If someone else holds the name, it's left for them to choose another when they next save.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {string} artistId the Discord ID of the artist
+ * @param {number} year the year of the season to list them in
+ * @param {Artist | undefined} fallback the details of the artist to use if they don't exist
+ */
+export const refreshArtistStats = async (
+  repositories: Repositories, artistId: string, year: number, fallback?: Artist,
+): Promise<void> => {
+  const works: Work[] = await repositories.works.listByArtist(artistId);
+
+  const isCreated: boolean = await repositories.artists.updateStats(
+    artistId, await computeArtistStats(repositories, works), year, fallback,
+  );
+
+  if (isCreated && fallback) {
+    await repositories.usernames.claim(artistId, fallback.name);
+  }
+};
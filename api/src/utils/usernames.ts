@@ -0,0 +1,63 @@
+/**
+ * Utils related to the registry of artist names.
+ */
+
+import {USERNAME_RELEASE_DAYS} from "../../../data/constants/setup";
+import UsernameClaim from "../../../data/core/Username";
+import {normaliseUsername} from "../../../data/utils/usernames";
+
+/**
+ * @param {UsernameClaim | undefined} claim the current claim on a name, if any
+ * @param {string} artistId the Discord ID of the artist who wants the name
+ * @param {Date} now the current time
+ * @returns {boolean} whether the artist can claim the name
+ */
+export const isUsernameClaimable = (
+  claim: UsernameClaim | undefined, artistId: string, now: Date,
+): boolean => {
+  if (!claim || claim.artistId === artistId) {
+    return true;
+  }
+
+  if (!claim.releasedTimestamp) {
+    return false;
+  }
+
+  const releasedAt: number = new Date(claim.releasedTimestamp).getTime();
+
+  return now.getTime() - releasedAt >= USERNAME_RELEASE_DAYS * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Claim a name in the registry for an artist, releasing the name they held before.
+ *
+ * @param {Record<string, UsernameClaim>} claims the registry of normalised names to claims
+ * @param {string} artistId the Discord ID of the artist
+ * @param {string} name the name they want
+ * @param {string | undefined} previousName the name they had before, if any
+ * @param {Date} now the current time
+ * @returns {Record<string, UsernameClaim> | null} the changed registry, or `null` if it's taken
+ */
+export const claimUsername = (
+  claims: Record<string, UsernameClaim>,
+  artistId: string,
+  name: string,
+  previousName: string | undefined,
+  now: Date,
+): Record<string, UsernameClaim> | null => {
+  const key: string = normaliseUsername(name);
+  if (!isUsernameClaimable(claims[key], artistId, now)) {
+    return null;
+  }
+
+  const changed: Record<string, UsernameClaim> = {...claims, [key]: {artistId, name}};
+
+  // Only a name the artist still holds is released. A case change keeps the same entry.
+
+  const previousKey: string | undefined = previousName && normaliseUsername(previousName);
+  if (previousKey && previousKey !== key && claims[previousKey]?.artistId === artistId) {
+    changed[previousKey] = {...claims[previousKey], releasedTimestamp: now.toISOString()};
+  }
+
+  return changed;
+};
@@ -0,0 +1,101 @@
+/**
+ * Races concurrent writes to shared aggregates, which must never lose a write.
+ */
+
+import assert from "node:assert/strict";
+import {describe, it} from "node:test";
+import {ReactionEmoji} from "../../data/core/Reaction";
+import Work from "../../data/core/Work";
+import {WORKS_WITH_ARTIST_INDEX, WORKS_WITHOUT_INDEX} from "../src/constants/kv";
+import {updateAggregate} from "../src/storage/aggregates";
+import MemoryAggregateStore from "../src/storage/memory";
+import Repositories from "../src/types/repositories";
+import {placeWork} from "../src/utils/kv";
+import {createKvRepositories, createWork} from "./fakes";
+
+/**
+ * The number of concurrent writers in each race.
+ */
+const WRITERS = 20;
+
+/**
+ * @param {MemoryAggregateStore} store the aggregate store
+ * @param {string} key the key of a JSON aggregate
+ * @returns {Promise<T | null>} the aggregate, if it exists
+ */
+const readAggregate = async <T>(store: MemoryAggregateStore, key: string): Promise<T | null> => {
+  const {value} = await store.read(key);
+
+  return value !== null ? JSON.parse(value) : null;
+};
+
+describe("updateAggregate", () => {
+  it("keeps every concurrent increment", async () => {
+    const store: MemoryAggregateStore = new MemoryAggregateStore();
+
+    await Promise.all(Array.from({length: WRITERS}, () => updateAggregate<number>(
+      store, "counter", 0, (count: number) => count + 1,
+    )));
+
+    assert.equal(await readAggregate<number>(store, "counter"), WRITERS);
+  });
+
+  it("keeps every concurrent entry in a map", async () => {
+    const store: MemoryAggregateStore = new MemoryAggregateStore();
+
+    await Promise.all(Array.from({length: WRITERS}, (_, i: number) => (
+      updateAggregate<Record<string, number>>(
+        store, "entries", {}, (entries: Record<string, number>) => ({...entries, [i]: i}),
+      )
+    )));
+
+    const entries: Record<string, number> | null = await readAggregate(store, "entries");
+
+    assert.equal(Object.keys(entries || {}).length, WRITERS);
+  });
+});
+
+describe("placeWork", () => {
+  it("keeps every work placed at once by the same artist", async () => {
+    const store: MemoryAggregateStore = new MemoryAggregateStore();
+    const repositories: Repositories = createKvRepositories(store);
+
+    const works: Work[] = Array.from(
+      {length: WRITERS}, (_, i: number) => createWork(`work${i}`, "1234"),
+    );
+
+    await Promise.all(works.map((work: Work) => placeWork(repositories, work)));
+
+    const allWorks: Work[] | null = await readAggregate(store, WORKS_WITHOUT_INDEX);
+    const worksByArtist: Record<string, Work> | null = await readAggregate(
+      store, `${WORKS_WITH_ARTIST_INDEX}/1234`,
+    );
+
+    assert.equal(allWorks?.length, WRITERS);
+    assert.equal(Object.keys(worksByArtist || {}).length, WRITERS);
+  });
+});
+
+describe("KvWorksRepository", () => {
+  it("keeps reactions and comments counted since the work was read", async () => {
+    const store: MemoryAggregateStore = new MemoryAggregateStore();
+    const repositories: Repositories = createKvRepositories(store);
+
+    await placeWork(repositories, createWork("work1", "1234"));
+
+    const work: Work | undefined = await repositories.works.get("work1");
+
+    await repositories.works.update("work1", (current: Work) => ({
+      ...current, reactionCounts: {[ReactionEmoji.HEART]: 1}, favouritesCount: 1, commentsCount: 1,
+    }));
+
+    await repositories.works.put({...work as Work, title: "Renamed"});
+
+    const stored: Work | undefined = await repositories.works.get("work1");
+
+    assert.equal(stored?.title, "Renamed");
+    assert.equal(stored?.reactionCounts?.[ReactionEmoji.HEART], 1);
+    assert.equal(stored?.favouritesCount, 1);
+    assert.equal(stored?.commentsCount, 1);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Fakes shared by the tests, standing in for what the Workers runtime provides.
+ */
+
+import Artist from "../../data/core/Artist";
+import Work from "../../data/core/Work";
+import {
+  KvArtistsRepository,
+  KvCommentsRepository,
+  KvDeliveriesRepository,
+  KvReactionsRepository,
+  KvUsernamesRepository,
+  KvWeeksRepository,
+  KvWorksRepository
+} from "../src/repositories/kv";
+import {createMemoryRepositories} from "../src/repositories/memory";
+import MemoryAggregateStore from "../src/storage/memory";
+import Environment from "../src/types/environment";
+import Repositories from "../src/types/repositories";
+import {RequestContext} from "../src/types/route";
+
+/**
+ * Create a KV namespace that reads what was written through an aggregate store, as the durable
+ * store mirrors every write into KV.
+ *
+ * Only reads are supported, as every write goes through the store.
+ *
+ * @param {MemoryAggregateStore} store the aggregate store
+ * @returns {KVNamespace} the KV namespace
+ */
+export const createMirroredKv = (store: MemoryAggregateStore): KVNamespace => {
+  return {
+    get: async (key: string) => (await store.read(key)).value,
+  } as unknown as KVNamespace;
+};
+
+/**
+ * Create the repositories backed by KV, reading what was written to an aggregate store.
+ *
+ * The audit log and revisions are written to KV directly, which the mirrored KV doesn't support,
+ * so they're kept in memory instead.
+ *
+ * @param {MemoryAggregateStore} store the aggregate store
+ * @returns {Repositories} the repositories
+ */
+export const createKvRepositories = (store: MemoryAggregateStore): Repositories => {
+  const kv: KVNamespace = createMirroredKv(store);
+  const {audit, revisions} = createMemoryRepositories();
+
+  return {
+    works: new KvWorksRepository(kv, store),
+    artists: new KvArtistsRepository(kv, store),
+    usernames: new KvUsernamesRepository(kv, store),
+    weeks: new KvWeeksRepository(kv, store),
+    audit: audit,
+    revisions: revisions,
+    reactions: new KvReactionsRepository(kv, store),
+    comments: new KvCommentsRepository(kv, store),
+    deliveries: new KvDeliveriesRepository(kv, store),
+  };
+};
+
+/**
+ * @param {string} id the Discord ID of the artist
+ * @returns {Artist} an artist with no statistics
+ */
+export const createArtist = (id: string): Artist => {
+  return {discordId: id, name: `Artist ${id}`, thumbnailUrl: "", socials: []};
+};
+
+/**
+ * @param {string} id the ID of the work
+ * @param {string} artistId the Discord ID of the work's artist
+ * @returns {Work} an approved work in the first week of 2024
+ */
+export const createWork = (id: string, artistId: string): Work => {
+  return {
+    id: id,
+    year: 2024,
+    weekNumbers: [1],
+    artistId: artistId,
+    firstSeenArtistInfo: createArtist(artistId),
+    title: `Work ${id}`,
+    description: "",
+    items: [],
+    isApproved: true,
+    submittedTimestamp: new Date().toISOString(),
+  };
+};
+
+/**
+ * Create the context of a request to a handler, as the router would.
+ *
+ * Nobody has a role, so every authenticated caller is an artist. Discord accepts every message,
+ * and work left to finish after responding is dropped.
+ *
+ * @param {Repositories} repositories the repositories
+ * @param {string | undefined} identifier the Discord ID of the caller, if authenticated
+ * @param {Record<string, string>} params the path parameters
+ * @param {B} body the validated body
+ * @returns {RequestContext<B>} the context
+ */
+export const createContext = <B>(
+  repositories: Repositories,
+  identifier: string | undefined,
+  params: Record<string, string>,
+  body: B,
+): RequestContext<B> => {
+  return {
+    env: {
+      ALLOWED_ORIGIN: "https://example.com",
+      REFRESH_KV: createMirroredKv(new MemoryAggregateStore()),
+    } as unknown as Environment,
+    repositories: repositories,
+    discord: {
+      createMessage: async () => "5678",
+      editMessage: async () => undefined,
+      deleteMessage: async () => undefined,
+    },
+    request: new Request("https://api.example.com/"),
+    execution: {waitUntil: () => undefined, passThroughOnException: () => undefined},
+    identifier: identifier,
+    params: params,
+    query: {},
+    body: body,
+  };
+};
@@ -0,0 +1,158 @@
+/**
+ * Calls handlers directly with in-memory repositories, as the router would.
+ */
+
+import assert from "node:assert/strict";
+import {beforeEach, describe, it} from "node:test";
+import Artist from "../../data/core/Artist";
+import Comment, {CommentRequest} from "../../data/core/Comment";
+import {ReactionEmoji, ReactionRequest} from "../../data/core/Reaction";
+import Season, {FALLBACK_SEASON, SeasonStatus} from "../../data/core/Season";
+import Work from "../../data/core/Work";
+import {createMemoryRepositories} from "../src/repositories/memory";
+import {postComment, putComment} from "../src/services/comments";
+import {postReact} from "../src/services/reactions";
+import {putSeason} from "../src/services/seasons";
+import Repositories from "../src/types/repositories";
+import {createArtist, createContext, createWork} from "./fakes";
+
+/**
+ * The Discord ID of the artist of the work in every test.
+ */
+const ARTIST_ID = "1234";
+
+describe("postReact", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createMemoryRepositories();
+
+    await repositories.works.put(createWork("work1", ARTIST_ID));
+  });
+
+  /**
+   * @param {string} userId the Discord ID of the user reacting
+   * @param {boolean} isReacting whether to add the reaction rather than remove it
+   * @returns {Promise<Work>} the work in the response
+   */
+  const react = async (userId: string, isReacting: boolean): Promise<Work> => {
+    const response: Response = await postReact(createContext<ReactionRequest>(
+      repositories, userId, {id: "work1"}, {emoji: ReactionEmoji.HEART, isReacting: isReacting},
+    ));
+
+    assert.equal(response.status, 200);
+
+    return (await response.json() as Record<string, Work>)["work1"];
+  };
+
+  it("counts each user's reaction once", async () => {
+    await react("1", true);
+    await react("1", true);
+
+    const work: Work = await react("2", true);
+
+    assert.equal(work.reactionCounts?.[ReactionEmoji.HEART], 2);
+    assert.equal((await repositories.works.get("work1"))?.reactionCounts?.heart, 2);
+  });
+
+  it("only uncounts a reaction that was counted", async () => {
+    await react("1", true);
+    await react("2", false);
+
+    const work: Work = await react("1", false);
+
+    assert.equal(work.reactionCounts?.[ReactionEmoji.HEART], 0);
+  });
+
+  it("refuses anonymous users", async () => {
+    const response: Response = await postReact(createContext<ReactionRequest>(
+      repositories, undefined, {id: "work1"}, {emoji: ReactionEmoji.HEART, isReacting: true},
+    ));
+
+    assert.equal(response.status, 403);
+  });
+});
+
+describe("comments", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createMemoryRepositories();
+
+    await repositories.works.put(createWork("work1", ARTIST_ID));
+    await repositories.artists.put(createArtist(ARTIST_ID), 2024);
+  });
+
+  /**
+   * @param {string} userId the Discord ID of the user commenting
+   * @param {string} body the comment
+   * @returns {Promise<Response>} the response
+   */
+  const comment = async (userId: string, body: string): Promise<Response> => {
+    return postComment(createContext<CommentRequest>(
+      repositories, userId, {id: "work1"}, {body: body},
+    ));
+  };
+
+  it("counts the comments on the work", async () => {
+    await comment("1", "Lovely colours!");
+    await comment("2", "Great work.");
+
+    assert.equal((await repositories.works.get("work1"))?.commentsCount, 2);
+  });
+
+  it("refuses comments and edits once the artist turns comments off", async () => {
+    const comments: Comment[] = await (await comment("1", "Lovely colours!")).json() as Comment[];
+
+    const artist: Artist = createArtist(ARTIST_ID);
+    await repositories.artists.put({...artist, isCommentingDisabled: true}, 2024);
+
+    assert.equal((await comment("2", "Great work.")).status, 400);
+
+    const edited: Response = await putComment(createContext<CommentRequest>(
+      repositories, "1", {id: "work1", commentId: comments[0].id}, {body: "Lovely lines!"},
+    ));
+
+    assert.equal(edited.status, 400);
+  });
+});
+
+describe("putSeason", () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+  });
+
+  /**
+   * @param {number} year the year of the season
+   * @param {SeasonStatus} status the status of the season
+   * @returns {Promise<Response>} the response
+   */
+  const put = async (year: number, status: SeasonStatus): Promise<Response> => {
+    return putSeason(createContext<Season>(
+      repositories,
+      ARTIST_ID,
+      {year: year.toString()},
+      {...FALLBACK_SEASON, year: year, status: status},
+    ));
+  };
+
+  it("archives the other seasons when one is activated", async () => {
+    await put(2024, SeasonStatus.ACTIVE);
+
+    const seasons: Record<string, Season> = await (
+      await put(2025, SeasonStatus.ACTIVE)
+    ).json() as Record<string, Season>;
+
+    assert.equal(seasons[2024].status, SeasonStatus.ARCHIVED);
+    assert.equal(seasons[2025].status, SeasonStatus.ACTIVE);
+  });
+
+  it("refuses to archive the active season", async () => {
+    await put(2024, SeasonStatus.ACTIVE);
+
+    assert.equal((await put(2024, SeasonStatus.ARCHIVED)).status, 400);
+    assert.equal((await put(2023, SeasonStatus.ARCHIVED)).status, 200);
+  });
+});
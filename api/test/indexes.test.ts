@@ -0,0 +1,154 @@
+/**
+ * Calls handlers that change works in their indexes with the repositories backed by KV, whose
+ * indexes are stored rather than derived on read.
+ */
+
+import assert from "node:assert/strict";
+import {beforeEach, describe, it} from "node:test";
+import {CommentRequest} from "../../data/core/Comment";
+import {MediumCategory, MediumChoice} from "../../data/core/Medium";
+import {ReactionEmoji, ReactionRequest} from "../../data/core/Reaction";
+import Revision from "../../data/core/Revision";
+import Work from "../../data/core/Work";
+import {deleteCollaborator} from "../src/services/collaborators";
+import {postComment} from "../src/services/comments";
+import {postMediumMigration} from "../src/services/mediums";
+import {postReact} from "../src/services/reactions";
+import {postRevert} from "../src/services/works";
+import MemoryAggregateStore from "../src/storage/memory";
+import Repositories from "../src/types/repositories";
+import {placeWork} from "../src/utils/kv";
+import {createRevision} from "../src/utils/revisions";
+import {createArtist, createContext, createKvRepositories, createWork} from "./fakes";
+
+/**
+ * The Discord ID of the artist of the work in every test.
+ */
+const ARTIST_ID = "1234";
+
+/**
+ * The Discord ID of the artist credited alongside them.
+ */
+const COLLABORATOR_ID = "2345";
+
+describe("deleteCollaborator", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createKvRepositories(new MemoryAggregateStore());
+
+    await placeWork(repositories, {
+      ...createWork("work1", ARTIST_ID), collaboratorIds: [COLLABORATOR_ID],
+    });
+  });
+
+  it("takes the work off the index of the artist taken off", async () => {
+    const response: Response = await deleteCollaborator(createContext(
+      repositories, ARTIST_ID, {id: "work1", artistId: COLLABORATOR_ID}, undefined,
+    ));
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await repositories.works.listByArtist(COLLABORATOR_ID), []);
+    assert.deepEqual(
+      (await repositories.works.listByArtist(ARTIST_ID)).map((work: Work) => work.id), ["work1"],
+    );
+  });
+});
+
+describe("postRevert", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createKvRepositories(new MemoryAggregateStore());
+
+    await placeWork(repositories, createWork("work1", ARTIST_ID));
+  });
+
+  it("moves the work to the weeks of the revision", async () => {
+    const revision: Revision = createRevision(
+      {...createWork("work1", ARTIST_ID), weekNumbers: [2]}, ARTIST_ID,
+    );
+
+    await repositories.revisions.append(revision);
+
+    const response: Response = await postRevert(createContext(
+      repositories, ARTIST_ID, {id: "work1", revisionId: revision.id}, undefined,
+    ));
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await repositories.works.listByWeek(2024, 1), []);
+    assert.deepEqual(
+      (await repositories.works.listByWeek(2024, 2)).map((work: Work) => work.id), ["work1"],
+    );
+  });
+});
+
+describe("counts", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createKvRepositories(new MemoryAggregateStore());
+
+    await placeWork(repositories, {...createWork("work1", ARTIST_ID), tags: ["ink"]});
+    await repositories.artists.put(createArtist(ARTIST_ID), 2024);
+  });
+
+  /**
+   * @returns {Promise<Work[]>} the work as listed in each of its indexes
+   */
+  const listEverywhere = async (): Promise<Work[]> => {
+    return [
+      ...await repositories.works.listAll(),
+      ...await repositories.works.listByArtist(ARTIST_ID),
+      ...await repositories.works.listByWeek(2024, 1),
+      ...await repositories.works.listByTag("ink"),
+    ];
+  };
+
+  it("copies reactions onto the work as listed", async () => {
+    const response: Response = await postReact(createContext<ReactionRequest>(
+      repositories, "1", {id: "work1"}, {emoji: ReactionEmoji.HEART, isReacting: true},
+    ));
+
+    assert.equal(response.status, 200);
+
+    const listed: Work[] = await listEverywhere();
+
+    assert.equal(listed.length, 4);
+    listed.forEach((work: Work) => assert.equal(work.reactionCounts?.[ReactionEmoji.HEART], 1));
+  });
+
+  it("copies comments onto the work as listed", async () => {
+    const response: Response = await postComment(createContext<CommentRequest>(
+      repositories, "1", {id: "work1"}, {body: "Lovely colours!"},
+    ));
+
+    assert.equal(response.status, 200);
+
+    const listed: Work[] = await listEverywhere();
+
+    assert.equal(listed.length, 4);
+    listed.forEach((work: Work) => assert.equal(work.commentsCount, 1));
+  });
+});
+
+describe("postMediumMigration", () => {
+  it("copies the medium onto the work as listed", async () => {
+    const repositories: Repositories = createKvRepositories(new MemoryAggregateStore());
+
+    await placeWork(repositories, {...createWork("work1", ARTIST_ID), medium: "Watercolour"});
+
+    const choices: Record<string, MediumChoice> = {work1: {category: MediumCategory.TRADITIONAL}};
+
+    const response: Response = await postMediumMigration(
+      createContext(repositories, ARTIST_ID, {}, choices),
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), []);
+    assert.equal(
+      (await repositories.works.listByArtist(ARTIST_ID))[0].mediumCategory,
+      MediumCategory.TRADITIONAL,
+    );
+  });
+});
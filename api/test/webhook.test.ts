@@ -0,0 +1,101 @@
+/**
+ * Sends messages with the webhook client to a local fake webhook server instead of Discord.
+ */
+
+import assert from "node:assert/strict";
+import {createServer, IncomingMessage, Server, ServerResponse} from "node:http";
+import {AddressInfo} from "node:net";
+import {after, before, beforeEach, describe, it} from "node:test";
+import WebhookDiscordClient from "../src/clients/webhook";
+import {DiscordError} from "../src/types/discord";
+
+/**
+ * A request the fake webhook server received.
+ */
+interface ReceivedRequest {
+  /**
+   * The HTTP method.
+   */
+  method: string;
+
+  /**
+   * The path and query string.
+   */
+  url: string;
+
+  /**
+   * The raw body.
+   */
+  body: string;
+}
+
+describe("WebhookDiscordClient", () => {
+  const received: ReceivedRequest[] = [];
+
+  let status = 200;
+  let server: Server;
+  let webhookUrl: string;
+
+  before(async () => {
+    server = createServer((request: IncomingMessage, response: ServerResponse) => {
+      let body = "";
+
+      request.on("data", (chunk: Buffer) => body += chunk.toString());
+      request.on("end", () => {
+        received.push({method: request.method || "", url: request.url || "", body: body});
+
+        response.writeHead(status, {"Content-Type": "application/json"});
+        response.end(JSON.stringify(status === 200 ? {id: "5678"} : {message: "Unknown"}));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/1/token`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    status = 200;
+  });
+
+  it("creates a message and returns its ID", async () => {
+    const id: string = await new WebhookDiscordClient().createMessage(
+      webhookUrl, {content: "Hello"},
+    );
+
+    assert.equal(id, "5678");
+    assert.deepEqual(received, [
+      {method: "POST", url: "/webhooks/1/token?wait=true", body: "{\"content\":\"Hello\"}"},
+    ]);
+  });
+
+  it("edits a message", async () => {
+    await new WebhookDiscordClient().editMessage(webhookUrl, "5678", {content: "Bye"});
+
+    assert.deepEqual(received, [
+      {method: "PATCH", url: "/webhooks/1/token/messages/5678", body: "{\"content\":\"Bye\"}"},
+    ]);
+  });
+
+  it("ignores deleting a message that's already gone", async () => {
+    status = 404;
+
+    await new WebhookDiscordClient().deleteMessage(webhookUrl, "5678");
+
+    assert.equal(received[0].method, "DELETE");
+  });
+
+  it("throws the error Discord refused a message with", async () => {
+    status = 400;
+
+    await assert.rejects(
+      new WebhookDiscordClient().editMessage(webhookUrl, "5678", {content: "Bye"}),
+      (error: unknown) => error instanceof DiscordError && error.status === 400,
+    );
+  });
+});
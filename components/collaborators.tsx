@@ -0,0 +1,217 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faUserPlus, faUsers} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import {useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import Artist from "../data/core/Artist";
+import {Permission} from "../data/core/Role";
+import Work from "../data/core/Work";
+import {ArtistsState, RootState} from "../store/state";
+import {getUserId, usePermissions} from "../utils/auth";
+import {
+  answerInvitation,
+  fetchArtistByName,
+  inviteCollaborator,
+  removeCollaborator
+} from "../utils/connectors";
+import InterfaceLink from "./interface-link";
+
+/**
+ * The props on the {@link Collaborators}.
+ */
+interface CollaboratorsProps {
+  /**
+   * The work, which must already be cached.
+   */
+  work: Work;
+}
+
+/**
+ * The artists credited on and invited to a work, for the people who can change them.
+ *
+ * The work's artist and staff invite and remove collaborators. An invited artist accepts or
+ * declines, and an accepted collaborator can take themselves off. Everyone else sees nothing.
+ *
+ * @param {CollaboratorsProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Collaborators = (props: CollaboratorsProps): JSX.Element => {
+  const {user, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch: Dispatch = useDispatch();
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const canEditAnyWork: boolean = usePermissions().includes(Permission.EDIT_ANY_WORK);
+  const userId: string | undefined = getUserId(user);
+
+  const [name, setName] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  const work: Work = props.work;
+  const collaboratorIds: string[] = work.collaboratorIds || [];
+  const invitedIds: string[] = work.invitedCollaboratorIds || [];
+
+  const canManage: boolean = canEditAnyWork || (!!userId && work.artistId === userId);
+  const isInvited: boolean = !!userId && invitedIds.includes(userId);
+  const isCollaborator: boolean = !!userId && collaboratorIds.includes(userId);
+
+  if (!canManage && !isInvited && !isCollaborator) {
+    return <></>;
+  }
+
+  /**
+   * Send a change to the credits, showing why if it fails.
+   *
+   * @param {Function} send a function sending the change with an access token
+   */
+  const change = async (send: (token: string) => Promise<void>) => {
+    try {
+      await send(await getAccessTokenSilently());
+
+      setError(null);
+    } catch (caught: unknown) {
+      setError((caught as Error).message || "That didn't work. Please try again later.");
+    }
+  };
+
+  /**
+   * @param {string} id the Discord ID of an artist
+   * @returns {string} the name of the artist, or their ID if they aren't known
+   */
+  const getName = (id: string): string => artistsData.artists[id]?.name || id;
+
+  /**
+   * @param {string} id the Discord ID of a collaborator or invited artist
+   * @param {string} status a description of whether they accepted
+   * @returns {JSX.Element} the artist with a way to take them off, if the user can
+   */
+  const renderArtist = (id: string, status: string): JSX.Element => (
+    <li key={id} className={"py-1"}>
+      {getName(id)} <span className={"text-sm text-gray-500"}>({status})</span>
+      {
+        canManage ? (
+          <button
+            className={"ml-3 text-sm underline hover:text-black"}
+            onClick={() => change(
+              (token: string) => removeCollaborator(dispatch, token, work.id, id)
+            )}
+          >
+            Remove
+          </button>
+        ) : <></>
+      }
+    </li>
+  );
+
+  return (
+    <div className={"pt-4"}>
+      <p>
+        <b><FontAwesomeIcon icon={faUsers} fixedWidth /> Collaborators</b>
+      </p>
+
+      {error ? <p className={"py-2 text-red-700"}>{error}</p> : <></>}
+
+      {
+        isInvited ? (
+          <div className={"my-2 px-4 py-3 border border-yellow-500 bg-yellow-50"}>
+            <p>{getName(work.artistId)} invited you to be credited on this work.</p>
+
+            <InterfaceLink
+              title={"Accept"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={
+                async () => change(
+                  (token: string) => answerInvitation(dispatch, token, work.id, true)
+                )
+              }
+            />
+
+            <InterfaceLink
+              title={"Decline"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={
+                async () => change(
+                  (token: string) => answerInvitation(dispatch, token, work.id, false)
+                )
+              }
+            />
+          </div>
+        ) : <></>
+      }
+
+      {
+        canManage ? (
+          <ul>
+            {collaboratorIds.map((id: string) => renderArtist(id, "credited"))}
+            {invitedIds.map((id: string) => renderArtist(id, "invited"))}
+          </ul>
+        ) : <></>
+      }
+
+      {
+        canManage ? (
+          <form
+            className={"flex flex-row items-center py-2"}
+            onSubmit={async (event) => {
+              event.preventDefault();
+
+              const artist: Artist | undefined = await fetchArtistByName(name.trim());
+              if (!artist) {
+                setError("There's no artist with that name.");
+
+                return;
+              }
+
+              await change(
+                (token: string) => inviteCollaborator(dispatch, token, work.id, artist.discordId)
+              );
+
+              setName("");
+            }}
+          >
+            <input
+              id={"collaborator-name"}
+              name={"collaborator-name"}
+              className={
+                "shadow appearance-none border py-2 px-3 mr-2 text-gray-700 leading-tight "
+                + "focus:outline-none focus:shadow-outline"
+              }
+              placeholder={"Artist name"}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+
+            <button
+              type={"submit"}
+              className={"px-2 py-1 border hover:bg-gray-100 hover:text-black"}
+              disabled={name.trim().length === 0}
+            >
+              <FontAwesomeIcon icon={faUserPlus} fixedWidth /> Invite
+            </button>
+          </form>
+        ) : <></>
+      }
+
+      {
+        isCollaborator && !canManage ? (
+          <InterfaceLink
+            title={"Remove Me From This Work"}
+            location={"#"}
+            customWaitMessage={"Please wait..."}
+            clickBack={
+              async () => change(
+                (token: string) => removeCollaborator(dispatch, token, work.id, userId || "")
+              )
+            }
+          />
+        ) : <></>
+      }
+    </div>
+  );
+};
+
+export default Collaborators;
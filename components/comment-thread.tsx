@@ -0,0 +1,381 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faComments} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import moment from "moment";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import {MAXIMUM_COMMENT_LENGTH} from "../data/constants/setup";
+import Comment from "../data/core/Comment";
+import {Permission} from "../data/core/Role";
+import Work from "../data/core/Work";
+import {ArtistsState, RootState, WorksState} from "../store/state";
+import {getUserId, usePermissions} from "../utils/auth";
+import {
+  deleteComment,
+  editComment,
+  fetchComments,
+  fetchWorkById,
+  postComment,
+  setCommentVisibility
+} from "../utils/connectors";
+import {Markdown} from "./markdown";
+import {SubHeader} from "./typography";
+
+/**
+ * The props on the {@link CommentThread}.
+ */
+interface CommentThreadProps {
+  /**
+   * The work being commented on, which must be approved.
+   */
+  work: Work;
+
+  /**
+   * Whether the artist turned off comments on their works.
+   */
+  isCommentingDisabled?: boolean;
+}
+
+/**
+ * The props on the {@link CommentForm}.
+ */
+interface CommentFormProps {
+  /**
+   * The ID of the textarea.
+   */
+  id: string;
+
+  /**
+   * The body to start with.
+   */
+  initialBody?: string;
+
+  /**
+   * The label of the submit button.
+   */
+  submitLabel: string;
+
+  /**
+   * Whether a request is being sent, which disables the form.
+   */
+  isWaiting: boolean;
+
+  /**
+   * A function sending the body, which resolves to whether the form should be cleared.
+   */
+  onSubmit: (body: string) => Promise<boolean>;
+
+  /**
+   * A function to callback on cancel, if the form can be cancelled.
+   */
+  onCancel?: () => void;
+}
+
+/**
+ * A textarea to write a comment in, with a submit button.
+ *
+ * @param {CommentFormProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const CommentForm = (props: CommentFormProps): JSX.Element => {
+  const [body, setBody] = useState<string>(props.initialBody || "");
+
+  const isEmpty: boolean = body.trim().length === 0;
+
+  return (
+    <form
+      className={"py-2"}
+      onSubmit={async (event) => {
+        event.preventDefault();
+
+        if (!isEmpty && await props.onSubmit(body)) {
+          setBody("");
+        }
+      }}
+    >
+      <textarea
+        id={props.id}
+        name={props.id}
+        rows={3}
+        maxLength={MAXIMUM_COMMENT_LENGTH}
+        className={
+          "shadow appearance-none border w-full py-2 px-3 text-gray-700 leading-tight "
+          + "focus:outline-none focus:shadow-outline"
+        }
+        placeholder={"Markdown is supported."}
+        value={body}
+        disabled={props.isWaiting}
+        onChange={(event) => setBody(event.target.value)}
+      />
+
+      <div className={"flex flex-row items-center text-sm"}>
+        <button
+          type={"submit"}
+          className={"px-2 py-1 mr-2 border hover:bg-gray-100 hover:text-black"}
+          disabled={props.isWaiting || isEmpty}
+        >
+          {props.isWaiting ? "Please wait..." : props.submitLabel}
+        </button>
+
+        {
+          props.onCancel ? (
+            <button type={"button"} className={"px-2 py-1 mr-2"} onClick={props.onCancel}>
+              Cancel
+            </button>
+          ) : <></>
+        }
+
+        <span className={"text-gray-500"}>
+          {body.length}/{MAXIMUM_COMMENT_LENGTH}
+        </span>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * The comments on a work, with replies shown one level deep under the comment they reply to.
+ *
+ * Authors can edit and delete their own comments. Staff can also hide and remove anyone's.
+ *
+ * @param {CommentThreadProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const CommentThread = (props: CommentThreadProps): JSX.Element => {
+  const {user, isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const permissions: Permission[] = usePermissions();
+
+  const canPost: boolean = permissions.includes(Permission.POST_COMMENTS);
+  const canModerate: boolean = permissions.includes(Permission.MODERATE_COMMENTS);
+  const userId: string | undefined = getUserId(user);
+
+  const dispatch: Dispatch = useDispatch();
+
+  const worksData: WorksState = useSelector((state: RootState) => state.worksData);
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isWaiting, setIsWaiting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const token: string | undefined = isAuthenticated ? (
+        await getAccessTokenSilently()
+      ) : undefined;
+
+      setComments(await fetchComments(props.work.id, token));
+    })().catch(() => setError("The comments on this work couldn't be retrieved."));
+  }, [props.work.id, isAuthenticated]);
+
+  /**
+   * Send a change to the comments, then refresh the work so its comment count is correct.
+   *
+   * @param {Function} send a function sending the change with an access token
+   * @returns {Promise<boolean>} whether the change was made
+   */
+  const change = async (send: (token: string) => Promise<Comment[]>): Promise<boolean> => {
+    setIsWaiting(true);
+
+    try {
+      setComments(await send(await getAccessTokenSilently()));
+      setError(null);
+
+      fetchWorkById(dispatch, worksData, props.work.id).then();
+
+      return true;
+    } catch (caught: unknown) {
+      setError((caught as Error).message || "That didn't work. Please try again later.");
+
+      return false;
+    } finally {
+      setIsWaiting(false);
+    }
+  };
+
+  /**
+   * @param {string} text the text of the action
+   * @param {Function} onClick a function to callback on click
+   * @returns {JSX.Element} a small link-style button under a comment
+   */
+  const renderAction = (text: string, onClick: () => void): JSX.Element => (
+    <button
+      className={"mr-3 underline hover:text-black"}
+      disabled={isWaiting}
+      onClick={onClick}
+    >
+      {text}
+    </button>
+  );
+
+  /**
+   * @param {Comment} comment a comment
+   * @returns {JSX.Element} the comment with the actions the user can take on it
+   */
+  const renderComment = (comment: Comment): JSX.Element => {
+    const isAuthor: boolean = !!userId && comment.authorId === userId;
+    const canReply: boolean = canPost && !props.isCommentingDisabled && !comment.parentId && (
+      !comment.isDeleted && !comment.isHidden
+    );
+
+    let body: JSX.Element = <Markdown markdown={comment.body} />;
+    if (comment.isDeleted) {
+      body = <p className={"py-2 italic text-gray-500"}>This comment was deleted.</p>;
+    } else if (editingId === comment.id) {
+      body = (
+        <CommentForm
+          id={`comment-edit-${comment.id}`}
+          initialBody={comment.body}
+          submitLabel={"Save"}
+          isWaiting={isWaiting}
+          onSubmit={async (text: string) => {
+            const isChanged: boolean = await change(
+              (token: string) => editComment(token, comment, text)
+            );
+
+            if (isChanged) {
+              setEditingId(null);
+            }
+
+            return isChanged;
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      );
+    }
+
+    return (
+      <div className={comment.isHidden ? "opacity-50" : ""}>
+        <p className={"text-sm text-gray-500"}>
+          <b className={"text-black"}>
+            {artistsData.artists[comment.authorId]?.name || "Unknown User"}
+          </b>
+          {" "}{moment(comment.timestamp).fromNow()}
+          {comment.editedTimestamp ? " (edited)" : ""}
+          {comment.isHidden ? " (hidden)" : ""}
+        </p>
+
+        {body}
+
+        {
+          !comment.isDeleted && editingId !== comment.id ? (
+            <div className={"text-sm text-gray-500"}>
+              {canReply ? renderAction("Reply", () => setReplyingToId(comment.id)) : <></>}
+              {
+                isAuthor && canPost ? renderAction("Edit", () => setEditingId(comment.id)) : <></>
+              }
+              {
+                isAuthor || canModerate ? renderAction(
+                  isAuthor ? "Delete" : "(ADMIN) Remove",
+                  () => change((token: string) => deleteComment(token, comment)),
+                ) : <></>
+              }
+              {
+                canModerate ? renderAction(
+                  comment.isHidden ? "(ADMIN) Show" : "(ADMIN) Hide",
+                  () => change(
+                    (token: string) => setCommentVisibility(token, comment, !comment.isHidden)
+                  ),
+                ) : <></>
+              }
+            </div>
+          ) : <></>
+        }
+      </div>
+    );
+  };
+
+  const topLevel: Comment[] = comments.filter((comment: Comment) => !comment.parentId);
+
+  let composer: JSX.Element = <></>;
+  if (props.isCommentingDisabled) {
+    composer = <p className={"py-2 text-gray-500"}>The artist has turned off comments.</p>;
+  } else if (canPost) {
+    composer = (
+      <CommentForm
+        id={"comment-new"}
+        submitLabel={"Comment"}
+        isWaiting={isWaiting}
+        onSubmit={async (text: string) => change(
+          (token: string) => postComment(token, props.work.id, {body: text})
+        )}
+      />
+    );
+  } else if (!isAuthenticated) {
+    composer = <p className={"py-2 text-gray-500"}>Log in to comment.</p>;
+  }
+
+  return (
+    <div id={"comments"} className={"px-6 py-4 max-w-5xl"}>
+      <SubHeader>
+        <FontAwesomeIcon icon={faComments} fixedWidth /> Comments
+      </SubHeader>
+
+      {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+      {
+        topLevel.length === 0 && !error ? (
+          <p className={"py-2"}>There are no comments yet.</p>
+        ) : <></>
+      }
+
+      <ul>
+        {
+          topLevel.map((comment: Comment) => (
+            <li key={comment.id} className={"py-2 border-b"}>
+              {renderComment(comment)}
+
+              <ul className={"pl-6 border-l"}>
+                {
+                  comments.filter(
+                    (reply: Comment) => reply.parentId === comment.id
+                  ).map((reply: Comment) => (
+                    <li key={reply.id} className={"py-2"}>
+                      {renderComment(reply)}
+                    </li>
+                  ))
+                }
+              </ul>
+
+              {
+                replyingToId === comment.id ? (
+                  <div className={"pl-6"}>
+                    <CommentForm
+                      id={`comment-reply-${comment.id}`}
+                      submitLabel={"Reply"}
+                      isWaiting={isWaiting}
+                      onSubmit={async (text: string) => {
+                        const isPosted: boolean = await change(
+                          (token: string) => postComment(
+                            token, props.work.id, {body: text, parentId: comment.id},
+                          )
+                        );
+
+                        if (isPosted) {
+                          setReplyingToId(null);
+                        }
+
+                        return isPosted;
+                      }}
+                      onCancel={() => setReplyingToId(null)}
+                    />
+                  </div>
+                ) : <></>
+              }
+            </li>
+          ))
+        }
+      </ul>
+
+      {composer}
+    </div>
+  );
+};
+
+export default CommentThread;
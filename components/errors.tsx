@@ -1,6 +1,8 @@
 import {faFrownOpen} from "@fortawesome/free-solid-svg-icons";
 import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
 import {ValidationError, ValidationErrorItem} from "joi";
+import moment from "moment";
+import {RateLimitError} from "../utils/connectors";
 import {UnorderedList} from "./typography";
 
 /**
@@ -47,7 +49,15 @@ export const ResponseMessages = (
   const errorElements: JSX.Element[] = [];
   props.errors.forEach(
     (error: ValidationError) => {
-      if (error.details) {
+      if (error instanceof RateLimitError) {
+        const retryAt: moment.Moment = moment(error.retryAt);
+
+        errorElements.push(
+          <li key={error.message}>
+            {error.message} You can try again {retryAt.fromNow()}, at {retryAt.format("LT")}.
+          </li>
+        );
+      } else if (error.details?.length) {
         error.details.forEach(
           (detail: ValidationErrorItem) => {
             const attemptedValue: string | undefined = detail.context?.value;
@@ -2,7 +2,15 @@
  * Reusable form components.
  */
 
-import {RefObject, SyntheticEvent} from "react";
+import {KeyboardEvent, RefObject, SyntheticEvent, useState} from "react";
+import {MAXIMUM_TAGS_PER_WORK} from "../data/constants/setup";
+import {MEDIUM_TAXONOMY, MediumCategory, MediumCategoryInfo} from "../data/core/Medium";
+import {normaliseTag, normaliseTags} from "../data/utils/tags";
+
+/**
+ * The number of suggested tags shown under a tag input.
+ */
+const SUGGESTED_TAGS_COUNT = 8;
 
 /**
  * Props for a styled text input box.
@@ -52,6 +60,11 @@ interface TextInputProps {
    * Whether the user can physically modify the input.
    */
   isDisabled?: boolean;
+
+  /**
+   * The type of the input, defaulting to text.
+   */
+  type?: string;
 }
 
 /**
@@ -76,7 +89,7 @@ export const TextInput = (props: TextInputProps): JSX.Element => {
         id={props.id}
         name={props.id}
         placeholder={props.placeholder}
-        type={"text"}
+        type={props.type || "text"}
         className={
           "shadow border w-full py-2 px-3 leading-tight my-2 required:text-red-500"
         }
@@ -183,3 +196,266 @@ export const TextareaInput = (props: TextAreaProps): JSX.Element => {
     </div>
   );
 };
+
+/**
+ * Props for a tag input.
+ */
+interface TagInputProps {
+  /**
+   * The ID and name of the text input.
+   */
+  id: string;
+
+  /**
+   * The text of the label.
+   */
+  label?: string;
+
+  /**
+   * The chosen tags, which are normalised.
+   */
+  tags: string[];
+
+  /**
+   * A map of tags in use to the number of works with each, which are suggested.
+   */
+  suggestions: Record<string, number>;
+
+  /**
+   * A function to callback when tags are added or removed.
+   */
+  changeCallback: (tags: string[]) => void;
+}
+
+/**
+ * A styled input choosing tags, which suggests tags already in use and creates new ones.
+ *
+ * A tag is added on enter or comma. The most used tags matching what's typed are suggested.
+ *
+ * @param {TagInputProps} props the props
+ * @returns {JSX.Element} the elements
+ * @constructor
+ */
+export const TagInput = (props: TagInputProps): JSX.Element => {
+  const [text, setText] = useState<string>("");
+
+  const isFull: boolean = props.tags.length >= MAXIMUM_TAGS_PER_WORK;
+  const typed: string = normaliseTag(text);
+
+  const suggested: string[] = Object.entries(props.suggestions).filter(
+    ([tag]) => !props.tags.includes(tag) && tag.startsWith(typed)
+  ).sort(
+    ([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB)
+  ).slice(0, SUGGESTED_TAGS_COUNT).map(([tag]) => tag);
+
+  /**
+   * @param {string} tag the tag to add as written
+   */
+  const add = (tag: string) => {
+    props.changeCallback(normaliseTags([...props.tags, tag]));
+    setText("");
+  };
+
+  /**
+   * @param {KeyboardEvent<HTMLInputElement>} event the key press, which adds the tag on enter
+   */
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+
+      if (typed) {
+        add(typed);
+      }
+    }
+  };
+
+  return (
+    <>
+      {
+        props.label ?
+          <label className={"block text-gray-700 text-sm font-bold my-2"} htmlFor={props.id}>
+            {props.label}
+          </label> : <></>
+      }
+
+      <div className={"flex flex-row flex-wrap items-center"}>
+        {
+          props.tags.map((tag: string) => (
+            <button
+              key={tag}
+              type={"button"}
+              className={"px-2 py-1 mr-2 mb-1 text-sm border bg-gray-100 hover:line-through"}
+              title={"Remove"}
+              onClick={() => props.changeCallback(props.tags.filter(
+                (candidate: string) => candidate !== tag
+              ))}
+            >
+              #{tag}
+            </button>
+          ))
+        }
+      </div>
+
+      <input
+        id={props.id}
+        name={props.id}
+        placeholder={
+          isFull ? `Up to ${MAXIMUM_TAGS_PER_WORK} tags.` : "Type a tag, then press enter."
+        }
+        className={"shadow border w-full py-2 px-3 leading-tight my-2"}
+        value={text}
+        disabled={isFull}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={onKeyDown}
+      />
+
+      {
+        !isFull && suggested.length > 0 ? (
+          <p className={"text-sm text-gray-500"}>
+            Suggestions:
+            {
+              suggested.map((tag: string) => (
+                <button
+                  key={tag}
+                  type={"button"}
+                  className={"ml-2 underline hover:text-black"}
+                  onClick={() => add(tag)}
+                >
+                  #{tag} ({props.suggestions[tag]})
+                </button>
+              ))
+            }
+          </p>
+        ) : <></>
+      }
+    </>
+  );
+};
+
+/**
+ * Props for a medium input.
+ */
+interface MediumInputProps {
+  /**
+   * The ID and name of the category select. The other inputs are suffixed.
+   */
+  id: string;
+
+  /**
+   * The text of the label.
+   */
+  label?: string;
+
+  /**
+   * The chosen category, if any.
+   */
+  category?: MediumCategory;
+
+  /**
+   * The chosen subtype within the category, if any.
+   */
+  subtype?: string;
+
+  /**
+   * The medium in the artist's own words, which is only kept for "other" and older works.
+   */
+  text: string;
+
+  /**
+   * A function to callback when the category, subtype or text changes.
+   */
+  changeCallback: (
+    category: MediumCategory | undefined, subtype: string | undefined, text: string,
+  ) => void;
+}
+
+/**
+ * A styled input choosing a medium from the taxonomy, with an "other" category the artist
+ * describes in their own words.
+ *
+ * @param {MediumInputProps} props the props
+ * @returns {JSX.Element} the elements
+ * @constructor
+ */
+export const MediumInput = (props: MediumInputProps): JSX.Element => {
+  const info: MediumCategoryInfo | undefined = props.category ? (
+    MEDIUM_TAXONOMY[props.category]
+  ) : undefined;
+
+  const className: string = "shadow border py-2 px-3 mr-2 my-2 leading-tight";
+
+  return (
+    <>
+      {
+        props.label ?
+          <label className={"block text-gray-700 text-sm font-bold my-2"} htmlFor={props.id}>
+            {props.label}
+          </label> : <></>
+      }
+
+      <div className={"flex flex-row flex-wrap items-center"}>
+        <select
+          id={props.id}
+          name={props.id}
+          className={className}
+          value={props.category || ""}
+          onChange={(event) => props.changeCallback(
+            event.target.value as MediumCategory || undefined, undefined, props.text,
+          )}
+        >
+          <option value={""}>Choose a medium...</option>
+          {
+            Object.values(MediumCategory).map((category: MediumCategory) => (
+              <option key={category} value={category}>{MEDIUM_TAXONOMY[category].label}</option>
+            ))
+          }
+        </select>
+
+        {
+          info && Object.keys(info.subtypes).length > 0 ? (
+            <select
+              id={`${props.id}-subtype`}
+              name={`${props.id}-subtype`}
+              className={className}
+              value={props.subtype || ""}
+              onChange={(event) => props.changeCallback(
+                props.category, event.target.value || undefined, props.text,
+              )}
+            >
+              <option value={""}>Any {info.label.toLowerCase()}</option>
+              {
+                Object.entries(info.subtypes).map(([subtype, label]) => (
+                  <option key={subtype} value={subtype}>{label}</option>
+                ))
+              }
+            </select>
+          ) : <></>
+        }
+
+        {
+          props.category === MediumCategory.OTHER ? (
+            <input
+              id={`${props.id}-text`}
+              name={`${props.id}-text`}
+              className={`${className} flex-grow`}
+              placeholder={"Describe the medium"}
+              maxLength={128}
+              value={props.text}
+              onChange={(event) => props.changeCallback(
+                props.category, undefined, event.target.value,
+              )}
+            />
+          ) : <></>
+        }
+      </div>
+
+      {
+        !props.category && props.text ? (
+          <p className={"text-sm text-gray-500"}>
+            Currently written as <i>{props.text}</i>. Choose a medium to replace it.
+          </p>
+        ) : <></>
+      }
+    </>
+  );
+};
@@ -6,9 +6,11 @@ import Link from "next/link";
 import {useDispatch, useSelector} from "react-redux";
 import {Dispatch} from "redux";
 import removeMd from "remove-markdown";
+import UserReaction from "../data/core/Reaction";
 import {RootState, WorksState} from "../store/state";
 import {approveWorks} from "../utils/connectors";
 import InterfaceLink from "./interface-link";
+import ReactionBar from "./reaction-bar";
 
 /**
  * The props on the {@link GalleryItem}.
@@ -25,7 +27,7 @@ interface ItemProps {
   title: string;
 
   /**
-   * The name of the artist.
+   * The names of every artist credited on the work, joined to read naturally.
    */
   artist: string;
 
@@ -63,6 +65,16 @@ interface ItemProps {
    * Whether the approval icon should be placed on the gallery item.
    */
   isEditor?: boolean;
+
+  /**
+   * Whether the reactions to the work should be shown, which they are for approved works.
+   */
+  isReactable?: boolean;
+
+  /**
+   * How the authenticated user has reacted to the work, if at all.
+   */
+  reaction?: UserReaction;
 }
 
 /**
@@ -135,6 +147,13 @@ const GalleryItem = (props: ItemProps) => {
           </div>
         </div>
 
+        {
+          props.isReactable ?
+            <div className={"px-2 pt-2 xl:hidden"} style={{maxWidth: 800}}>
+              <ReactionBar workId={props.id} reaction={props.reaction} />
+            </div> : <></>
+        }
+
         <div className={"px-2 py-2 2xl:hidden"} style={{maxWidth: 824}}>
           <hr className={"border-t"} />
         </div>
@@ -169,6 +188,13 @@ const GalleryItem = (props: ItemProps) => {
               {description}
             </p>
 
+            {
+              props.isReactable ?
+                <div className={"pt-4 px-4"}>
+                  <ReactionBar workId={props.id} reaction={props.reaction} />
+                </div> : <></>
+            }
+
             <p className={"pt-8 px-4 hidden xl:block"}>
               <InterfaceLink
                 location={`/works/${props.id}`}
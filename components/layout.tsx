@@ -13,9 +13,9 @@ const Layout = ({children}: PropsWithChildren<unknown>) => {
     <>
 
       <div className={"md:flex md:flex-row"}>
-        {/* Create a sticky sidebar: */}
+        {/* Create a sticky sidebar, which is left out of printed pages: */}
 
-        <aside className={"md:h-screen sticky top-0"}>
+        <aside className={"md:h-screen sticky top-0 print:hidden"}>
           <Sidebar />
         </aside>
 
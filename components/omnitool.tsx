@@ -5,23 +5,50 @@ import {
   faAngleLeft,
   faAngleRight,
   faFilter,
+  faHeart,
   faRandom,
+  faSearch,
   faSortAmountDown,
   faSortAmountUp,
+  faTags,
   faTimes
 } from "@fortawesome/free-solid-svg-icons";
 import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
 import Link from "next/link";
 import {useRouter} from "next/router";
 import {ParsedUrlQuery} from "querystring";
-import {useState} from "react";
+import {FormEvent, useEffect, useState} from "react";
+import {MEDIUM_TAXONOMY, MediumCategory} from "../data/core/Medium";
+import {getMediumKey} from "../data/utils/mediums";
+import SeasonSwitcher from "./season-switcher";
 
 interface OmnitoolProps {
   artist: string | undefined;
   week: string | number | undefined;
+
+  /**
+   * The tag the works are filtered by, if any.
+   */
+  tag: string | undefined;
+
+  /**
+   * The key of the category or subtype of medium the works are filtered by, if any.
+   */
+  medium?: string;
+
+  /**
+   * A map of the keys of mediums to the number of works in each, shown beside the medium filter.
+   */
+  mediumCounts?: Record<string, number>;
   sort: string | undefined;
   search: string | undefined;
   page: string | number | undefined;
+  year: number;
+
+  /**
+   * Whether there are more works after the current page. Assumed if not provided.
+   */
+  hasNextPage?: boolean;
 }
 
 /**
@@ -57,6 +84,53 @@ const Omnitool = (props: OmnitoolProps): JSX.Element => {
 
   _nextPage.p = (parseInt(page) + 1).toString();
 
+  // The search box only changes the address bar when submitted, which also resets the page.
+
+  const [searchText, setSearchText] = useState<string>(props.search || "");
+
+  useEffect(() => setSearchText(props.search || ""), [props.search]);
+
+  const submitSearch = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const _search: ParsedUrlQuery = Object.fromEntries(Object.entries(query));
+
+    delete _search.p;
+
+    if (searchText.trim()) {
+      _search.q = searchText.trim();
+    } else {
+      delete _search.q;
+    }
+
+    router.push({query: _search}).then();
+  };
+
+  // Clearing the tag shows every work again from the first page.
+
+  const _clearTag: ParsedUrlQuery = Object.fromEntries(Object.entries(query));
+
+  delete _clearTag.tag;
+  delete _clearTag.p;
+
+  // Choosing a medium shows the works in it from the first page.
+
+  const chooseMedium = (key: string) => {
+    const _medium: ParsedUrlQuery = Object.fromEntries(Object.entries(query));
+
+    delete _medium.p;
+
+    if (key) {
+      _medium.medium = key;
+    } else {
+      delete _medium.medium;
+    }
+
+    router.push({query: _medium}).then();
+  };
+
+  const mediumCounts: Record<string, number> = props.mediumCounts || {};
+
   const _sortDescending: ParsedUrlQuery = Object.fromEntries(Object.entries(query));
 
   _sortDescending.sort = "descending";
@@ -70,12 +144,22 @@ const Omnitool = (props: OmnitoolProps): JSX.Element => {
   _sortRandom.sort = "random";
   _sortRandom.p = "1";
 
+  // The most loved works are of the latest week unless a week is chosen.
+
+  const _sortLoved: ParsedUrlQuery = Object.fromEntries(Object.entries(query));
+
+  _sortLoved.sort = "loved";
+  _sortLoved.p = "1";
+
   const previousPageText = Object.entries(_previousPage).map(([key, value]) => {
     return `${key}=${value}`;
   }).join("&");
   const nextPageText = Object.entries(_nextPage).map(([key, value]) => {
     return `${key}=${value}`;
   }).join("&");
+  const clearTagText = Object.entries(_clearTag).map(([key, value]) => {
+    return `${key}=${value}`;
+  }).join("&");
   const sortDescendingText = Object.entries(_sortDescending).map(([key, value]) => {
     return `${key}=${value}`;
   }).join("&");
@@ -85,6 +169,9 @@ const Omnitool = (props: OmnitoolProps): JSX.Element => {
   const sortRandomText = Object.entries(_sortRandom).map(([key, value]) => {
     return `${key}=${value}`;
   }).join("&");
+  const sortLovedText = Object.entries(_sortLoved).map(([key, value]) => {
+    return `${key}=${value}`;
+  }).join("&");
 
   return isOpen ? (
     <div
@@ -121,17 +208,25 @@ const Omnitool = (props: OmnitoolProps): JSX.Element => {
 
         <p className={"px-2"}>Page {page}</p>
 
-        <span>
-          <Link href={`?${nextPageText}`} legacyBehavior>
-            <a className={"hover:bg-gray-100 p-3 m-1 hover:text-black"}>
+        {
+          props.hasNextPage !== false ? (
+            <span>
+              <Link href={`?${nextPageText}`} legacyBehavior>
+                <a className={"hover:bg-gray-100 p-3 m-1 hover:text-black"}>
+                  <FontAwesomeIcon icon={faAngleRight} fixedWidth />
+                </a>
+              </Link>
+            </span>
+          ) : (
+            <span className={"p-3 m-1 opacity-50"}>
               <FontAwesomeIcon icon={faAngleRight} fixedWidth />
-            </a>
-          </Link>
-        </span>
+            </span>
+          )
+        }
       </div>
 
       {
-        props.week || props.artist ?
+        props.week || props.artist || props.tag ?
           <div className={"flex flex-row py-2 justify-center"}>
             <span>
               <FontAwesomeIcon icon={faFilter} />
@@ -152,9 +247,95 @@ const Omnitool = (props: OmnitoolProps): JSX.Element => {
                 </p>
               ) : <></>
             }
+
+            {
+              props.tag ? (
+                <p className={"px-2 text-center"}>
+                  <b>Tag:</b> {props.tag}
+                  <Link href={`?${clearTagText}`} legacyBehavior>
+                    <a className={"hover:bg-gray-100 px-1 ml-1 hover:text-black"} title={"Clear"}>
+                      <FontAwesomeIcon icon={faTimes} fixedWidth />
+                    </a>
+                  </Link>
+                </p>
+              ) : <></>
+            }
           </div> : <></>
       }
 
+      <form className={"flex flex-row px-2 py-2 justify-center"} onSubmit={submitSearch}>
+        <input
+          id={"search"}
+          name={"search"}
+          type={"search"}
+          aria-label={"Search works"}
+          placeholder={"Search titles, artists..."}
+          className={"flex-grow min-w-0 px-3 py-2 text-black leading-tight focus:outline-none"}
+          value={searchText}
+          onChange={(event) => setSearchText(event.target.value)}
+        />
+
+        <button type={"submit"} className={"hover:bg-gray-100 px-3 ml-1 hover:text-black"}>
+          <FontAwesomeIcon icon={faSearch} fixedWidth />
+        </button>
+      </form>
+
+      {
+        props.search ? (
+          <div className={"flex flex-row py-2 justify-center"}>
+            <p className={"px-2 text-center"}>
+              <b>Search:</b> {props.search}
+            </p>
+          </div>
+        ) : <></>
+      }
+
+      <div className={"flex flex-row px-2 py-2 justify-center items-center"}>
+        <label className={"px-2"} htmlFor={"medium-filter"}>
+          <b>Medium:</b>
+        </label>
+
+        <select
+          id={"medium-filter"}
+          name={"medium-filter"}
+          className={"flex-grow min-w-0 px-2 py-1 text-black"}
+          value={props.medium || ""}
+          onChange={(event) => chooseMedium(event.target.value)}
+        >
+          <option value={""}>All mediums</option>
+          {
+            Object.values(MediumCategory).filter(
+              (category: MediumCategory) => mediumCounts[category] || props.medium === category
+            ).map((category: MediumCategory) => [
+              <option key={category} value={category}>
+                {MEDIUM_TAXONOMY[category].label} ({mediumCounts[category] || 0})
+              </option>,
+              ...Object.entries(MEDIUM_TAXONOMY[category].subtypes).map(([subtype, label]) => {
+                const key: string = getMediumKey({category: category, subtype: subtype});
+
+                return mediumCounts[key] || props.medium === key ? (
+                  <option key={key} value={key}>
+                    &nbsp;&nbsp;{label} ({mediumCounts[key] || 0})
+                  </option>
+                ) : null;
+              }),
+            ])
+          }
+        </select>
+      </div>
+
+      <div className={"flex flex-row py-2 justify-center"}>
+        <Link href={"/tags"} legacyBehavior>
+          <a className={"hover:bg-gray-100 px-3 py-1 hover:text-black"}>
+            <FontAwesomeIcon icon={faTags} fixedWidth /> Browse Tags
+          </a>
+        </Link>
+      </div>
+
+      <div className={"flex flex-row px-2 justify-center"}>
+        <SeasonSwitcher year={props.year} resetKeys={["week", "p"]} />
+      </div>
+
       <div className={"flex flex-row py-2 justify-center items-center"}>
         <p className={"px-2 text-center"}>
           <b>Sort:</b>
@@ -195,6 +376,21 @@ const Omnitool = (props: OmnitoolProps): JSX.Element => {
             </a>
           </Link>
         </span>
+
+        <span>
+          <Link href={`?${sortLovedText}`} legacyBehavior>
+            <a
+              className={
+                "hover:bg-gray-100 p-3 m-1 hover:text-black " + (
+                  sort === "loved" ? "bg-gray-200 text-black" : ""
+                )
+              }
+              title={"Most loved this week"}
+            >
+              <FontAwesomeIcon icon={faHeart} />
+            </a>
+          </Link>
+        </span>
       </div>
     </div>
   ) : (
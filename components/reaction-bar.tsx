@@ -0,0 +1,150 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faBookmark, faComment} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import Link from "next/link";
+import {useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import UserReaction, {REACTION_SYMBOLS, ReactionEmoji} from "../data/core/Reaction";
+import {Permission} from "../data/core/Role";
+import Work from "../data/core/Work";
+import {ReactionsState, RootState, WorksState} from "../store/state";
+import {getUserId, usePermissions} from "../utils/auth";
+import {favouriteWork, reactToWork} from "../utils/connectors";
+
+/**
+ * The props on the {@link ReactionBar}.
+ */
+interface ReactionBarProps {
+  /**
+   * The ID of the work, which must already be cached.
+   */
+  workId: string;
+
+  /**
+   * How the authenticated user has reacted to the work, if at all.
+   */
+  reaction?: UserReaction;
+}
+
+/**
+ * The reactions to a work and its favourites, which the authenticated user can toggle.
+ *
+ * Anonymous and banned users only see the counts. The number of comments links to them.
+ *
+ * @param {ReactionBarProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const ReactionBar = (props: ReactionBarProps): JSX.Element => {
+  const {user, isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const permissions: Permission[] = usePermissions();
+
+  const dispatch: Dispatch = useDispatch();
+
+  const worksData: WorksState = useSelector((state: RootState) => state.worksData);
+  const reactionsData: ReactionsState = useSelector((state: RootState) => state.reactionsData);
+
+  const [isWaiting, setIsWaiting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const work: Work | undefined = worksData.works[props.workId];
+  const userId: string | undefined = getUserId(user);
+
+  if (!work) {
+    return <></>;
+  }
+
+  const canReact: boolean = (
+    isAuthenticated && !!userId && permissions.includes(Permission.REACT) && !isWaiting
+  );
+
+  /**
+   * Send a change to the user's reaction, ignoring clicks while one is being sent.
+   *
+   * @param {Function} send a function sending the change with an access token
+   */
+  const change = async (send: (token: string, userId: string) => Promise<void>) => {
+    if (!canReact || !userId) {
+      return;
+    }
+
+    setIsWaiting(true);
+
+    try {
+      await send(await getAccessTokenSilently(), userId);
+
+      setError(null);
+    } catch (caught: unknown) {
+      setError((caught as Error).message || "That didn't work. Please try again later.");
+    } finally {
+      setIsWaiting(false);
+    }
+  };
+
+  /**
+   * @param {boolean} isActive whether the user has reacted this way
+   * @returns {string} the classes of a reaction button
+   */
+  const buttonClasses = (isActive: boolean): string => (
+    "px-2 py-1 mr-1 mb-1 border text-sm " + (
+      isActive ? "bg-gray-200 text-black border-gray-400" : "border-gray-200"
+    ) + (
+      canReact ? " hover:bg-gray-100 hover:text-black" : " cursor-default"
+    )
+  );
+
+  const isFavourite = !!props.reaction?.favouritedTimestamp;
+
+  return (
+    <div className={"flex flex-row flex-wrap items-center"}>
+      {
+        Object.values(ReactionEmoji).map((emoji: ReactionEmoji) => {
+          const isReacting: boolean = !!props.reaction?.emojis.includes(emoji);
+
+          return (
+            <button
+              key={emoji}
+              className={buttonClasses(isReacting)}
+              title={isAuthenticated ? `React with ${emoji}` : "Log in to react"}
+              aria-pressed={isReacting}
+              disabled={!canReact}
+              onClick={
+                () => change((token: string, id: string) => reactToWork(
+                  dispatch, reactionsData, token, id, work.id, emoji, !isReacting,
+                ))
+              }
+            >
+              {REACTION_SYMBOLS[emoji]} {work.reactionCounts?.[emoji] || 0}
+            </button>
+          );
+        })
+      }
+
+      <button
+        className={buttonClasses(isFavourite)}
+        title={isAuthenticated ? "Favourite" : "Log in to add favourites"}
+        aria-pressed={isFavourite}
+        disabled={!canReact}
+        onClick={
+          () => change((token: string, id: string) => favouriteWork(
+            dispatch, reactionsData, token, id, work.id, !isFavourite,
+          ))
+        }
+      >
+        <FontAwesomeIcon icon={faBookmark} /> {work.favouritesCount || 0}
+      </button>
+
+      <Link href={`/works/${work.id}#comments`} legacyBehavior>
+        <a className={"px-2 py-1 mr-1 mb-1 border border-gray-200 text-sm hover:bg-gray-100"}>
+          <FontAwesomeIcon icon={faComment} /> {work.commentsCount || 0}
+        </a>
+      </Link>
+
+      {error ? <p className={"w-full text-sm text-red-700"}>{error}</p> : <></>}
+    </div>
+  );
+};
+
+export default ReactionBar;
@@ -0,0 +1,227 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faHistory, faUndo} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import moment from "moment";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import Page from "../data/core/Page";
+import Revision, {RevisionHeader} from "../data/core/Revision";
+import Work, {UrlItem} from "../data/core/Work";
+import {ArtistsState, RootState} from "../store/state";
+import {fetchRevision, fetchRevisions, revertWork} from "../utils/connectors";
+import InterfaceLink from "./interface-link";
+import {SubHeader} from "./typography";
+
+/**
+ * The props on the {@link RevisionHistory}.
+ */
+interface RevisionHistoryProps {
+  /**
+   * The work as it is now.
+   */
+  work: Work;
+
+  /**
+   * Whether the user can revert the work to a revision.
+   */
+  canRevert?: boolean;
+}
+
+/**
+ * Describe the fields of a revision that are compared.
+ *
+ * @param {Revision | undefined} revision the revision, if there is one
+ * @returns {Record<string, string>} a map of labels to the value of each field
+ */
+const describeRevision = (revision?: Revision): Record<string, string> => {
+  return {
+    "Title": revision?.title || "",
+    "Medium": revision?.medium || "",
+    "Description": revision?.description || "",
+    "Weeks": revision?.weekNumbers.join(", ") || "",
+    "Items": revision?.items.map((item: UrlItem) => item.url).join("\n") || "",
+    "Thumbnail": revision?.thumbnailUrl || "",
+  };
+};
+
+/**
+ * The revisions of a work, where any revision can be compared side by side with the one before.
+ *
+ * @param {RevisionHistoryProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const RevisionHistory = (props: RevisionHistoryProps): JSX.Element => {
+  const {getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch: Dispatch = useDispatch();
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const [headers, setHeaders] = useState<RevisionHeader[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<Record<string, Revision>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the first or next page of revisions.
+   *
+   * @param {string | undefined} cursor the cursor of the page, if not the first
+   */
+  const loadHeaders = async (cursor?: string) => {
+    try {
+      const page: Page<RevisionHeader> = await fetchRevisions(
+        await getAccessTokenSilently(), props.work.id, cursor,
+      );
+
+      setHeaders((current: RevisionHeader[]) => [...(cursor ? current : []), ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch {
+      setError("The history of this work couldn't be retrieved.");
+    }
+  };
+
+  useEffect(() => {
+    setSelectedId(null);
+
+    loadHeaders().then();
+  }, [props.work.id]);
+
+  // The selected revision is compared with the one saved before it, which is next in the list.
+
+  const selectedIndex: number = headers.findIndex(
+    (header: RevisionHeader) => header.id === selectedId
+  );
+
+  const previousId: string | undefined = selectedIndex >= 0 ? (
+    headers[selectedIndex + 1]?.id
+  ) : undefined;
+
+  useEffect(() => {
+    const missingIds: string[] = [selectedId, previousId].filter(
+      (id: string | null | undefined): id is string => !!id && !revisions[id]
+    );
+
+    if (missingIds.length > 0) {
+      getAccessTokenSilently().then(async (token: string) => {
+        const fetched: Revision[] = await Promise.all(missingIds.map(
+          (id: string) => fetchRevision(token, props.work.id, id)
+        ));
+
+        setRevisions((current: Record<string, Revision>) => ({
+          ...current,
+          ...Object.fromEntries(fetched.map((revision: Revision) => [revision.id, revision])),
+        }));
+      }).catch(() => setError("That revision couldn't be retrieved."));
+    }
+  }, [selectedId, previousId]);
+
+  const selected: Revision | undefined = selectedId ? revisions[selectedId] : undefined;
+  const previous: Revision | undefined = previousId ? revisions[previousId] : undefined;
+
+  /**
+   * @param {string} id the Discord ID of an editor
+   * @returns {string} the name of the editor, or their ID if they aren't known
+   */
+  const getEditorName = (id: string): string => artistsData.artists[id]?.name || id;
+
+  const comparison: JSX.Element = selected ? (
+    <div className={"py-4"}>
+      <div className={"grid grid-cols-3 gap-2 font-bold border-b py-2"}>
+        <span />
+        <span>{previous ? moment(previous.timestamp).format("LLL") : "Before"}</span>
+        <span>{moment(selected.timestamp).format("LLL")}</span>
+      </div>
+
+      {
+        Object.entries(describeRevision(selected)).map(([label, after]) => {
+          const before: string = describeRevision(previous)[label];
+
+          return (
+            <div
+              key={label}
+              className={
+                `grid grid-cols-3 gap-2 border-b py-2 ${before !== after ? "bg-yellow-50" : ""}`
+              }
+            >
+              <span className={"font-bold"}>{label}</span>
+              <span className={"whitespace-pre-wrap break-all"}>{before}</span>
+              <span className={"whitespace-pre-wrap break-all"}>{after}</span>
+            </div>
+          );
+        })
+      }
+
+      {
+        props.canRevert && selectedIndex > 0 ? (
+          <InterfaceLink
+            title={"(ADMIN) Revert to This Revision"}
+            location={"#"}
+            icon={<FontAwesomeIcon icon={faUndo} fixedWidth />}
+            customWaitMessage={"Please wait..."}
+            clickBack={
+              async () => {
+                await revertWork(
+                  dispatch, await getAccessTokenSilently(), props.work.id, selected.id,
+                );
+
+                setSelectedId(null);
+
+                await loadHeaders();
+              }
+            }
+          />
+        ) : <></>
+      }
+    </div>
+  ) : <></>;
+
+  return (
+    <div className={"px-6 py-4 max-w-5xl"}>
+      <SubHeader>
+        <FontAwesomeIcon icon={faHistory} fixedWidth /> History
+      </SubHeader>
+
+      {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+      <ul>
+        {
+          headers.map((header: RevisionHeader, index: number) => (
+            <li key={header.id} className={"py-1"}>
+              <a
+                href={"#"}
+                className={header.id === selectedId ? "font-bold" : "underline"}
+                onClick={(event) => {
+                  event.preventDefault();
+
+                  setSelectedId(header.id === selectedId ? null : header.id);
+                }}
+              >
+                {moment(header.timestamp).format("LLL")}
+              </a>
+              {" "}by {getEditorName(header.editorId)}
+              {index === 0 ? " (current)" : ""}
+              {header.revertedFrom ? " (reverted)" : ""}
+            </li>
+          ))
+        }
+      </ul>
+
+      {
+        nextCursor ? (
+          <InterfaceLink
+            title={"Load More"}
+            location={"#"}
+            customWaitMessage={"Please wait..."}
+            clickBack={async () => loadHeaders(nextCursor)}
+          />
+        ) : <></>
+      }
+
+      {comparison}
+    </div>
+  );
+};
+
+export default RevisionHistory;
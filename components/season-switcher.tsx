@@ -0,0 +1,93 @@
+import Link from "next/link";
+import {useRouter} from "next/router";
+import {ParsedUrlQuery} from "querystring";
+import {useEffect} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import Season, {SeasonStatus} from "../data/core/Season";
+import {getSortedSeasons} from "../data/utils/seasons";
+import {RootState, SeasonsState} from "../store/state";
+import {fetchSeasons} from "../utils/connectors";
+
+/**
+ * The props of the {@link SeasonSwitcher}.
+ */
+interface SeasonSwitcherProps {
+  /**
+   * The year of the currently selected season.
+   */
+  year: number;
+
+  /**
+   * Query string keys to drop when switching, e.g., a week that only exists in one season.
+   */
+  resetKeys?: string[];
+}
+
+/**
+ * A row of links that switches the season shown on the current page via the `year` query.
+ *
+ * @param {SeasonSwitcherProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const SeasonSwitcher = (props: SeasonSwitcherProps): JSX.Element => {
+  const dispatch: Dispatch = useDispatch();
+  const seasonsData: SeasonsState = useSelector((state: RootState) => state.seasonsData);
+
+  useEffect(() => {
+    fetchSeasons(dispatch, seasonsData).then();
+  }, []);
+
+  const router = useRouter();
+  const query: ParsedUrlQuery = router.query;
+
+  const seasons: Season[] = getSortedSeasons(seasonsData.seasons);
+
+  // There's nothing to switch between if there's only one season.
+
+  if (seasons.length < 2) {
+    return <></>;
+  }
+
+  return (
+    <div className={"flex flex-row flex-wrap py-2 items-center"}>
+      <p className={"pr-2"}>
+        <b>Season:</b>
+      </p>
+
+      {
+        seasons.map((season: Season) => {
+          const seasonQuery: ParsedUrlQuery = Object.fromEntries(
+            Object.entries(query).filter(([key]) => !(props.resetKeys || []).includes(key))
+          );
+
+          seasonQuery.year = season.year.toString();
+
+          const seasonQueryText = Object.entries(seasonQuery).map(([key, value]) => {
+            return `${key}=${value}`;
+          }).join("&");
+
+          return (
+            <span key={season.year}>
+              <Link href={`?${seasonQueryText}`} legacyBehavior>
+                <a
+                  className={
+                    "hover:bg-gray-100 px-3 py-1 m-1 hover:text-black " + (
+                      season.year === props.year ? "bg-gray-200 text-black" : ""
+                    )
+                  }
+                  title={season.status === SeasonStatus.ARCHIVED ? "Archived" : "Active"}
+                >
+                  {season.year}
+                </a>
+              </Link>
+            </span>
+          );
+        })
+      }
+    </div>
+  );
+};
+
+export default SeasonSwitcher;
@@ -8,19 +8,26 @@ import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
 import {faDiscord, faGithub, faTwitch} from "@fortawesome/free-brands-svg-icons";
 import {
   faBars,
+  faBookmark,
+  faClipboardList,
   faClock,
   faHardHat,
   faLink,
+  faPalette,
+  faPaperPlane,
   faQuestionCircle,
   faTimes,
-  faUser
+  faTrash,
+  faUser,
+  faUsers
 } from "@fortawesome/free-solid-svg-icons";
 import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
 import moment from "moment";
 import Link from "next/link";
 import {ReactNode, useState} from "react";
 import Countdown, {CountdownRendererFn, CountdownRenderProps} from "react-countdown";
-import {getIsEditor} from "../utils/auth";
+import {Permission} from "../data/core/Role";
+import {usePermissions} from "../utils/auth";
 import {getDateOfNextEvent, getNatureOfNextEvent} from "../utils/time";
 import InterfaceLink from "./interface-link";
 import SquareLink from "./square-link";
@@ -110,7 +117,12 @@ const Sidebar = (): JSX.Element => {
     user, isLoading, isAuthenticated, loginWithRedirect, logout
   }: Auth0ContextInterface = useAuth0();
 
-  const isEditor = getIsEditor(user);
+  const permissions: Permission[] = usePermissions();
+
+  const isEditor: boolean = permissions.includes(Permission.MODERATE_WORKS);
+  const canEditAnyWork: boolean = permissions.includes(Permission.EDIT_ANY_WORK);
+  const isAuditor: boolean = permissions.includes(Permission.VIEW_AUDIT_LOG);
+  const isMaintainer: boolean = permissions.includes(Permission.MAINTAIN_STORAGE);
 
   const loading = <InterfaceLink title={"Loading..."} />;
   const auth = isAuthenticated ? (
@@ -132,6 +144,20 @@ const Sidebar = (): JSX.Element => {
 
       <InterfaceLink location={"/works/submit"} title={"Submit"} nextLink />
 
+      <InterfaceLink
+        location={"/works/favourites"}
+        title={"Favourites"}
+        icon={<FontAwesomeIcon icon={faBookmark} fixedWidth />}
+        nextLink
+      />
+
+      <InterfaceLink
+        location={"/works/invitations"}
+        title={"Invitations"}
+        icon={<FontAwesomeIcon icon={faUsers} fixedWidth />}
+        nextLink
+      />
+
       {
         isEditor ?
           <InterfaceLink
@@ -142,6 +168,50 @@ const Sidebar = (): JSX.Element => {
           />
           : <></>
       }
+
+      {
+        isEditor ?
+          <InterfaceLink
+            location={"/works/trash"}
+            title={"Trash"}
+            icon={<FontAwesomeIcon icon={faTrash} fixedWidth />}
+            nextLink
+          />
+          : <></>
+      }
+
+      {
+        canEditAnyWork ?
+          <InterfaceLink
+            location={"/works/mediums"}
+            title={"Mediums"}
+            icon={<FontAwesomeIcon icon={faPalette} fixedWidth />}
+            nextLink
+          />
+          : <></>
+      }
+
+      {
+        isAuditor ?
+          <InterfaceLink
+            location={"/audit"}
+            title={"Audit Log"}
+            icon={<FontAwesomeIcon icon={faClipboardList} fixedWidth />}
+            nextLink
+          />
+          : <></>
+      }
+
+      {
+        isMaintainer ?
+          <InterfaceLink
+            location={"/deliveries"}
+            title={"Discord Outbox"}
+            icon={<FontAwesomeIcon icon={faPaperPlane} fixedWidth />}
+            nextLink
+          />
+          : <></>
+      }
     </>
   ) : (
     <>
@@ -208,6 +278,7 @@ const Sidebar = (): JSX.Element => {
 
             <InterfaceLink location={"/weeks/"} title={"Weeks"} nextLink />
             <InterfaceLink location={"/artists/"} title={"Artists"} nextLink />
+            <InterfaceLink location={"/tags/"} title={"Tags"} nextLink />
 
             <div className={"my-5"} />
 
@@ -3,19 +3,29 @@
  */
 
 /**
- * The active year.
+ * The year of the first season.
+ *
+ * Seasons are stored in the backend. This is only used as the fallback when no season has been
+ * marked as active yet, e.g., before the first season is created.
+ */
+export const FALLBACK_SEASON_YEAR = 2022;
+
+/**
+ * The number of weeks in the fallback season.
  */
-export const ACTIVE_YEAR = 2022;
+export const FALLBACK_SEASON_WEEK_COUNT = 16;
 
 /**
- * The last active week number.
+ * The maximum number of weeks any one season can have.
+ *
+ * The actual number of weeks is set per season. This is just a hard upper bound for validation.
  */
-export const LAST_ACTIVE_WEEK = 16;
+export const MAXIMUM_WEEKS_PER_SEASON = 52;
 
 /**
- * The prompt release day as a number.
+ * The default prompt release day as a number.
  *
- * "0" means "Sunday".
+ * "0" means "Sunday". Each season can override this in its schedule.
  */
 export const PROMPT_RELEASE_DAY = 0;
 
@@ -25,9 +35,9 @@ export const PROMPT_RELEASE_DAY = 0;
 export const PROMPT_RELEASE_HOUR = 12;
 
 /**
- * The showcase day as a number.
+ * The default showcase day as a number.
  *
- * "6" means "Saturday".
+ * "6" means "Saturday". Each season can override this in its schedule.
  */
 export const SHOWCASE_DAY = 6;
 
@@ -55,13 +65,16 @@ export const SHOWCASE_DATE_REPLACERS: Record<string, { day: number; hour: number
 export const APP_COLOR = 8158432;
 
 /**
- * The editors.
+ * The owners.
+ *
+ * These users always have the owner role no matter what is stored in the backend, which is how
+ * the first roles are granted. All other roles are managed through the API.
  *
  * These are public-facing IDs and do not need to be private. Unless an attacker got control of
  * the entire source code publishing and deployment controls, access control of API endpoints is
  * safe from any users.
  */
-export const EDITORS: string[] = [
+export const OWNERS: string[] = [
   "212546139029766144", "453857853367910403",
 ];
 
@@ -85,6 +98,50 @@ export const MAXIMUM_CONTENT_LENGTH = 16 * 1024 * 1024;
  */
 export const MAXIMUM_FILES_PER_WORK = 8;
 
+/**
+ * The maximum number of collaborators credited on or invited to a work, besides its artist.
+ */
+export const MAXIMUM_COLLABORATORS_PER_WORK = 8;
+
+/**
+ * The maximum number of tags on a work.
+ */
+export const MAXIMUM_TAGS_PER_WORK = 8;
+
+/**
+ * The maximum length of a tag, in characters, once normalised.
+ */
+export const MAXIMUM_TAG_LENGTH = 32;
+
+/**
+ * The number of times a Discord delivery is attempted on a schedule before it is stuck.
+ *
+ * Stuck deliveries are only attempted again when staff retry them.
+ */
+export const MAXIMUM_DELIVERY_ATTEMPTS = 8;
+
+/**
+ * The number of days an artist's old username stays reserved for them after they rename.
+ *
+ * Until someone else claims it, the old username keeps redirecting to the artist.
+ */
+export const USERNAME_RELEASE_DAYS = 30;
+
+/**
+ * The maximum length of a comment on a work, in characters.
+ */
+export const MAXIMUM_COMMENT_LENGTH = 2000;
+
+/**
+ * The number of items in a page of a paginated endpoint when no limit is given.
+ */
+export const DEFAULT_PAGE_SIZE = 24;
+
+/**
+ * The maximum number of items a caller can ask for in a single page of a paginated endpoint.
+ */
+export const MAXIMUM_PAGE_SIZE = 100;
+
 /**
  * The default image used in social/meta shares.
  */
@@ -3,6 +3,51 @@
  */
 import Joi from "joi";
 
+/**
+ * Statistics derived from an artist's works, recomputed whenever one of their works changes.
+ *
+ * Deleted works, including those in the trash, are never counted.
+ */
+export interface ArtistStats {
+  /**
+   * The number of approved works.
+   */
+  approvedCount: number;
+
+  /**
+   * The number of works waiting for approval, including those sent back for changes.
+   */
+  pendingCount: number;
+
+  /**
+   * The number of weeks with at least one approved work, across every season.
+   */
+  weeksParticipated: number;
+
+  /**
+   * The number of consecutive weeks up to the latest published week of the artist's most recent
+   * season, each with an approved work.
+   *
+   * The latest week doesn't break the streak while it is still open for submissions.
+   */
+  currentStreak: number;
+
+  /**
+   * The most consecutive weeks within a season, each with an approved work.
+   */
+  longestStreak: number;
+
+  /**
+   * When the artist first submitted a work, if they have any.
+   */
+  firstSubmittedTimestamp?: string;
+
+  /**
+   * When the artist last submitted a work, if they have any.
+   */
+  lastSubmittedTimestamp?: string;
+}
+
 export default interface Artist {
   /**
    * The ID of this user.
@@ -33,11 +78,18 @@ export default interface Artist {
   socials: string[];
 
   /**
-   * The number of works the artist has produced.
+   * Statistics about the artist's works, if they have submitted any.
    *
    * The frontend cannot override this value; only the backend can set it.
    */
-  worksCount?: number;
+  stats?: ArtistStats;
+
+  /**
+   * Whether the artist has turned off comments on their works.
+   *
+   * Existing comments stay visible, but nobody can write new ones.
+   */
+  isCommentingDisabled?: boolean;
 }
 
 // Note: I can't find specifications for the length of a snowflake, so we limit it to 64 chars.
@@ -51,6 +103,7 @@ export const ARTIST_SCHEMA = Joi.object(
       scheme: "https",
       allowRelative: false
     })).required(),
-    worksCount: Joi.number().integer().optional(),
+    stats: Joi.object().optional(),
+    isCommentingDisabled: Joi.boolean().optional(),
   },
 );
@@ -0,0 +1,154 @@
+/**
+ * A privileged action that is recorded in the audit log.
+ */
+export enum AuditAction {
+  /**
+   * Works were approved.
+   */
+  APPROVE_WORKS = "approve-works",
+
+  /**
+   * Works were sent back to their artists with changes requested.
+   */
+  REJECT_WORKS = "reject-works",
+
+  /**
+   * Works were soft-deleted.
+   */
+  DELETE_WORKS = "delete-works",
+
+  /**
+   * Works were restored from the trash.
+   */
+  RESTORE_WORKS = "restore-works",
+
+  /**
+   * Works were permanently deleted from the trash.
+   */
+  PURGE_WORKS = "purge-works",
+
+  /**
+   * Works were returned to the moderation queue.
+   */
+  UNAPPROVE_WORKS = "unapprove-works",
+
+  /**
+   * A staff member created or edited a work on behalf of another artist.
+   */
+  EDIT_WORK = "edit-work",
+
+  /**
+   * A work was reverted to one of its revisions.
+   */
+  REVERT_WORK = "revert-work",
+
+  /**
+   * A comment was hidden from or shown to everyone but staff.
+   */
+  HIDE_COMMENT = "hide-comment",
+
+  /**
+   * A staff member removed someone else's comment.
+   */
+  REMOVE_COMMENT = "remove-comment",
+
+  /**
+   * A tag was renamed or merged into another tag on every work.
+   */
+  EDIT_TAG = "edit-tag",
+
+  /**
+   * Works with mediums written before the taxonomy were given a medium from it.
+   */
+  MIGRATE_MEDIUMS = "migrate-mediums",
+
+  /**
+   * The weeks of a season were edited.
+   */
+  EDIT_WEEKS = "edit-weeks",
+
+  /**
+   * A week's showcase digest was posted to Discord.
+   */
+  POST_DIGEST = "post-digest",
+
+  /**
+   * A season was created or edited.
+   */
+  EDIT_SEASON = "edit-season",
+
+  /**
+   * A staff member edited another artist's profile.
+   */
+  EDIT_ARTIST = "edit-artist",
+
+  /**
+   * A role was granted.
+   */
+  GRANT_ROLE = "grant-role",
+
+  /**
+   * A role was revoked.
+   */
+  REVOKE_ROLE = "revoke-role",
+
+  /**
+   * The indexes of works were rebuilt.
+   */
+  REBUILD_INDEXES = "rebuild-indexes",
+}
+
+/**
+ * The change an audited action made to a single target.
+ */
+export interface AuditChange {
+  /**
+   * The ID of the target, e.g., a work ID, a week like `2023/4` or a Discord ID.
+   */
+  targetId: string;
+
+  /**
+   * The fields that changed as they were before, if the target existed.
+   */
+  before?: Record<string, unknown>;
+
+  /**
+   * The fields that changed as they were after, if the target still exists.
+   */
+  after?: Record<string, unknown>;
+}
+
+/**
+ * A single entry in the audit log. Entries are never changed once recorded.
+ */
+export default interface AuditEntry {
+  /**
+   * The unique ID of the entry.
+   */
+  id: string;
+
+  /**
+   * The Discord ID of the user that took the action.
+   */
+  actorId: string;
+
+  /**
+   * The action that was taken.
+   */
+  action: AuditAction;
+
+  /**
+   * The IDs of every target of the action.
+   */
+  targetIds: string[];
+
+  /**
+   * A summary of what changed for each target, which may be empty if nothing is worth showing.
+   */
+  changes: AuditChange[];
+
+  /**
+   * When the action was taken.
+   */
+  timestamp: string;
+}
@@ -0,0 +1,102 @@
+/**
+ * A comment on a work.
+ */
+import Joi from "joi";
+import {MAXIMUM_COMMENT_LENGTH} from "../constants/setup";
+
+export default interface Comment {
+  /**
+   * The internal ID.
+   */
+  id: string;
+
+  /**
+   * The ID of the work the comment is on.
+   */
+  workId: string;
+
+  /**
+   * The Discord ID of the user who wrote the comment.
+   */
+  authorId: string;
+
+  /**
+   * The ID of the comment this replies to, if it is a reply.
+   *
+   * Replies are only one level deep, so this is never a reply itself.
+   */
+  parentId?: string;
+
+  /**
+   * The comment as Markdown.
+   *
+   * Max of 2000 characters. It is empty once the author deletes a comment that has replies.
+   */
+  body: string;
+
+  /**
+   * When the comment was written.
+   */
+  timestamp: string;
+
+  /**
+   * When the author last edited the comment, if they have.
+   */
+  editedTimestamp?: string;
+
+  /**
+   * Whether staff have hidden the comment. Hidden comments are only shown to staff.
+   */
+  isHidden?: boolean;
+
+  /**
+   * The ID of the staff member who hid the comment, if it is hidden.
+   */
+  hiddenBy?: string;
+
+  /**
+   * Whether the author deleted the comment.
+   *
+   * Deleted comments are removed outright unless they have replies, in which case they are kept
+   * without their body so the replies still make sense.
+   */
+  isDeleted?: boolean;
+}
+
+/**
+ * A request to write or edit a comment.
+ */
+export interface CommentRequest {
+  /**
+   * The comment as Markdown.
+   */
+  body: string;
+
+  /**
+   * The ID of the comment to reply to, only used when writing a comment.
+   */
+  parentId?: string;
+}
+
+/**
+ * A request from staff to hide or show a comment.
+ */
+export interface CommentVisibilityRequest {
+  /**
+   * Whether the comment should be hidden.
+   */
+  isHidden: boolean;
+}
+
+export const COMMENT_REQUEST_SCHEMA = Joi.object(
+  {
+    body: Joi.string().trim().min(1).max(MAXIMUM_COMMENT_LENGTH).required(),
+    parentId: Joi.string().guid().optional(),
+  }
+);
+
+export const COMMENT_VISIBILITY_REQUEST_SCHEMA = Joi.object(
+  {
+    isHidden: Joi.boolean().required(),
+  }
+);
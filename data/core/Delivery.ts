@@ -0,0 +1,71 @@
+/**
+ * A pending Discord delivery in the outbox.
+ */
+
+/**
+ * What a delivery posts to Discord.
+ */
+export enum DeliveryKind {
+  /**
+   * The submission post of a work.
+   */
+  WORK = "work",
+
+  /**
+   * The prompt post of a week.
+   */
+  WEEK = "week",
+}
+
+/**
+ * A Discord post that still has to be made, edited or deleted.
+ *
+ * A delivery only names what it is for. When it is attempted, the post is brought in line with
+ * the stored work or week at that time, so a delivery never sends stale content.
+ */
+export default interface Delivery {
+  /**
+   * The idempotency key, e.g., `work/ABCDE` or `week/2022/3`.
+   *
+   * There is at most one pending delivery per key. Queuing another replaces it.
+   */
+  key: string;
+
+  /**
+   * What the delivery posts.
+   */
+  kind: DeliveryKind;
+
+  /**
+   * The ID of the work, or the year and number of the week, e.g., `2022/3`.
+   */
+  targetId: string;
+
+  /**
+   * A random ID that changes whenever the delivery is queued again.
+   *
+   * An attempt only removes or reschedules the delivery if it is still at this version, so an
+   * attempt that finishes late doesn't lose a newer change.
+   */
+  version: string;
+
+  /**
+   * The number of failed attempts.
+   */
+  attempts: number;
+
+  /**
+   * When the delivery was queued.
+   */
+  queuedTimestamp: string;
+
+  /**
+   * When the delivery can next be attempted on a schedule.
+   */
+  nextAttemptTimestamp: string;
+
+  /**
+   * The error of the last failed attempt, if any.
+   */
+  lastError?: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * A single approved work in a week's showcase digest.
+ */
+export interface DigestEntry {
+  /**
+   * The ID of the work.
+   */
+  workId: string;
+
+  /**
+   * The title of the work.
+   */
+  title: string;
+
+  /**
+   * The Discord ID of the artist.
+   */
+  artistId: string;
+
+  /**
+   * The name of the artist as credited in the digest.
+   */
+  artistName: string;
+
+  /**
+   * The medium of the work, if the artist gave one.
+   */
+  medium?: string;
+
+  /**
+   * The URL of the work's thumbnail, if it has one.
+   */
+  thumbnailUrl?: string;
+
+  /**
+   * The URL of the work's page.
+   */
+  url: string;
+}
+
+/**
+ * The approved works of a week, compiled for the showcase.
+ */
+export default interface Digest {
+  /**
+   * The year of the season.
+   */
+  year: number;
+
+  /**
+   * The week number.
+   */
+  week: number;
+
+  /**
+   * The theme of the week, if it has one.
+   */
+  theme: string;
+
+  /**
+   * The approved works of the week, in the order they were submitted.
+   */
+  entries: DigestEntry[];
+}
@@ -0,0 +1,166 @@
+/**
+ * The curated taxonomy of mediums a work can be made in.
+ */
+import Joi from "joi";
+
+/**
+ * The broad category of a medium.
+ */
+export enum MediumCategory {
+  /**
+   * Made on a computer or tablet.
+   */
+  DIGITAL = "digital",
+
+  /**
+   * Made by hand on paper, canvas or similar.
+   */
+  TRADITIONAL = "traditional",
+
+  /**
+   * Made in three dimensions, physically or on a computer.
+   */
+  THREE_D = "3d",
+
+  /**
+   * Taken with a camera.
+   */
+  PHOTOGRAPHY = "photography",
+
+  /**
+   * Made with more than one medium.
+   */
+  MIXED = "mixed",
+
+  /**
+   * Anything else, which the artist describes in their own words.
+   */
+  OTHER = "other",
+}
+
+/**
+ * A category of medium as it's shown to users.
+ */
+export interface MediumCategoryInfo {
+  /**
+   * The name of the category.
+   */
+  label: string;
+
+  /**
+   * A map of the IDs of the subtypes in the category to their names, which can be empty.
+   */
+  subtypes: Record<string, string>;
+}
+
+/**
+ * Every category of medium with its subtypes, in the order they're offered.
+ */
+export const MEDIUM_TAXONOMY: Record<MediumCategory, MediumCategoryInfo> = {
+  [MediumCategory.DIGITAL]: {
+    label: "Digital",
+    subtypes: {
+      "painting": "Digital painting",
+      "pixel-art": "Pixel art",
+      "vector": "Vector",
+      "photo-editing": "Photo editing",
+      "interface": "Interface design",
+      "animation": "Animation",
+    },
+  },
+  [MediumCategory.TRADITIONAL]: {
+    label: "Traditional",
+    subtypes: {
+      "pencil": "Pencil",
+      "ink": "Ink",
+      "marker": "Marker",
+      "watercolour": "Watercolour",
+      "acrylic": "Acrylic",
+      "oil": "Oil",
+      "pastel": "Pastel",
+    },
+  },
+  [MediumCategory.THREE_D]: {
+    label: "3D",
+    subtypes: {
+      "modelling": "3D modelling",
+      "sculpture": "Sculpture",
+      "papercraft": "Papercraft",
+      "textiles": "Textiles",
+    },
+  },
+  [MediumCategory.PHOTOGRAPHY]: {
+    label: "Photography",
+    subtypes: {
+      "digital": "Digital photography",
+      "film": "Film photography",
+    },
+  },
+  [MediumCategory.MIXED]: {
+    label: "Mixed media",
+    subtypes: {},
+  },
+  [MediumCategory.OTHER]: {
+    label: "Other",
+    subtypes: {},
+  },
+};
+
+/**
+ * A medium chosen from the taxonomy.
+ */
+export interface MediumChoice {
+  /**
+   * The category of the medium.
+   */
+  category: MediumCategory;
+
+  /**
+   * The ID of the subtype within the category, if one was chosen.
+   */
+  subtype?: string;
+}
+
+/**
+ * A work whose medium was written before the taxonomy, for staff to review its mapping.
+ */
+export interface MediumReviewItem {
+  /**
+   * The ID of the work.
+   */
+  workId: string;
+
+  /**
+   * The title of the work.
+   */
+  title: string;
+
+  /**
+   * The Discord ID of the work's artist.
+   */
+  artistId: string;
+
+  /**
+   * The medium as the artist wrote it.
+   */
+  medium: string;
+
+  /**
+   * The medium the written medium most likely maps to, if it could be guessed.
+   */
+  suggestion?: MediumChoice;
+}
+
+export const MEDIUM_CHOICE_SCHEMA = Joi.object(
+  {
+    category: Joi.string().valid(...Object.values(MediumCategory)).required(),
+    subtype: Joi.string().max(32).optional(),
+  }
+);
+
+/**
+ * The body of a migration, which maps the IDs of works to the mediums they're given.
+ */
+export const MEDIUM_MIGRATION_SCHEMA = Joi.object().pattern(
+  Joi.string().min(4).max(12), MEDIUM_CHOICE_SCHEMA,
+).min(1).required();
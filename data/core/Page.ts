@@ -0,0 +1,29 @@
+/**
+ * A single page of a paginated listing.
+ */
+export default interface Page<T> {
+  /**
+   * The items in this page, in the order of the listing.
+   */
+  items: T[];
+
+  /**
+   * The opaque cursor to pass back to retrieve the next page, or `null` if this is the last page.
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * The order that a paginated listing is sorted in.
+ */
+export enum PageOrder {
+  /**
+   * Oldest first.
+   */
+  ASCENDING = "ascending",
+
+  /**
+   * Newest first.
+   */
+  DESCENDING = "descending",
+}
@@ -0,0 +1,113 @@
+/**
+ * Reactions and favourites, which are how viewers show appreciation for works.
+ */
+import Joi from "joi";
+
+/**
+ * The fixed set of emoji that works can be reacted to with.
+ */
+export enum ReactionEmoji {
+  /**
+   * Love for the work.
+   */
+  HEART = "heart",
+
+  /**
+   * The work is exciting.
+   */
+  FIRE = "fire",
+
+  /**
+   * The work stands out.
+   */
+  STAR = "star",
+
+  /**
+   * Applause for the effort.
+   */
+  CLAP = "clap",
+
+  /**
+   * The work is funny.
+   */
+  LAUGH = "laugh",
+}
+
+/**
+ * The character shown for each emoji.
+ */
+export const REACTION_SYMBOLS: Record<ReactionEmoji, string> = {
+  [ReactionEmoji.HEART]: "❤️",
+  [ReactionEmoji.FIRE]: "🔥",
+  [ReactionEmoji.STAR]: "⭐",
+  [ReactionEmoji.CLAP]: "👏",
+  [ReactionEmoji.LAUGH]: "😂",
+};
+
+/**
+ * How a single user has reacted to a single work.
+ */
+export default interface UserReaction {
+  /**
+   * The emoji the user has reacted with, each at most once.
+   */
+  emojis: ReactionEmoji[];
+
+  /**
+   * If present, when the user added the work to their favourites.
+   */
+  favouritedTimestamp?: string;
+}
+
+/**
+ * The counts of how users have reacted to a work, as they are kept on the work.
+ */
+export interface ReactionCounts {
+  /**
+   * The number of users who reacted with each emoji. Emoji nobody reacted with are missing.
+   */
+  reactionCounts: Partial<Record<ReactionEmoji, number>>;
+
+  /**
+   * The number of users who have the work as a favourite.
+   */
+  favouritesCount: number;
+}
+
+/**
+ * A request to add or remove a reaction.
+ */
+export interface ReactionRequest {
+  /**
+   * The emoji to react with.
+   */
+  emoji: ReactionEmoji;
+
+  /**
+   * Whether to add the reaction rather than remove it.
+   */
+  isReacting: boolean;
+}
+
+/**
+ * A request to add a work to or remove a work from the user's favourites.
+ */
+export interface FavouriteRequest {
+  /**
+   * Whether the work should be a favourite.
+   */
+  isFavourite: boolean;
+}
+
+export const REACTION_REQUEST_SCHEMA = Joi.object(
+  {
+    emoji: Joi.string().valid(...Object.values(ReactionEmoji)).required(),
+    isReacting: Joi.boolean().required(),
+  }
+);
+
+export const FAVOURITE_REQUEST_SCHEMA = Joi.object(
+  {
+    isFavourite: Joi.boolean().required(),
+  }
+);
@@ -0,0 +1,23 @@
+import Joi from "joi";
+
+/**
+ * A request to send works back to their artists with the changes they need to make.
+ */
+export default interface RejectionRequest {
+  /**
+   * The IDs of the works.
+   */
+  ids: string[];
+
+  /**
+   * What the artists need to fix, shown to them on their works.
+   */
+  reason: string;
+}
+
+export const REJECTION_REQUEST_SCHEMA = Joi.object(
+  {
+    ids: Joi.array().items(Joi.string().max(64)).min(1).required(),
+    reason: Joi.string().min(3).max(1024).required(),
+  },
+);
@@ -0,0 +1,87 @@
+/**
+ * A saved version of a work.
+ */
+import {MediumCategory} from "./Medium";
+import {UrlItem} from "./Work";
+
+/**
+ * The content of a work as it was saved at one point. Revisions are never changed once saved.
+ */
+export default interface Revision {
+  /**
+   * The unique ID of the revision.
+   */
+  id: string;
+
+  /**
+   * The ID of the work.
+   */
+  workId: string;
+
+  /**
+   * The Discord ID of the user who saved this version, who may be staff rather than the artist.
+   */
+  editorId: string;
+
+  /**
+   * When this version was saved.
+   */
+  timestamp: string;
+
+  /**
+   * The ID of the revision this version was reverted to, if it was saved by a revert.
+   */
+  revertedFrom?: string;
+
+  /**
+   * The title of the work.
+   */
+  title: string;
+
+  /**
+   * The medium of the work.
+   */
+  medium?: string;
+
+  /**
+   * The category of the medium from the taxonomy, if one was chosen.
+   */
+  mediumCategory?: MediumCategory;
+
+  /**
+   * The ID of the subtype of the medium within its category, if one was chosen.
+   */
+  mediumSubtype?: string;
+
+  /**
+   * The description of the work.
+   */
+  description: string;
+
+  /**
+   * The week(s) for which the work was meant.
+   */
+  weekNumbers: number[];
+
+  /**
+   * The items of the work, in order.
+   */
+  items: UrlItem[];
+
+  /**
+   * The thumbnail URL for lower DPI screens.
+   */
+  smallThumbnailUrl?: string;
+
+  /**
+   * The thumbnail URL.
+   */
+  thumbnailUrl?: string;
+}
+
+/**
+ * The fields of a revision that can be listed without reading the revision.
+ */
+export type RevisionHeader = Pick<
+  Revision, "id" | "workId" | "editorId" | "timestamp" | "revertedFrom"
+>;
@@ -0,0 +1,198 @@
+/**
+ * Roles and the permissions they grant.
+ */
+import Joi from "joi";
+
+/**
+ * A role that a user has.
+ *
+ * Every authenticated user without an explicitly granted role is an artist.
+ */
+export enum Role {
+  /**
+   * Can do anything, including managing roles.
+   */
+  OWNER = "owner",
+
+  /**
+   * Can edit weeks, seasons, any work and any artist, as well as moderate.
+   */
+  EDITOR = "editor",
+
+  /**
+   * Can approve and delete works, as well as moderate comments.
+   */
+  MODERATOR = "moderator",
+
+  /**
+   * Can submit works and edit their own works and profile.
+   */
+  ARTIST = "artist",
+
+  /**
+   * Can't do anything an anonymous user can't.
+   */
+  BANNED = "banned",
+}
+
+/**
+ * A single thing a user is allowed to do.
+ */
+export enum Permission {
+  /**
+   * Grant and revoke roles.
+   */
+  MANAGE_ROLES = "manage-roles",
+
+  /**
+   * Create, edit, activate and archive seasons.
+   */
+  EDIT_SEASONS = "edit-seasons",
+
+  /**
+   * Edit weeks, see unpublished weeks and compile or post the weekly showcase digest.
+   */
+  EDIT_WEEKS = "edit-weeks",
+
+  /**
+   * See unapproved and deleted works, and approve, delete or restore any work.
+   */
+  MODERATE_WORKS = "moderate-works",
+
+  /**
+   * Permanently delete works in the trash, including their uploaded files.
+   */
+  PURGE_WORKS = "purge-works",
+
+  /**
+   * Edit any work, including on behalf of another artist or in an archived season.
+   */
+  EDIT_ANY_WORK = "edit-any-work",
+
+  /**
+   * Edit any artist's profile.
+   */
+  EDIT_ANY_ARTIST = "edit-any-artist",
+
+  /**
+   * Submit works, upload files and edit your own works.
+   */
+  SUBMIT_WORKS = "submit-works",
+
+  /**
+   * Edit your own profile.
+   */
+  EDIT_OWN_ARTIST = "edit-own-artist",
+
+  /**
+   * React to works and add them to your favourites.
+   */
+  REACT = "react",
+
+  /**
+   * Comment on works and reply to comments, as well as edit your own comments. Anyone can
+   * delete their own comments, so users who are banned can still take theirs down.
+   */
+  POST_COMMENTS = "post-comments",
+
+  /**
+   * Hide, show and remove any comment.
+   */
+  MODERATE_COMMENTS = "moderate-comments",
+
+  /**
+   * Rename tags and merge tags into each other across every work.
+   */
+  MANAGE_TAGS = "manage-tags",
+
+  /**
+   * Read the audit log of privileged actions.
+   */
+  VIEW_AUDIT_LOG = "view-audit-log",
+
+  /**
+   * Check stored indexes for inconsistencies and rebuild them, and retry stuck Discord posts.
+   */
+  MAINTAIN_STORAGE = "maintain-storage",
+}
+
+/**
+ * The permissions granted by each role.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.OWNER]: Object.values(Permission),
+  [Role.EDITOR]: [
+    Permission.EDIT_SEASONS,
+    Permission.EDIT_WEEKS,
+    Permission.MODERATE_WORKS,
+    Permission.PURGE_WORKS,
+    Permission.EDIT_ANY_WORK,
+    Permission.EDIT_ANY_ARTIST,
+    Permission.SUBMIT_WORKS,
+    Permission.EDIT_OWN_ARTIST,
+    Permission.REACT,
+    Permission.POST_COMMENTS,
+    Permission.MODERATE_COMMENTS,
+    Permission.MANAGE_TAGS,
+    Permission.VIEW_AUDIT_LOG,
+  ],
+  [Role.MODERATOR]: [
+    Permission.MODERATE_WORKS,
+    Permission.SUBMIT_WORKS,
+    Permission.EDIT_OWN_ARTIST,
+    Permission.REACT,
+    Permission.POST_COMMENTS,
+    Permission.MODERATE_COMMENTS,
+    Permission.MANAGE_TAGS,
+  ],
+  [Role.ARTIST]: [
+    Permission.SUBMIT_WORKS,
+    Permission.EDIT_OWN_ARTIST,
+    Permission.REACT,
+    Permission.POST_COMMENTS,
+  ],
+  [Role.BANNED]: [],
+};
+
+/**
+ * A role granted to a single user.
+ */
+export default interface RoleAssignment {
+  /**
+   * The ID of the user.
+   */
+  discordId: string;
+
+  /**
+   * The role of the user.
+   */
+  role: Role;
+
+  /**
+   * The ID of the user who granted the role, if it was granted rather than implied.
+   */
+  grantedBy?: string;
+
+  /**
+   * When the role was granted, if it was granted rather than implied.
+   */
+  grantedTimestamp?: string;
+}
+
+/**
+ * A role along with the permissions it grants, as returned to the user holding it.
+ */
+export interface RoleDetails extends RoleAssignment {
+  permissions: Permission[];
+}
+
+// Note: I can't find specifications for the length of a snowflake, so we limit it to 64 chars.
+
+export const ROLE_ASSIGNMENT_SCHEMA = Joi.object(
+  {
+    discordId: Joi.string().alphanum().max(64).required(),
+    role: Joi.string().valid(...Object.values(Role)).required(),
+    grantedBy: Joi.string().alphanum().max(64).optional(),
+    grantedTimestamp: Joi.string().isoDate().optional(),
+  },
+);
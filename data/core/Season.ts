@@ -0,0 +1,112 @@
+/**
+ * A season.
+ */
+import Joi from "joi";
+import {
+  FALLBACK_SEASON_WEEK_COUNT,
+  FALLBACK_SEASON_YEAR,
+  MAXIMUM_WEEKS_PER_SEASON,
+  PROMPT_RELEASE_DAY,
+  PROMPT_RELEASE_HOUR,
+  SHOWCASE_DAY,
+  SHOWCASE_HOUR
+} from "../constants/setup";
+
+/**
+ * The status of a season.
+ */
+export enum SeasonStatus {
+  /**
+   * The season is running and accepts submissions.
+   */
+  ACTIVE = "active",
+
+  /**
+   * The season has ended. It can be browsed but no longer accepts submissions.
+   */
+  ARCHIVED = "archived",
+}
+
+/**
+ * The weekly schedule of a season.
+ *
+ * All days are numbers where "0" means "Sunday". The timezone is Melbourne time.
+ */
+export interface SeasonSchedule {
+  /**
+   * The day that a prompt is released.
+   */
+  promptReleaseDay: number;
+
+  /**
+   * The hour that a prompt is released.
+   */
+  promptReleaseHour: number;
+
+  /**
+   * The day that the showcase happens.
+   */
+  showcaseDay: number;
+
+  /**
+   * The hour that the showcase happens.
+   */
+  showcaseHour: number;
+}
+
+export default interface Season {
+  /**
+   * The year of the season.
+   *
+   * A year only ever has one season, so this is also its ID.
+   */
+  year: number;
+
+  /**
+   * The number of weeks in this season.
+   */
+  weekCount: number;
+
+  /**
+   * The weekly schedule of this season.
+   */
+  schedule: SeasonSchedule;
+
+  /**
+   * Whether this season is active or archived.
+   */
+  status: SeasonStatus;
+}
+
+/**
+ * The season used when no season has been stored in the backend.
+ */
+export const FALLBACK_SEASON: Season = {
+  year: FALLBACK_SEASON_YEAR,
+  weekCount: FALLBACK_SEASON_WEEK_COUNT,
+  schedule: {
+    promptReleaseDay: PROMPT_RELEASE_DAY,
+    promptReleaseHour: PROMPT_RELEASE_HOUR,
+    showcaseDay: SHOWCASE_DAY,
+    showcaseHour: SHOWCASE_HOUR,
+  },
+  status: SeasonStatus.ACTIVE,
+};
+
+export const SEASON_SCHEDULE_SCHEMA = Joi.object(
+  {
+    promptReleaseDay: Joi.number().integer().min(0).max(6).required(),
+    promptReleaseHour: Joi.number().integer().min(0).max(23).required(),
+    showcaseDay: Joi.number().integer().min(0).max(6).required(),
+    showcaseHour: Joi.number().integer().min(0).max(23).required(),
+  },
+);
+
+export const SEASON_SCHEMA = Joi.object(
+  {
+    year: Joi.number().integer().min(2022).max(2077).required(),
+    weekCount: Joi.number().integer().min(1).max(MAXIMUM_WEEKS_PER_SEASON).required(),
+    schedule: SEASON_SCHEDULE_SCHEMA.required(),
+    status: Joi.string().valid(...Object.values(SeasonStatus)).required(),
+  },
+);
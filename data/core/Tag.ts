@@ -0,0 +1,23 @@
+/**
+ * Requests about the tags on works.
+ */
+import Joi from "joi";
+import {MAXIMUM_TAG_LENGTH} from "../constants/setup";
+
+/**
+ * A request from staff to rename a tag on every work that has it.
+ *
+ * Renaming a tag to one that already exists merges the two.
+ */
+export interface TagRenameRequest {
+  /**
+   * The new name of the tag, which is normalised.
+   */
+  name: string;
+}
+
+export const TAG_RENAME_REQUEST_SCHEMA = Joi.object(
+  {
+    name: Joi.string().min(1).max(MAXIMUM_TAG_LENGTH).required(),
+  },
+);
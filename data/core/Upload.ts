@@ -0,0 +1,23 @@
+import Joi from "joi";
+
+/**
+ * A request for a URL that a single file can be uploaded to.
+ */
+export default interface UploadRequest {
+  /**
+   * The name of the file to upload, including its extension.
+   */
+  filename: string;
+
+  /**
+   * The exact size of the file in bytes.
+   */
+  contentLength: number;
+}
+
+export const UPLOAD_REQUEST_SCHEMA = Joi.object(
+  {
+    filename: Joi.string().min(1).max(256).required(),
+    contentLength: Joi.number().integer().min(0).required(),
+  },
+);
@@ -0,0 +1,24 @@
+/**
+ * A claim on a username in the registry of artist names.
+ */
+export default interface UsernameClaim {
+  /**
+   * The Discord ID of the artist holding the name.
+   */
+  artistId: string;
+
+  /**
+   * The name as the artist wrote it.
+   *
+   * The registry is keyed by the normalised name, so names differing only in case are the same.
+   */
+  name: string;
+
+  /**
+   * If present, when the artist renamed away from this name.
+   *
+   * A released name redirects to the artist until someone else claims it, which they can only do
+   * once the release period has passed.
+   */
+  releasedTimestamp?: string;
+}
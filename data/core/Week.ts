@@ -1,5 +1,5 @@
 import Joi from "joi";
-import {LAST_ACTIVE_WEEK} from "../constants/setup";
+import {MAXIMUM_WEEKS_PER_SEASON} from "../constants/setup";
 
 /**
  * A week.
@@ -30,6 +30,13 @@ export default interface Week {
    */
   isPublished: boolean;
 
+  /**
+   * If present, when this week will be published automatically if it isn't already.
+   *
+   * Cleared once the week is published on schedule so unpublishing it later is not undone.
+   */
+  publishAt?: string;
+
   /**
    * If present, the Discord post ID for this week's prompt.
    */
@@ -49,10 +56,11 @@ export default interface Week {
 export const WEEK_SCHEMA = Joi.object(
   {
     year: Joi.number().integer().min(2022).max(2077).required(),
-    week: Joi.number().integer().min(1).max(LAST_ACTIVE_WEEK).required(),
+    week: Joi.number().integer().min(1).max(MAXIMUM_WEEKS_PER_SEASON).required(),
     theme: Joi.string().max(256).allow("").optional(),
     information: Joi.string().max(16384).allow("").optional(),
     isPublished: Joi.boolean().required(),
+    publishAt: Joi.string().isoDate().optional(),
     discordId: Joi.string().alphanum().max(64).allow("").optional(),
     isUpdating: Joi.boolean().optional(),
   },
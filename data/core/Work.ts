@@ -2,8 +2,15 @@
  * A work.
  */
 import Joi from "joi";
-import {LAST_ACTIVE_WEEK} from "../constants/setup";
+import {
+  MAXIMUM_COLLABORATORS_PER_WORK,
+  MAXIMUM_TAG_LENGTH,
+  MAXIMUM_TAGS_PER_WORK,
+  MAXIMUM_WEEKS_PER_SEASON
+} from "../constants/setup";
 import Artist, {ARTIST_SCHEMA} from "./Artist";
+import {MediumCategory} from "./Medium";
+import {ReactionEmoji} from "./Reaction";
 
 export interface UrlItem {
   url: string;
@@ -24,6 +31,28 @@ export interface UrlItem {
   hiDpiThumbnail?: string;
 }
 
+/**
+ * A request from staff for the artist to change their work before it can be approved.
+ */
+export interface ChangeRequest {
+  /**
+   * What the artist needs to fix, written by staff.
+   *
+   * Max of 1024 characters.
+   */
+  reason: string;
+
+  /**
+   * The ID of the staff member who requested the changes.
+   */
+  requestedBy: string;
+
+  /**
+   * When the changes were requested.
+   */
+  timestamp: string;
+}
+
 export default interface Work {
   /**
    * The internal ID.
@@ -56,6 +85,19 @@ export default interface Work {
    */
   firstSeenArtistInfo?: Artist;
 
+  /**
+   * The IDs of the other artists credited on the work, who each accepted an invitation.
+   *
+   * The work is listed under every credited artist and any of them can edit it, but the artist
+   * who submitted it stays its owner.
+   */
+  collaboratorIds?: string[];
+
+  /**
+   * The IDs of the artists invited to be credited on the work who haven't answered yet.
+   */
+  invitedCollaboratorIds?: string[];
+
   /**
    * The title of the work.
    *
@@ -64,12 +106,32 @@ export default interface Work {
   title: string;
 
   /**
-   * The medium of the work.
+   * The medium of the work as it's shown.
+   *
+   * When a medium is chosen from the taxonomy, the backend replaces this with its name. Otherwise,
+   * it's what the artist wrote, which is the case for "other" and works from before the taxonomy.
    *
    * Max of 128 characters.
    */
   medium?: string;
 
+  /**
+   * The category of the medium from the taxonomy, if one was chosen.
+   */
+  mediumCategory?: MediumCategory;
+
+  /**
+   * The ID of the subtype of the medium within its category, if one was chosen.
+   */
+  mediumSubtype?: string;
+
+  /**
+   * The normalised tags of the work, which are lowercase words joined by hyphens.
+   *
+   * The backend normalises them when the work is saved. See `normaliseTags`.
+   */
+  tags?: string[];
+
   /**
    * The description of the work.
    *
@@ -104,6 +166,13 @@ export default interface Work {
    */
   isApproved: boolean;
 
+  /**
+   * The changes staff asked for, if the work was sent back to the artist.
+   *
+   * A work with changes requested is not in the moderation queue. It returns there when edited.
+   */
+  changeRequest?: ChangeRequest;
+
   /**
    * The corresponding Discord post's ID, if it exists.
    */
@@ -116,8 +185,74 @@ export default interface Work {
 
   /**
    * Whether this piece has been deleted.
+   *
+   * Deleted works are kept in the trash until they are restored or permanently deleted.
    */
   isSoftDeleted?: boolean;
+
+  /**
+   * The ID of the staff member who deleted this work, if it is deleted.
+   */
+  deletedBy?: string;
+
+  /**
+   * When this work was deleted, if it is deleted.
+   */
+  deletedTimestamp?: string;
+
+  /**
+   * The number of users who reacted with each emoji. Emoji nobody reacted with may be missing.
+   *
+   * Like the Discord post's ID, this is kept by the backend and can't be changed on PUT.
+   */
+  reactionCounts?: Partial<Record<ReactionEmoji, number>>;
+
+  /**
+   * The number of users who have this work as a favourite.
+   */
+  favouritesCount?: number;
+
+  /**
+   * The number of comments visible to everyone, including replies.
+   *
+   * Like the reaction counts, this is kept by the backend and can't be changed on PUT.
+   */
+  commentsCount?: number;
+}
+
+/**
+ * A request to invite an artist to be credited on a work.
+ */
+export interface CollaboratorRequest {
+  /**
+   * The Discord ID of the invited artist.
+   */
+  artistId: string;
+}
+
+/**
+ * An invited artist's answer to an invitation to be credited on a work.
+ */
+export interface InvitationResponse {
+  /**
+   * Whether the artist accepts being credited rather than declines.
+   */
+  isAccepting: boolean;
+}
+
+/**
+ * The orders a listing of works can be sorted in.
+ */
+export enum WorksSort {
+  /**
+   * By submission time.
+   */
+  SUBMITTED = "submitted",
+
+  /**
+   * By the number of reactions and favourites, most first unless ascending.
+   */
+  LOVED = "loved",
 }
 
 // Note: I can't find specifications for the length of a snowflake, so we limit it to 64 chars.
@@ -131,24 +266,63 @@ export const URL_ITEM_SCHEMA = Joi.object(
   }
 );
 
+export const CHANGE_REQUEST_SCHEMA = Joi.object(
+  {
+    reason: Joi.string().min(3).max(1024).required(),
+    requestedBy: Joi.string().alphanum().max(64).required(),
+    timestamp: Joi.string().isoDate().required(),
+  }
+);
+
 export const WORK_SCHEMA = Joi.object(
   {
     id: Joi.string().min(4).max(12).required(),
     year: Joi.number().min(2022).max(2077).required(),
     weekNumbers: Joi.array().items(
-      Joi.number().min(1).max(LAST_ACTIVE_WEEK),
+      Joi.number().min(1).max(MAXIMUM_WEEKS_PER_SEASON),
     ).min(1).max(6).required(),
     artistId: Joi.string().alphanum().max(64).required(),
     firstSeenArtistInfo: ARTIST_SCHEMA.optional(),
+    collaboratorIds: Joi.array().items(
+      Joi.string().alphanum().max(64),
+    ).max(MAXIMUM_COLLABORATORS_PER_WORK).optional(),
+    invitedCollaboratorIds: Joi.array().items(
+      Joi.string().alphanum().max(64),
+    ).max(MAXIMUM_COLLABORATORS_PER_WORK).optional(),
     title: Joi.string().min(1).max(128).required(),
     medium: Joi.string().max(128).allow("").optional(),
+    mediumCategory: Joi.string().valid(...Object.values(MediumCategory)).optional(),
+    mediumSubtype: Joi.string().max(32).optional(),
+    tags: Joi.array().items(
+      Joi.string().min(1).max(MAXIMUM_TAG_LENGTH),
+    ).max(MAXIMUM_TAGS_PER_WORK).optional(),
     description: Joi.string().min(3).max(1920).required(),
     items: Joi.array().items(URL_ITEM_SCHEMA).min(1).required(),
     smallThumbnailUrl: Joi.string().uri().allow("").optional(),
     thumbnailUrl: Joi.string().uri().allow("").optional(),
     isApproved: Joi.boolean().required(),
+    changeRequest: CHANGE_REQUEST_SCHEMA.optional(),
     discordId: Joi.string().alphanum().max(64).allow("").optional(),
     submittedTimestamp: Joi.string().isoDate().required(),
     isSoftDeleted: Joi.boolean().optional(),
+    deletedBy: Joi.string().alphanum().max(64).optional(),
+    deletedTimestamp: Joi.string().isoDate().optional(),
+    reactionCounts: Joi.object().pattern(
+      Joi.string().valid(...Object.values(ReactionEmoji)), Joi.number().min(0),
+    ).optional(),
+    favouritesCount: Joi.number().min(0).optional(),
+    commentsCount: Joi.number().min(0).optional(),
   },
 );
+
+export const COLLABORATOR_REQUEST_SCHEMA = Joi.object(
+  {
+    artistId: Joi.string().alphanum().max(64).required(),
+  }
+);
+
+export const INVITATION_RESPONSE_SCHEMA = Joi.object(
+  {
+    isAccepting: Joi.boolean().required(),
+  }
+);
@@ -0,0 +1,45 @@
+/**
+ * Utils related to the artists credited on works.
+ */
+
+import Artist from "../core/Artist";
+import Work from "../core/Work";
+
+/**
+ * @param {Work} work the work
+ * @returns {string[]} the IDs of every artist credited on the work, its own artist first
+ */
+export const getCreditedArtistIds = (work: Work): string[] => {
+  return [work.artistId, ...(work.collaboratorIds || [])];
+};
+
+/**
+ * Join names into a list that reads naturally, such as "A, B and C".
+ *
+ * @param {string[]} names the names
+ * @returns {string} the joined names
+ */
+export const joinNames = (names: string[]): string => {
+  if (names.length < 2) {
+    return names.join("");
+  }
+
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+};
+
+/**
+ * Name every artist credited on a work.
+ *
+ * The work's own artist falls back to the details they submitted it with if they aren't known.
+ *
+ * @param {Work} work the work
+ * @param {Record<string, Artist>} artists a map of Discord IDs to known artists
+ * @returns {string[]} the names, its own artist first
+ */
+export const getCreditedNames = (work: Work, artists: Record<string, Artist>): string[] => {
+  return getCreditedArtistIds(work).map((id: string) => (
+    artists[id]?.name
+    || (id === work.artistId ? work.firstSeenArtistInfo?.name : undefined)
+    || "Unknown User"
+  ));
+};
@@ -0,0 +1,44 @@
+import Digest, {DigestEntry} from "../core/Digest";
+
+/**
+ * Escape the characters that Markdown would otherwise format.
+ *
+ * @param {string} text the plain text
+ * @returns {string} the text, safe to put in Markdown
+ */
+const escapeMarkdown = (text: string): string => {
+  return text.replace(/([\\`*_{}[\]()<>#+!|~])/g, "\\$1");
+};
+
+/**
+ * @param {Digest} digest the digest
+ * @returns {string} the heading of the digest, e.g., "Week 3: Ocean"
+ */
+export const getDigestTitle = (digest: Digest): string => {
+  return digest.theme ? `Week ${digest.week}: ${digest.theme}` : `Week ${digest.week}`;
+};
+
+/**
+ * Render a digest as a Markdown document with a numbered entry per work.
+ *
+ * @param {Digest} digest the digest
+ * @returns {string} the Markdown
+ */
+export const renderDigestMarkdown = (digest: Digest): string => {
+  const entries: string[] = digest.entries.map((entry: DigestEntry, index: number) => {
+    const title: string = escapeMarkdown(entry.title);
+    const medium: string = entry.medium ? ` (_${escapeMarkdown(entry.medium)}_)` : "";
+    const image: string = entry.thumbnailUrl ? `\n\n    ![${title}](${entry.thumbnailUrl})` : "";
+
+    return (
+      `${index + 1}. [**${title}**](${entry.url}) by ${escapeMarkdown(entry.artistName)}`
+      + `${medium}${image}`
+    );
+  });
+
+  return [
+    `# ${escapeMarkdown(getDigestTitle(digest))} Showcase`,
+    `${digest.entries.length} approved works from the ${digest.year} season.`,
+    ...entries,
+  ].join("\n\n") + "\n";
+};
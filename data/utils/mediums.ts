@@ -0,0 +1,119 @@
+/**
+ * Utils related to the mediums of works.
+ */
+
+import {
+  MEDIUM_TAXONOMY,
+  MediumCategory,
+  MediumCategoryInfo,
+  MediumChoice
+} from "../core/Medium";
+import Work from "../core/Work";
+
+/**
+ * Words found in mediums written before the taxonomy and the mediums they map to, most specific
+ * first. The first match wins.
+ */
+const MEDIUM_KEYWORDS: [RegExp, MediumChoice][] = [
+  [/pixel/, {category: MediumCategory.DIGITAL, subtype: "pixel-art"}],
+  [/vector|illustrator|inkscape|affinity designer/, {
+    category: MediumCategory.DIGITAL, subtype: "vector",
+  }],
+  [/photoshop|photo ?edit|lightroom|gimp/, {
+    category: MediumCategory.DIGITAL, subtype: "photo-editing",
+  }],
+  [/figma|\bui\b|\bux\b|interface|web ?design/, {
+    category: MediumCategory.DIGITAL, subtype: "interface",
+  }],
+  [/animat|\bgif\b/, {category: MediumCategory.DIGITAL, subtype: "animation"}],
+  [/blender|maya|zbrush|cinema ?4d|3d model|\b3d\b/, {
+    category: MediumCategory.THREE_D, subtype: "modelling",
+  }],
+  [/sculpt|clay|ceramic/, {category: MediumCategory.THREE_D, subtype: "sculpture"}],
+  [/papercraft|origami/, {category: MediumCategory.THREE_D, subtype: "papercraft"}],
+  [/textile|embroider|knit|crochet|sew/, {category: MediumCategory.THREE_D, subtype: "textiles"}],
+  [/film photo|35 ?mm|analog/, {category: MediumCategory.PHOTOGRAPHY, subtype: "film"}],
+  [/photo|camera/, {category: MediumCategory.PHOTOGRAPHY, subtype: "digital"}],
+  [/mixed/, {category: MediumCategory.MIXED}],
+  [/watercolou?r|gouache/, {category: MediumCategory.TRADITIONAL, subtype: "watercolour"}],
+  [/acrylic/, {category: MediumCategory.TRADITIONAL, subtype: "acrylic"}],
+  [/\boils?\b/, {category: MediumCategory.TRADITIONAL, subtype: "oil"}],
+  [/pastel|crayon/, {category: MediumCategory.TRADITIONAL, subtype: "pastel"}],
+  [/marker|copic/, {category: MediumCategory.TRADITIONAL, subtype: "marker"}],
+  [/\bink|\bpens?\b|fineliner/, {category: MediumCategory.TRADITIONAL, subtype: "ink"}],
+  [/pencil|graphite|charcoal|sketch/, {category: MediumCategory.TRADITIONAL, subtype: "pencil"}],
+  [/procreate|krita|clip ?studio|paint ?tool|digital|tablet|ipad/, {
+    category: MediumCategory.DIGITAL, subtype: "painting",
+  }],
+  [/traditional|paper|canvas|paint/, {category: MediumCategory.TRADITIONAL}],
+];
+
+/**
+ * @param {string} category a category of medium
+ * @param {string | undefined} subtype a subtype within it, if any
+ * @returns {boolean} whether the category exists and has the subtype
+ */
+export const isKnownMedium = (category: string, subtype?: string): boolean => {
+  const info: MediumCategoryInfo | undefined = MEDIUM_TAXONOMY[category as MediumCategory];
+
+  return !!info && (
+    subtype === undefined || Object.keys(info.subtypes).includes(subtype)
+  );
+};
+
+/**
+ * Describe a medium from the taxonomy as it's shown on works.
+ *
+ * @param {MediumChoice} choice the medium
+ * @returns {string} the name of the subtype, or the category if there's none
+ */
+export const describeMedium = (choice: MediumChoice): string => {
+  const info: MediumCategoryInfo = MEDIUM_TAXONOMY[choice.category];
+
+  return choice.subtype && info.subtypes[choice.subtype] || info.label;
+};
+
+/**
+ * Create the key a medium is filtered and counted by, which is its category then its subtype.
+ *
+ * @param {MediumChoice} choice the medium
+ * @returns {string} the key, e.g., `digital/pixel-art` or `mixed`
+ */
+export const getMediumKey = (choice: MediumChoice): string => {
+  return choice.subtype ? `${choice.category}/${choice.subtype}` : choice.category;
+};
+
+/**
+ * @param {string} key the key of a category or of a subtype, e.g., `digital/pixel-art`
+ * @returns {MediumChoice} the medium, which may not exist in the taxonomy
+ */
+export const parseMediumKey = (key: string): MediumChoice => {
+  const [category, subtype] = key.split("/");
+
+  return {category: category as MediumCategory, subtype: subtype || undefined};
+};
+
+/**
+ * @param {Work} work a work
+ * @param {string} key the key of a category or of a subtype
+ * @returns {boolean} whether the work's medium is in the category or is the subtype
+ */
+export const isWorkInMedium = (work: Work, key: string): boolean => {
+  const choice: MediumChoice = parseMediumKey(key);
+
+  return !!work.mediumCategory && work.mediumCategory === choice.category && (
+    !choice.subtype || work.mediumSubtype === choice.subtype
+  );
+};
+
+/**
+ * Guess the medium from the taxonomy that a medium written before it maps to.
+ *
+ * @param {string} medium the medium as the artist wrote it
+ * @returns {MediumChoice | undefined} the medium it most likely maps to, if any
+ */
+export const guessMedium = (medium: string): MediumChoice | undefined => {
+  const text: string = medium.toLowerCase();
+
+  return MEDIUM_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1];
+};
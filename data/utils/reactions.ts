@@ -0,0 +1,96 @@
+/**
+ * Utils related to reactions and favourites.
+ */
+
+import UserReaction, {ReactionCounts, ReactionEmoji} from "../core/Reaction";
+import Work from "../core/Work";
+
+/**
+ * Count how loved a work is, which is every reaction to it plus every favourite of it.
+ *
+ * @param {Work} work the work
+ * @returns {number} the count
+ */
+export const getLoveCount = (work: Work): number => {
+  return Object.values(ReactionEmoji).reduce(
+    (total: number, emoji: ReactionEmoji) => total + (work.reactionCounts?.[emoji] || 0),
+    work.favouritesCount || 0,
+  );
+};
+
+/**
+ * @param {UserReaction} reaction how a user reacted to a work
+ * @returns {boolean} whether the user has neither an emoji nor a favourite on the work
+ */
+export const isReactionEmpty = (reaction: UserReaction): boolean => {
+  return reaction.emojis.length === 0 && !reaction.favouritedTimestamp;
+};
+
+/**
+ * Count how users have reacted to each work from every user's reactions.
+ *
+ * @param {Record<string, UserReaction>[]} reactionsByUser every user's map of work IDs to their
+ *   reactions
+ * @returns {Record<string, ReactionCounts>} a map of work IDs to their counts, which leaves out
+ *   works nobody reacted to
+ */
+export const countReactions = (
+  reactionsByUser: Record<string, UserReaction>[],
+): Record<string, ReactionCounts> => {
+  const counts: Record<string, ReactionCounts> = {};
+
+  reactionsByUser.forEach((reactions: Record<string, UserReaction>) => {
+    Object.entries(reactions).forEach(([workId, reaction]) => {
+      const workCounts: ReactionCounts = counts[workId] || {reactionCounts: {}, favouritesCount: 0};
+
+      reaction.emojis.forEach((emoji: ReactionEmoji) => {
+        workCounts.reactionCounts[emoji] = (workCounts.reactionCounts[emoji] || 0) + 1;
+      });
+
+      if (reaction.favouritedTimestamp) {
+        workCounts.favouritesCount++;
+      }
+
+      counts[workId] = workCounts;
+    });
+  });
+
+  return counts;
+};
+
+/**
+ * @param {Work} work a work
+ * @param {ReactionCounts} counts the counts it should have
+ * @returns {boolean} whether the work has the counts, where a missing count is zero
+ */
+export const hasReactionCounts = (work: Work, counts: ReactionCounts): boolean => {
+  return (work.favouritesCount || 0) === counts.favouritesCount && Object.values(
+    ReactionEmoji
+  ).every(
+    (emoji: ReactionEmoji) => (
+      (work.reactionCounts?.[emoji] || 0) === (counts.reactionCounts[emoji] || 0)
+    )
+  );
+};
+
+/**
+ * Keep the counts of the stored version of a work on a new version of it, as the counts are only
+ * changed by ID as users react and comment, so the new version may have been made from outdated
+ * ones.
+ *
+ * @param {Work} work the new version of the work
+ * @param {Work | null | undefined} stored the work as stored, if it is
+ * @returns {Work} the new version with the stored counts
+ */
+export const keepStoredCounts = (work: Work, stored?: Work | null): Work => {
+  if (!stored) {
+    return work;
+  }
+
+  return {
+    ...work,
+    reactionCounts: stored.reactionCounts,
+    favouritesCount: stored.favouritesCount,
+    commentsCount: stored.commentsCount,
+  };
+};
@@ -0,0 +1,57 @@
+/**
+ * Utils related to seasons.
+ */
+
+import Season, {FALLBACK_SEASON, SeasonStatus} from "../core/Season";
+
+/**
+ * Determine the active season.
+ *
+ * If more than one season is active, the latest one wins. If none are, the fallback season is
+ * used so that a fresh deployment still works before any season is created.
+ *
+ * @param {Record<string, Season>} seasons a map of years to seasons
+ * @returns {Season} the active season
+ */
+export const getActiveSeason = (seasons: Record<string, Season>): Season => {
+  const activeSeasons: Season[] = Object.values(seasons).filter(
+    (season: Season) => season.status === SeasonStatus.ACTIVE
+  ).sort((a: Season, b: Season) => b.year - a.year);
+
+  return activeSeasons[0] || FALLBACK_SEASON;
+};
+
+/**
+ * Return the seasons from latest to earliest.
+ *
+ * The fallback season is included if it would otherwise be missing. It is only active if no
+ * other season is.
+ *
+ * @param {Record<string, Season>} seasons a map of years to seasons
+ * @returns {Season[]} the sorted seasons
+ */
+export const getSortedSeasons = (seasons: Record<string, Season>): Season[] => {
+  const fallbackSeason: Season = {
+    ...FALLBACK_SEASON,
+    status: getActiveSeason(seasons) === FALLBACK_SEASON ? (
+      SeasonStatus.ACTIVE
+    ) : SeasonStatus.ARCHIVED,
+  };
+
+  const allSeasons: Record<string, Season> = {[fallbackSeason.year]: fallbackSeason, ...seasons};
+
+  return Object.values(allSeasons).sort((a: Season, b: Season) => b.year - a.year);
+};
+
+/**
+ * Find the season of the given year, including the fallback season.
+ *
+ * @param {Record<string, Season>} seasons a map of years to seasons
+ * @param {number} year the year
+ * @returns {Season | undefined} the season, if it exists
+ */
+export const findSeason = (
+  seasons: Record<string, Season>, year: number,
+): Season | undefined => {
+  return getSortedSeasons(seasons).find((season: Season) => season.year === year);
+};
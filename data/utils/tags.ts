@@ -0,0 +1,32 @@
+/**
+ * Utils related to the tags on works.
+ */
+
+import {MAXIMUM_TAG_LENGTH, MAXIMUM_TAGS_PER_WORK} from "../constants/setup";
+
+/**
+ * Normalise a tag so that tags which read the same are the same tag.
+ *
+ * Letters are lowercased and every run of anything but letters and numbers becomes a single
+ * hyphen, so "Pixel Art" and "pixel-art" are both `pixel-art`.
+ *
+ * @param {string} tag the tag as written
+ * @returns {string} the normalised tag, which is empty if nothing was left
+ */
+export const normaliseTag = (tag: string): string => {
+  return tag.normalize("NFKC").toLowerCase().replace(
+    /[^\p{L}\p{N}]+/gu, "-"
+  ).replace(/^-+|-+$/g, "").slice(0, MAXIMUM_TAG_LENGTH).replace(/-+$/, "");
+};
+
+/**
+ * Normalise the tags of a work, dropping empty tags and duplicates.
+ *
+ * @param {string[]} tags the tags as written
+ * @returns {string[]} the normalised tags, in the order they were first written
+ */
+export const normaliseTags = (tags: string[]): string[] => {
+  return Array.from(new Set(
+    tags.map(normaliseTag).filter((tag: string) => tag.length > 0)
+  )).slice(0, MAXIMUM_TAGS_PER_WORK);
+};
@@ -0,0 +1,9 @@
+/**
+ * Normalise a username so that names which look the same are the same entry in the registry.
+ *
+ * @param {string} name the username
+ * @returns {string} the trimmed, lowercase, compatibility-normalised name
+ */
+export const normaliseUsername = (name: string): string => {
+  return name.normalize("NFKC").trim().toLowerCase();
+};
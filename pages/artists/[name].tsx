@@ -1,6 +1,7 @@
 import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
 import {faExternalLinkAlt} from "@fortawesome/free-solid-svg-icons";
 import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import moment from "moment";
 import {NextSeo} from "next-seo";
 import Head from "next/head";
 import {useRouter} from "next/router";
@@ -9,11 +10,17 @@ import {useEffect, useState} from "react";
 import {useDispatch, useSelector} from "react-redux";
 import {Dispatch} from "redux";
 import InterfaceLink from "../../components/interface-link";
-import StaticPage, {Header, Paragraph, SubHeader} from "../../components/typography";
+import StaticPage, {
+  Header,
+  ListItem,
+  Paragraph,
+  SubHeader,
+  UnorderedList
+} from "../../components/typography";
 import {DEFAULT_IMAGE} from "../../data/constants/setup";
 import Artist from "../../data/core/Artist";
 import {ArtistsState, RootState} from "../../store/state";
-import {fetchArtists} from "../../utils/connectors";
+import {fetchArtistByName, fetchArtists} from "../../utils/connectors";
 import {ParsedSocial, parseSocial} from "../../utils/socials";
 import NotFound from "../404";
 
@@ -51,14 +58,33 @@ const SingleArtist = (): JSX.Element => {
     setIsLoading(false);
   }, []);
 
-  // Try to grab the ID from the state rather than from Auth0.
+  // Look the name up in the registry, which also knows names that artists have renamed away
+  // from. Old names redirect to the current one so shared links keep working.
+
+  const [namedArtist, setNamedArtist] = useState<Artist | undefined>(undefined);
+  useEffect(() => {
+    if (!router.isReady) {
+      return;
+    }
+
+    fetchArtistByName(name).then((artist: Artist | undefined) => {
+      if (artist && artist.name !== name) {
+        router.replace(`/artists/${encodeURIComponent(artist.name)}`).then();
+      } else {
+        setNamedArtist(artist);
+      }
+    }).catch(() => setNamedArtist(undefined));
+  }, [router.isReady, name]);
+
+  // Artists that haven't saved their profile since the registry existed are only in the state.
 
   const idFromState: string | undefined = artistsData.usernameToId[name];
+  const artist: Artist | undefined = namedArtist || (
+    idFromState ? artistsData.artists[idFromState] : undefined
+  );
 
   let response: JSX.Element = <NotFound />;
-  if (idFromState) {
-    const artist: Artist = artistsData.artists[idFromState];
-
+  if (artist) {
     // Place the socials down.
 
     const socialsElements: JSX.Element[] = [];
@@ -117,13 +143,44 @@ const SingleArtist = (): JSX.Element => {
         <img src={artist.thumbnailUrl} alt={"The user's thumbnail URL."} className={"pt-8"} />
 
         <Header>
-          {name}
+          {artist.name}
         </Header>
 
         <Paragraph>
           <b>Discord ID:</b> {artist.discordId}
         </Paragraph>
 
+        {
+          artist.stats ? (
+            <UnorderedList>
+              <ListItem>
+                <b>Approved works:</b> {artist.stats.approvedCount}
+                {
+                  artist.stats.pendingCount > 0
+                    ? ` (${artist.stats.pendingCount} waiting for approval)`
+                    : ""
+                }
+              </ListItem>
+              <ListItem>
+                <b>Weeks participated:</b> {artist.stats.weeksParticipated}
+              </ListItem>
+              <ListItem>
+                <b>Current streak:</b> {artist.stats.currentStreak} weeks
+                (best: {artist.stats.longestStreak} weeks)
+              </ListItem>
+              {
+                artist.stats.firstSubmittedTimestamp ? (
+                  <ListItem>
+                    <b>Submitting since:</b>{" "}
+                    {moment(artist.stats.firstSubmittedTimestamp).format("LL")}
+                    {" "}(last submitted {moment(artist.stats.lastSubmittedTimestamp).fromNow()})
+                  </ListItem>
+                ) : <></>
+              }
+            </UnorderedList>
+          ) : <></>
+        }
+
         {
           idFromAuth0 === artist.discordId ?
             <>
@@ -133,7 +190,7 @@ const SingleArtist = (): JSX.Element => {
 
         <InterfaceLink
           title={"View Filtered Gallery"}
-          location={`/?artist=${name}`}
+          location={`/?artist=${artist.name}`}
           nextLink
         />
 
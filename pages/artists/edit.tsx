@@ -16,10 +16,14 @@ import StaticPage, {
   SubHeader,
   UnorderedList
 } from "../../components/typography";
-import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {
+  DEFAULT_DESCRIPTION,
+  DEFAULT_IMAGE,
+  USERNAME_RELEASE_DAYS
+} from "../../data/constants/setup";
 import Artist, {ARTIST_SCHEMA} from "../../data/core/Artist";
 import {ArtistsState, RootState} from "../../store/state";
-import {fetchArtists, putArtist} from "../../utils/connectors";
+import {fetchArtists, putArtist, RateLimitError} from "../../utils/connectors";
 
 /**
  * Send a request to the backend and save it locally if it succeeds.
@@ -31,6 +35,7 @@ import {fetchArtists, putArtist} from "../../utils/connectors";
  * @param {string} name the username
  * @param {string} thumbnailUrl the thumbnail URL
  * @param {string[]} socials the socials
+ * @param {boolean} isCommentingDisabled whether comments on the artist's works are turned off
  */
 const sendArtistUpdateRequest = async (
   artistsData: ArtistsState,
@@ -40,6 +45,7 @@ const sendArtistUpdateRequest = async (
   name?: string,
   thumbnailUrl?: string,
   socials?: string[],
+  isCommentingDisabled?: boolean,
 ): Promise<JSX.Element> => {
   const errors: ValidationError[] = [];
 
@@ -63,6 +69,7 @@ const sendArtistUpdateRequest = async (
       name: name,
       thumbnailUrl: thumbnailUrl,
       socials: socials || [],
+      isCommentingDisabled: isCommentingDisabled,
     };
 
     const validation: ValidationResult = ARTIST_SCHEMA.validate(data);
@@ -70,7 +77,7 @@ const sendArtistUpdateRequest = async (
       errors.push(validation.error);
     } else {
       await putArtist(dispatch, artistsData, token, data).then().catch((error: Error) => {
-        errors.push(JSON.parse(error.message));
+        errors.push(error instanceof RateLimitError ? error : JSON.parse(error.message));
       });
     }
   }
@@ -101,6 +108,7 @@ const Edit = (): JSX.Element => {
 
   const nameInput = useRef<HTMLInputElement>(null);
   const socialsInput = useRef<HTMLTextAreaElement>(null);
+  const isCommentingDisabledInput = useRef<HTMLInputElement>(null);
 
   // Primitive-based refs.
 
@@ -182,6 +190,10 @@ const Edit = (): JSX.Element => {
           <ListItem>
             <b>Warning:</b> Editing your username can have unexpected consequences.
           </ListItem>
+          <ListItem>
+            Usernames are unique regardless of case. Your old username keeps linking to you and
+            is reserved for you for {USERNAME_RELEASE_DAYS} days, after which anyone can take it.
+          </ListItem>
         </UnorderedList>
 
         <form className={"mt-6"}>
@@ -204,6 +216,16 @@ const Edit = (): JSX.Element => {
             />
           </div>
 
+          <div className={"mb-4"}>
+            <input
+              ref={isCommentingDisabledInput}
+              id={"isCommentingDisabled"}
+              type={"checkbox"}
+              className={"mr-1"}
+              defaultChecked={artistsData.artists[id]?.isCommentingDisabled}
+            /> Turn off comments on my works
+          </div>
+
           <InterfaceLink
             location={"#"}
             title={"Send"}
@@ -221,6 +243,7 @@ const Edit = (): JSX.Element => {
                   nameInput.current?.value || existingUsername.current,
                   user?.picture,
                   socialsInput.current?.value.trim().split("\n"),
+                  isCommentingDisabledInput.current?.checked,
                 )
               );
             }}
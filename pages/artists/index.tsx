@@ -25,7 +25,7 @@ const Artists = () => {
   }, []);
 
   const productiveArtistsAlphabetically = Object.values(artistsData.artists).filter(
-    (artist: Artist) => artist.worksCount && artist.worksCount > 0
+    (artist: Artist) => artist.stats && artist.stats.approvedCount > 0
   ).sort((artistA: Artist, artistB: Artist) => {
     return artistA.name.localeCompare(artistB.name);
   }).map(
@@ -40,7 +40,16 @@ const Artists = () => {
             />
           </td>
           <td className={"text-center"}>
-            {artist.worksCount}
+            {artist.stats?.approvedCount}
+          </td>
+          <td className={"text-center"}>
+            {artist.stats?.weeksParticipated}
+          </td>
+          <td className={"text-center"}>
+            {artist.stats?.currentStreak}
+          </td>
+          <td className={"text-center"}>
+            {artist.stats?.longestStreak}
           </td>
         </tr>
       );
@@ -85,7 +94,16 @@ const Artists = () => {
               <b>Name</b>
             </td>
             <td className={"p-4 w-24"}>
-              <b>Count</b>
+              <b>Works</b>
+            </td>
+            <td className={"p-4 w-24"}>
+              <b>Weeks</b>
+            </td>
+            <td className={"p-4 w-24"} title={"Consecutive weeks up to the latest week"}>
+              <b>Streak</b>
+            </td>
+            <td className={"p-4 w-24"} title={"Most consecutive weeks in a season"}>
+              <b>Best</b>
             </td>
           </tr>
         </thead>
@@ -0,0 +1,262 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import moment from "moment";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import {useRouter} from "next/router";
+import {ParsedUrlQuery} from "querystring";
+import {FormEvent, useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import InterfaceLink from "../components/interface-link";
+import StaticPage, {Header} from "../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE, MAXIMUM_PAGE_SIZE} from "../data/constants/setup";
+import AuditEntry, {AuditAction, AuditChange} from "../data/core/Audit";
+import Page from "../data/core/Page";
+import {Permission} from "../data/core/Role";
+import {ArtistsState, RootState} from "../store/state";
+import {usePermissions} from "../utils/auth";
+import {AuditFilter, fetchArtists, fetchAuditLog} from "../utils/connectors";
+import NotFound from "./404";
+
+/**
+ * Describe the fields of one side of a change.
+ *
+ * @param {Record<string, unknown> | undefined} fields the fields
+ * @returns {string} the description
+ */
+const describeFields = (fields?: Record<string, unknown>): string => {
+  if (!fields) {
+    return "nothing";
+  }
+
+  return Object.entries(fields).map(
+    ([key, value]) => `${key}: ${JSON.stringify(value)}`
+  ).join(", ") || "nothing";
+};
+
+/**
+ * The audit log of every privileged action, filterable by actor and action.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Audit: NextPage = () => {
+  const {isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const isEditor: boolean = usePermissions().includes(Permission.VIEW_AUDIT_LOG);
+
+  const router = useRouter();
+  const query: ParsedUrlQuery = router.query;
+
+  const dispatch: Dispatch = useDispatch();
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  // The filter is kept in the query string so a filtered view can be shared.
+
+  const filter: AuditFilter = {
+    actorId: query.actorId?.toString() || undefined,
+    action: query.action?.toString() as AuditAction || undefined,
+    limit: MAXIMUM_PAGE_SIZE,
+  };
+
+  const [actorId, setActorId] = useState<string>("");
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setActorId(filter.actorId || ""), [filter.actorId]);
+
+  useEffect(
+    () => {
+      if (isEditor && router.isReady) {
+        getAccessTokenSilently().then(
+          async (token: string) => {
+            fetchArtists(dispatch, artistsData, token);
+
+            try {
+              const page: Page<AuditEntry> = await fetchAuditLog(token, filter);
+
+              setEntries(page.items);
+              setNextCursor(page.nextCursor);
+              setError(null);
+            } catch {
+              setError("The audit log couldn't be retrieved. Please try again later.");
+            }
+          }
+        );
+      }
+    },
+    [isEditor, router.isReady, filter.actorId, filter.action],
+  );
+
+  /**
+   * Replace the filter in the query string, returning to the first page.
+   *
+   * @param {AuditFilter} changes the changes to the filter
+   */
+  const changeFilter = (changes: AuditFilter) => {
+    const newQuery: Record<string, string> = {};
+    Object.entries({actorId: filter.actorId, action: filter.action, ...changes}).forEach(
+      ([key, value]) => {
+        if (value) {
+          newQuery[key] = value.toString();
+        }
+      }
+    );
+
+    router.push({query: newQuery}).then();
+  };
+
+  /**
+   * Apply the actor typed into the filter form.
+   *
+   * @param {FormEvent} event the submission event
+   */
+  const submitActor = (event: FormEvent) => {
+    event.preventDefault();
+
+    changeFilter({actorId: actorId.trim() || undefined});
+  };
+
+  /**
+   * @param {string} id the Discord ID of an artist
+   * @returns {string} the name of the artist with their ID
+   */
+  const getArtistName = (id: string): string => {
+    const name: string | undefined = artistsData.artists[id]?.name;
+
+    return name ? `${name} (${id})` : id;
+  };
+
+  let response = <NotFound />;
+  if (isEditor) {
+    response = (
+      <StaticPage>
+        <Header>Audit Log</Header>
+
+        <form className={"flex flex-row flex-wrap py-3 gap-2"} onSubmit={submitActor}>
+          <input
+            type={"text"}
+            value={actorId}
+            placeholder={"Actor Discord ID"}
+            onChange={(event) => setActorId(event.target.value)}
+            className={"flex-grow min-w-0 px-3 py-2 border leading-tight focus:outline-none"}
+          />
+
+          <select
+            value={filter.action || ""}
+            onChange={(event) => changeFilter({action: event.target.value as AuditAction})}
+            className={"px-3 py-2 border bg-white"}
+          >
+            <option value={""}>Any action</option>
+            {
+              Object.values(AuditAction).map((action: AuditAction) => (
+                <option key={action} value={action}>{action}</option>
+              ))
+            }
+          </select>
+
+          <button type={"submit"} className={"hover:bg-gray-100 px-3 py-2 border"}>
+            Filter
+          </button>
+        </form>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          entries.length === 0 && !error ? <p className={"py-3"}>Nothing has been recorded.</p> : (
+            <ul className={"py-3"}>
+              {
+                entries.map((entry: AuditEntry) => (
+                  <li key={entry.id} className={"py-3 border-b"}>
+                    <p>
+                      <strong>{entry.action}</strong> by{" "}
+                      <a
+                        href={"#"}
+                        className={"underline"}
+                        onClick={(event) => {
+                          event.preventDefault();
+
+                          changeFilter({actorId: entry.actorId});
+                        }}
+                      >
+                        {getArtistName(entry.actorId)}
+                      </a>
+                      {" "}on {moment(entry.timestamp).format("LLL")}
+                    </p>
+
+                    <p className={"text-sm break-all"}>
+                      Targets: {entry.targetIds.join(", ") || "none"}
+                    </p>
+
+                    {
+                      entry.changes.map((change: AuditChange) => (
+                        <p key={change.targetId} className={"text-sm break-all pl-4"}>
+                          {change.targetId}: {describeFields(change.before)}
+                          {" "}&rarr; {describeFields(change.after)}
+                        </p>
+                      ))
+                    }
+                  </li>
+                ))
+              }
+            </ul>
+          )
+        }
+
+        {
+          nextCursor ? (
+            <InterfaceLink
+              title={"Load More"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={
+                async () => {
+                  const page: Page<AuditEntry> = await fetchAuditLog(
+                    await getAccessTokenSilently(), filter, nextCursor,
+                  );
+
+                  setEntries([...entries, ...page.items]);
+                  setNextCursor(page.nextCursor);
+                }
+              }
+            />
+          ) : <></>
+        }
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Audit Log - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Audit Log - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/audit`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default Audit;
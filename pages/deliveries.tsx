@@ -0,0 +1,203 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faRedo} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import moment from "moment";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import Link from "next/link";
+import {useRouter} from "next/router";
+import {useEffect, useState} from "react";
+import InterfaceLink from "../components/interface-link";
+import StaticPage, {Header} from "../components/typography";
+import {
+  DEFAULT_DESCRIPTION,
+  DEFAULT_IMAGE,
+  MAXIMUM_DELIVERY_ATTEMPTS
+} from "../data/constants/setup";
+import Delivery, {DeliveryKind} from "../data/core/Delivery";
+import Page from "../data/core/Page";
+import {Permission} from "../data/core/Role";
+import {usePermissions} from "../utils/auth";
+import {fetchDeliveries, retryDeliveries} from "../utils/connectors";
+import NotFound from "./404";
+
+/**
+ * @param {Delivery} delivery a delivery
+ * @returns {string} where the work or week of the delivery can be seen
+ */
+const getTargetLocation = (delivery: Delivery): string => {
+  return delivery.kind === DeliveryKind.WORK ? `/works/${delivery.targetId}` : "/weeks";
+};
+
+/**
+ * The outbox of Discord posts that haven't been delivered yet, which can be retried.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Deliveries: NextPage = () => {
+  const {isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const isMaintainer: boolean = usePermissions().includes(Permission.MAINTAIN_STORAGE);
+
+  const router = useRouter();
+
+  // Whether only stuck deliveries are shown is kept in the query string so it can be shared.
+
+  const isStuck: boolean = router.query.isStuck === "true";
+
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the first or next page of deliveries.
+   *
+   * @param {string | undefined} cursor the cursor of the page, if not the first
+   */
+  const loadDeliveries = async (cursor?: string) => {
+    try {
+      const page: Page<Delivery> = await fetchDeliveries(
+        await getAccessTokenSilently(), isStuck, cursor,
+      );
+
+      setDeliveries((current: Delivery[]) => [...(cursor ? current : []), ...page.items]);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch {
+      setError("The outbox couldn't be retrieved. Please try again later.");
+    }
+  };
+
+  useEffect(
+    () => {
+      if (isMaintainer && router.isReady) {
+        loadDeliveries().then();
+      }
+    },
+    [isMaintainer, router.isReady, isStuck],
+  );
+
+  let response = <NotFound />;
+  if (isMaintainer) {
+    response = (
+      <StaticPage>
+        <Header>Discord Outbox</Header>
+
+        <label className={"block py-3"}>
+          <input
+            type={"checkbox"}
+            checked={isStuck}
+            onChange={
+              (event) => router.push({query: event.target.checked ? {isStuck: "true"} : {}})
+            }
+            className={"mr-2"}
+          />
+          Only show deliveries that are no longer retried
+        </label>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          deliveries.length === 0 && !error ? (
+            <p className={"py-3"}>Everything has been delivered.</p>
+          ) : (
+            <ul className={"py-3"}>
+              {
+                deliveries.map((delivery: Delivery) => (
+                  <li key={delivery.key} className={"py-3 border-b"}>
+                    <p>
+                      <strong>{delivery.kind}</strong>{" "}
+                      <Link href={getTargetLocation(delivery)} legacyBehavior>
+                        <a className={"underline"}>{delivery.targetId}</a>
+                      </Link>
+                      {
+                        delivery.attempts >= MAXIMUM_DELIVERY_ATTEMPTS ?
+                          <span className={"text-red-700"}> (stuck)</span> : <></>
+                      }
+                    </p>
+
+                    <p className={"text-sm"}>
+                      Queued {moment(delivery.queuedTimestamp).format("LLL")}, failed{" "}
+                      {delivery.attempts} of {MAXIMUM_DELIVERY_ATTEMPTS} times
+                      {
+                        delivery.attempts < MAXIMUM_DELIVERY_ATTEMPTS
+                          ? `, next tried ${moment(delivery.nextAttemptTimestamp).fromNow()}`
+                          : ""
+                      }
+                    </p>
+
+                    {
+                      delivery.lastError ?
+                        <p className={"text-sm break-all text-gray-500"}>
+                          {delivery.lastError}
+                        </p> : <></>
+                    }
+
+                    <InterfaceLink
+                      title={"Retry Now"}
+                      location={"#"}
+                      icon={<FontAwesomeIcon icon={faRedo} />}
+                      customWaitMessage={"Please Wait"}
+                      clickBack={
+                        async () => {
+                          await retryDeliveries(await getAccessTokenSilently(), [delivery.key]);
+
+                          await loadDeliveries();
+                        }
+                      }
+                    />
+                  </li>
+                ))
+              }
+            </ul>
+          )
+        }
+
+        {
+          nextCursor ? (
+            <InterfaceLink
+              title={"Load More"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={async () => loadDeliveries(nextCursor)}
+            />
+          ) : <></>
+        }
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Discord Outbox - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Discord Outbox - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/deliveries`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default Deliveries;
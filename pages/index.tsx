@@ -10,10 +10,33 @@ import GalleryItem from "../components/gallery-item";
 import Omnitool from "../components/omnitool";
 import StaticPage, {Header, Paragraph} from "../components/typography";
 import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../data/constants/setup";
-import Work from "../data/core/Work";
+import {PageOrder} from "../data/core/Page";
+import UserReaction from "../data/core/Reaction";
+import Week from "../data/core/Week";
+import Work, {WorksSort} from "../data/core/Work";
+import {getCreditedNames, joinNames} from "../data/utils/credits";
 import {shuffle} from "../data/utils/data-structures";
-import {ArtistsState, RootState, WeeksState, WorksState} from "../store/state";
-import {fetchArtists, fetchWeeks, fetchWorksByArtist, fetchWorksByWeek} from "../utils/connectors";
+import {getActiveSeason} from "../data/utils/seasons";
+import {
+  ArtistsState,
+  RootState,
+  SeasonsState,
+  WeeksState,
+  WorksListing,
+  WorksState
+} from "../store/state";
+import {useReactions} from "../utils/auth";
+import {
+  fetchArtists,
+  fetchMediumCounts,
+  fetchSeasons,
+  fetchWeeks,
+  fetchWorks,
+  getSearchListingKey,
+  getWorksListingKey,
+  searchWorks,
+  WorksFilter
+} from "../utils/connectors";
 
 /**
  * The number of posts that appears on a single page.
@@ -32,133 +55,141 @@ const Home: NextPage = () => {
   const weeksData: WeeksState = useSelector((state: RootState) => state.weeksData);
   const worksData: WorksState = useSelector((state: RootState) => state.worksData);
   const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+  const seasonsData: SeasonsState = useSelector((state: RootState) => state.seasonsData);
 
-  // Perform the initial retrieval of weeks and artists, then all works by the current week. Any
-  // additional retrievals needed will be provided when the route's search parameters are parsed.
+  const reactions: Record<string, UserReaction> = useReactions();
+
+  // The season is chosen by the query string, defaulting to the active season.
+
+  const router = useRouter();
+  const query: ParsedUrlQuery = router.query;
+
+  const _rawYear: string | string[] | undefined = query.year;
+  const rawYear: string | undefined = typeof _rawYear === "object" ? _rawYear[0] : _rawYear;
+  const year: number = (
+    rawYear && parseInt(rawYear) ? parseInt(rawYear) : getActiveSeason(seasonsData.seasons).year
+  );
+
+  // Perform the initial retrieval of weeks and artists. The works are retrieved a page at a time
+  // once the route's search parameters are parsed.
+
+  const [mediumCounts, setMediumCounts] = useState<Record<string, number>>({});
 
-  const [isLoading, setIsLoading] = useState<boolean>(true);
   useEffect(
     () => {
-      fetchArtists(dispatch, artistsData).then();
-      fetchWeeks(dispatch, weeksData).then(() => {
-        // After the weeks are fetched, fetch works by the latest week. If -Infinity, use week 1.
-
-        const latestWeek = Math.max(
-          Math.max(
-            ...Object.keys(weeksData.weeks).map(numberString => parseInt(numberString)), 1,
-          ),
-          ...Object.values(
-            weeksData.weeks
-          ).filter(
-            week => week.isPublished
-          ).map(
-            week => week.week
-          )
-        );
-
-        fetchWorksByWeek(dispatch, worksData, latestWeek).then();
-      });
+      fetchSeasons(dispatch, seasonsData).then();
+      fetchArtists(dispatch, artistsData, undefined, false, year).then();
+      fetchWeeks(dispatch, weeksData, undefined, false, year).then();
+
+      // The counts are only shown beside the medium filter, so the gallery works without them.
+
+      fetchMediumCounts(year).then(setMediumCounts).catch(() => setMediumCounts({}));
     },
-    []
+    [year]
   );
 
-  // Parse the query string for artist, week, search, and sort filters.
-
-  const router = useRouter();
-  const query: ParsedUrlQuery = router.query;
+  // Parse the query string for artist, week, tag, medium, search, and sort filters.
 
   const _rawArtist: string | string[] | undefined = query.artist;
   const _rawWeek: string | string[] | undefined = query.week;
+  const _rawTag: string | string[] | undefined = query.tag;
+  const _rawMedium: string | string[] | undefined = query.medium;
   const _rawQ: string | string[] | undefined = query.q;
   const _rawP: string | string[] | undefined = query.p;
   const _rawSort: string | string[] | undefined = query.sort;
 
   const artist: string | undefined = typeof _rawArtist === "object" ? _rawArtist[0] : _rawArtist;
   const week: string | undefined = typeof _rawWeek === "object" ? _rawWeek[0] : _rawWeek;
+  const tag: string | undefined = typeof _rawTag === "object" ? _rawTag[0] : _rawTag;
+  const medium: string | undefined = typeof _rawMedium === "object" ? _rawMedium[0] : _rawMedium;
+
+  const sort: string | undefined = typeof _rawSort === "object" ? _rawSort[0] : _rawSort;
+
+  // Note that search and page have different names when parsed:
+
+  const search: string | undefined = typeof _rawQ === "object" ? _rawQ[0] : _rawQ;
+  const page: string | undefined = typeof _rawP === "object" ? _rawP[0] : _rawP;
+
+  const pageNumber: number = Math.max(page ? parseInt(page) || 1 : 1, 1);
+
+  // The filters are applied by the backend, which returns the listing a page at a time. Random
+  // sorting only shuffles what has been retrieved so far.
+  //
+  // A search is ranked by relevance across every season, so it replaces the other filters.
+
+  const artistId: string | undefined = artist ? artistsData.usernameToId[artist] : undefined;
+
+  // The most loved works are those of the latest published week unless a week is chosen.
 
-  // If either of the filters are set, we might need to do more fetches.
+  const isSortingByLove: boolean = sort === WorksSort.LOVED;
 
+  const publishedWeekNumbers: number[] = Object.values(weeksData.weeks).filter(
+    (candidate: Week) => candidate.isPublished
+  ).map((candidate: Week) => candidate.week);
+
+  const latestWeek: number | undefined = publishedWeekNumbers.length > 0 ? (
+    Math.max(...publishedWeekNumbers)
+  ) : undefined;
+
+  const filter: WorksFilter = {
+    year: year,
+    week: week ? parseInt(week) || undefined : isSortingByLove ? latestWeek : undefined,
+    artistId: artistId,
+    tag: tag || undefined,
+    medium: medium || undefined,
+    order: sort === "ascending" ? PageOrder.ASCENDING : PageOrder.DESCENDING,
+    sort: isSortingByLove ? WorksSort.LOVED : undefined,
+    limit: POSTS_PER_PAGE,
+  };
+
+  const isSearching: boolean = !!search?.trim();
+  const listingKey: string = isSearching ? (
+    getSearchListingKey(search || "", POSTS_PER_PAGE)
+  ) : getWorksListingKey(filter);
+
+  const listing: WorksListing | undefined = worksData.listings[listingKey];
+
+  // Retrieve pages until there are enough works to show the current page or there are no more.
+
+  const [isLoading, setIsLoading] = useState<boolean>(true);
   useEffect(
     () => {
-      if (week) {
-        fetchWorksByWeek(dispatch, worksData, parseInt(week)).then();
-      }
+      if (artist && !artistId && !isSearching) {
+        setIsLoading(false);
 
-      if (artist) {
-        fetchWorksByArtist(dispatch, worksData, artist).then();
+        return;
       }
 
-      setIsLoading(false);
-    },
-    [artist, week]
-  );
-
-  const sort: string | undefined = typeof _rawSort === "object" ? _rawSort[0] : _rawSort;
+      const isNextPage: boolean = !!listing && listing.ids.length < pageNumber * POSTS_PER_PAGE;
 
-  // Note that search and page have different names when parsed:
+      const retrieval: Promise<void> = isSearching ? (
+        searchWorks(dispatch, worksData, search || "", POSTS_PER_PAGE, isNextPage)
+      ) : fetchWorks(dispatch, worksData, filter, undefined, isNextPage);
 
-  const search: string | undefined = typeof _rawQ === "object" ? _rawQ[0] : _rawQ;
-  const page: string | undefined = typeof _rawP === "object" ? _rawP[0] : _rawP;
+      retrieval.finally(() => setIsLoading(false));
+    },
+    [listingKey, pageNumber, listing?.ids.length, artist]
+  );
 
-  let works: Work[] = Object.values(
-    worksData.works || [],
-  ).filter(
-    work => work.isApproved && !work.isSoftDeleted && work.id !== "noop",
+  let works: Work[] = (listing?.ids || []).map(
+    (id: string) => worksData.works[id]
   ).filter(
-    work => {
-      // Perform the sorting based on the query string. If not present, we don't perform any
-      // fetches, but any information in the cache will be fair game, meaning there will be the
-      // current week's data combined with random works the user has already seen.
-
-      const artistName: string = (
-        artistsData.artists[work.artistId]?.name
-        || work.firstSeenArtistInfo?.name
-        || "Unknown User"
-      );
-
-      const matchesArtist = artist ? artistName === artist : true;
-      const matchesWeek = week ? work.weekNumbers.map(
-        _week => _week.toString()
-      ).includes(week.toString()) : true;
-
-      const matchesQuery = search ? JSON.stringify(
-        work,
-      ).replaceAll(
-        /\s/g, "",
-      ).toLowerCase().includes(
-        search.toLowerCase().replaceAll(/\s/g, "")
-      ) : true;
-
-      return matchesArtist && matchesWeek && matchesQuery;
-    }
+    work => work && work.isApproved && !work.isSoftDeleted && work.id !== "noop",
   );
 
-  // Shuffling isn't really sorting, but we do that here if required.
+  // Shuffling isn't really sorting, but we do that here if required. Otherwise, the backend
+  // has already sorted the works.
 
   if (sort === "random") {
     works = shuffle(works);
-  } else {
-    // Default to descending sort.
-
-    works = works.sort(
-      (a: Work, b: Work) => {
-        const aDate = new Date(a.submittedTimestamp);
-        const bDate = new Date(b.submittedTimestamp);
-
-        return bDate.valueOf() - aDate.valueOf();
-      }
-    );
-
-    if (sort === "ascending") {
-      works = works.reverse();
-    }
   }
 
   // Perform the slice for pagination.
 
-  works = works.slice(
-    page ? (parseInt(page) - 1) * POSTS_PER_PAGE : 0.0,
-    page ? parseInt(page) * POSTS_PER_PAGE : POSTS_PER_PAGE,
+  works = works.slice((pageNumber - 1) * POSTS_PER_PAGE, pageNumber * POSTS_PER_PAGE);
+
+  const hasNextPage: boolean = !!listing && (
+    listing.ids.length > pageNumber * POSTS_PER_PAGE || !!listing.nextCursor
   );
 
   const mainContent = works.length > 0 ? (
@@ -166,11 +197,7 @@ const Home: NextPage = () => {
       <>
         {
           works.map((work: Work) => {
-            const artistName: string = (
-              artistsData.artists[work.artistId]?.name
-              || work.firstSeenArtistInfo?.name
-              || "Unknown User"
-            );
+            const artistName: string = joinNames(getCreditedNames(work, artistsData.artists));
 
             return <GalleryItem
               key={work.id}
@@ -183,6 +210,8 @@ const Home: NextPage = () => {
               retinaPreview={work.thumbnailUrl || "/placeholders/submission.png"}
               preview={work.smallThumbnailUrl || "/placeholders/submission.png"}
               submittedTimestamp={work.submittedTimestamp}
+              isReactable
+              reaction={reactions[work.id]}
             />;
           })
         }
@@ -242,7 +271,18 @@ const Home: NextPage = () => {
 
       {isLoading ? <StaticPage><Header>Loading...</Header></StaticPage> : mainContent}
 
-      <Omnitool sort={sort} artist={artist} week={week} page={page} search={search} />
+      <Omnitool
+        sort={sort}
+        artist={artist}
+        week={week}
+        tag={tag}
+        medium={medium}
+        mediumCounts={mediumCounts}
+        page={page}
+        search={search}
+        year={year}
+        hasNextPage={hasNextPage}
+      />
     </>
   );
 };
@@ -0,0 +1,196 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import Link from "next/link";
+import {useEffect, useState} from "react";
+import StaticPage, {Header, SubHeader} from "../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../data/constants/setup";
+import {Permission} from "../data/core/Role";
+import {usePermissions} from "../utils/auth";
+import {fetchTags, renameTag} from "../utils/connectors";
+
+/**
+ * The text sizes of tags in the cloud, from the least to the most used.
+ */
+const TAG_SIZES: string[] = ["text-sm", "text-base", "text-lg", "text-xl", "text-2xl", "text-3xl"];
+
+/**
+ * Every tag in use, sized by how many works have it, each linking to the gallery filtered by it.
+ *
+ * Staff who manage tags can also rename a tag on every work, which merges it into the new tag if
+ * that already exists.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Tags: NextPage = () => {
+  const {isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const canManage: boolean = usePermissions().includes(Permission.MANAGE_TAGS);
+
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [tag, setTag] = useState<string>("");
+  const [name, setName] = useState<string>("");
+  const [isWaiting, setIsWaiting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Staff see the tags of works that aren't approved yet, so they can tidy them up too.
+
+  useEffect(() => {
+    (async () => {
+      const token: string | undefined = isAuthenticated ? (
+        await getAccessTokenSilently()
+      ) : undefined;
+
+      setCounts(await fetchTags(token));
+    })().catch(
+      () => setError("The tags couldn't be retrieved. Please try again later.")
+    ).finally(() => setIsLoading(false));
+  }, [isAuthenticated]);
+
+  /**
+   * Rename the chosen tag, then show the tags as they are after the change.
+   */
+  const rename = async () => {
+    setIsWaiting(true);
+
+    try {
+      setCounts(await renameTag(await getAccessTokenSilently(), tag, name));
+      setTag("");
+      setName("");
+      setError(null);
+    } catch (caught: unknown) {
+      setError((caught as Error).message || "That didn't work. Please try again later.");
+    } finally {
+      setIsWaiting(false);
+    }
+  };
+
+  const tags: string[] = Object.keys(counts).sort(
+    (tagA: string, tagB: string) => tagA.localeCompare(tagB)
+  );
+
+  const maximumCount: number = Math.max(1, ...Object.values(counts));
+
+  /**
+   * @param {number} count the number of works with a tag
+   * @returns {string} the text size of the tag in the cloud
+   */
+  const getSize = (count: number): string => TAG_SIZES[
+    Math.floor((count / maximumCount) * (TAG_SIZES.length - 1))
+  ];
+
+  let cloud: JSX.Element = <p className={"py-3"}>Nobody has tagged their work yet!</p>;
+  if (isLoading) {
+    cloud = <p className={"py-3"}>Loading...</p>;
+  } else if (tags.length > 0) {
+    cloud = (
+      <p className={"py-3 leading-loose"}>
+        {
+          tags.map((candidate: string) => (
+            <Link key={candidate} href={`/?tag=${encodeURIComponent(candidate)}`} legacyBehavior>
+              <a
+                className={`mr-4 hover:underline ${getSize(counts[candidate])}`}
+                title={`${counts[candidate]} work(s)`}
+              >
+                #{candidate}
+              </a>
+            </Link>
+          ))
+        }
+      </p>
+    );
+  }
+
+  return (
+    <StaticPage>
+      <Head>
+        <title>Tags - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Tags - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/tags`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      <Header>Tags</Header>
+
+      {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+      {cloud}
+
+      {
+        canManage ? (
+          <>
+            <SubHeader>(ADMIN) Rename or Merge Tags</SubHeader>
+
+            <p className={"py-2 text-sm text-gray-500"}>
+              Renaming a tag changes it on every work. If the new name is already a tag, the two
+              are merged.
+            </p>
+
+            <form
+              className={"flex flex-row flex-wrap items-center py-2"}
+              onSubmit={async (event) => {
+                event.preventDefault();
+
+                await rename();
+              }}
+            >
+              <select
+                id={"tag-from"}
+                name={"tag-from"}
+                className={"shadow border py-2 px-3 mr-2 leading-tight"}
+                value={tag}
+                onChange={(event) => setTag(event.target.value)}
+              >
+                <option value={""}>Choose a tag...</option>
+                {
+                  tags.map((candidate: string) => (
+                    <option key={candidate} value={candidate}>
+                      {candidate} ({counts[candidate]})
+                    </option>
+                  ))
+                }
+              </select>
+
+              <input
+                id={"tag-to"}
+                name={"tag-to"}
+                className={"shadow border py-2 px-3 mr-2 leading-tight"}
+                placeholder={"New name"}
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+
+              <button
+                type={"submit"}
+                className={"px-2 py-1 border hover:bg-gray-100 hover:text-black"}
+                disabled={isWaiting || !tag || name.trim().length === 0}
+              >
+                {isWaiting ? "Please wait..." : "Rename"}
+              </button>
+            </form>
+          </>
+        ) : <></>
+      }
+    </StaticPage>
+  );
+};
+
+export default Tags;
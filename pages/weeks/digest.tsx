@@ -0,0 +1,247 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faCopy, faPaperPlane, faPrint} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import Link from "next/link";
+import {useRouter} from "next/router";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import InterfaceLink from "../../components/interface-link";
+import SeasonSwitcher from "../../components/season-switcher";
+import StaticPage, {Header} from "../../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import Digest, {DigestEntry} from "../../data/core/Digest";
+import {Permission} from "../../data/core/Role";
+import Season from "../../data/core/Season";
+import {getDigestTitle, renderDigestMarkdown} from "../../data/utils/digest";
+import {findSeason, getActiveSeason} from "../../data/utils/seasons";
+import {RootState, SeasonsState} from "../../store/state";
+import {usePermissions} from "../../utils/auth";
+import {fetchDigest, fetchSeasons, postDigest} from "../../utils/connectors";
+import NotFound from "../404";
+
+/**
+ * The showcase digest of a week, which can be copied as Markdown, posted to Discord or printed.
+ *
+ * The controls are hidden when printing, so the page itself is the printable version.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const DigestPage: NextPage = () => {
+  const {isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const isEditor: boolean = usePermissions().includes(Permission.EDIT_WEEKS);
+
+  const dispatch: Dispatch = useDispatch();
+  const seasonsData: SeasonsState = useSelector((state: RootState) => state.seasonsData);
+
+  // The season and week are chosen by the query string, defaulting to the active season.
+
+  const router = useRouter();
+
+  const rawYear = typeof router.query.year === "string" ? parseInt(router.query.year) : NaN;
+  const rawWeek = typeof router.query.week === "string" ? parseInt(router.query.week) : NaN;
+
+  const year: number = rawYear || getActiveSeason(seasonsData.seasons).year;
+  const week: number = rawWeek || 1;
+
+  const season: Season | undefined = findSeason(seasonsData.seasons, year);
+
+  const [digest, setDigest] = useState<Digest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSeasons(dispatch, seasonsData).then();
+  }, []);
+
+  useEffect(
+    () => {
+      if (isEditor && router.isReady) {
+        setDigest(null);
+        setMessage(null);
+
+        getAccessTokenSilently().then(
+          async (token: string) => {
+            try {
+              setDigest(await fetchDigest(token, year, week));
+              setError(null);
+            } catch {
+              setError("The digest couldn't be compiled. Please try again later.");
+            }
+          }
+        );
+      }
+    },
+    [isEditor, router.isReady, year, week],
+  );
+
+  const weekNumbers: number[] = Array.from(
+    {length: season?.weekCount || 0}, (_: unknown, index: number) => index + 1,
+  );
+
+  let response = <NotFound />;
+  if (isEditor) {
+    response = (
+      <StaticPage>
+        <Header>{digest ? `${getDigestTitle(digest)} Showcase` : "Showcase Digest"}</Header>
+
+        <div className={"print:hidden"}>
+          <SeasonSwitcher year={year} resetKeys={["week"]} />
+
+          <div className={"flex flex-row flex-wrap py-2 items-center"}>
+            <p className={"pr-2"}>
+              <b>Week:</b>
+            </p>
+
+            {
+              weekNumbers.map((weekNumber: number) => (
+                <span key={weekNumber}>
+                  <Link href={`?year=${year}&week=${weekNumber}`} legacyBehavior>
+                    <a
+                      className={
+                        "hover:bg-gray-100 px-3 py-1 m-1 hover:text-black " + (
+                          weekNumber === week ? "bg-gray-200 text-black" : ""
+                        )
+                      }
+                    >
+                      {weekNumber}
+                    </a>
+                  </Link>
+                </span>
+              ))
+            }
+          </div>
+
+          {
+            digest && digest.entries.length > 0 ? (
+              <>
+                <InterfaceLink
+                  title={"Copy Markdown"}
+                  location={"#"}
+                  icon={<FontAwesomeIcon icon={faCopy} />}
+                  clickBack={
+                    async () => {
+                      await navigator.clipboard.writeText(renderDigestMarkdown(digest));
+
+                      setMessage("The Markdown was copied to your clipboard.");
+                    }
+                  }
+                />
+
+                <InterfaceLink
+                  title={"Post to Discord"}
+                  location={"#"}
+                  icon={<FontAwesomeIcon icon={faPaperPlane} />}
+                  customWaitMessage={"Please wait..."}
+                  clickBack={
+                    async () => {
+                      if (confirm(`Post the showcase of ${digest.entries.length} works?`)) {
+                        const messageIds: string[] = await postDigest(
+                          await getAccessTokenSilently(), year, week,
+                        );
+
+                        setMessage(`Posted ${messageIds.length} messages to Discord.`);
+                      }
+                    }
+                  }
+                />
+
+                <InterfaceLink
+                  title={"Print"}
+                  location={"#"}
+                  icon={<FontAwesomeIcon icon={faPrint} />}
+                  clickBack={async () => window.print()}
+                />
+              </>
+            ) : <></>
+          }
+
+          {message ? <p className={"py-3 text-green-700"}>{message}</p> : <></>}
+        </div>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          digest && digest.entries.length === 0 ? (
+            <p className={"py-3"}>There are no approved works in this week yet.</p>
+          ) : <></>
+        }
+
+        <ol className={"py-3"}>
+          {
+            (digest?.entries || []).map((entry: DigestEntry, index: number) => (
+              <li
+                key={entry.workId}
+                className={"flex flex-row items-center py-3 border-b break-inside-avoid"}
+              >
+                <span className={"w-8 font-bold"}>{index + 1}.</span>
+
+                {
+                  entry.thumbnailUrl ? (
+                    <img
+                      src={entry.thumbnailUrl}
+                      alt={entry.title}
+                      className={"w-24 h-24 object-cover mr-4"}
+                    />
+                  ) : <div className={"w-24 h-24 mr-4 bg-gray-100"} />
+                }
+
+                <div>
+                  <p>
+                    <a href={entry.url} className={"font-bold underline"}>{entry.title}</a>
+                  </p>
+
+                  <p>
+                    by{" "}
+                    <Link href={`/artists/${encodeURIComponent(entry.artistName)}`} legacyBehavior>
+                      <a className={"underline"}>{entry.artistName}</a>
+                    </Link>
+                  </p>
+
+                  {entry.medium ? <p className={"text-sm italic"}>{entry.medium}</p> : <></>}
+                </div>
+              </li>
+            ))
+          }
+        </ol>
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Showcase Digest - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Showcase Digest - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/weeks/digest`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default DigestPage;
@@ -1,26 +1,125 @@
 import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
 import Joi, {ValidationError, ValidationResult} from "joi";
+import moment from "moment-timezone";
 import {NextSeo} from "next-seo";
 import Head from "next/head";
+import {useRouter} from "next/router";
+import {ParsedUrlQuery} from "querystring";
 import {createRef, SyntheticEvent, useEffect, useState} from "react";
 import {useDispatch, useSelector} from "react-redux";
 import {ResponseMessages} from "../../components/errors";
 import {TextareaInput, TextInput} from "../../components/forms";
 import InterfaceLink from "../../components/interface-link";
+import SeasonSwitcher from "../../components/season-switcher";
 import StaticPage, {Header, SubHeader} from "../../components/typography";
-import {
-  ACTIVE_YEAR,
-  DEFAULT_DESCRIPTION,
-  DEFAULT_IMAGE,
-  LAST_ACTIVE_WEEK
-} from "../../data/constants/setup";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {Permission} from "../../data/core/Role";
+import Season, {FALLBACK_SEASON, SEASON_SCHEMA, SeasonStatus} from "../../data/core/Season";
 import Week, {WEEK_SCHEMA} from "../../data/core/Week";
-import {RootState, WeeksState} from "../../store/state";
-import {getIsEditor} from "../../utils/auth";
-import {fetchWeeks, putWeeks} from "../../utils/connectors";
+import {findSeason, getActiveSeason, getSortedSeasons} from "../../data/utils/seasons";
+import {RootState, SeasonsState, WeeksState} from "../../store/state";
+import {usePermissions} from "../../utils/auth";
+import {fetchSeasons, fetchWeeks, putSeason, putWeeks} from "../../utils/connectors";
+import {fromMelbourneInput, toMelbourneInput} from "../../utils/time";
 import NotFound from "../404";
 
+interface SeasonEditorProps {
+  /**
+   * The year of the season being edited.
+   */
+  year: number;
+
+  /**
+   * The season as the backend knows it, if it exists yet.
+   */
+  season?: Season;
+}
+
+/**
+ * An editor group for the settings of a single season.
+ *
+ * Saving a season that doesn't exist yet creates it.
+ *
+ * @param {SeasonEditorProps} props the props
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const SeasonEditor = (props: SeasonEditorProps) => {
+  const {getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch = useDispatch();
+
+  const weekCountRef = createRef<HTMLInputElement>();
+  const isActiveRef = createRef<HTMLInputElement>();
+
+  const [messagesView, setMessagesView] = useState<JSX.Element>(<></>);
+
+  return (
+    <div className={"py-4"}>
+      <SubHeader>Season {props.year}</SubHeader>
+
+      <TextInput
+        key={`season-${props.year}-week-count`}
+        passedRef={weekCountRef}
+        id={`season-${props.year}-week-count`}
+        label={"Number of Weeks"}
+        initialValue={(props.season?.weekCount || FALLBACK_SEASON.weekCount).toString()}
+      />
+
+      <div>
+        <input
+          key={`season-${props.year}-is-active`}
+          ref={isActiveRef}
+          id={`season-${props.year}-is-active`}
+          type={"checkbox"}
+          className={"mr-1"}
+          defaultChecked={props.season?.status === SeasonStatus.ACTIVE}
+        /> Is Active (archives every other season)
+      </div>
+
+      <InterfaceLink
+        location={"#"}
+        title={props.season ? "Save Season" : "Create Season"}
+        clickBack={
+          async () => {
+            setMessagesView(<></>);
+
+            const season: Season = {
+              year: props.year,
+              weekCount: parseInt(weekCountRef.current?.value || ""),
+              schedule: props.season?.schedule || FALLBACK_SEASON.schedule,
+              status: isActiveRef.current?.checked ? SeasonStatus.ACTIVE : SeasonStatus.ARCHIVED,
+            };
+
+            const errors: ValidationError[] = [];
+
+            const validation: ValidationResult = SEASON_SCHEMA.validate(season);
+            if (validation.error) {
+              errors.push(validation.error);
+            } else {
+              await putSeason(dispatch, await getAccessTokenSilently(), season).catch(
+                (error: Error) => {
+                  errors.push(new ValidationError(error.message, [], null));
+                }
+              );
+            }
+
+            setMessagesView(<ResponseMessages errors={errors} validityType={"value"} />);
+          }
+        }
+      />
+
+      {messagesView}
+    </div>
+  );
+};
+
 interface WeekEditorProps {
+  /**
+   * The year of the season the week belongs to.
+   */
+  year: number;
+
   /**
    * The week number
    */
@@ -51,10 +150,14 @@ interface WeekEditorProps {
  */
 const WeekEditor = (props: WeekEditorProps) => {
   const [isSetToUpdate, setIsSetToUpdate] = useState<boolean>(false);
+  const [publishAt, setPublishAt] = useState<string | undefined>(
+    props.parentBackendStateWeeks[props.week]?.publishAt
+  );
 
   const themeRef = createRef<HTMLInputElement>();
   const descriptionRef = createRef<HTMLTextAreaElement>();
   const isPublishedRef = createRef<HTMLInputElement>();
+  const publishAtRef = createRef<HTMLInputElement>();
 
   /**
    * Export a week and save it in the parent state.
@@ -82,12 +185,19 @@ const WeekEditor = (props: WeekEditorProps) => {
       throw new Error("Published ref doesn't point to anything.");
     }
 
+    const nextPublishAt: string | undefined = fromMelbourneInput(
+      publishAtRef.current?.value || ""
+    );
+
+    setPublishAt(nextPublishAt);
+
     const week: Week = {
-      year: ACTIVE_YEAR,
+      year: props.year,
       week: props.week,
       theme: themeRef.current?.value,
       information: descriptionRef.current?.value,
       isPublished: isPublishedRef.current?.checked,
+      publishAt: nextPublishAt,
       discordId: props.parentBackendStateWeeks[props.week]?.discordId || "",
       isUpdating: isSetToUpdate,
     };
@@ -164,6 +274,26 @@ const WeekEditor = (props: WeekEditorProps) => {
           }
         /> Is Published
       </div>
+
+      <TextInput
+        passedRef={publishAtRef}
+        id={`week-${props.week}-publishAt`}
+        type={"datetime-local"}
+        label={`Week ${props.week} Scheduled Publish Time (Melbourne)`}
+        blurCallback={() => updateParentState(false)}
+        changeCallback={() => updateParentState(true)}
+        initialValue={toMelbourneInput(props.parentBackendStateWeeks[props.week]?.publishAt)}
+      />
+
+      {
+        publishAt ? (
+          <p className={"text-sm"}>
+            Publishes {moment(publishAt).tz("Australia/Melbourne").format("LLLL")} in Melbourne,
+            which is {moment(publishAt).format("LLLL")} your time. Leave it empty to only publish
+            the week by hand.
+          </p>
+        ) : <></>
+      }
     </div>
   );
 };
@@ -176,12 +306,32 @@ const Edit = (): JSX.Element => {
   const {isLoading, user, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
   const [weeks, setWeeks] = useState<Record<number, Week>>({});
 
-  const isEditor = getIsEditor(user);
+  const permissions: Permission[] = usePermissions();
+
+  const isEditor: boolean = permissions.includes(Permission.EDIT_WEEKS);
+  const canEditSeasons: boolean = permissions.includes(Permission.EDIT_SEASONS);
 
   // Handle the weeks cache.
 
   const dispatch = useDispatch();
   const weeksData: WeeksState = useSelector((state: RootState) => state.weeksData);
+  const seasonsData: SeasonsState = useSelector((state: RootState) => state.seasonsData);
+
+  // The season is chosen by the query string, defaulting to the active season.
+
+  const router = useRouter();
+  const query: ParsedUrlQuery = router.query;
+
+  const _rawYear: string | string[] | undefined = query.year;
+  const rawYear: string | undefined = typeof _rawYear === "object" ? _rawYear[0] : _rawYear;
+  const year: number = (
+    rawYear && parseInt(rawYear) ? parseInt(rawYear) : getActiveSeason(seasonsData.seasons).year
+  );
+
+  const season: Season | undefined = findSeason(seasonsData.seasons, year);
+  const weekCount: number = season?.weekCount || 0;
+
+  const nextYear: number = getSortedSeasons(seasonsData.seasons)[0].year + 1;
 
   // Handle error/success messages.
 
@@ -201,16 +351,17 @@ const Edit = (): JSX.Element => {
       );
     }
 
-    fetchWeeks(dispatch, weeksData, token, isEditor).then();
-  }, []);
+    fetchSeasons(dispatch, seasonsData, token, isEditor).then();
+    fetchWeeks(dispatch, weeksData, token, isEditor, year).then();
+  }, [year, isEditor]);
 
   useEffect(() => {
     // If anything was fetched, set the default state. Otherwise, default to everything empty.
 
     const tempState: Record<number, Week> = {};
-    for (let i = 1; i <= LAST_ACTIVE_WEEK; i++) {
+    for (let i = 1; i <= weekCount; i++) {
       tempState[i] = {
-        year: ACTIVE_YEAR,
+        year: year,
         week: i,
         theme: "",
         information: "",
@@ -221,13 +372,15 @@ const Edit = (): JSX.Element => {
     }
 
     if (Object.values(weeksData.weeks).length > 0) {
-      Object.values(weeksData.weeks).forEach((week: Week) => {
+      Object.values(weeksData.weeks).filter(
+        (week: Week) => week.year === year && week.week <= weekCount
+      ).forEach((week: Week) => {
         tempState[week.week] = week;
       });
     }
 
     setWeeks(tempState);
-  }, [Object.values(weeksData.weeks).length]);
+  }, [Object.values(weeksData.weeks).length, weeksData.year, year, weekCount]);
 
   let response = <NotFound />;
   if (isEditor) {
@@ -249,13 +402,30 @@ const Edit = (): JSX.Element => {
       <StaticPage>
         <Header>Editing Weeks</Header>
 
-        <InterfaceLink location={"/weeks"} title={"View Weeks"} nextLink />
+        <InterfaceLink location={`/weeks?year=${year}`} title={"View Weeks"} nextLink />
+
+        {
+          canEditSeasons ? <InterfaceLink
+            location={`/weeks/edit?year=${nextYear}`}
+            title={`New Season (${nextYear})`}
+            nextLink
+          /> : <></>
+        }
+
+        <SeasonSwitcher year={year} />
+
+        {
+          canEditSeasons ? <SeasonEditor
+            key={`season-${year}`} year={year} season={season}
+          /> : <></>
+        }
 
         {
           weeksInOrder.map(
             (week: Week) => {
               return <WeekEditor
-                key={`week-${week.week}`}
+                key={`week-${year}-${week.week}`}
+                year={year}
                 week={week.week}
                 parentSetter={setWeeks}
                 parentStateWeeks={weeks}
@@ -3,21 +3,27 @@ import {
   faAngleDown,
   faAngleRight,
   faHandMiddleFinger,
+  faListOl,
   faLockOpen
 } from "@fortawesome/free-solid-svg-icons";
 import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
 import {NextSeo} from "next-seo";
 import Head from "next/head";
+import {useRouter} from "next/router";
+import {ParsedUrlQuery} from "querystring";
 import {useEffect, useState} from "react";
 import {useDispatch, useSelector} from "react-redux";
 import {Dispatch} from "redux";
 import InterfaceLink from "../../components/interface-link";
 import {Markdown} from "../../components/markdown";
+import SeasonSwitcher from "../../components/season-switcher";
 import StaticPage, {Header, Paragraph, SubHeader} from "../../components/typography";
 import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {Permission} from "../../data/core/Role";
 import Week from "../../data/core/Week";
-import {RootState, WeeksState} from "../../store/state";
-import {getIsEditor} from "../../utils/auth";
+import {getActiveSeason} from "../../data/utils/seasons";
+import {RootState, SeasonsState, WeeksState} from "../../store/state";
+import {usePermissions} from "../../utils/auth";
 import {fetchWeeks} from "../../utils/connectors";
 
 /**
@@ -32,31 +38,46 @@ const Weeks = () => {
     (state: RootState) => state.weeksData,
   );
 
+  const seasonsData: SeasonsState = useSelector((state: RootState) => state.seasonsData);
+
+  // The season is chosen by the query string, defaulting to the active season.
+
+  const router = useRouter();
+  const query: ParsedUrlQuery = router.query;
+
+  const _rawYear: string | string[] | undefined = query.year;
+  const rawYear: string | undefined = typeof _rawYear === "object" ? _rawYear[0] : _rawYear;
+  const year: number = (
+    rawYear && parseInt(rawYear) ? parseInt(rawYear) : getActiveSeason(seasonsData.seasons).year
+  );
+
   // Check that the user is allowed to see the edit button.
 
   const {user, isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
 
-  const isEditor: boolean = getIsEditor(user);
+  const isEditor: boolean = usePermissions().includes(Permission.EDIT_WEEKS);
 
   const [isApiLoading, setIsApiLoading] = useState<boolean>(true);
   useEffect(() => {
     if (user) {
       getAccessTokenSilently().then(
-        (token: string) => fetchWeeks(dispatch, weeksData, token, isEditor)
+        (token: string) => fetchWeeks(dispatch, weeksData, token, isEditor, year)
       );
     } else {
-      fetchWeeks(dispatch, weeksData, undefined, isEditor).then();
+      fetchWeeks(dispatch, weeksData, undefined, isEditor, year).then();
     }
 
     setIsApiLoading(false);
-  }, []);
+  }, [year, isEditor]);
 
   // Gather weeks data and populate some divs.
 
   const weeksDivs: JSX.Element[] = [];
   let currentWeekDiv: JSX.Element = <></>;
 
-  Object.values(weeksData.weeks).filter((week: Week) => week.isPublished).forEach(
+  Object.values(weeksData.weeks).filter(
+    (week: Week) => week.isPublished && week.year === year
+  ).forEach(
     (week: Week) => {
       const newDiv: JSX.Element = (
         <div key={week.week}>
@@ -66,7 +87,11 @@ const Weeks = () => {
 
           <Markdown markdown={week.information} />
 
-          <InterfaceLink location={`/?week=${week.week}`} nextLink title={"Filter by Week"} />
+          <InterfaceLink
+            location={`/?year=${week.year}&week=${week.week}`}
+            nextLink
+            title={"Filter by Week"}
+          />
         </div>
       );
 
@@ -86,9 +111,11 @@ const Weeks = () => {
         <StaticPage>
           <Header>Viewing Weeks</Header>
 
+          <SeasonSwitcher year={year} />
+
           {
             isEditor ? <InterfaceLink
-              location={"/weeks/edit"}
+              location={`/weeks/edit?year=${year}`}
               title={"Edit Weeks"} nextLink
               icon={
                 <FontAwesomeIcon icon={faLockOpen} />
@@ -96,6 +123,16 @@ const Weeks = () => {
             /> : <></>
           }
 
+          {
+            isEditor ? <InterfaceLink
+              location={`/weeks/digest?year=${year}`}
+              title={"Showcase Digest"} nextLink
+              icon={
+                <FontAwesomeIcon icon={faListOl} />
+              }
+            /> : <></>
+          }
+
           <SubHeader>
             Current Week
           </SubHeader>
@@ -139,6 +176,10 @@ const Weeks = () => {
           <SubHeader>
             None of the weeks have been released yet.
           </SubHeader>
+
+          <div className={"flex justify-center"}>
+            <SeasonSwitcher year={year} />
+          </div>
           <Paragraph>
             The prompt will be up soon (i.e., once Cindy figures out how to use the site).
           </Paragraph>
@@ -146,7 +187,7 @@ const Weeks = () => {
           {
             isEditor ?
               <InterfaceLink
-                location={"/weeks/edit"}
+                location={`/weeks/edit?year=${year}`}
                 title={"(Admin) Fuck you, Tom"}
                 icon={<FontAwesomeIcon icon={faHandMiddleFinger} />}
                 nextLink
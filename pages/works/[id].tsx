@@ -1,5 +1,5 @@
 import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
-import {faCheck, faLockOpen, faTrash} from "@fortawesome/free-solid-svg-icons";
+import {faCheck, faLockOpen, faReply, faTrash} from "@fortawesome/free-solid-svg-icons";
 import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
 import moment from "moment";
 import {NextSeo} from "next-seo";
@@ -10,24 +10,42 @@ import {ParsedUrlQuery} from "querystring";
 import {useEffect, useState} from "react";
 import {useDispatch, useSelector} from "react-redux";
 import {Dispatch} from "redux";
+import Collaborators from "../../components/collaborators";
+import CommentThread from "../../components/comment-thread";
 import Fancybox from "../../components/fancybox";
 import InterfaceLink from "../../components/interface-link";
 import {Markdown} from "../../components/markdown";
+import ReactionBar from "../../components/reaction-bar";
+import RevisionHistory from "../../components/revision-history";
 import SquareLink from "../../components/square-link";
 import StaticPage, {Header} from "../../components/typography";
 import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
 import Artist from "../../data/core/Artist";
+import UserReaction from "../../data/core/Reaction";
+import {Permission} from "../../data/core/Role";
 import Work, {UrlItem} from "../../data/core/Work";
+import {getCreditedArtistIds, getCreditedNames, joinNames} from "../../data/utils/credits";
+import {getMediumKey} from "../../data/utils/mediums";
 import {ArtistsState, RootState, WorksState} from "../../store/state";
-import {getIsEditor, getUserId} from "../../utils/auth";
-import {approveWorks, deleteWorks, fetchArtists, fetchWorkById} from "../../utils/connectors";
+import {getUserId, usePermissions, useReactions} from "../../utils/auth";
+import {
+  approveWorks,
+  deleteWorks,
+  fetchArtists,
+  fetchWorkById,
+  rejectWorks
+} from "../../utils/connectors";
 import {ParsedSocial, parseSocial} from "../../utils/socials";
 import NotFound from "../404";
 
 const WorksById = () => {
   const {user, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
 
-  const isEditor = getIsEditor(user);
+  const permissions: Permission[] = usePermissions();
+
+  const isEditor: boolean = permissions.includes(Permission.MODERATE_WORKS);
+  const canEditAnyWork: boolean = permissions.includes(Permission.EDIT_ANY_WORK);
+  const reactions: Record<string, UserReaction> = useReactions();
   const userId: string | undefined = user ? getUserId(user) : undefined;
 
   const router = useRouter();
@@ -46,6 +64,8 @@ const WorksById = () => {
   const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
 
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [changeReason, setChangeReason] = useState<string>("");
+  const [changeReasonError, setChangeReasonError] = useState<string | null>(null);
 
   useEffect(
     () => {
@@ -64,7 +84,10 @@ const WorksById = () => {
     work?.artistId ? artistsData.artists[work.artistId] : undefined
   );
 
-  const artistName: string = artist?.name || work?.firstSeenArtistInfo?.name || "Unknown";
+  const creditedNames: string[] = work ? getCreditedNames(work, artistsData.artists) : [];
+  const artistName: string = joinNames(creditedNames);
+
+  const isCredited: boolean = !!work && !!userId && getCreditedArtistIds(work).includes(userId);
 
   let response = <NotFound />;
   if (work && !work.isSoftDeleted && work.id !== "noop") {
@@ -182,15 +205,24 @@ const WorksById = () => {
 
               <h2 className={"text-3xl pb-4"}>
                 by&nbsp;
-                <Link href={`/artists/${artistName}`} legacyBehavior>
-                  <a className={"underline"} style={{color: "#7C7CE0"}}>{artistName}</a>
-                </Link>
+                {
+                  creditedNames.map((name: string, index: number) => (
+                    <span key={index}>
+                      {index > 0 ? (index === creditedNames.length - 1 ? " and " : ", ") : ""}
+                      <Link href={`/artists/${name}`} legacyBehavior>
+                        <a className={"underline"} style={{color: "#7C7CE0"}}>{name}</a>
+                      </Link>
+                    </span>
+                  ))
+                }
 
                 <p className={"text-sm mt-3 text-gray-400"}>
                   Posted: {moment(work.submittedTimestamp).toString()}&nbsp;
                   {
                     work.isApproved ? <span className={"text-green-800"}>
                       Approved
+                    </span> : work.changeRequest ? <span className={"text-red-700"}>
+                      Changes Requested
                     </span> : <span className={"text-yellow-500"}>
                       Pending Approval
                     </span>
@@ -198,6 +230,24 @@ const WorksById = () => {
                 </p>
               </h2>
 
+              {
+                work.changeRequest && (isEditor || isCredited) ?
+                  <div className={"my-4 px-4 py-3 border border-yellow-500 bg-yellow-50"}>
+                    <p>
+                      <b>Changes requested</b>{" "}
+                      <span className={"text-sm text-gray-500"}>
+                        {moment(work.changeRequest.timestamp).fromNow()}
+                      </span>
+                    </p>
+
+                    <p className={"py-2 whitespace-pre-wrap"}>{work.changeRequest.reason}</p>
+
+                    <p className={"text-sm"}>
+                      Once you edit this work, it will go back to the queue to be approved.
+                    </p>
+                  </div> : <></>
+              }
+
               {
                 artist?.socials ?
                   <div className={"pt-2 pb-4"}>
@@ -221,16 +271,48 @@ const WorksById = () => {
 
               {work.medium ? <>
                 <p className={"hidden 2xl:block"}>
-                  Medium: <i>{work.medium}</i>.
+                  Medium: {
+                    work.mediumCategory ? (
+                      <Link
+                        href={`/?medium=${getMediumKey({
+                          category: work.mediumCategory, subtype: work.mediumSubtype,
+                        })}`}
+                        legacyBehavior
+                      >
+                        <a className={"underline"}><i>{work.medium}</i></a>
+                      </Link>
+                    ) : <i>{work.medium}</i>
+                  }.
                 </p>
               </> : <></>}
 
+              {
+                work.tags && work.tags.length > 0 ? (
+                  <p className={"py-1"}>
+                    {
+                      work.tags.map((tag: string) => (
+                        <Link key={tag} href={`/?tag=${encodeURIComponent(tag)}`} legacyBehavior>
+                          <a className={"mr-2 text-sm underline"}>#{tag}</a>
+                        </Link>
+                      ))
+                    }
+                  </p>
+                ) : <></>
+              }
+
               <p className={"pt-4"}>
                 <b>Artist&apos;s Description</b>
               </p>
 
               <Markdown markdown={work.description} />
 
+              {
+                work.isApproved ?
+                  <div className={"pt-4"}>
+                    <ReactionBar workId={work.id} reaction={reactions[work.id]} />
+                  </div> : <></>
+              }
+
               {
                 isEditor && !work.isApproved ?
                   <div>
@@ -253,6 +335,52 @@ const WorksById = () => {
                   </div> : <></>
               }
 
+              {
+                isEditor && !work.isApproved ?
+                  <div className={"py-2"}>
+                    <textarea
+                      value={changeReason}
+                      placeholder={"What does the artist need to change?"}
+                      maxLength={1024}
+                      onChange={(event) => setChangeReason(event.target.value)}
+                      className={"w-full px-3 py-2 border leading-tight focus:outline-none"}
+                    />
+
+                    {
+                      changeReasonError ?
+                        <p className={"text-sm text-red-700"}>{changeReasonError}</p> : <></>
+                    }
+
+                    <InterfaceLink
+                      title={"(ADMIN) Request Changes"}
+                      location={"#"}
+                      icon={<FontAwesomeIcon icon={faReply} fixedWidth />}
+                      customWaitMessage={"Please wait..."}
+                      clickBack={
+                        async () => {
+                          if (changeReason.trim().length < 3) {
+                            setChangeReasonError("Please explain what needs to change.");
+
+                            return;
+                          }
+
+                          await rejectWorks(
+                            await getAccessTokenSilently(),
+                            userId || "",
+                            [work.id],
+                            changeReason,
+                            dispatch,
+                            worksData,
+                          );
+
+                          setChangeReason("");
+                          setChangeReasonError(null);
+                        }
+                      }
+                    />
+                  </div> : <></>
+              }
+
               {
                 isEditor ?
                   <div className={"text-red-600"}>
@@ -277,7 +405,7 @@ const WorksById = () => {
               }
 
               {
-                (isEditor || (work.artistId === userId)) ?
+                (canEditAnyWork || isCredited) ?
                   <div>
                     <InterfaceLink
                       title={"Edit Work"}
@@ -289,9 +417,22 @@ const WorksById = () => {
                     />
                   </div> : <></>
               }
+
+              <Collaborators work={work} />
             </div>
           </div>
         </div>
+
+        {
+          work.isApproved ? (
+            <CommentThread work={work} isCommentingDisabled={artist?.isCommentingDisabled} />
+          ) : <></>
+        }
+
+        {
+          (isEditor || isCredited) ?
+            <RevisionHistory work={work} canRevert={canEditAnyWork} /> : <></>
+        }
       </>
     );
   } else if (isLoading) {
@@ -0,0 +1,150 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import GalleryItem from "../../components/gallery-item";
+import InterfaceLink from "../../components/interface-link";
+import StaticPage, {Header} from "../../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE, DEFAULT_PAGE_SIZE} from "../../data/constants/setup";
+import Page from "../../data/core/Page";
+import UserReaction from "../../data/core/Reaction";
+import Work from "../../data/core/Work";
+import {getCreditedNames, joinNames} from "../../data/utils/credits";
+import {ArtistsState, RootState} from "../../store/state";
+import {useReactions} from "../../utils/auth";
+import {fetchArtists, fetchFavourites} from "../../utils/connectors";
+import NotFound from "../404";
+
+/**
+ * The authenticated user's favourite works, most recently favourited first.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Favourites: NextPage = () => {
+  const {isLoading, isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch: Dispatch = useDispatch();
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const reactions: Record<string, UserReaction> = useReactions();
+
+  const [works, setWorks] = useState<Work[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () => {
+      if (isAuthenticated) {
+        fetchArtists(dispatch, artistsData).then();
+
+        getAccessTokenSilently().then(
+          async (token: string) => {
+            try {
+              const page: Page<Work> = await fetchFavourites(dispatch, token, DEFAULT_PAGE_SIZE);
+
+              setWorks(page.items);
+              setNextCursor(page.nextCursor);
+            } catch {
+              setError("Your favourites couldn't be retrieved. Please try again later.");
+            }
+          }
+        );
+      }
+    },
+    [isAuthenticated],
+  );
+
+  let response = <NotFound />;
+  if (isAuthenticated) {
+    response = (
+      <StaticPage>
+        <Header>Favourites</Header>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          works.length === 0 && !error ? (
+            <p className={"py-3"}>
+              You haven&apos;t added any favourites yet. Use the bookmark under a work to add it.
+            </p>
+          ) : <></>
+        }
+
+        {
+          works.map((work: Work) => (
+            <GalleryItem
+              key={work.id}
+              id={work.id}
+              title={work.title}
+              artist={joinNames(getCreditedNames(work, artistsData.artists))}
+              weeks={work.weekNumbers}
+              medium={work.medium}
+              description={work.description}
+              retinaPreview={work.thumbnailUrl || "/placeholders/submission.png"}
+              preview={work.smallThumbnailUrl || "/placeholders/submission.png"}
+              submittedTimestamp={work.submittedTimestamp}
+              isReactable
+              reaction={reactions[work.id]}
+            />
+          ))
+        }
+
+        {
+          nextCursor ? (
+            <InterfaceLink
+              title={"Load More"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={
+                async () => {
+                  const page: Page<Work> = await fetchFavourites(
+                    dispatch, await getAccessTokenSilently(), DEFAULT_PAGE_SIZE, nextCursor,
+                  );
+
+                  setWorks([...works, ...page.items]);
+                  setNextCursor(page.nextCursor);
+                }
+              }
+            />
+          ) : <></>
+        }
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Favourites - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Favourites - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/works/favourites`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default Favourites;
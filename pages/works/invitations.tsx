@@ -0,0 +1,146 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import Link from "next/link";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import InterfaceLink from "../../components/interface-link";
+import StaticPage, {Header} from "../../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import Work from "../../data/core/Work";
+import {getCreditedNames, joinNames} from "../../data/utils/credits";
+import {ArtistsState, RootState} from "../../store/state";
+import {answerInvitation, fetchArtists, fetchInvitations} from "../../utils/connectors";
+import NotFound from "../404";
+
+/**
+ * The works the authenticated user is invited to be credited on, which they accept or decline.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Invitations: NextPage = () => {
+  const {isLoading, isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch: Dispatch = useDispatch();
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const [works, setWorks] = useState<Work[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () => {
+      if (isAuthenticated) {
+        fetchArtists(dispatch, artistsData).then();
+
+        getAccessTokenSilently().then(
+          async (token: string) => {
+            try {
+              setWorks(await fetchInvitations(dispatch, token));
+            } catch {
+              setError("Your invitations couldn't be retrieved. Please try again later.");
+            }
+          }
+        );
+      }
+    },
+    [isAuthenticated],
+  );
+
+  /**
+   * Accept or decline an invitation, then stop listing it.
+   *
+   * @param {Work} work the work
+   * @param {boolean} isAccepting whether to accept rather than decline
+   */
+  const answer = async (work: Work, isAccepting: boolean) => {
+    try {
+      await answerInvitation(dispatch, await getAccessTokenSilently(), work.id, isAccepting);
+
+      setWorks((current: Work[]) => current.filter((listed: Work) => listed.id !== work.id));
+      setError(null);
+    } catch (caught: unknown) {
+      setError((caught as Error).message || "That didn't work. Please try again later.");
+    }
+  };
+
+  let response = <NotFound />;
+  if (isAuthenticated) {
+    response = (
+      <StaticPage>
+        <Header>Invitations</Header>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          works.length === 0 && !error ? (
+            <p className={"py-3"}>
+              Nobody has invited you to be credited on their work. When they do, it shows up here.
+            </p>
+          ) : <></>
+        }
+
+        <ul>
+          {
+            works.map((work: Work) => (
+              <li key={work.id} className={"py-3 border-b"}>
+                <Link href={`/works/${work.id}`} legacyBehavior>
+                  <a className={"underline"}><b>{work.title}</b></a>
+                </Link>
+                {" "}by {joinNames(getCreditedNames(work, artistsData.artists))}
+
+                <InterfaceLink
+                  title={"Accept"}
+                  location={"#"}
+                  customWaitMessage={"Please wait..."}
+                  clickBack={async () => answer(work, true)}
+                />
+
+                <InterfaceLink
+                  title={"Decline"}
+                  location={"#"}
+                  customWaitMessage={"Please wait..."}
+                  clickBack={async () => answer(work, false)}
+                />
+              </li>
+            ))
+          }
+        </ul>
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Invitations - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Invitations - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/works/invitations`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default Invitations;
@@ -0,0 +1,215 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import Link from "next/link";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import InterfaceLink from "../../components/interface-link";
+import StaticPage, {Header} from "../../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {
+  MEDIUM_TAXONOMY,
+  MediumCategory,
+  MediumChoice,
+  MediumReviewItem
+} from "../../data/core/Medium";
+import {Permission} from "../../data/core/Role";
+import {describeMedium, getMediumKey, parseMediumKey} from "../../data/utils/mediums";
+import {ArtistsState, RootState} from "../../store/state";
+import {usePermissions} from "../../utils/auth";
+import {fetchArtists, fetchMediumReview, migrateMediums} from "../../utils/connectors";
+import NotFound from "../404";
+
+/**
+ * The key of every category and subtype of medium, in the order they're offered.
+ */
+const MEDIUM_KEYS: string[] = Object.values(MediumCategory).flatMap(
+  (category: MediumCategory) => [
+    category,
+    ...Object.keys(MEDIUM_TAXONOMY[category].subtypes).map(
+      (subtype: string) => getMediumKey({category: category, subtype: subtype})
+    ),
+  ]
+);
+
+/**
+ * The works with a medium written before the taxonomy, where staff review the medium each is
+ * mapped to before migrating them.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Mediums: NextPage = () => {
+  const {isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const canEditAnyWork: boolean = usePermissions().includes(Permission.EDIT_ANY_WORK);
+
+  const dispatch: Dispatch = useDispatch();
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const [items, setItems] = useState<MediumReviewItem[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Show the works still to be reviewed, choosing the suggested medium of each by default.
+   *
+   * @param {MediumReviewItem[]} listed the works to review
+   */
+  const showItems = (listed: MediumReviewItem[]) => {
+    setItems(listed);
+    setChoices(Object.fromEntries(listed.map((item: MediumReviewItem) => [
+      item.workId, item.suggestion ? getMediumKey(item.suggestion) : "",
+    ])));
+  };
+
+  useEffect(
+    () => {
+      if (canEditAnyWork) {
+        getAccessTokenSilently().then(
+          async (token: string) => {
+            fetchArtists(dispatch, artistsData, token);
+
+            try {
+              showItems(await fetchMediumReview(token));
+            } catch {
+              setError("The works to review couldn't be retrieved. Please try again later.");
+            }
+          }
+        );
+      }
+    },
+    [canEditAnyWork],
+  );
+
+  /**
+   * Migrate every work a medium is chosen for, leaving the rest to review later.
+   */
+  const migrate = async () => {
+    const chosen: Record<string, MediumChoice> = Object.fromEntries(
+      Object.entries(choices).filter(([, key]) => !!key).map(
+        ([workId, key]) => [workId, parseMediumKey(key)]
+      )
+    );
+
+    if (Object.keys(chosen).length === 0) {
+      setError("Choose a medium for at least one work first.");
+
+      return;
+    }
+
+    try {
+      showItems(await migrateMediums(await getAccessTokenSilently(), chosen));
+      setError(null);
+    } catch (caught: unknown) {
+      setError((caught as Error).message || "That didn't work. Please try again later.");
+    }
+  };
+
+  let response = <NotFound />;
+  if (canEditAnyWork) {
+    response = (
+      <StaticPage>
+        <Header>Mediums</Header>
+
+        <p className={"py-3"}>
+          These works have a medium written before mediums were chosen from a list. Check the
+          medium each is mapped to, then apply them. A written medium is replaced by the name of
+          its new medium, except for &quot;Other&quot;, which keeps what the artist wrote.
+        </p>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          items.length === 0 && !error ? (
+            <p className={"py-3"}>Every work has a medium from the list.</p>
+          ) : (
+            <ul className={"py-3"}>
+              {
+                items.map((item: MediumReviewItem) => (
+                  <li key={item.workId} className={"py-3 border-b"}>
+                    <p>
+                      <Link href={`/works/${item.workId}`} legacyBehavior>
+                        <a className={"underline"}><b>{item.title}</b></a>
+                      </Link>
+                      {" "}by {artistsData.artists[item.artistId]?.name || item.artistId}
+                    </p>
+
+                    <p className={"text-sm"}>
+                      Written as <i>{item.medium}</i>
+                    </p>
+
+                    <select
+                      id={`medium-${item.workId}`}
+                      name={`medium-${item.workId}`}
+                      className={"shadow border py-2 px-3 my-2 leading-tight"}
+                      value={choices[item.workId] || ""}
+                      onChange={(event) => setChoices({
+                        ...choices, [item.workId]: event.target.value,
+                      })}
+                    >
+                      <option value={""}>Leave for now</option>
+                      {
+                        MEDIUM_KEYS.map((key: string) => (
+                          <option key={key} value={key}>
+                            {key.includes("/") ? "\u00a0\u00a0" : ""}
+                            {describeMedium(parseMediumKey(key))}
+                          </option>
+                        ))
+                      }
+                    </select>
+                  </li>
+                ))
+              }
+            </ul>
+          )
+        }
+
+        {
+          items.length > 0 ? (
+            <InterfaceLink
+              title={"Apply Mediums"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={migrate}
+            />
+          ) : <></>
+        }
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Mediums - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Mediums - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/works/mediums`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default Mediums;
@@ -6,12 +6,24 @@ import {useEffect} from "react";
 import {useDispatch, useSelector} from "react-redux";
 import {Dispatch} from "redux";
 import GalleryItem from "../../components/gallery-item";
+import InterfaceLink from "../../components/interface-link";
 import StaticPage, {Header} from "../../components/typography";
-import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {
+  DEFAULT_DESCRIPTION,
+  DEFAULT_IMAGE,
+  MAXIMUM_PAGE_SIZE
+} from "../../data/constants/setup";
+import {Permission} from "../../data/core/Role";
 import Work from "../../data/core/Work";
-import {ArtistsState, RootState, WorksState} from "../../store/state";
-import {getIsEditor} from "../../utils/auth";
-import {fetchArtists, fetchWorks} from "../../utils/connectors";
+import {getCreditedNames, joinNames} from "../../data/utils/credits";
+import {ArtistsState, RootState, WorksListing, WorksState} from "../../store/state";
+import {usePermissions} from "../../utils/auth";
+import {
+  fetchArtists,
+  fetchWorks,
+  getWorksListingKey,
+  WorksFilter
+} from "../../utils/connectors";
 import NotFound from "../404";
 
 /**
@@ -21,23 +33,27 @@ import NotFound from "../404";
  * @constructor
  */
 const Moderate: NextPage = () => {
-  const {user, isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+  const {isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
 
-  const isEditor = getIsEditor(user);
+  const isEditor: boolean = usePermissions().includes(Permission.MODERATE_WORKS);
 
-  // Fetch the items, including literally all of the works.
+  // Fetch the first page of unapproved works. More are retrieved on request. Works sent back to
+  // their artists are left out until they're edited.
 
   const dispatch: Dispatch = useDispatch();
 
   const worksData: WorksState = useSelector((state: RootState) => state.worksData);
   const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
 
+  const filter: WorksFilter = {isUnapproved: true, limit: MAXIMUM_PAGE_SIZE};
+  const listing: WorksListing | undefined = worksData.listings[getWorksListingKey(filter)];
+
   useEffect(
     () => {
       if (isEditor) {
         getAccessTokenSilently().then(
           token => {
-            fetchWorks(dispatch, worksData, "?isUnapproved=1", token, true);
+            fetchWorks(dispatch, worksData, filter, token, false, true);
             fetchArtists(dispatch, artistsData, token, true);
           }
         );
@@ -46,11 +62,15 @@ const Moderate: NextPage = () => {
     [isEditor],
   );
 
-  const works: Work[] = Object.values(worksData.works || []).sort(
-    (a: Work, b: Work) => {
-      return new Date(b.submittedTimestamp).valueOf() - new Date(a.submittedTimestamp).valueOf();
-    }
-  ).filter((work: Work) => !work.isApproved && !work.isSoftDeleted && work.id !== "noop");
+  const works: Work[] = (listing?.ids || []).map((id: string) => worksData.works[id]).filter(
+    (work: Work) => (
+      work
+      && !work.isApproved
+      && !work.changeRequest
+      && !work.isSoftDeleted
+      && work.id !== "noop"
+    )
+  );
 
   let response = <NotFound />;
   if (isEditor) {
@@ -59,11 +79,7 @@ const Moderate: NextPage = () => {
         <>
           {
             works.map((work: Work) => {
-              const artistName: string = (
-                artistsData.artists[work.artistId]?.name
-                || work.firstSeenArtistInfo?.name
-                || "Unknown User"
-              );
+              const artistName: string = joinNames(getCreditedNames(work, artistsData.artists));
 
               return <GalleryItem
                 key={work.id}
@@ -80,6 +96,23 @@ const Moderate: NextPage = () => {
               />;
             })
           }
+
+          {
+            listing?.nextCursor ? (
+              <InterfaceLink
+                title={"Load More"}
+                location={"#"}
+                customWaitMessage={"Please wait..."}
+                clickBack={
+                  async () => {
+                    await fetchWorks(
+                      dispatch, worksData, filter, await getAccessTokenSilently(), true,
+                    );
+                  }
+                }
+              />
+            ) : <></>
+          }
         </>
       </div>
     );
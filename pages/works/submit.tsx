@@ -16,15 +16,26 @@ import {useDispatch, useSelector} from "react-redux";
 import {Dispatch} from "redux";
 import {ResponseMessages} from "../../components/errors";
 import FileItem, {FrontendFileItem} from "../../components/file-item";
-import {TextareaInput, TextInput} from "../../components/forms";
+import {MediumInput, TagInput, TextareaInput, TextInput} from "../../components/forms";
 import InterfaceLink from "../../components/interface-link";
 import StaticPage, {Header, SubHeader} from "../../components/typography";
-import {ACTIVE_YEAR, DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE} from "../../data/constants/setup";
+import {MediumCategory} from "../../data/core/Medium";
+import {Permission} from "../../data/core/Role";
 import Week from "../../data/core/Week";
 import Work, {UrlItem, WORK_SCHEMA} from "../../data/core/Work";
-import {ArtistsState, RootState, WeeksState, WorksState} from "../../store/state";
-import {getIsEditor, getUserId} from "../../utils/auth";
-import {fetchArtists, fetchWeeks, putWork, uploadFile} from "../../utils/connectors";
+import {getActiveSeason} from "../../data/utils/seasons";
+import {ArtistsState, RootState, SeasonsState, WeeksState, WorksState} from "../../store/state";
+import {getUserId, usePermissions} from "../../utils/auth";
+import {
+  fetchArtists,
+  fetchSeasons,
+  fetchTags,
+  fetchWeeks,
+  putWork,
+  RateLimitError,
+  uploadFile
+} from "../../utils/connectors";
 import NotFound from "../404";
 
 /**
@@ -76,7 +87,7 @@ const SubmissionForm = () => {
   }: Auth0ContextInterface = useAuth0();
 
   const userId: string | undefined = getUserId(user);
-  const isEditor = getIsEditor(user);
+  const isEditor: boolean = usePermissions().includes(Permission.EDIT_ANY_WORK);
 
   // Fetch the latest weeks and artists.
 
@@ -85,6 +96,11 @@ const SubmissionForm = () => {
   const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
   const weeksData: WeeksState = useSelector((state: RootState) => state.weeksData);
   const worksData: WorksState = useSelector((state: RootState) => state.worksData);
+  const seasonsData: SeasonsState = useSelector((state: RootState) => state.seasonsData);
+
+  // New works are always submitted to the active season.
+
+  const activeYear: number = getActiveSeason(seasonsData.seasons).year;
 
   // Uploading a thumbnail is unnecessary unless the user deliberately wants to use one.
 
@@ -102,7 +118,11 @@ const SubmissionForm = () => {
   const [title, setTitle] = useState<string>("");
   const [artist, setArtist] = useState<string>("");
   const [medium, setMedium] = useState<string>("");
+  const [mediumCategory, setMediumCategory] = useState<MediumCategory | undefined>(undefined);
+  const [mediumSubtype, setMediumSubtype] = useState<string | undefined>(undefined);
   const [description, setDescription] = useState<string>("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [suggestedTags, setSuggestedTags] = useState<Record<string, number>>({});
   const [thumbnailPointer, setThumbnailPointer] = useState<File | undefined>(undefined);
 
   // After we submit, there are messages we need to retrieve:
@@ -123,8 +143,13 @@ const SubmissionForm = () => {
   }
 
   useEffect(() => {
+    fetchSeasons(dispatch, seasonsData);
     fetchArtists(dispatch, artistsData);
 
+    // Tags are only suggested, so the form still works if they can't be retrieved.
+
+    fetchTags().then(setSuggestedTags).catch(() => setSuggestedTags({}));
+
     if (user) {
       // Even the editors can only post to existing weeks. Still, if the user is staff, we might
       // be able to update the weeks for other purposes.
@@ -143,7 +168,10 @@ const SubmissionForm = () => {
       setTitle(editWork.title);
       setArtist(editWork.artistId);
       setMedium(editWork.medium || "");
+      setMediumCategory(editWork.mediumCategory);
+      setMediumSubtype(editWork.mediumSubtype);
       setDescription(editWork.description);
+      setTags(editWork.tags || []);
 
       setItems(
         editWork.items.map(
@@ -245,15 +273,19 @@ const SubmissionForm = () => {
             isRequired
           />
 
-          <TextInput
+          <MediumInput
             id={"medium"}
             label={"Medium"}
-            initialValue={
-              editWork ? editWork.medium : ""
+            category={mediumCategory}
+            subtype={mediumSubtype}
+            text={medium}
+            changeCallback={
+              (category: MediumCategory | undefined, subtype: string | undefined, text: string) => {
+                setMediumCategory(category);
+                setMediumSubtype(subtype);
+                setMedium(text);
+              }
             }
-            blurCallback={(event: SyntheticEvent<HTMLInputElement, unknown> | undefined) => {
-              setMedium(event?.currentTarget.value || "");
-            }}
           />
 
           <TextareaInput
@@ -268,6 +300,14 @@ const SubmissionForm = () => {
             isRequired
           />
 
+          <TagInput
+            id={"tags"}
+            label={"Tags"}
+            tags={tags}
+            suggestions={suggestedTags}
+            changeCallback={setTags}
+          />
+
           <label className={"block text-gray-700 text-sm font-bold my-2"}>
             Submission Items <span className={"text-red-500"}>*</span>
           </label>
@@ -418,9 +458,11 @@ const SubmissionForm = () => {
 
                 let work: Work = {
                   id: editWork ? editWork.id : "noop",
-                  year: ACTIVE_YEAR,
+                  year: editWork ? editWork.year : activeYear,
                   weekNumbers: weekNumbers,
-                  artistId: isEditor ? (artist || editWork?.artistId || userId) : userId,
+                  artistId: isEditor ? (
+                    artist || editWork?.artistId || userId
+                  ) : (editWork?.artistId || userId),
                   firstSeenArtistInfo: {
                     discordId: userId,
                     name: postingArtistName,
@@ -429,7 +471,10 @@ const SubmissionForm = () => {
                   },
                   title: title,
                   medium: medium,
+                  mediumCategory: mediumCategory,
+                  mediumSubtype: mediumSubtype,
                   description: description,
+                  tags: tags.length > 0 ? tags : undefined,
                   items: [
                     ...items.map(
                       (item: FrontendFileItem): UrlItem => {
@@ -453,43 +498,53 @@ const SubmissionForm = () => {
 
                   const accessToken: string = await getAccessTokenSilently();
 
-                  const urlWrappers: UrlItem[] = [];
-                  for (const item of items) {
-                    if (item.url) {
-                      urlWrappers.push({url: item.url});
-                    } else if (item.file) {
-                      const urlValidation = Joi.string().regex(
-                        /.*\.(png)|(jpg)|(jpeg)|(mp3)/
-                      ).validate(
-                        item.file.name.toLowerCase()
-                      );
-
-                      if (urlValidation.error) {
-                        errors.push(urlValidation.error);
-                      }
-
-                      // Don't upload the file if there will be errors.
-
-                      if (errors.length === 0) {
-                        urlWrappers.push({url: await uploadFile(accessToken, item.file)});
+                  // Stop at the first failed request, e.g., if the user is rate limited.
+
+                  try {
+                    const urlWrappers: UrlItem[] = [];
+                    for (const item of items) {
+                      if (item.url) {
+                        urlWrappers.push({url: item.url});
+                      } else if (item.file) {
+                        const urlValidation = Joi.string().regex(
+                          /.*\.(png)|(jpg)|(jpeg)|(mp3)/
+                        ).validate(
+                          item.file.name.toLowerCase()
+                        );
+
+                        if (urlValidation.error) {
+                          errors.push(urlValidation.error);
+                        }
+
+                        // Don't upload the file if there will be errors.
+
+                        if (errors.length === 0) {
+                          urlWrappers.push({url: await uploadFile(accessToken, item.file)});
+                        }
                       }
                     }
-                  }
 
-                  // Next, we associate the URLs with the work then send it off to the backend.
-                  // If the thumbnail was explicitly provided, we give that in too.
+                    // Next, we associate the URLs with the work then send it off to the backend.
+                    // If the thumbnail was explicitly provided, we give that in too.
 
-                  if (errors.length === 0) {
-                    if (thumbnailPointer) {
-                      work.thumbnailUrl = await uploadFile(accessToken, thumbnailPointer);
-                      work.smallThumbnailUrl = await uploadFile(accessToken, thumbnailPointer);
-                    }
+                    if (errors.length === 0) {
+                      if (thumbnailPointer) {
+                        work.thumbnailUrl = await uploadFile(accessToken, thumbnailPointer);
+                        work.smallThumbnailUrl = await uploadFile(accessToken, thumbnailPointer);
+                      }
 
-                    work.items = urlWrappers;
+                      work.items = urlWrappers;
 
-                    // Replace the work in memory with what was actually placed in the backend.
+                      // Replace the work in memory with what was actually placed in the backend.
 
-                    work = await putWork(dispatch, worksData, accessToken, work);
+                      work = await putWork(dispatch, worksData, accessToken, work);
+                    }
+                  } catch (error: unknown) {
+                    errors.push(
+                      error instanceof RateLimitError
+                        ? error
+                        : new ValidationError((error as Error).message, [], null),
+                    );
                   }
                 }
 
@@ -0,0 +1,212 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
+import {faTrash, faTrashRestore} from "@fortawesome/free-solid-svg-icons";
+import {FontAwesomeIcon} from "@fortawesome/react-fontawesome";
+import moment from "moment";
+import type {NextPage} from "next";
+import {NextSeo} from "next-seo";
+import Head from "next/head";
+import {useEffect, useState} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import InterfaceLink from "../../components/interface-link";
+import StaticPage, {Header} from "../../components/typography";
+import {DEFAULT_DESCRIPTION, DEFAULT_IMAGE, MAXIMUM_PAGE_SIZE} from "../../data/constants/setup";
+import Page from "../../data/core/Page";
+import {Permission} from "../../data/core/Role";
+import Work from "../../data/core/Work";
+import {ArtistsState, RootState, WorksState} from "../../store/state";
+import {usePermissions} from "../../utils/auth";
+import {fetchArtists, fetchTrash, purgeWorks, restoreWorks} from "../../utils/connectors";
+import NotFound from "../404";
+
+/**
+ * The trash of deleted works, which can be restored or permanently deleted.
+ *
+ * @returns {JSX.Element} the element
+ * @constructor
+ */
+const Trash: NextPage = () => {
+  const {isLoading, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const permissions: Permission[] = usePermissions();
+
+  const isEditor: boolean = permissions.includes(Permission.MODERATE_WORKS);
+  const canPurge: boolean = permissions.includes(Permission.PURGE_WORKS);
+
+  const dispatch: Dispatch = useDispatch();
+
+  const worksData: WorksState = useSelector((state: RootState) => state.worksData);
+  const artistsData: ArtistsState = useSelector((state: RootState) => state.artistsData);
+
+  const [works, setWorks] = useState<Work[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () => {
+      if (isEditor) {
+        getAccessTokenSilently().then(
+          async (token: string) => {
+            fetchArtists(dispatch, artistsData, token);
+
+            try {
+              const page: Page<Work> = await fetchTrash(token, MAXIMUM_PAGE_SIZE);
+
+              setWorks(page.items);
+              setNextCursor(page.nextCursor);
+            } catch {
+              setError("The trash couldn't be retrieved. Please try again later.");
+            }
+          }
+        );
+      }
+    },
+    [isEditor],
+  );
+
+  /**
+   * @param {string} id the Discord ID of a user
+   * @returns {string} the name of the user, or their ID if they aren't known
+   */
+  const getArtistName = (id?: string): string => {
+    return id ? artistsData.artists[id]?.name || id : "Unknown User";
+  };
+
+  /**
+   * Remove works from the list once they have left the trash.
+   *
+   * @param {string[]} ids the IDs of the works
+   */
+  const removeWorks = (ids: string[]) => {
+    setWorks((current: Work[]) => current.filter((work: Work) => !ids.includes(work.id)));
+  };
+
+  let response = <NotFound />;
+  if (isEditor) {
+    response = (
+      <StaticPage>
+        <Header>Trash</Header>
+
+        {error ? <p className={"py-3 text-red-700"}>{error}</p> : <></>}
+
+        {
+          works.length === 0 && !error ? <p className={"py-3"}>The trash is empty.</p> : (
+            <ul className={"py-3"}>
+              {
+                works.map((work: Work) => (
+                  <li key={work.id} className={"py-3 border-b"}>
+                    <p>
+                      <strong>{work.title}</strong> by{" "}
+                      {
+                        artistsData.artists[work.artistId]?.name
+                        || work.firstSeenArtistInfo?.name
+                        || work.artistId
+                      }
+                    </p>
+
+                    <p className={"text-sm"}>
+                      Deleted by {getArtistName(work.deletedBy)}
+                      {
+                        work.deletedTimestamp
+                          ? ` on ${moment(work.deletedTimestamp).format("LLL")}`
+                          : ""
+                      }
+                    </p>
+
+                    <InterfaceLink
+                      title={"Restore"}
+                      location={"#"}
+                      icon={<FontAwesomeIcon icon={faTrashRestore} />}
+                      customWaitMessage={"Please Wait"}
+                      clickBack={
+                        async () => {
+                          await restoreWorks(
+                            await getAccessTokenSilently(), [work.id], dispatch, worksData,
+                          );
+
+                          removeWorks([work.id]);
+                        }
+                      }
+                    />
+
+                    {
+                      canPurge ? (
+                        <InterfaceLink
+                          title={"Delete Forever"}
+                          location={"#"}
+                          icon={<FontAwesomeIcon icon={faTrash} />}
+                          customWaitMessage={"Please Wait"}
+                          clickBack={
+                            async () => {
+                              if (confirm(`Permanently delete "${work.title}" and its files?`)) {
+                                removeWorks(
+                                  await purgeWorks(await getAccessTokenSilently(), [work.id]),
+                                );
+                              }
+                            }
+                          }
+                        />
+                      ) : <></>
+                    }
+                  </li>
+                ))
+              }
+            </ul>
+          )
+        }
+
+        {
+          nextCursor ? (
+            <InterfaceLink
+              title={"Load More"}
+              location={"#"}
+              customWaitMessage={"Please wait..."}
+              clickBack={
+                async () => {
+                  const page: Page<Work> = await fetchTrash(
+                    await getAccessTokenSilently(), MAXIMUM_PAGE_SIZE, nextCursor,
+                  );
+
+                  setWorks([...works, ...page.items]);
+                  setNextCursor(page.nextCursor);
+                }
+              }
+            />
+          ) : <></>
+        }
+      </StaticPage>
+    );
+  } else if (isLoading) {
+    response = <StaticPage><Header>Loading...</Header></StaticPage>;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Trash - Design Refresh</title>
+      </Head>
+
+      <NextSeo
+        title={"Trash - Design Refresh"}
+        description={DEFAULT_DESCRIPTION}
+        canonical={`${process.env.NEXT_PUBLIC_BASE_URI}/works/trash`}
+        openGraph={{
+          type: "website",
+          site_name: "Design Refresh",
+          images: [
+            {
+              url: DEFAULT_IMAGE,
+            }
+          ],
+        }}
+        twitter={{
+          cardType: "summary_large_image",
+        }}
+      />
+
+      {response}
+    </>
+  );
+};
+
+export default Trash;
@@ -10,10 +10,23 @@
 import {Property} from "csstype";
 import {Action, Dispatch} from "redux";
 import Artist from "../data/core/Artist";
+import Page from "../data/core/Page";
+import UserReaction from "../data/core/Reaction";
+import {RoleDetails} from "../data/core/Role";
+import Season from "../data/core/Season";
 import Week from "../data/core/Week";
 import Work from "../data/core/Work";
-import {Sort, WorkSource} from "./enums";
-import {ADD_ARTISTS_TYPE, ADD_WEEKS_TYPE, ADD_WORKS_TYPE, GALLERY_MUTATION_TYPE} from "./types";
+import {Sort} from "./enums";
+import {
+  ADD_ARTISTS_TYPE,
+  ADD_REACTIONS_TYPE,
+  ADD_ROLE_TYPE,
+  ADD_SEASONS_TYPE,
+  ADD_WEEKS_TYPE,
+  ADD_WORKS_PAGE_TYPE,
+  ADD_WORKS_TYPE,
+  GALLERY_MUTATION_TYPE
+} from "./types";
 import Filter = Property.Filter;
 
 /**
@@ -50,12 +63,14 @@ export const changeGallerySettings = (
  */
 export interface AddArtistsAction extends Action {
   artists: Record<string, Artist>;
+  year?: number;
 }
 
-const addArtistsSync = (artists: Record<string, Artist>): AddArtistsAction => {
+const addArtistsSync = (artists: Record<string, Artist>, year?: number): AddArtistsAction => {
   return {
     type: ADD_ARTISTS_TYPE,
     artists: artists,
+    year: year,
   };
 };
 
@@ -63,10 +78,96 @@ const addArtistsSync = (artists: Record<string, Artist>): AddArtistsAction => {
  * Add artists to the cache.
  *
  * @param {Record<string, Artist>} artists the artists
+ * @param {number | undefined} year the year of the season, if not the active season
  * @returns {CallableFunction} the thunk action creator
  */
-export const addArtists = (artists: Record<string, Artist>) => (dispatch: Dispatch): void => {
-  dispatch(addArtistsSync(artists));
+export const addArtists = (
+  artists: Record<string, Artist>, year?: number,
+) => (dispatch: Dispatch): void => {
+  dispatch(addArtistsSync(artists, year));
+};
+
+/**
+ * The reactions of the authenticated user are added to the frontend cache.
+ *
+ * This is always called with all of their reactions.
+ */
+export interface AddReactionsAction extends Action {
+  userId: string | null;
+  reactions: Record<string, UserReaction>;
+}
+
+const addReactionsSync = (
+  userId: string | null, reactions: Record<string, UserReaction>,
+): AddReactionsAction => {
+  return {
+    type: ADD_REACTIONS_TYPE,
+    userId: userId,
+    reactions: reactions,
+  };
+};
+
+/**
+ * Add the reactions of the authenticated user to the cache.
+ *
+ * @param {string | null} userId the Discord ID of the user
+ * @param {Record<string, UserReaction>} reactions a map of work IDs to reactions
+ * @returns {CallableFunction} the thunk action creator
+ */
+export const addReactions = (
+  userId: string | null, reactions: Record<string, UserReaction>,
+) => (dispatch: Dispatch): void => {
+  dispatch(addReactionsSync(userId, reactions));
+};
+
+/**
+ * The role of the authenticated user is added to the frontend cache.
+ */
+export interface AddRoleAction extends Action {
+  role: RoleDetails | null;
+}
+
+const addRoleSync = (role: RoleDetails | null): AddRoleAction => {
+  return {
+    type: ADD_ROLE_TYPE,
+    role: role,
+  };
+};
+
+/**
+ * Add the role of the authenticated user to the cache.
+ *
+ * @param {RoleDetails | null} role the role
+ * @returns {CallableFunction} the thunk action creator
+ */
+export const addRole = (role: RoleDetails | null) => (dispatch: Dispatch): void => {
+  dispatch(addRoleSync(role));
+};
+
+/**
+ * Seasons are added to the frontend cache.
+ *
+ * This is always called with all seasons.
+ */
+export interface AddSeasonsAction extends Action {
+  seasons: Record<string, Season>;
+}
+
+const addSeasonsSync = (seasons: Record<string, Season>): AddSeasonsAction => {
+  return {
+    type: ADD_SEASONS_TYPE,
+    seasons: seasons,
+  };
+};
+
+/**
+ * Add seasons to the cache.
+ *
+ * @param {Record<string, Season>} seasons the seasons
+ * @returns {CallableFunction} the thunk action creator
+ */
+export const addSeasons = (seasons: Record<string, Season>) => (dispatch: Dispatch): void => {
+  dispatch(addSeasonsSync(seasons));
 };
 
 /**
@@ -76,12 +177,14 @@ export const addArtists = (artists: Record<string, Artist>) => (dispatch: Dispat
  */
 export interface AddWeeksAction extends Action {
   weeks: Record<string, Week>;
+  year?: number;
 }
 
-const addAWeeksSync = (weeks: Record<string, Week>): AddWeeksAction => {
+const addAWeeksSync = (weeks: Record<string, Week>, year?: number): AddWeeksAction => {
   return {
     type: ADD_WEEKS_TYPE,
     weeks: weeks,
+    year: year,
   };
 };
 
@@ -89,45 +192,71 @@ const addAWeeksSync = (weeks: Record<string, Week>): AddWeeksAction => {
  * Add weeks to the cache.
  *
  * @param {Record<string, Week>} weeks the weeks
+ * @param {number | undefined} year the year of the season, if not the active season
  * @returns {CallableFunction} the thunk action creator
  */
-export const addWeeks = (weeks: Record<string, Week>) => (dispatch: Dispatch): void => {
-  dispatch(addAWeeksSync(weeks));
+export const addWeeks = (
+  weeks: Record<string, Week>, year?: number,
+) => (dispatch: Dispatch): void => {
+  dispatch(addAWeeksSync(weeks, year));
 };
 
 /**
- * (A) work(s) is/are added to the frontend cache.
- *
- * This is more complicated than adding an artist or week. This modifies multiple caches
- * depending on what is called.
+ * (A) work(s) is/are added to the frontend cache directly, e.g., by ID or after a change.
  */
 export interface AddWorksAction extends Action {
   works: Record<string, Work>;
-  source: WorkSource;
-  sourceTarget?: number | string;
 }
 
-const addWorksSync = (
-  works: Record<string, Work>, source: WorkSource, sourceTarget?: number | string,
-): AddWorksAction => {
+const addWorksSync = (works: Record<string, Work>): AddWorksAction => {
   return {
     type: ADD_WORKS_TYPE,
     works: works,
-    source: source,
-    sourceTarget: sourceTarget,
   };
 };
 
 /**
- * Add artists to the cache.
+ * Add works to the cache.
  *
  * @param {Record<string, Work>} works the works
- * @param {WorkSource} source the source of the works request
- * @param {never | undefined} sourceTarget the target of the source used to update the access map
  * @returns {CallableFunction} the thunk action creator
  */
-export const addWorks = (
-  works: Record<string, Work>, source: WorkSource, sourceTarget?: number | string,
+export const addWorks = (works: Record<string, Work>) => (dispatch: Dispatch): void => {
+  dispatch(addWorksSync(works));
+};
+
+/**
+ * A page of a listing of works is added to the frontend cache.
+ *
+ * This modifies both the works cache and the listing the page belongs to.
+ */
+export interface AddWorksPageAction extends Action {
+  key: string;
+  page: Page<Work>;
+  isFirstPage: boolean;
+}
+
+const addWorksPageSync = (
+  key: string, page: Page<Work>, isFirstPage: boolean,
+): AddWorksPageAction => {
+  return {
+    type: ADD_WORKS_PAGE_TYPE,
+    key: key,
+    page: page,
+    isFirstPage: isFirstPage,
+  };
+};
+
+/**
+ * Add a page of a listing of works to the cache.
+ *
+ * @param {string} key the key of the listing
+ * @param {Page<Work>} page the page
+ * @param {boolean} isFirstPage whether the page replaces the listing rather than extending it
+ * @returns {CallableFunction} the thunk action creator
+ */
+export const addWorksPage = (
+  key: string, page: Page<Work>, isFirstPage: boolean,
 ) => (dispatch: Dispatch): void => {
-  dispatch(addWorksSync(works, source, sourceTarget));
+  dispatch(addWorksPageSync(key, page, isFirstPage));
 };
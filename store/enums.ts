@@ -41,28 +41,3 @@ export enum Sort {
    */
   RANDOM,
 }
-
-/**
- * The source of a request for works.
- */
-export enum WorkSource {
-  /**
-   * The work is directly retrieved.
-   */
-  DIRECT,
-
-  /**
-   * The works of an artist are retrieved at the same time.
-   */
-  BY_ARTIST,
-
-  /**
-   * The works of a week are retrieved at the same time.
-   */
-  BY_WEEK,
-
-  /**
-   * All works are retrieved at the same time.
-   */
-  SEARCH,
-}
@@ -10,13 +10,37 @@
 import {combineReducers, Reducer} from "redux";
 import Artist from "../data/core/Artist";
 import Work from "../data/core/Work";
-import {AddArtistsAction, AddWeeksAction, AddWorksAction} from "./actions";
-import {WorkSource} from "./enums";
-import {ArtistsState, RootState, WeeksState, WorksState} from "./state";
-import {ADD_ARTISTS_TYPE, ADD_WEEKS_TYPE, ADD_WORKS_TYPE} from "./types";
+import {
+  AddArtistsAction,
+  AddReactionsAction,
+  AddRoleAction,
+  AddSeasonsAction,
+  AddWeeksAction,
+  AddWorksAction,
+  AddWorksPageAction
+} from "./actions";
+import {
+  ArtistsState,
+  ReactionsState,
+  RoleState,
+  RootState,
+  SeasonsState,
+  WeeksState,
+  WorksListing,
+  WorksState
+} from "./state";
+import {
+  ADD_ARTISTS_TYPE,
+  ADD_REACTIONS_TYPE,
+  ADD_ROLE_TYPE,
+  ADD_SEASONS_TYPE,
+  ADD_WEEKS_TYPE,
+  ADD_WORKS_PAGE_TYPE,
+  ADD_WORKS_TYPE
+} from "./types";
 
 const artistsReducer: Reducer<ArtistsState, AddArtistsAction> = (
-  state: ArtistsState = {artists: {}, usernameToId: {}, artistsLastRetrieved: null},
+  state: ArtistsState = {artists: {}, usernameToId: {}, year: null, artistsLastRetrieved: null},
   action: AddArtistsAction = {type: ADD_ARTISTS_TYPE, artists: {}},
 ): ArtistsState => {
   const type: string = action.type;
@@ -24,6 +48,7 @@ const artistsReducer: Reducer<ArtistsState, AddArtistsAction> = (
     return {
       artists: JSON.parse(JSON.stringify(action.artists)),
       artistsLastRetrieved: new Date().toISOString(),
+      year: action.year || null,
       usernameToId: Object.fromEntries(
         Object.values(action.artists).map((artist: Artist) => [
           artist.name, artist.discordId
@@ -35,14 +60,61 @@ const artistsReducer: Reducer<ArtistsState, AddArtistsAction> = (
   return state;
 };
 
+const reactionsReducer: Reducer<ReactionsState, AddReactionsAction> = (
+  state: ReactionsState = {userId: null, reactions: {}, reactionsLastRetrieved: null},
+  action: AddReactionsAction = {type: ADD_REACTIONS_TYPE, userId: null, reactions: {}},
+): ReactionsState => {
+  const type: string = action.type;
+  if (type === ADD_REACTIONS_TYPE) {
+    return {
+      userId: action.userId,
+      reactions: JSON.parse(JSON.stringify(action.reactions)),
+      reactionsLastRetrieved: new Date().toISOString(),
+    };
+  }
+
+  return state;
+};
+
+const roleReducer: Reducer<RoleState, AddRoleAction> = (
+  state: RoleState = {role: null, roleLastRetrieved: null},
+  action: AddRoleAction = {type: ADD_ROLE_TYPE, role: null},
+): RoleState => {
+  const type: string = action.type;
+  if (type === ADD_ROLE_TYPE) {
+    return {
+      role: action.role ? JSON.parse(JSON.stringify(action.role)) : null,
+      roleLastRetrieved: new Date().toISOString(),
+    };
+  }
+
+  return state;
+};
+
+const seasonsReducer: Reducer<SeasonsState, AddSeasonsAction> = (
+  state: SeasonsState = {seasons: {}, seasonsLastRetrieved: null},
+  action: AddSeasonsAction = {type: ADD_SEASONS_TYPE, seasons: {}},
+): SeasonsState => {
+  const type: string = action.type;
+  if (type === ADD_SEASONS_TYPE) {
+    return {
+      seasons: JSON.parse(JSON.stringify(action.seasons)),
+      seasonsLastRetrieved: new Date().toISOString(),
+    };
+  }
+
+  return state;
+};
+
 const weeksReducer: Reducer<WeeksState, AddWeeksAction> = (
-  state: WeeksState = {weeks: {}, weeksLastRetrieved: null},
+  state: WeeksState = {weeks: {}, year: null, weeksLastRetrieved: null},
   action: AddWeeksAction = {type: ADD_WEEKS_TYPE, weeks: {}},
 ): WeeksState => {
   const type: string = action.type;
   if (type === ADD_WEEKS_TYPE) {
     return {
       weeks: JSON.parse(JSON.stringify(action.weeks)),
+      year: action.year || null,
       weeksLastRetrieved: new Date().toISOString(),
     };
   }
@@ -50,74 +122,67 @@ const weeksReducer: Reducer<WeeksState, AddWeeksAction> = (
   return state;
 };
 
-const worksReducer: Reducer<WorksState, AddWorksAction> = (
-  state: WorksState = {
-    works: {}, worksLastRetrieved: null, artistsToRetrievalDate: {}, weeksToRetrievalDate: {}
-  },
-  action: AddWorksAction = {
-    type: ADD_WORKS_TYPE, works: {}, source: WorkSource.DIRECT
-  },
+/**
+ * Merge works into the cache, removing deleted works.
+ *
+ * @param {Record<string, Work>} cachedWorks the works already in the cache
+ * @param {Work[]} works the new works
+ * @returns {Record<string, Work>} a new cache
+ */
+const mergeWorks = (cachedWorks: Record<string, Work>, works: Work[]): Record<string, Work> => {
+  const mergedWorks: Record<string, Work> = JSON.parse(JSON.stringify(cachedWorks));
+
+  works.forEach((work: Work) => {
+    if (work.isSoftDeleted) {
+      delete mergedWorks[work.id];
+    } else {
+      mergedWorks[work.id] = work;
+    }
+  });
+
+  return mergedWorks;
+};
+
+const worksReducer: Reducer<WorksState, AddWorksAction | AddWorksPageAction> = (
+  state: WorksState = {works: {}, listings: {}},
+  action: AddWorksAction | AddWorksPageAction = {type: ADD_WORKS_TYPE, works: {}},
 ): WorksState => {
   const type: string = action.type;
-  const target: number | string | undefined = action.sourceTarget;
 
   if (type === ADD_WORKS_TYPE) {
-    let worksLastRetrieved: string | null = state.worksLastRetrieved?.slice() || null;
-
-    const artistsToRetrievalDate: Record<string, string> = JSON.parse(
-      JSON.stringify(state.artistsToRetrievalDate)
-    );
+    const addWorksAction = action as AddWorksAction;
 
-    const weeksToRetrievalDate: Record<number, string> = JSON.parse(
-      JSON.stringify(state.weeksToRetrievalDate)
-    );
-
-    let index: number | string | undefined = target;
-    switch (action.source) {
-      case WorkSource.DIRECT:
-        break;
-      case WorkSource.BY_WEEK:
-        index = typeof target === "number" ? target : undefined;
-
-        if (!index) {
-          throw new Error("By-week reducer call to works failed due to unknown index.");
-        }
-
-        weeksToRetrievalDate[index] = new Date().toISOString();
-
-        break;
-      case WorkSource.BY_ARTIST:
-        index = typeof target === "string" ? target : undefined;
-
-        if (!index) {
-          throw new Error("By-artist reducer call to works failed due to unknown index.");
-        }
+    return {
+      works: mergeWorks(state.works, Object.values(addWorksAction.works)),
+      listings: state.listings,
+    };
+  } else if (type === ADD_WORKS_PAGE_TYPE) {
+    const addWorksPageAction = action as AddWorksPageAction;
 
-        artistsToRetrievalDate[index] = (new Date().toISOString());
+    // Either start the listing again or append the page to it, ignoring anything already seen.
 
-        break;
-      case WorkSource.SEARCH:
-        worksLastRetrieved = new Date().toISOString();
+    const listings: Record<string, WorksListing> = JSON.parse(JSON.stringify(state.listings));
 
-        break;
-      default:
-        throw new Error("Unknown work source type.");
-    }
+    const listing: WorksListing | undefined = listings[addWorksPageAction.key];
+    const ids: string[] = !addWorksPageAction.isFirstPage && listing ? listing.ids : [];
 
-    // The state needs to be merged and deleted posts need to be removed.
-
-    const mergedWorks = JSON.parse(JSON.stringify(state.works));
-    Object.values(action.works).filter(work => !work.isSoftDeleted).forEach(
-      (work: Work) => {
-        mergedWorks[work.id] = work;
+    addWorksPageAction.page.items.forEach((work: Work) => {
+      if (!ids.includes(work.id)) {
+        ids.push(work.id);
       }
-    );
+    });
+
+    listings[addWorksPageAction.key] = {
+      ids: ids,
+      nextCursor: addWorksPageAction.page.nextCursor,
+      listingLastRetrieved: addWorksPageAction.isFirstPage || !listing ? (
+        new Date().toISOString()
+      ) : listing.listingLastRetrieved,
+    };
 
     return {
-      works: mergedWorks,
-      worksLastRetrieved: worksLastRetrieved,
-      artistsToRetrievalDate: artistsToRetrievalDate,
-      weeksToRetrievalDate: weeksToRetrievalDate,
+      works: mergeWorks(state.works, addWorksPageAction.page.items),
+      listings: listings,
     };
   }
 
@@ -130,6 +195,9 @@ const worksReducer: Reducer<WorksState, AddWorksAction> = (
 export default combineReducers<RootState>(
   {
     artistsData: artistsReducer,
+    reactionsData: reactionsReducer,
+    roleData: roleReducer,
+    seasonsData: seasonsReducer,
     weeksData: weeksReducer,
     worksData: worksReducer,
   }
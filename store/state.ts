@@ -3,6 +3,9 @@
  */
 
 import Artist from "../data/core/Artist";
+import UserReaction from "../data/core/Reaction";
+import {RoleDetails} from "../data/core/Role";
+import Season from "../data/core/Season";
 import Week from "../data/core/Week";
 import Work from "../data/core/Work";
 import {Filter, Sort} from "./enums";
@@ -14,6 +17,9 @@ import {Filter, Sort} from "./enums";
  */
 export interface RootState {
   artistsData: ArtistsState;
+  reactionsData: ReactionsState;
+  roleData: RoleState;
+  seasonsData: SeasonsState;
   weeksData: WeeksState;
   worksData: WorksState;
 }
@@ -36,6 +42,61 @@ export interface GalleryState {
   galleryLastSort: Sort;
 }
 
+/**
+ * The state related to the role of the authenticated user.
+ */
+export interface RoleState {
+  /**
+   * The role and permissions of the last user to retrieve them, if any.
+   *
+   * This must be checked against the current user as it is persisted between logins.
+   */
+  role: RoleDetails | null;
+
+  /**
+   * The last time the role was updated.
+   */
+  roleLastRetrieved: string | null;
+}
+
+/**
+ * The state related to the reactions of the authenticated user.
+ */
+export interface ReactionsState {
+  /**
+   * The Discord ID of the last user to retrieve their reactions, if any.
+   *
+   * Like the role, this must be checked against the current user as it is persisted between
+   * logins.
+   */
+  userId: string | null;
+
+  /**
+   * A map of work IDs to how the user reacted to each work.
+   */
+  reactions: Record<string, UserReaction>;
+
+  /**
+   * The last time the reactions were updated.
+   */
+  reactionsLastRetrieved: string | null;
+}
+
+/**
+ * The state related to season information.
+ */
+export interface SeasonsState {
+  /**
+   * A map of years (as a string) to season objects.
+   */
+  seasons: Record<string, Season>;
+
+  /**
+   * The last time the season map was updated.
+   */
+  seasonsLastRetrieved: string | null;
+}
+
 /**
  * The state related to week information.
  */
@@ -45,6 +106,13 @@ export interface WeeksState {
    */
   weeks: Record<string, Week>;
 
+  /**
+   * The year of the season the weeks belong to or `null` for the active season.
+   *
+   * Only one season's weeks are cached at a time.
+   */
+  year: number | null;
+
   /**
    * The last time the week map was updated.
    */
@@ -67,6 +135,13 @@ export interface ArtistsState {
    */
   usernameToId: Record<string, string>;
 
+  /**
+   * The year of the season the artists belong to or `null` for the active season.
+   *
+   * Only one season's artists are cached at a time.
+   */
+  year: number | null;
+
   /**
    * The last time the artist map was updated.
    */
@@ -86,21 +161,28 @@ export interface WorksState {
   works: Record<string, Work>;
 
   /**
-   * A map of week numbers to the last time all of the works for that week were retrieved.
-   *
-   * The values are date timestamps as strings.
+   * A map of listing keys (the query string of the listing without the cursor) to the pages of
+   * that listing retrieved so far.
+   */
+  listings: Record<string, WorksListing>;
+}
+
+/**
+ * The pages of a single listing of works retrieved so far.
+ */
+export interface WorksListing {
+  /**
+   * The IDs of the works in the listing in order, across all retrieved pages.
    */
-  weeksToRetrievalDate: Record<number, string>;
+  ids: string[];
 
   /**
-   * A map of artist IDs to the last time all of the works for that artist were retrieved.
-   *
-   * The values are date timestamps as strings.
+   * The cursor of the next page or `null` if every page has been retrieved.
    */
-  artistsToRetrievalDate: Record<string, string>;
+  nextCursor: string | null;
 
   /**
-   * The last time _all_ of the works in the database were retrieved.
+   * The last time the first page of the listing was retrieved.
    */
-  worksLastRetrieved: string | null;
+  listingLastRetrieved: string;
 }
@@ -42,7 +42,7 @@ const useStore = (): Store => {
   let reducer: Reducer = reducers;
   if (typeof window !== "undefined") {
     reducer = persistReducer({
-      key: "refresh-22", storage: storage, blacklist: [], timeout: 8,
+      key: "refresh-23", storage: storage, blacklist: [], timeout: 8,
     }, reducers);
   }
 
@@ -9,3 +9,11 @@ export const ADD_ARTISTS_TYPE = "ADD_ARTISTS_TYPE";
 export const ADD_WEEKS_TYPE = "ADD_WEEKS_TYPE";
 
 export const ADD_WORKS_TYPE = "ADD_WORKS_TYPE";
+
+export const ADD_WORKS_PAGE_TYPE = "ADD_WORKS_PAGE_TYPE";
+
+export const ADD_SEASONS_TYPE = "ADD_SEASONS_TYPE";
+
+export const ADD_ROLE_TYPE = "ADD_ROLE_TYPE";
+
+export const ADD_REACTIONS_TYPE = "ADD_REACTIONS_TYPE";
@@ -1,22 +1,66 @@
+import {Auth0ContextInterface, useAuth0} from "@auth0/auth0-react";
 import {User} from "@auth0/auth0-spa-js";
-import {EDITORS} from "../data/constants/setup";
+import {useEffect} from "react";
+import {useDispatch, useSelector} from "react-redux";
+import {Dispatch} from "redux";
+import UserReaction from "../data/core/Reaction";
+import {Permission} from "../data/core/Role";
+import {ReactionsState, RoleState, RootState} from "../store/state";
+import {fetchReactions, fetchRole} from "./connectors";
 
 /**
- * Determine if the given authenticated user is an editor.
+ * Retrieve the permissions of the authenticated user from the backend.
  *
- * @param {User} user the {@link User}
- * @returns {boolean} whether the given user is an editor
+ * The role is cached, but a role cached for another user is never used.
+ *
+ * @returns {Permission[]} the permissions, which are empty until retrieved or if anonymous
  */
-export const getIsEditor = (user?: User) => {
-  if (user) {
-    const id: string | undefined = getUserId(user);
+export const usePermissions = (): Permission[] => {
+  const {user, isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch: Dispatch = useDispatch();
+  const roleData: RoleState = useSelector((state: RootState) => state.roleData);
+
+  const id: string | undefined = getUserId(user);
+  const isCachedForUser: boolean = !!id && roleData.role?.discordId === id;
 
-    if (id) {
-      return EDITORS.includes(id);
+  useEffect(() => {
+    if (isAuthenticated && id) {
+      getAccessTokenSilently().then(
+        (token: string) => fetchRole(dispatch, roleData, token, !isCachedForUser)
+      );
     }
-  }
+  }, [isAuthenticated, id]);
+
+  return isCachedForUser && roleData.role ? roleData.role.permissions : [];
+};
+
+/**
+ * Retrieve how the authenticated user has reacted to every work from the backend.
+ *
+ * Like the role, reactions cached for another user are never used.
+ *
+ * @returns {Record<string, UserReaction>} a map of work IDs to reactions, which is empty until
+ *   retrieved or if anonymous
+ */
+export const useReactions = (): Record<string, UserReaction> => {
+  const {user, isAuthenticated, getAccessTokenSilently}: Auth0ContextInterface = useAuth0();
+
+  const dispatch: Dispatch = useDispatch();
+  const reactionsData: ReactionsState = useSelector((state: RootState) => state.reactionsData);
+
+  const id: string | undefined = getUserId(user);
+  const isCachedForUser: boolean = !!id && reactionsData.userId === id;
+
+  useEffect(() => {
+    if (isAuthenticated && id && !isCachedForUser) {
+      getAccessTokenSilently().then(
+        (token: string) => fetchReactions(dispatch, token, id)
+      ).catch(() => undefined);
+    }
+  }, [isAuthenticated, id]);
 
-  return false;
+  return isCachedForUser ? reactionsData.reactions : {};
 };
 
 /**
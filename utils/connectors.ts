@@ -2,15 +2,89 @@
  * Utils around connecting with the backend.
  */
 
+import {ValidationError} from "joi";
 import moment from "moment-timezone";
 import {AnyAction, Dispatch} from "redux";
 import {ThunkDispatch} from "redux-thunk";
 import Artist from "../data/core/Artist";
+import AuditEntry, {AuditAction} from "../data/core/Audit";
+import Comment, {CommentRequest} from "../data/core/Comment";
+import Delivery from "../data/core/Delivery";
+import Digest from "../data/core/Digest";
+import {MediumChoice, MediumReviewItem} from "../data/core/Medium";
+import Page, {PageOrder} from "../data/core/Page";
+import UserReaction, {
+  FavouriteRequest,
+  ReactionEmoji,
+  ReactionRequest
+} from "../data/core/Reaction";
+import Revision, {RevisionHeader} from "../data/core/Revision";
+import {RoleDetails} from "../data/core/Role";
+import Season from "../data/core/Season";
 import Week from "../data/core/Week";
-import Work from "../data/core/Work";
-import {addArtists, addWeeks, addWorks} from "../store/actions";
-import {WorkSource} from "../store/enums";
-import {ArtistsState, RootState, WeeksState, WorksState} from "../store/state";
+import Work, {
+  CollaboratorRequest,
+  InvitationResponse,
+  WorksSort
+} from "../data/core/Work";
+import {
+  addArtists,
+  addReactions,
+  addRole,
+  addSeasons,
+  addWeeks,
+  addWorks,
+  addWorksPage
+} from "../store/actions";
+import {
+  ArtistsState,
+  ReactionsState,
+  RoleState,
+  RootState,
+  SeasonsState,
+  WeeksState,
+  WorksListing,
+  WorksState
+} from "../store/state";
+
+/**
+ * The error thrown when the backend is being called too often.
+ *
+ * It is a {@link ValidationError} so it can be shown with any other errors from a form.
+ */
+export class RateLimitError extends ValidationError {
+  /**
+   * When the user can try again.
+   */
+  readonly retryAt: Date;
+
+  /**
+   * @param {Date} retryAt when the user can try again
+   */
+  constructor(retryAt: Date) {
+    super("You're doing that too often.", [], null);
+
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Create the error to throw for a response that wasn't successful.
+ *
+ * @param {Response} response the response
+ * @returns {Promise<Error>} a {@link RateLimitError} for a 429, otherwise an error of the body
+ */
+const readResponseError = async (response: Response): Promise<Error> => {
+  if (response.status === 429) {
+    // The header is always given in seconds by our backend, but wait a minute if it's missing.
+
+    const retryAfter: number = parseInt(response.headers.get("Retry-After") || "") || 60;
+
+    return new RateLimitError(new Date(Date.now() + retryAfter * 1000));
+  }
+
+  return new Error(await response.text());
+};
 
 /**
  * Perform a generic GET request to the backend for aggregate types.
@@ -71,121 +145,319 @@ const fetchGeneric = async <T, R>(
   }
 };
 
+/**
+ * Fetch the role and permissions of the authenticated user.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {RoleState} roleData the role data
+ * @param {string} token the token
+ * @param {boolean | undefined} force whether to force a retrieval
+ */
+export const fetchRole = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  roleData: RoleState,
+  token: string,
+  force?: boolean,
+) => {
+  return fetchGeneric<RoleState, RoleDetails>(
+    "/api/role",
+    dispatch,
+    addRole,
+    roleData,
+    roleData.roleLastRetrieved,
+    token,
+    force,
+  );
+};
+
+export const fetchSeasons = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  seasonsData: SeasonsState,
+  token?: string,
+  force?: boolean,
+) => {
+  return fetchGeneric<SeasonsState, Record<string, Season>>(
+    "/api/seasons",
+    dispatch,
+    addSeasons,
+    seasonsData,
+    seasonsData.seasonsLastRetrieved,
+    token,
+    force,
+  );
+};
+
+/**
+ * Fetch the artists of a season.
+ *
+ * Only one season is cached at a time, so asking for a different season forces a retrieval.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {ArtistsState} artistsData the artists data
+ * @param {string | undefined} token the token
+ * @param {boolean | undefined} force whether to force a retrieval
+ * @param {number | undefined} year the year of the season, defaulting to the active season
+ */
 export const fetchArtists = async (
   dispatch: ThunkDispatch<RootState, never, AnyAction>,
   artistsData: ArtistsState,
   token?: string,
   force?: boolean,
+  year?: number,
 ) => {
   return fetchGeneric<ArtistsState, Record<string, Artist>>(
-    "/api/artists",
+    `/api/artists${year ? `?year=${year}` : ""}`,
     dispatch,
-    addArtists,
+    (artists: Record<string, Artist>) => addArtists(artists, year),
     artistsData,
     artistsData.artistsLastRetrieved,
     token,
-    force,
+    force || (year || null) !== artistsData.year,
   );
 };
 
+/**
+ * Fetch the weeks of a season.
+ *
+ * Only one season is cached at a time, so asking for a different season forces a retrieval.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {WeeksState} weeksData the weeks data
+ * @param {string | undefined} token the token
+ * @param {boolean | undefined} force whether to force a retrieval
+ * @param {number | undefined} year the year of the season, defaulting to the active season
+ */
 export const fetchWeeks = async (
   dispatch: ThunkDispatch<RootState, never, AnyAction>,
   weeksData: WeeksState,
   token?: string,
   force?: boolean,
+  year?: number,
 ) => {
   return fetchGeneric<WeeksState, Record<string, Week>>(
-    "/api/weeks",
+    `/api/weeks${year ? `?year=${year}` : ""}`,
     dispatch,
-    addWeeks,
+    (weeks: Record<string, Week>) => addWeeks(weeks, year),
     weeksData,
     weeksData.weeksLastRetrieved,
     token,
-    force,
+    force || (year || null) !== weeksData.year,
   );
 };
 
 /**
- * Fetch works, either entirely or via a search query.
+ * The filters and order of a listing of works.
+ */
+export interface WorksFilter {
+  /**
+   * The year of the season. If not provided, works from all seasons are listed unless a week is
+   * given, in which case the active season is used.
+   */
+  year?: number;
+
+  /**
+   * The week number.
+   */
+  week?: number;
+
+  /**
+   * The ID of the artist.
+   */
+  artistId?: string;
+
+  /**
+   * A tag the works must have, which is normalised by the backend.
+   */
+  tag?: string;
+
+  /**
+   * The key of a category or subtype of medium the works must be in, e.g., `digital/pixel-art`.
+   */
+  medium?: string;
+
+  /**
+   * Whether to list unapproved works only. Only staff can do this.
+   */
+  isUnapproved?: boolean;
+
+  /**
+   * The order of the listing, defaulting to newest or most loved first.
+   */
+  order?: PageOrder;
+
+  /**
+   * What the listing is sorted by, defaulting to submission time.
+   */
+  sort?: WorksSort;
+
+  /**
+   * The number of works per page.
+   */
+  limit?: number;
+}
+
+/**
+ * Create the key of a listing of works, which is also the query string used to retrieve it.
+ *
+ * @param {WorksFilter} filter the filter
+ * @returns {string} the key
+ */
+export const getWorksListingKey = (filter: WorksFilter): string => {
+  return Object.entries(filter).filter(
+    ([, value]) => value !== undefined && value !== false
+  ).map(
+    ([key, value]) => `${key}=${encodeURIComponent(value === true ? "1" : value.toString())}`
+  ).sort().join("&");
+};
+
+/**
+ * Create the key of a listing of search results.
+ *
+ * It can't collide with the key of a listing of works as it is prefixed.
  *
- * This endpoint could fetch stale or incomplete data due to race conditions. It is validated
- * once a day, which is how often race condition-affected works would need to be re-approved.
+ * @param {string} query the raw search query
+ * @param {number | undefined} limit the number of works per page
+ * @returns {string} the key
+ */
+export const getSearchListingKey = (query: string, limit?: number): string => {
+  return `search?q=${encodeURIComponent(query.trim())}${limit ? `&limit=${limit}` : ""}`;
+};
+
+/**
+ * Fetch the first or next page of any listing of works.
  *
  * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
  * @param {WorksState} worksData the works data
- * @param {string | undefined} query if provided, the query part, including the `?` character
+ * @param {string} key the key of the listing
+ * @param {string} endpoint the endpoint path including the query string
  * @param {string | undefined} token the token
- * @param {boolean | undefined} force whether to force a retrieval
+ * @param {boolean | undefined} isNextPage whether to retrieve the next page rather than the first
+ * @param {boolean | undefined} force whether to force a retrieval of the first page
  */
-export const fetchWorks = async (
+const fetchWorksListing = async (
   dispatch: ThunkDispatch<RootState, never, AnyAction>,
   worksData: WorksState,
-  query?: string,
+  key: string,
+  endpoint: string,
   token?: string,
+  isNextPage?: boolean,
   force?: boolean,
 ) => {
-  return fetchGeneric<WorksState, Record<string, Work>>(
-    `/api/works${query}`,
+  const listing: WorksListing | undefined = worksData.listings[key];
+
+  // There's nothing to do if every page has already been retrieved.
+
+  if (isNextPage && listing && !listing.nextCursor) {
+    return;
+  }
+
+  const cursor: string | null | undefined = isNextPage ? listing?.nextCursor : undefined;
+
+  return fetchGeneric<WorksState, Page<Work>>(
+    `${endpoint}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`,
     dispatch,
-    (works: Record<string, Work>) => addWorks(works, WorkSource.SEARCH),
+    (page: Page<Work>) => addWorksPage(key, page, !cursor),
     worksData,
-    worksData.worksLastRetrieved,
+    listing?.listingLastRetrieved || null,
     token,
-    force,
+    force || !!cursor,
   );
 };
 
-export const fetchWorkById = async (
+/**
+ * Fetch a page of a listing of works.
+ *
+ * The first page is cached like any other aggregate. Following pages are only retrieved on
+ * demand and are appended to the listing until there are no more.
+ *
+ * The indexes behind this endpoint are checked against every stored work and rebuilt once a
+ * day, so any listing that has drifted is corrected by then without re-approving works.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {WorksState} worksData the works data
+ * @param {WorksFilter} filter the filter of the listing
+ * @param {string | undefined} token the token
+ * @param {boolean | undefined} isNextPage whether to retrieve the next page rather than the first
+ * @param {boolean | undefined} force whether to force a retrieval of the first page
+ */
+export const fetchWorks = async (
   dispatch: ThunkDispatch<RootState, never, AnyAction>,
   worksData: WorksState,
-  id: string,
+  filter: WorksFilter,
   token?: string,
+  isNextPage?: boolean,
+  force?: boolean,
 ) => {
-  return fetchGeneric<WorksState, Record<string, Work>>(
-    `/api/work?id=${id}`,
-    dispatch,
-    (works: Record<string, Work>) => addWorks(works, WorkSource.DIRECT),
-    worksData,
-    null,
-    token,
-    true,
+  const key: string = getWorksListingKey(filter);
+
+  return fetchWorksListing(
+    dispatch, worksData, key, `/api/works?${key}`, token, isNextPage, force,
   );
 };
 
-export const fetchWorksByWeek = async (
+/**
+ * Fetch a page of works matching a search query, ranked by relevance.
+ *
+ * Search results are stored as a listing like any other so they can be paged through the same
+ * way.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {WorksState} worksData the works data
+ * @param {string} query the raw search query
+ * @param {number | undefined} limit the number of works per page
+ * @param {boolean | undefined} isNextPage whether to retrieve the next page rather than the first
+ */
+export const searchWorks = async (
   dispatch: ThunkDispatch<RootState, never, AnyAction>,
   worksData: WorksState,
-  week: number,
-  token?: string,
-  force?: boolean,
+  query: string,
+  limit?: number,
+  isNextPage?: boolean,
 ) => {
-  return fetchGeneric<WorksState, Record<string, Work>>(
-    `/api/works?week=${week}`,
-    dispatch,
-    (works: Record<string, Work>) => addWorks(works, WorkSource.BY_WEEK, week),
-    worksData,
-    worksData.weeksToRetrievalDate[week],
-    token,
-    force,
+  const key: string = getSearchListingKey(query, limit);
+
+  return fetchWorksListing(
+    dispatch, worksData, key, `/api/${key}`, undefined, isNextPage,
   );
 };
 
-export const fetchWorksByArtist = async (
+export const fetchWorkById = async (
   dispatch: ThunkDispatch<RootState, never, AnyAction>,
   worksData: WorksState,
-  artist: string,
+  id: string,
   token?: string,
-  force?: boolean,
 ) => {
   return fetchGeneric<WorksState, Record<string, Work>>(
-    `/api/works?artist=${artist}`,
+    `/api/works/${id}`,
     dispatch,
-    (works: Record<string, Work>) => addWorks(works, WorkSource.BY_ARTIST, artist),
+    addWorks,
     worksData,
-    worksData.artistsToRetrievalDate[artist],
+    null,
     token,
-    force,
+    true,
+  );
+};
+
+/**
+ * Find an artist by any name they hold, including one they renamed away from.
+ *
+ * @param {string} name the name, in any case
+ * @returns {Promise<Artist | undefined>} the artist, if anyone holds the name
+ */
+export const fetchArtistByName = async (name: string): Promise<Artist | undefined> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/artists/by-name/${encodeURIComponent(name)}`,
   );
+
+  if (response.ok) {
+    return response.json();
+  } else if (response.status === 404) {
+    return undefined;
+  }
+
+  throw await readResponseError(response);
 };
 
 export const putArtist = async (
@@ -194,8 +466,10 @@ export const putArtist = async (
   token: string,
   artist: Artist,
 ): Promise<void> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
   const response: Response = await fetch(
-    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/artist`,
+    `${baseUrl}/api/artists/${encodeURIComponent(artist.discordId)}`,
     {
       method: "put",
       headers: {
@@ -211,9 +485,35 @@ export const putArtist = async (
 
     artistsData.artists[artist.discordId] = artist;
 
-    dispatch(addArtists(artistsData.artists));
+    dispatch(addArtists(artistsData.artists, artistsData.year || undefined));
+  } else {
+    throw await readResponseError(response);
+  }
+};
+
+export const putSeason = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  season: Season,
+) => {
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/seasons/${season.year}`,
+    {
+      method: "put",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify(season),
+    }
+  );
+
+  if (response.ok) {
+    // The backend returns every season as activating one can archive the others.
+
+    dispatch(addSeasons(await response.json()));
   } else {
-    throw new Error(await response.text());
+    throw await readResponseError(response);
   }
 };
 
@@ -238,9 +538,9 @@ export const putWeeks = async (
   );
 
   if (response.ok) {
-    dispatch(addWeeks(weeks));
+    dispatch(addWeeks(weeks, weeksData.year || undefined));
   } else {
-    throw new Error(await response.text());
+    throw await readResponseError(response);
   }
 };
 
@@ -254,7 +554,7 @@ export const putWork = async (
   return work;
   //
   // const response: Response = await fetch(
-  //   `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/work`,
+  //   `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/works`,
   //   {
   //     method: "put",
   //     headers: {
@@ -273,13 +573,13 @@ export const putWork = async (
   //   if (returnedWork.id !== "noop") {
   //     worksData.works[returnedWork.id] = returnedWork;
   //
-  //     dispatch(addWorks(worksData.works, WorkSource.DIRECT));
+  //     dispatch(addWorks(worksData.works));
   //   }
   //
   //   return returnedWork;
   // }
   //
-  // throw new Error(await response.text());
+  // throw await readResponseError(response);
 };
 
 /**
@@ -293,7 +593,7 @@ export const uploadFile = async (
   token: string, file: File,
 ): Promise<string> => {
   const presignedUrlResponse: Response = await fetch(
-    `${process.env["NEXT_PUBLIC_API_URL"] || "http://localhost:8787"}/api/upload`,
+    `${process.env["NEXT_PUBLIC_API_URL"] || "http://localhost:8787"}/api/uploads`,
     {
       method: "post",
       headers: {
@@ -331,7 +631,7 @@ export const uploadFile = async (
     return `https://refresh-cdn.fiveclawd.com/file/${bucketName}${url.pathname}`;
   }
 
-  throw new Error(await presignedUrlResponse.text());
+  throw await readResponseError(presignedUrlResponse);
 };
 
 /**
@@ -349,7 +649,7 @@ export const approveWorks = async (
   worksData?: WorksState,
 ): Promise<void> => {
   const response: Response = await fetch(
-    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/approve`,
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/works/approve`,
     {
       method: "post",
       headers: {
@@ -370,18 +670,71 @@ export const approveWorks = async (
       Object.values(worksData.works).filter((work: Work) => works.includes(work.id)).forEach(
         (work: Work) => {
           work.isApproved = true;
+          work.changeRequest = undefined;
 
           newWorks[work.id] = work;
         }
       );
 
-      dispatch(addWorks(newWorks, WorkSource.DIRECT));
+      dispatch(addWorks(newWorks));
     }
   } else {
-    throw new Error(await response.text());
+    throw await readResponseError(response);
   }
 };
 
+/**
+ * Ask the backend to send some works back to their artists with the changes they need to make.
+ *
+ * @param {string} token the access token
+ * @param {string} requestedBy the ID of the staff member requesting the changes
+ * @param {string[]} works the works to reject by ID
+ * @param {string} reason what the artists need to fix
+ * @param {ThunkDispatch<RootState, never, AnyAction> | undefined} dispatch the dispatch
+ * @param {WorksState | undefined} worksData the state
+ */
+export const rejectWorks = async (
+  token: string,
+  requestedBy: string,
+  works: string[],
+  reason: string,
+  dispatch?: ThunkDispatch<RootState, never, AnyAction>,
+  worksData?: WorksState,
+): Promise<void> => {
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/works/reject`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify({ids: works, reason: reason}),
+    }
+  );
+
+  if (response.ok) {
+    if (dispatch && worksData) {
+      const newWorks: Record<string, Work> = {};
+      Object.values(worksData.works).filter((work: Work) => works.includes(work.id)).forEach(
+        (work: Work) => {
+          work.isApproved = false;
+          work.changeRequest = {
+            reason: reason.trim(),
+            requestedBy: requestedBy,
+            timestamp: new Date().toISOString(),
+          };
+
+          newWorks[work.id] = work;
+        }
+      );
+
+      dispatch(addWorks(newWorks));
+    }
+  } else {
+    throw await readResponseError(response);
+  }
+};
 
 /**
  * Ask the backend to delete some works.
@@ -398,7 +751,7 @@ export const deleteWorks = async (
   worksData?: WorksState,
 ): Promise<void> => {
   const response: Response = await fetch(
-    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/work`,
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/works`,
     {
       method: "DELETE",
       headers: {
@@ -421,9 +774,1011 @@ export const deleteWorks = async (
         }
       );
 
-      dispatch(addWorks(newWorks, WorkSource.DIRECT));
+      dispatch(addWorks(newWorks));
+    }
+  } else {
+    throw await readResponseError(response);
+  }
+};
+
+/**
+ * Ask the backend to restore some works from the trash.
+ *
+ * @param {string} token the access token
+ * @param {string[]} works the works to restore by ID
+ * @param {ThunkDispatch<RootState, never, AnyAction> | undefined} dispatch the dispatch
+ * @param {WorksState | undefined} worksData the state
+ */
+export const restoreWorks = async (
+  token: string,
+  works: string[],
+  dispatch?: ThunkDispatch<RootState, never, AnyAction>,
+  worksData?: WorksState,
+): Promise<void> => {
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/works/restore`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify(works),
+    }
+  );
+
+  if (response.ok) {
+    if (dispatch && worksData) {
+      const newWorks: Record<string, Work> = {};
+      Object.values(worksData.works).filter((work: Work) => works.includes(work.id)).forEach(
+        (work: Work) => {
+          newWorks[work.id] = {
+            ...work, isSoftDeleted: false, deletedBy: undefined, deletedTimestamp: undefined,
+          };
+        }
+      );
+
+      dispatch(addWorks(newWorks));
     }
   } else {
-    throw new Error(await response.text());
+    throw await readResponseError(response);
+  }
+};
+
+/**
+ * Fetch a page of the works in the trash, most recently deleted first.
+ *
+ * The trash isn't stored as it changes with every restore and permanent deletion.
+ *
+ * @param {string} token the access token
+ * @param {number | undefined} limit the number of works per page
+ * @param {string | undefined} cursor the cursor of the page, if not the first
+ * @returns {Promise<Page<Work>>} the page
+ */
+export const fetchTrash = async (
+  token: string,
+  limit?: number,
+  cursor?: string,
+): Promise<Page<Work>> => {
+  const parameters: URLSearchParams = new URLSearchParams();
+  if (limit) {
+    parameters.set("limit", limit.toString());
+  }
+
+  if (cursor) {
+    parameters.set("cursor", cursor);
+  }
+
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/trash?${parameters}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
   }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Ask the backend to permanently delete some works from the trash, including their files.
+ *
+ * @param {string} token the access token
+ * @param {string[]} works the works to delete by ID
+ * @returns {Promise<string[]>} the IDs of the works that were deleted
+ */
+export const purgeWorks = async (token: string, works: string[]): Promise<string[]> => {
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/trash`,
+    {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify(works),
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch a page of the revisions of a work, newest first.
+ *
+ * Only the artist of the work and staff can see its revisions.
+ *
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {string | undefined} cursor the cursor of the page, if not the first
+ * @returns {Promise<Page<RevisionHeader>>} the page
+ */
+export const fetchRevisions = async (
+  token: string,
+  workId: string,
+  cursor?: string,
+): Promise<Page<RevisionHeader>> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${encodeURIComponent(workId)}/revisions${
+      cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""
+    }`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch a single revision of a work.
+ *
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {string} revisionId the ID of the revision
+ * @returns {Promise<Revision>} the revision
+ */
+export const fetchRevision = async (
+  token: string,
+  workId: string,
+  revisionId: string,
+): Promise<Revision> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${encodeURIComponent(workId)}/revisions/${revisionId}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Ask the backend to revert a work to one of its revisions.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {string} revisionId the ID of the revision
+ * @returns {Promise<Work>} the reverted work
+ */
+export const revertWork = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  workId: string,
+  revisionId: string,
+): Promise<Work> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${encodeURIComponent(workId)}/revisions/${revisionId}/revert`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    const work: Work = await response.json();
+
+    dispatch(addWorks({[work.id]: work}));
+
+    return work;
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * A filter on the audit log.
+ */
+export interface AuditFilter {
+  /**
+   * The Discord ID of the user that took the actions.
+   */
+  actorId?: string;
+
+  /**
+   * The action that was taken.
+   */
+  action?: AuditAction;
+
+  /**
+   * The number of entries per page.
+   */
+  limit?: number;
+}
+
+/**
+ * Fetch a page of the audit log, newest first.
+ *
+ * The audit log is only of interest to staff while they are looking at it, so it isn't stored.
+ *
+ * @param {string} token the access token
+ * @param {AuditFilter} filter the filter
+ * @param {string | undefined} cursor the cursor of the page, if not the first
+ * @returns {Promise<Page<AuditEntry>>} the page
+ */
+export const fetchAuditLog = async (
+  token: string,
+  filter: AuditFilter,
+  cursor?: string,
+): Promise<Page<AuditEntry>> => {
+  const parameters: URLSearchParams = new URLSearchParams();
+  Object.entries({...filter, cursor: cursor}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      parameters.set(key, value.toString());
+    }
+  });
+
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/audit?${parameters}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch a page of the pending Discord deliveries, oldest first.
+ *
+ * @param {string} token the access token
+ * @param {boolean} isStuck whether to only list deliveries that are no longer retried
+ * @param {string | undefined} cursor the cursor of the page, if not the first
+ * @returns {Promise<Page<Delivery>>} the page
+ */
+export const fetchDeliveries = async (
+  token: string,
+  isStuck: boolean,
+  cursor?: string,
+): Promise<Page<Delivery>> => {
+  const parameters: URLSearchParams = new URLSearchParams({isStuck: isStuck.toString()});
+  if (cursor) {
+    parameters.set("cursor", cursor);
+  }
+
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/deliveries?${parameters}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Ask the backend to attempt some Discord deliveries again straight away.
+ *
+ * @param {string} token the access token
+ * @param {string[]} keys the keys of the deliveries
+ * @returns {Promise<string[]>} the keys of the deliveries that succeeded
+ */
+export const retryDeliveries = async (token: string, keys: string[]): Promise<string[]> => {
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/deliveries/retry`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify(keys),
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch the showcase digest of a week.
+ *
+ * @param {string} token the access token
+ * @param {number} year the year of the season
+ * @param {number} week the week number
+ * @returns {Promise<Digest>} the digest
+ */
+export const fetchDigest = async (token: string, year: number, week: number): Promise<Digest> => {
+  const response: Response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787"}/api/digests/${year}/${week}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Post the showcase digest of a week to Discord.
+ *
+ * @param {string} token the access token
+ * @param {number} year the year of the season
+ * @param {number} week the week number
+ * @returns {Promise<string[]>} the Discord IDs of the messages that were posted
+ */
+export const postDigest = async (token: string, year: number, week: number): Promise<string[]> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/digests/${year}/${week}/discord`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch how the authenticated user has reacted to every work.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {string} userId the Discord ID of the user
+ */
+export const fetchReactions = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  userId: string,
+): Promise<void> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/reactions`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    dispatch(addReactions(userId, await response.json()));
+
+    return;
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Send a change to the authenticated user's reaction to a work, then cache the work's new counts
+ * and the changed reaction.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {ReactionsState} reactionsData the reactions data
+ * @param {string} token the access token
+ * @param {string} userId the Discord ID of the user
+ * @param {string} workId the ID of the work
+ * @param {string} path the path of the endpoint under the work
+ * @param {ReactionRequest | FavouriteRequest} request the request
+ * @param {UserReaction} reaction the reaction as it will be once the request succeeds
+ */
+const sendReaction = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  reactionsData: ReactionsState,
+  token: string,
+  userId: string,
+  workId: string,
+  path: string,
+  request: ReactionRequest | FavouriteRequest,
+  reaction: UserReaction,
+): Promise<void> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${encodeURIComponent(workId)}/${path}`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    }
+  );
+
+  if (response.ok) {
+    dispatch(addWorks(await response.json()));
+    dispatch(addReactions(userId, {...reactionsData.reactions, [workId]: reaction}));
+
+    return;
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Add or remove the authenticated user's reaction with an emoji to a work.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {ReactionsState} reactionsData the reactions data
+ * @param {string} token the access token
+ * @param {string} userId the Discord ID of the user
+ * @param {string} workId the ID of the work
+ * @param {ReactionEmoji} emoji the emoji
+ * @param {boolean} isReacting whether to add the reaction rather than remove it
+ */
+export const reactToWork = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  reactionsData: ReactionsState,
+  token: string,
+  userId: string,
+  workId: string,
+  emoji: ReactionEmoji,
+  isReacting: boolean,
+): Promise<void> => {
+  const reaction: UserReaction = reactionsData.reactions[workId] || {emojis: []};
+  const emojis: ReactionEmoji[] = reaction.emojis.filter(
+    (current: ReactionEmoji) => current !== emoji
+  );
+
+  await sendReaction(
+    dispatch,
+    reactionsData,
+    token,
+    userId,
+    workId,
+    "react",
+    {emoji: emoji, isReacting: isReacting},
+    {...reaction, emojis: isReacting ? [...emojis, emoji] : emojis},
+  );
+};
+
+/**
+ * Add a work to or remove a work from the authenticated user's favourites.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {ReactionsState} reactionsData the reactions data
+ * @param {string} token the access token
+ * @param {string} userId the Discord ID of the user
+ * @param {string} workId the ID of the work
+ * @param {boolean} isFavourite whether the work should be a favourite
+ */
+export const favouriteWork = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  reactionsData: ReactionsState,
+  token: string,
+  userId: string,
+  workId: string,
+  isFavourite: boolean,
+): Promise<void> => {
+  const reaction: UserReaction = reactionsData.reactions[workId] || {emojis: []};
+
+  await sendReaction(
+    dispatch,
+    reactionsData,
+    token,
+    userId,
+    workId,
+    "favourite",
+    {isFavourite: isFavourite},
+    {
+      ...reaction,
+      favouritedTimestamp: isFavourite ? (
+        reaction.favouritedTimestamp || new Date().toISOString()
+      ) : undefined,
+    },
+  );
+};
+
+/**
+ * Fetch a page of the authenticated user's favourite works, most recently favourited first.
+ *
+ * The works are cached so their reactions can be shown, but the listing isn't.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {number | undefined} limit the number of works per page
+ * @param {string | undefined} cursor the cursor of the page, if not the first
+ * @returns {Promise<Page<Work>>} the page
+ */
+export const fetchFavourites = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  limit?: number,
+  cursor?: string,
+): Promise<Page<Work>> => {
+  const parameters: URLSearchParams = new URLSearchParams();
+  if (limit) {
+    parameters.set("limit", limit.toString());
+  }
+
+  if (cursor) {
+    parameters.set("cursor", cursor);
+  }
+
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/favourites?${parameters}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    const page: Page<Work> = await response.json();
+
+    dispatch(addWorks(Object.fromEntries(page.items.map((work: Work) => [work.id, work]))));
+
+    return page;
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch the comments on a work, oldest first.
+ *
+ * Comments aren't stored as they are only shown on the page of their work.
+ *
+ * @param {string} workId the ID of the work
+ * @param {string | undefined} token the access token, which shows hidden comments to staff
+ * @returns {Promise<Comment[]>} the comments, including replies
+ */
+export const fetchComments = async (workId: string, token?: string): Promise<Comment[]> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${encodeURIComponent(workId)}/comments`, {headers: headers},
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Send a change to the comments on a work.
+ *
+ * @param {string} token the access token
+ * @param {string} method the HTTP method
+ * @param {string} path the path of the endpoint under the comments of the work
+ * @param {unknown} body the body of the request, if any
+ * @returns {Promise<Comment[]>} every comment on the work after the change
+ */
+const sendCommentRequest = async (
+  token: string, method: string, path: string, body?: unknown,
+): Promise<Comment[]> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${path}`,
+    {
+      method: method,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Write a comment on a work or reply to a comment on it.
+ *
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {CommentRequest} request the comment
+ * @returns {Promise<Comment[]>} every comment on the work after the change
+ */
+export const postComment = async (
+  token: string, workId: string, request: CommentRequest,
+): Promise<Comment[]> => {
+  return sendCommentRequest(token, "post", `${encodeURIComponent(workId)}/comments`, request);
+};
+
+/**
+ * Edit the body of one of the authenticated user's comments.
+ *
+ * @param {string} token the access token
+ * @param {Comment} comment the comment
+ * @param {string} body the new body
+ * @returns {Promise<Comment[]>} every comment on the work after the change
+ */
+export const editComment = async (
+  token: string, comment: Comment, body: string,
+): Promise<Comment[]> => {
+  return sendCommentRequest(
+    token, "put", `${encodeURIComponent(comment.workId)}/comments/${comment.id}`, {body: body},
+  );
+};
+
+/**
+ * Delete a comment, which staff can do to anyone's comment.
+ *
+ * @param {string} token the access token
+ * @param {Comment} comment the comment
+ * @returns {Promise<Comment[]>} every comment on the work after the change
+ */
+export const deleteComment = async (token: string, comment: Comment): Promise<Comment[]> => {
+  return sendCommentRequest(
+    token, "delete", `${encodeURIComponent(comment.workId)}/comments/${comment.id}`,
+  );
+};
+
+/**
+ * Hide a comment from everyone but staff, or show it again.
+ *
+ * @param {string} token the access token
+ * @param {Comment} comment the comment
+ * @param {boolean} isHidden whether the comment should be hidden
+ * @returns {Promise<Comment[]>} every comment on the work after the change
+ */
+export const setCommentVisibility = async (
+  token: string, comment: Comment, isHidden: boolean,
+): Promise<Comment[]> => {
+  return sendCommentRequest(
+    token,
+    "post",
+    `${encodeURIComponent(comment.workId)}/comments/${comment.id}/visibility`,
+    {isHidden: isHidden},
+  );
+};
+
+/**
+ * Send a change to the artists credited on a work, then cache the changed work.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {string} method the HTTP method
+ * @param {string} workId the ID of the work
+ * @param {string} path the path of the endpoint under the work
+ * @param {unknown} body the body of the request, if any
+ */
+const sendCreditsChange = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  method: string,
+  workId: string,
+  path: string,
+  body?: unknown,
+): Promise<void> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/works/${encodeURIComponent(workId)}/${path}`,
+    {
+      method: method,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    }
+  );
+
+  if (response.ok) {
+    dispatch(addWorks(await response.json()));
+
+    return;
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Invite an artist to be credited on a work.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {string} artistId the Discord ID of the invited artist
+ */
+export const inviteCollaborator = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  workId: string,
+  artistId: string,
+): Promise<void> => {
+  const request: CollaboratorRequest = {artistId: artistId};
+
+  await sendCreditsChange(dispatch, token, "post", workId, "collaborators", request);
+};
+
+/**
+ * Take an artist off a work, whether they accepted their invitation or not.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {string} artistId the Discord ID of the artist, which can be the user's own
+ */
+export const removeCollaborator = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  workId: string,
+  artistId: string,
+): Promise<void> => {
+  await sendCreditsChange(
+    dispatch, token, "delete", workId, `collaborators/${encodeURIComponent(artistId)}`,
+  );
+};
+
+/**
+ * Accept or decline the authenticated user's invitation to be credited on a work.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @param {string} workId the ID of the work
+ * @param {boolean} isAccepting whether to accept rather than decline
+ */
+export const answerInvitation = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+  workId: string,
+  isAccepting: boolean,
+): Promise<void> => {
+  const request: InvitationResponse = {isAccepting: isAccepting};
+
+  await sendCreditsChange(dispatch, token, "post", workId, "invitation", request);
+};
+
+/**
+ * Fetch every work the authenticated user is invited to be credited on, then cache them.
+ *
+ * @param {ThunkDispatch<RootState, never, AnyAction>} dispatch the dispatch
+ * @param {string} token the access token
+ * @returns {Promise<Work[]>} the works
+ */
+export const fetchInvitations = async (
+  dispatch: ThunkDispatch<RootState, never, AnyAction>,
+  token: string,
+): Promise<Work[]> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/invitations`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    const works: Record<string, Work> = await response.json();
+
+    dispatch(addWorks(works));
+
+    return Object.values(works);
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch every tag in use with the number of works that have it.
+ *
+ * Tags aren't stored as they are only used for suggestions and browsing.
+ *
+ * @param {string | undefined} token the access token, which counts unapproved works for staff
+ * @returns {Promise<Record<string, number>>} a map of tags to the number of works with each
+ */
+export const fetchTags = async (token?: string): Promise<Record<string, number>> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const response: Response = await fetch(`${baseUrl}/api/tags`, {headers: headers});
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Rename a tag on every work that has it, which merges it into the new tag if that exists.
+ *
+ * Cached works aren't changed, so listings show the old tag until they're retrieved again.
+ *
+ * @param {string} token the access token
+ * @param {string} tag the tag to rename
+ * @param {string} name the new name of the tag
+ * @returns {Promise<Record<string, number>>} every tag after the change, with its count
+ */
+export const renameTag = async (
+  token: string, tag: string, name: string,
+): Promise<Record<string, number>> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/tags/${encodeURIComponent(tag)}`,
+    {
+      method: "put",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify({name: name}),
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch the number of approved works in each category and subtype of medium.
+ *
+ * @param {number | undefined} year the year of the season, if not counting every season
+ * @returns {Promise<Record<string, number>>} a map of the keys of mediums to their counts
+ */
+export const fetchMediumCounts = async (year?: number): Promise<Record<string, number>> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/mediums${year ? `?year=${year}` : ""}`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Fetch the works with a medium written before the taxonomy, with the medium each likely maps to.
+ *
+ * @param {string} token the access token
+ * @returns {Promise<MediumReviewItem[]>} the works to review, oldest first
+ */
+export const fetchMediumReview = async (token: string): Promise<MediumReviewItem[]> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/mediums/review`,
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
+};
+
+/**
+ * Give works with a medium written before the taxonomy a medium from it.
+ *
+ * Cached works aren't changed, so listings show the old medium until they're retrieved again.
+ *
+ * @param {string} token the access token
+ * @param {Record<string, MediumChoice>} choices a map of the IDs of works to their mediums
+ * @returns {Promise<MediumReviewItem[]>} the works that are still to be reviewed
+ */
+export const migrateMediums = async (
+  token: string, choices: Record<string, MediumChoice>,
+): Promise<MediumReviewItem[]> => {
+  const baseUrl: string = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8787";
+
+  const response: Response = await fetch(
+    `${baseUrl}/api/mediums/migrate`,
+    {
+      method: "post",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify(choices),
+    }
+  );
+
+  if (response.ok) {
+    return response.json();
+  }
+
+  throw await readResponseError(response);
 };
@@ -117,3 +117,26 @@ export const getNatureOfNextEvent = (): string => {
 
   return nature;
 };
+
+/**
+ * The format of the value of a `datetime-local` input.
+ */
+const DATETIME_INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+
+/**
+ * @param {string | undefined} isoDate an ISO date, if there is one
+ * @returns {string} the value of a `datetime-local` input showing the date in Melbourne
+ */
+export const toMelbourneInput = (isoDate?: string): string => {
+  return isoDate ? moment(isoDate).tz("Australia/Melbourne").format(DATETIME_INPUT_FORMAT) : "";
+};
+
+/**
+ * @param {string} value the value of a `datetime-local` input in Melbourne time
+ * @returns {string | undefined} the ISO date it represents, if the value is a valid date
+ */
+export const fromMelbourneInput = (value: string): string | undefined => {
+  const date: moment.Moment = moment.tz(value, DATETIME_INPUT_FORMAT, true, "Australia/Melbourne");
+
+  return date.isValid() ? date.toISOString() : undefined;
+};